@@ -5,12 +5,16 @@ import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
+import SharedReport from "./pages/SharedReport";
+import AdminLeadValues from "./pages/AdminLeadValues";
 
 function Router() {
   // make sure to consider if you need authentication for certain routes
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/r/:token"} component={SharedReport} />
+      <Route path={"/admin/lead-values"} component={AdminLeadValues} />
       <Route path={"/404"} component={NotFound} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,201 @@
+/**
+ * Negotiation letter for the lead's quote
+ *
+ * Loads (or writes) the letter asking the contractor for the changes the
+ * scan found, lets the homeowner edit it, and hands it off as a text file
+ * download or a pre-filled email.
+ */
+
+import { useEffect, useState } from 'react';
+import { Check, Download, FileText, Loader2, Mail, RefreshCw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { pushDL } from '@/lib/tracking';
+import { trpc } from '@/lib/trpc';
+import type { NegotiationLetter } from '@/types/vault';
+
+interface NegotiationLetterEditorProps {
+  eventId: string;
+  leadId: string;
+  scanId?: string;
+  className?: string;
+}
+
+function mailtoHref(subject: string, body: string): string {
+  return `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+}
+
+function downloadText(fileName: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function NegotiationLetterEditor({ eventId, leadId, scanId, className = '' }: NegotiationLetterEditorProps) {
+  const [letter, setLetter] = useState<NegotiationLetter | null>(null);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const letterQuery = trpc.alpha.negotiationLetter.useQuery({ leadId, scanId }, { refetchOnWindowFocus: false });
+  const generateMutation = trpc.alpha.generateNegotiationLetter.useMutation();
+  const saveMutation = trpc.alpha.saveNegotiationLetter.useMutation();
+
+  const isDirty = letter !== null && (subject !== letter.subject || body !== letter.body);
+
+  const showLetter = (next: NegotiationLetter) => {
+    setLetter(next);
+    setSubject(next.subject);
+    setBody(next.body);
+  };
+
+  const generate = async (regenerate: boolean) => {
+    setError(null);
+    const result = await generateMutation.mutateAsync({ leadId, scanId, regenerate });
+
+    if (!result.success || !result.letter) {
+      setError(result.message);
+      return;
+    }
+
+    showLetter(result.letter);
+    pushDL({
+      event: 'alpha_letter_generated',
+      event_id: eventId,
+      lead_id: leadId,
+      request_count: result.letter.requests.length,
+      regenerated: regenerate,
+    });
+  };
+
+  // Show the stored letter once it loads
+  useEffect(() => {
+    if (letterQuery.data?.letter) {
+      showLetter(letterQuery.data.letter);
+    }
+  }, [letterQuery.data]);
+
+  const handleSave = async () => {
+    if (!letter) return;
+    setError(null);
+    const result = await saveMutation.mutateAsync({ leadId, letterId: letter.id, subject, body });
+
+    if (!result.success || !result.letter) {
+      setError(result.message);
+      return;
+    }
+
+    showLetter(result.letter);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleSend = (channel: 'download' | 'email') => {
+    pushDL({
+      event: 'alpha_letter_sent',
+      event_id: eventId,
+      lead_id: leadId,
+      channel,
+      edited: isDirty || Boolean(letter?.edited),
+    });
+    if (channel === 'download') {
+      downloadText('contract-change-request.txt', `${subject}\n\n${body}\n`);
+    }
+  };
+
+  if (!letter) {
+    return (
+      <div className={`text-center ${className}`}>
+        {letterQuery.isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="w-6 h-6 text-cyan-400 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-400 mb-4">
+              We'll draft a polite letter asking the contractor for each change your report found. You can edit it before sending.
+            </p>
+            <Button
+              onClick={() => generate(false)}
+              disabled={generateMutation.isPending}
+              className="bg-cyan-500 hover:bg-cyan-600 text-white"
+            >
+              {generateMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+              Write My Letter
+            </Button>
+            {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      {/* What the letter asks for */}
+      <ul className="mb-4 space-y-1">
+        {letter.requests.map((request, index) => (
+          <li key={index} className="text-xs text-gray-400">• {request.finding}</li>
+        ))}
+      </ul>
+
+      <input
+        value={subject}
+        onChange={event => setSubject(event.target.value)}
+        aria-label="Email subject"
+        className="w-full mb-3 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white focus:border-cyan-400 outline-none"
+      />
+      <textarea
+        value={body}
+        onChange={event => setBody(event.target.value)}
+        aria-label="Letter"
+        rows={14}
+        className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-gray-200 leading-relaxed focus:border-cyan-400 outline-none resize-y"
+      />
+
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <Button
+          onClick={handleSave}
+          disabled={!isDirty || saveMutation.isPending}
+          size="sm"
+          variant="outline"
+          className="border-white/20 text-white hover:bg-white/10"
+        >
+          {saved ? <Check className="w-4 h-4 mr-2 text-emerald-400" /> : <Save className="w-4 h-4 mr-2" />}
+          {saved ? 'Saved' : 'Save Edits'}
+        </Button>
+        <button
+          onClick={() => generate(true)}
+          disabled={generateMutation.isPending}
+          className="inline-flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          <RefreshCw className={`w-3 h-3 ${generateMutation.isPending ? 'animate-spin' : ''}`} />
+          Start over
+        </button>
+
+        <div className="flex gap-2 ml-auto">
+          <Button
+            onClick={() => handleSend('download')}
+            size="sm"
+            variant="outline"
+            className="border-white/20 text-white hover:bg-white/10"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </Button>
+          <Button asChild size="sm" className="bg-cyan-500 hover:bg-cyan-600 text-white">
+            <a href={mailtoHref(subject, body)} onClick={() => handleSend('email')}>
+              <Mail className="w-4 h-4 mr-2" />
+              Email It
+            </a>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Per-opening price breakdown for a scan
+ *
+ * Groups the quote's line items by opening type next to the typical price
+ * range, and calls out individual items priced far outside it (a blended
+ * price per opening can hide one badly priced slider).
+ */
+
+import { AlertTriangle, LayoutGrid } from 'lucide-react';
+import type { LineItemOutlier, PriceRange, ScanResult } from '@/types/vault';
+
+interface OpeningBreakdownProps {
+  results: ScanResult;
+  className?: string;
+}
+
+function formatDollars(value: number | null): string {
+  return value === null ? '—' : `$${Math.round(value).toLocaleString()}`;
+}
+
+function formatRange(range: PriceRange | null): string {
+  return range ? `${formatDollars(range.low)}–${formatDollars(range.high)}` : '—';
+}
+
+function describeOutlier(outlier: LineItemOutlier): string {
+  const position = outlier.direction === 'high' ? 'far above' : 'far below';
+  const page = outlier.page ? ` (page ${outlier.page})` : '';
+  return `${outlier.description}${page}: ${formatDollars(outlier.unitPrice)} each, ${position} the typical ${formatRange(outlier.expectedRange)}`;
+}
+
+export function OpeningBreakdown({ results, className = '' }: OpeningBreakdownProps) {
+  const rows = results.openingBreakdown ?? [];
+  const outliers = results.priceOutliers ?? [];
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h4 className="flex items-center gap-2 text-gray-200 font-medium mb-3">
+        <LayoutGrid className="w-5 h-5 text-gray-400" />
+        Price by Opening Type
+      </h4>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="pb-2 font-normal">Type</th>
+            <th className="pb-2 font-normal text-right">Qty</th>
+            <th className="pb-2 font-normal text-right">Avg / unit</th>
+            <th className="pb-2 font-normal text-right">Typical</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const flagged = outliers.some(outlier => outlier.openingType === row.openingType);
+            return (
+              <tr key={row.openingType} className={flagged ? 'text-red-300' : 'text-gray-300'}>
+                <td className="py-1">{row.label}</td>
+                <td className="py-1 text-right">{row.quantity}</td>
+                <td className="py-1 text-right">{formatDollars(row.averageUnitPrice)}</td>
+                <td className="py-1 text-right text-gray-500">{formatRange(row.expectedRange)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {results.benchmarkRegion && (
+        <p className="mt-2 text-xs text-gray-500">Typical ranges for {results.benchmarkRegion}.</p>
+      )}
+
+      {outliers.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {outliers.map(outlier => (
+            <li key={outlier.itemIndex} className="flex items-start gap-1.5 text-xs text-red-300">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              {describeOutlier(outlier)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
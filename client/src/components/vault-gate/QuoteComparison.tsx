@@ -0,0 +1,147 @@
+/**
+ * Side-by-side comparison of a lead's quotes
+ *
+ * Lines up pillar scores, price per opening, deposit, warranty terms and
+ * missing items per quote, highlights the recommended quote and lists what
+ * to negotiate on each one.
+ */
+
+import { Award, Handshake, ShieldAlert } from 'lucide-react';
+import type { ComparedQuote, QuoteComparison as QuoteComparisonData, ScanPillar } from '@/types/vault';
+
+interface QuoteComparisonProps {
+  comparison: QuoteComparisonData;
+  className?: string;
+}
+
+const PILLAR_ROWS: Array<{ pillar: ScanPillar; label: string }> = [
+  { pillar: 'safety', label: 'Safety & code' },
+  { pillar: 'scope', label: 'Install scope' },
+  { pillar: 'price', label: 'Price fairness' },
+  { pillar: 'fine_print', label: 'Fine print' },
+  { pillar: 'warranty', label: 'Warranty' },
+];
+
+function formatDollars(value: number | null): string {
+  return value === null ? '—' : `$${Math.round(value).toLocaleString()}`;
+}
+
+function describeWarranty(quote: ComparedQuote): string {
+  const { warranty } = quote;
+  if (!warranty.mentioned) return 'None stated';
+
+  const term = warranty.lifetime
+    ? 'Lifetime'
+    : warranty.durationYears !== null ? `${warranty.durationYears} yr` : 'Term unclear';
+  const extras = [warranty.labor ? 'labor' : 'no labor', warranty.transferable ? 'transferable' : null].filter(Boolean);
+  return `${term} (${extras.join(', ')})`;
+}
+
+export function QuoteComparison({ comparison, className = '' }: QuoteComparisonProps) {
+  const { quotes, bestByPillar, recommendation, missingFromAll } = comparison;
+
+  const rows: Array<{ label: string; value: (quote: ComparedQuote) => string; best?: ScanPillar }> = [
+    { label: 'Overall score', value: quote => String(quote.overallScore) },
+    ...PILLAR_ROWS.map(({ pillar, label }) => ({
+      label,
+      value: (quote: ComparedQuote) => String(quote.pillars[pillar]),
+      best: pillar,
+    })),
+    { label: 'Price / opening', value: quote => quote.pricePerOpening },
+    { label: 'Total price', value: quote => formatDollars(quote.totalPrice) },
+    { label: 'Deposit', value: quote => (quote.depositPercentage === null ? 'Not stated' : `${quote.depositPercentage}%`) },
+    { label: 'Warranty', value: describeWarranty },
+    { label: 'Missing items', value: quote => String(quote.missingItems.length) },
+  ];
+
+  return (
+    <div className={className}>
+      {/* Recommendation */}
+      <div className="p-4 rounded-xl border border-emerald-500/30 bg-emerald-500/10 mb-6">
+        <h4 className="flex items-center gap-2 text-emerald-300 font-semibold mb-2">
+          <Award className="w-5 h-5" />
+          Strongest quote: {recommendation.label}
+        </h4>
+        <ul className="space-y-1 text-sm text-gray-300">
+          {recommendation.reasons.map(reason => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Side-by-side table */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="pb-2 font-normal" />
+              {quotes.map(quote => (
+                <th
+                  key={quote.scanId}
+                  className={`pb-2 px-2 font-medium text-right ${
+                    quote.scanId === recommendation.scanId ? 'text-emerald-300' : 'text-gray-300'
+                  }`}
+                >
+                  {quote.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className="border-t border-white/5">
+                <td className="py-1.5 text-gray-400">{row.label}</td>
+                {quotes.map(quote => {
+                  const isBest = row.best !== undefined && bestByPillar[row.best] === quote.scanId;
+                  return (
+                    <td
+                      key={quote.scanId}
+                      className={`py-1.5 px-2 text-right ${isBest ? 'text-emerald-300 font-semibold' : 'text-gray-300'}`}
+                    >
+                      {row.value(quote)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missingFromAll.length > 0 && (
+        <div className="mt-4">
+          <h4 className="flex items-center gap-2 text-gray-200 font-medium mb-2">
+            <ShieldAlert className="w-5 h-5 text-red-400" />
+            Missing from every quote
+          </h4>
+          <ul className="space-y-1 text-xs text-red-300">
+            {missingFromAll.map(item => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* What to negotiate, per quote */}
+      <div className="mt-6 grid sm:grid-cols-2 gap-4">
+        {quotes.map(quote => (
+          <div key={quote.scanId} className="p-4 rounded-xl border border-white/10 bg-white/5">
+            <h4 className="flex items-center gap-2 text-gray-200 font-medium mb-2">
+              <Handshake className="w-5 h-5 text-cyan-400" />
+              Negotiate with {quote.label}
+            </h4>
+            {quote.negotiationPoints.length > 0 ? (
+              <ul className="space-y-1.5 text-xs text-gray-300 list-disc pl-4">
+                {quote.negotiationPoints.map(point => (
+                  <li key={point}>{point}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500">Nothing stands out — confirm the terms in writing before signing.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Share links for the lead's report
+ *
+ * Creates read-only links (without the homeowner's contact details) to send
+ * to a spouse or a second contractor, and lists the active ones with their
+ * view counts so they can be copied again or turned off.
+ */
+
+import { useState } from 'react';
+import { Check, Copy, Eye, Link2, Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { pushDL } from '@/lib/tracking';
+import { trpc } from '@/lib/trpc';
+import type { ReportShareLink } from '@/types/vault';
+
+interface ShareReportLinksProps {
+  eventId: string;
+  leadId: string;
+  scanId?: string;
+  className?: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+function shareUrl(link: ReportShareLink): string {
+  return `${window.location.origin}/r/${link.token}`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function ShareReportLinks({ eventId, leadId, scanId, className = '' }: ShareReportLinksProps) {
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const linksQuery = trpc.alpha.shareLinks.useQuery({ leadId });
+  const createMutation = trpc.alpha.createShareLink.useMutation();
+  const revokeMutation = trpc.alpha.revokeShareLink.useMutation();
+
+  const links: ReportShareLink[] = linksQuery.data?.links ?? [];
+
+  const copyLink = async (link: ReportShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000);
+    } catch {
+      setError('Could not copy. Select the link and copy it instead.');
+    }
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    const result = await createMutation.mutateAsync({ leadId, scanId, expiresInDays });
+
+    if (!result.success || !result.link) {
+      setError(result.message);
+      return;
+    }
+
+    pushDL({
+      event: 'alpha_report_shared',
+      event_id: eventId,
+      lead_id: leadId,
+      expires_in_days: expiresInDays,
+    });
+    await linksQuery.refetch();
+    await copyLink(result.link);
+  };
+
+  const handleRevoke = async (link: ReportShareLink) => {
+    setError(null);
+    await revokeMutation.mutateAsync({ leadId, shareId: link.id });
+    await linksQuery.refetch();
+  };
+
+  return (
+    <div className={className}>
+      <p className="text-sm text-gray-400 mb-4">
+        Anyone with the link can read your report (without your name, phone or email) until it expires.
+      </p>
+
+      {/* New link */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-sm text-gray-300">Expires after</span>
+        {EXPIRY_OPTIONS.map(option => (
+          <button
+            key={option.days}
+            onClick={() => setExpiresInDays(option.days)}
+            className={`px-3 py-1 rounded-full border text-xs transition-colors ${
+              expiresInDays === option.days
+                ? 'border-cyan-400 bg-cyan-500/10 text-cyan-300'
+                : 'border-white/10 text-gray-400 hover:border-white/20'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <Button
+          onClick={handleCreate}
+          disabled={createMutation.isPending}
+          size="sm"
+          className="ml-auto bg-cyan-500 hover:bg-cyan-600 text-white"
+        >
+          {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+          Create &amp; Copy Link
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {/* Active links */}
+      {links.length > 0 && (
+        <ul className="space-y-2">
+          {links.map(link => (
+            <li key={link.id} className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-white truncate">{shareUrl(link)}</p>
+                <p className="flex items-center gap-3 text-xs text-gray-500 mt-1">
+                  <span className="flex items-center gap-1">
+                    <Eye className="w-3 h-3" />
+                    {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                  </span>
+                  <span>Expires {formatDate(link.expiresAt)}</span>
+                </p>
+              </div>
+              <button
+                onClick={() => copyLink(link)}
+                className="p-2 rounded-lg text-gray-400 hover:text-cyan-300 hover:bg-white/5"
+                aria-label="Copy link"
+              >
+                {copiedId === link.id ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={() => handleRevoke(link)}
+                disabled={revokeMutation.isPending}
+                className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/5"
+                aria-label="Turn off link"
+              >
+                <XCircle className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -51,9 +51,11 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
     branchChoice,
     formValues,
     scanResults,
+    fileMetadata,
     isExitInterceptActive,
     exitFromState,
     goToState,
+    restoreState,
     setLeadId,
     setBranch,
     setLeadForm,
@@ -77,6 +79,7 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
     updateCurrentStep,
     updateBranchChoice,
     updateScanResults: updateSessionScanResults,
+    updateScanJobId,
     startOver,
     resumeSession,
   } = sessionPersistence;
@@ -85,7 +88,7 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
   const attribution = useAttribution();
   
   // File state for scanner
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [storageMode, setStorageMode] = useState<'base64' | 'storage'>('base64');
   
   // Track if we've loaded session
@@ -121,7 +124,9 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
       if (session.leadId && canResume) {
         // Resume from saved session
         setLeadId(session.leadId);
-        goToState(session.currentStep);
+        // Refreshed mid-upload (no job yet) - the file is gone, so ask for it again
+        const interruptedUpload = session.currentStep === 'analysis_theater' && !session.scanJobId;
+        restoreState(interruptedUpload ? 'scanner_upload' : session.currentStep);
         if (session.branchChoice) {
           setBranch(session.branchChoice);
         }
@@ -134,7 +139,7 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
       }
       sessionLoaded.current = true;
     }
-  }, [isOpen, sessionLoading, session, canResume, setLeadId, goToState, setBranch, setLeadForm, setScanResults]);
+  }, [isOpen, sessionLoading, session, canResume, setLeadId, restoreState, setBranch, setLeadForm, setScanResults]);
 
   // Save session on state changes
   useEffect(() => {
@@ -221,8 +226,8 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
     goToState('vault_confirmation');
   };
 
-  const handleFileUpload = (file: File, metadata: FileMetadata, mode: 'base64' | 'storage') => {
-    setUploadedFile(file);
+  const handleFileUpload = (files: File[], metadata: FileMetadata, mode: 'base64' | 'storage') => {
+    setUploadedFiles(files);
     setStorageMode(mode);
     setFileMetadata(metadata);
     goToState('analysis_theater');
@@ -231,6 +236,11 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
   const handleAnalysisComplete = (results: ScanResult) => {
     setScanResults(results);
     updateSessionScanResults(results);
+    updateScanJobId(undefined);
+    // PDF page counts are only known once the server has read the document
+    if (fileMetadata && results.pageCount) {
+      setFileMetadata({ ...fileMetadata, pages: results.pageCount });
+    }
     goToState('result_display');
     
     pushDL({
@@ -244,6 +254,7 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
 
   const handleAnalysisError = (error: string) => {
     console.error('[VaultModal] Analysis error:', error);
+    updateScanJobId(undefined);
     // Go back to upload with error
     goToState('scanner_upload');
   };
@@ -343,12 +354,15 @@ export function VaultLeadGateModal({ isOpen, onClose }: VaultLeadGateModalProps)
         );
 
       case 'analysis_theater':
-        return uploadedFile ? (
+        // After a refresh the file is gone, but the server job can be resumed
+        return uploadedFiles.length > 0 || session?.scanJobId ? (
           <AnalysisTheaterStep
             eventId={eventId}
             leadId={leadId || ''}
-            file={uploadedFile}
+            files={uploadedFiles}
             storageMode={storageMode}
+            resumeJobId={uploadedFiles.length > 0 ? undefined : session?.scanJobId}
+            onJobStarted={updateScanJobId}
             onComplete={handleAnalysisComplete}
             onError={handleAnalysisError}
           />
@@ -190,8 +190,8 @@ export function VaultLeadGateModalV2({ isOpen, onClose }: VaultLeadGateModalV2Pr
   // ALPHA PATH HANDLERS
   // ============================================
 
-  const handleAlphaUploadComplete = (file: File, results: ScanResult) => {
-    setUploadedFile(file);
+  const handleAlphaUploadComplete = (files: File[], results: ScanResult) => {
+    setUploadedFile(files[0]);
     setScanResults(results);
     setCurrentState('alpha_reveal_gate');
   };
@@ -0,0 +1,60 @@
+/**
+ * "Found here" evidence for a scan warning
+ *
+ * Shows the quote text (and page) that raised a warning, so a homeowner
+ * or contractor can check it against their copy of the quote.
+ */
+
+import { FileSearch } from 'lucide-react';
+import type { EvidenceCitation, ScanResult } from '@/types/vault';
+
+const MAX_CITATIONS = 2;
+
+interface WarningEvidenceProps {
+  results: ScanResult;
+  warning: string;
+  className?: string;
+}
+
+/**
+ * Citations recorded for a warning (empty for older scans)
+ */
+export function getWarningEvidence(results: ScanResult, warning: string): EvidenceCitation[] {
+  return results.warningCitations?.find(citation => citation.warning === warning)?.evidence ?? [];
+}
+
+/**
+ * Rough position on the page from the bounding box
+ */
+function describeLocation(citation: EvidenceCitation): string | null {
+  if (!citation.bbox) return null;
+  const middle = citation.bbox.y + citation.bbox.height / 2;
+  if (middle < 0.33) return 'top';
+  if (middle < 0.66) return 'middle';
+  return 'bottom';
+}
+
+export function WarningEvidence({ results, warning, className = '' }: WarningEvidenceProps) {
+  const evidence = getWarningEvidence(results, warning).filter(citation => citation.snippet);
+
+  if (evidence.length === 0) return null;
+
+  return (
+    <div className={`mt-2 space-y-1 ${className}`}>
+      {evidence.slice(0, MAX_CITATIONS).map((citation, index) => {
+        const location = describeLocation(citation);
+        return (
+          <div key={index} className="flex items-start gap-1.5 text-xs text-gray-400">
+            <FileSearch className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-gray-500" />
+            <span>
+              <span className="text-gray-500">
+                Found here (page {citation.page}{location ? `, ${location}` : ''}):
+              </span>{' '}
+              <span className="italic">“{citation.snippet}”</span>
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -8,10 +8,12 @@
  * - Builds trust before the close
  * 
  * VISUAL REQUIREMENTS:
- * - Full report display (no longer blurred)
+ * - Full report display (no longer blurred), warnings cite the quote text
+ * - Per-opening price breakdown with outlier line items
  * - Chat drawer slides in from right
  * - Pre-populated quick questions
- * - Gemini-powered responses
+ * - Answers stream in from alpha.chat, grounded in this scan and citing its findings
+ * - Questions can be spoken (recorded, transcribed server-side by alpha.voiceChat)
  */
 
 import { useState, useRef, useEffect } from 'react';
@@ -25,14 +27,23 @@ import {
   CheckCircle,
   HelpCircle,
   ArrowRight,
-  Sparkles
+  Sparkles,
+  Mic,
+  Square,
+  Download,
+  Share2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { pushDL } from '@/lib/tracking';
+import { trpc } from '@/lib/trpc';
+import { fileToBase64 } from '@/lib/file';
 
 // Import ScanResult from vault.ts
-import type { ScanResult } from '@/types/vault';
+import type { ChatCitation, ScanResult } from '@/types/vault';
+import { WarningEvidence } from '../WarningEvidence';
+import { OpeningBreakdown } from '../OpeningBreakdown';
+import { ShareReportLinks } from '../ShareReportLinks';
 
 interface AlphaChatStepProps {
   eventId: string;
@@ -47,8 +58,17 @@ interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  citations?: ChatCitation[];
+  inputMode?: 'text' | 'voice';
 }
 
+// Streamed by alpha.chat / alpha.voiceChat
+type ChatStreamChunk =
+  | { type: 'transcript'; text: string }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; reply: string; citations: ChatCitation[]; refused: boolean }
+  | { type: 'error'; message: string };
+
 const QUICK_QUESTIONS = [
   "Why is my score low?",
   "What are the red flags?",
@@ -67,28 +87,101 @@ export function AlphaChatStep({
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isAnswering, setIsAnswering] = useState(false); // Until the streamed reply is complete
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const chatMutation = trpc.alpha.chat.useMutation();
+  const voiceChatMutation = trpc.alpha.voiceChat.useMutation();
+  const historyQuery = trpc.alpha.chatHistory.useQuery(
+    { leadId, scanId: scanResult.scanId },
+    { enabled: isChatOpen, staleTime: Infinity }
+  );
 
   // Auto-scroll to bottom of chat
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Initial greeting when chat opens
+  // Initial greeting when chat opens, followed by any earlier conversation
   useEffect(() => {
-    if (isChatOpen && messages.length === 0) {
+    if (isChatOpen && messages.length === 0 && !historyQuery.isLoading) {
       const greeting: ChatMessage = {
         id: 'greeting',
         role: 'assistant',
         content: `Hi ${firstName}! I've analyzed your quote and found some important things to discuss. Your overall protection score is ${scanResult.overallScore}/100. What would you like to know more about?`,
         timestamp: new Date(),
       };
-      setMessages([greeting]);
+      const earlier: ChatMessage[] = (historyQuery.data?.messages ?? []).map(message => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(message.createdAt),
+        citations: message.citations,
+        inputMode: message.inputMode,
+      }));
+      setMessages([greeting, ...earlier]);
+    }
+  }, [isChatOpen, firstName, scanResult.overallScore, historyQuery.isLoading, historyQuery.data]);
+
+  // Plays a streamed answer into the drawer (typed and voice questions alike)
+  const receiveAnswer = async (startStream: () => Promise<AsyncIterable<ChatStreamChunk>>) => {
+    const assistantId = `assistant-${Date.now()}`;
+    const updateAssistant = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(message => (message.id === assistantId ? { ...message, ...patch } : message)));
+    };
+
+    setIsTyping(true);
+    setIsAnswering(true);
+
+    try {
+      const stream = await startStream();
+
+      let reply = '';
+      for await (const chunk of stream) {
+        if (chunk.type === 'transcript') {
+          // What was heard, shown as the homeowner's question
+          setMessages(prev => [
+            ...prev,
+            { id: `user-${Date.now()}`, role: 'user', content: chunk.text, timestamp: new Date(), inputMode: 'voice' },
+          ]);
+        } else if (chunk.type === 'delta') {
+          if (!reply) {
+            setIsTyping(false);
+            setMessages(prev => [...prev, { id: assistantId, role: 'assistant', content: '', timestamp: new Date() }]);
+          }
+          reply += chunk.text;
+          updateAssistant({ content: reply });
+        } else if (chunk.type === 'done') {
+          updateAssistant({ content: chunk.reply, citations: chunk.citations });
+        } else {
+          setMessages(prev => [
+            ...prev.filter(message => message.id !== assistantId),
+            { id: assistantId, role: 'assistant', content: chunk.message, timestamp: new Date() },
+          ]);
+        }
+      }
+    } catch (error) {
+      console.error('[AlphaChat] Chat error:', error);
+      setMessages(prev => [
+        ...prev.filter(message => message.id !== assistantId),
+        {
+          id: assistantId,
+          role: 'assistant',
+          content: 'Something went wrong answering that. Please try again.',
+          timestamp: new Date(),
+        },
+      ]);
+    } finally {
+      setIsTyping(false);
+      setIsAnswering(false);
     }
-  }, [isChatOpen, firstName, scanResult.overallScore]);
+  };
 
   const handleSendMessage = async (content: string) => {
-    if (!content.trim()) return;
+    if (!content.trim() || isAnswering) return;
 
     // Add user message
     const userMessage: ChatMessage = {
@@ -99,7 +192,6 @@ export function AlphaChatStep({
     };
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
-    setIsTyping(true);
 
     // Track chat interaction
     pushDL({
@@ -109,18 +201,59 @@ export function AlphaChatStep({
       question: content.trim().slice(0, 100),
     });
 
-    // Simulate AI response (in production, this would call Gemini)
-    setTimeout(() => {
-      const response = generateResponse(content, scanResult);
-      const assistantMessage: ChatMessage = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
+    // The server keeps the transcript, so earlier turns aren't sent along
+    await receiveAnswer(() => chatMutation.mutateAsync({
+      leadId,
+      scanId: scanResult.scanId,
+      question: content.trim(),
+    }));
+  };
+
+  const sendVoiceQuestion = async (recording: Blob) => {
+    pushDL({
+      event: 'alpha_chat_voice_question',
+      event_id: eventId,
+      lead_id: leadId,
+    });
+
+    const audio = await fileToBase64(recording);
+    await receiveAnswer(() => voiceChatMutation.mutateAsync({
+      leadId,
+      scanId: scanResult.scanId,
+      audio,
+      mimeType: recording.type || 'audio/webm',
+    }));
+  };
+
+  const startRecording = async () => {
+    if (isAnswering || isRecording) return;
+
+    try {
+      const media = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(media);
+      const parts: Blob[] = [];
+
+      recorder.ondataavailable = event => parts.push(event.data);
+      recorder.onstop = () => {
+        media.getTracks().forEach(track => track.stop());
+        const recording = new Blob(parts, { type: recorder.mimeType || 'audio/webm' });
+        if (recording.size > 0) {
+          void sendVoiceQuestion(recording);
+        }
       };
-      setMessages(prev => [...prev, assistantMessage]);
-      setIsTyping(false);
-    }, 1500);
+
+      recorder.start();
+      recorderRef.current = recorder;
+      setIsRecording(true);
+    } catch (error) {
+      console.error('[AlphaChat] Microphone unavailable:', error);
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setIsRecording(false);
   };
 
   const handleQuickQuestion = (question: string) => {
@@ -138,6 +271,16 @@ export function AlphaChatStep({
     }
   };
 
+  const reportUrl = `/api/report/${leadId}${scanResult.scanId ? `?scanId=${scanResult.scanId}` : ''}`;
+
+  const handleReportDownload = () => {
+    pushDL({
+      event: 'alpha_report_downloaded',
+      event_id: eventId,
+      lead_id: leadId,
+    });
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -187,12 +330,19 @@ export function AlphaChatStep({
                   <span className="text-gray-500 text-xl">/100</span>
                 </div>
               </div>
-              <div className="text-right">
-                <p className="text-sm text-gray-400 mb-1">Potential Savings</p>
-                <p className="text-3xl font-bold text-emerald-400">
-                  ${(scanResult.estimatedSavings?.low || 0).toLocaleString()} - ${(scanResult.estimatedSavings?.high || 0).toLocaleString()}
-                </p>
-              </div>
+              {scanResult.estimatedSavings ? (
+                <div className="text-right">
+                  <p className="text-sm text-gray-400 mb-1">Potential Savings</p>
+                  <p className="text-3xl font-bold text-emerald-400">
+                    ${scanResult.estimatedSavings.low.toLocaleString()} - ${scanResult.estimatedSavings.high.toLocaleString()}
+                  </p>
+                </div>
+              ) : scanResult.pricePerOpening && scanResult.pricePerOpening !== 'N/A' ? (
+                <div className="text-right">
+                  <p className="text-sm text-gray-400 mb-1">Price per Opening</p>
+                  <p className="text-3xl font-bold text-white">{scanResult.pricePerOpening}</p>
+                </div>
+              ) : null}
             </div>
           </div>
 
@@ -212,13 +362,21 @@ export function AlphaChatStep({
                 {scanResult.warnings.slice(0, 3).map((warning, i) => (
                   <li key={i} className="flex items-start gap-2 text-gray-300 text-sm">
                     <span className="text-red-400 mt-1">•</span>
-                    {warning}
+                    <div>
+                      {warning}
+                      <WarningEvidence results={scanResult} warning={warning} />
+                    </div>
                   </li>
                 ))}
               </ul>
             </div>
           )}
 
+          {/* Per-opening breakdown */}
+          {(scanResult.openingBreakdown?.length ?? 0) > 0 && (
+            <OpeningBreakdown results={scanResult} className="p-6 border-b border-white/10" />
+          )}
+
           {/* Missing Items */}
           {scanResult.missingItems.length > 0 && (
             <div className="p-6">
@@ -254,6 +412,24 @@ export function AlphaChatStep({
           <MessageCircle className="w-4 h-4 mr-2" />
           Ask Questions
         </Button>
+        <Button
+          asChild
+          variant="outline"
+          className="w-full sm:w-auto border-white/20 text-gray-300 hover:bg-white/10"
+        >
+          <a href={reportUrl} download onClick={handleReportDownload}>
+            <Download className="w-4 h-4 mr-2" />
+            Download PDF Report
+          </a>
+        </Button>
+        <Button
+          onClick={() => setIsSharing(!isSharing)}
+          variant="outline"
+          className="w-full sm:w-auto border-white/20 text-gray-300 hover:bg-white/10"
+        >
+          <Share2 className="w-4 h-4 mr-2" />
+          Share Report
+        </Button>
         <Button
           onClick={onContinue}
           className="w-full sm:w-auto bg-cyan-500 hover:bg-cyan-600 text-white"
@@ -263,6 +439,16 @@ export function AlphaChatStep({
         </Button>
       </motion.div>
 
+      {/* Share Links */}
+      {isSharing && (
+        <ShareReportLinks
+          eventId={eventId}
+          leadId={leadId}
+          scanId={scanResult.scanId}
+          className="max-w-2xl mx-auto mt-6 p-6 rounded-2xl border border-white/10 bg-white/5"
+        />
+      )}
+
       {/* Chat Drawer */}
       <AnimatePresence>
         {isChatOpen && (
@@ -317,7 +503,26 @@ export function AlphaChatStep({
                           : 'bg-white/10 text-gray-200'
                       }`}
                     >
-                      <p className="text-sm leading-relaxed">{message.content}</p>
+                      {message.inputMode === 'voice' && (
+                        <span className="flex items-center gap-1 text-xs text-cyan-100/80 mb-1">
+                          <Mic className="w-3 h-3" />
+                          Voice question
+                        </span>
+                      )}
+                      <p className="text-sm leading-relaxed whitespace-pre-line">{message.content}</p>
+                      {message.citations && message.citations.length > 0 && (
+                        <ul className="mt-2 pt-2 border-t border-white/10 space-y-1">
+                          {message.citations.map(citation => (
+                            <li key={citation.id} className="text-xs text-gray-400">
+                              <span className="font-mono text-cyan-400">[{citation.id}]</span> {citation.text}
+                              {citation.page && <span className="text-gray-500"> · page {citation.page}</span>}
+                              {citation.snippet && (
+                                <span className="block italic text-gray-500">“{citation.snippet}”</span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -366,14 +571,27 @@ export function AlphaChatStep({
                   <Input
                     value={inputValue}
                     onChange={(e) => setInputValue(e.target.value)}
-                    placeholder="Ask about your quote..."
+                    placeholder={isRecording ? 'Listening… tap stop when done' : 'Ask about your quote...'}
                     className="flex-1 bg-white/5 border-white/10 text-white placeholder:text-gray-500"
-                    disabled={isTyping}
+                    disabled={isAnswering || isRecording}
                   />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="outline"
+                    onClick={isRecording ? stopRecording : startRecording}
+                    disabled={isAnswering}
+                    aria-label={isRecording ? 'Stop recording' : 'Ask by voice'}
+                    className={isRecording
+                      ? 'border-red-500/50 text-red-400 hover:bg-red-500/10 animate-pulse'
+                      : 'border-white/10 text-gray-300 hover:bg-white/10'}
+                  >
+                    {isRecording ? <Square className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                  </Button>
                   <Button
                     type="submit"
                     size="icon"
-                    disabled={!inputValue.trim() || isTyping}
+                    disabled={!inputValue.trim() || isAnswering}
                     className="bg-cyan-500 hover:bg-cyan-600"
                   >
                     <Send className="w-4 h-4" />
@@ -387,39 +605,3 @@ export function AlphaChatStep({
     </motion.div>
   );
 }
-
-/**
- * Generate contextual response based on question and scan results
- * In production, this would call Gemini API
- */
-function generateResponse(question: string, scan: ScanResult): string {
-  const q = question.toLowerCase();
-  
-  if (q.includes('score') || q.includes('low') || q.includes('why')) {
-    if (scan.overallScore < 50) {
-      return `Your score of ${scan.overallScore} indicates some significant concerns. The main issues are: ${scan.warnings.slice(0, 2).join(', ')}. These are common tactics that can cost homeowners thousands. Would you like me to explain any of these in detail?`;
-    } else {
-      return `Your score of ${scan.overallScore} is ${scan.overallScore >= 70 ? 'good' : 'moderate'}. There are still ${scan.warnings.length} areas that could be improved. The biggest opportunity is in ${scan.warnings[0] || 'the pricing structure'}.`;
-    }
-  }
-  
-  if (q.includes('red flag') || q.includes('warning')) {
-    return `I found ${scan.warnings.length} red flags in your quote:\n\n${scan.warnings.slice(0, 3).map((w, i) => `${i + 1}. ${w}`).join('\n')}\n\nThese are important to address before signing any contract.`;
-  }
-  
-  if (q.includes('save') || q.includes('money') || q.includes('savings')) {
-    const savings = scan.estimatedSavings || { low: 0, high: 0 };
-    return `Based on my analysis, you could potentially save $${savings.low.toLocaleString()} to $${savings.high.toLocaleString()} by addressing the issues I found. The biggest savings opportunity is negotiating on ${scan.missingItems[0] || 'labor costs'} and ensuring all ${scan.missingItems.length} missing items are included.`;
-  }
-  
-  if (q.includes('fair') || q.includes('good deal') || q.includes('price')) {
-    if (scan.overallScore >= 70) {
-      return `Overall, this quote appears to be reasonably fair. However, I'd still recommend getting 2-3 additional quotes to compare. The ${scan.missingItems.length} missing items should be clarified before signing.`;
-    } else {
-      return `Based on my analysis, this quote has some concerns. The ${scan.warnings.length} warnings I found suggest there's room for negotiation. I'd strongly recommend getting competing quotes before making a decision.`;
-    }
-  }
-  
-  const defaultSavings = scan.estimatedSavings || { low: 0, high: 0 };
-  return `That's a great question! Based on your quote analysis, I can tell you that your protection score is ${scan.overallScore}/100 with ${scan.warnings.length} warnings and ${scan.missingItems.length} missing items. The potential savings range is $${defaultSavings.low.toLocaleString()} to $${defaultSavings.high.toLocaleString()}. Is there a specific aspect you'd like me to explain further?`;
-}
@@ -7,6 +7,8 @@
  *   - ASAP → Hard close (Call Now / Schedule Callback)
  *   - 1-3 months → Soft close (Expert Review / Vault Save)
  *   - 3-6 months / Researching → Vault save
+ * - Leads with 2+ quotes can open a side-by-side comparison first
+ * - Any scanned lead can draft a letter asking the contractor for changes
  * 
  * VISUAL REQUIREMENTS:
  * - Timeline cards with visual hierarchy
@@ -27,11 +29,15 @@ import {
   Archive,
   ArrowRight,
   CheckCircle,
-  Loader2
+  Loader2,
+  Columns3,
+  PenLine
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { pushDL } from '@/lib/tracking';
 import { trpc } from '@/lib/trpc';
+import { QuoteComparison } from '../QuoteComparison';
+import { NegotiationLetterEditor } from '../NegotiationLetterEditor';
 
 interface AlphaNextStepsStepProps {
   eventId: string;
@@ -90,10 +96,33 @@ export function AlphaNextStepsStep({
   const [selectedTimeline, setSelectedTimeline] = useState<Timeline>(null);
   const [selectedAction, setSelectedAction] = useState<FinalAction>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [step, setStep] = useState<'timeline' | 'action'>('timeline');
+  const [step, setStep] = useState<'timeline' | 'action' | 'compare' | 'letter'>('timeline');
 
   const timelineMutation = trpc.alpha.timeline.useMutation();
   const finalActionMutation = trpc.alpha.finalAction.useMutation();
+  const scansQuery = trpc.alpha.scans.useQuery({ leadId });
+  const compareQuery = trpc.alpha.compare.useQuery({ leadId }, { enabled: step === 'compare' });
+
+  const quoteCount = scansQuery.data?.scans.length ?? 0;
+
+  const handleOpenComparison = () => {
+    pushDL({
+      event: 'alpha_compare_opened',
+      event_id: eventId,
+      lead_id: leadId,
+      quote_count: quoteCount,
+    });
+    setStep('compare');
+  };
+
+  const handleOpenLetter = () => {
+    pushDL({
+      event: 'alpha_letter_opened',
+      event_id: eventId,
+      lead_id: leadId,
+    });
+    setStep('letter');
+  };
 
   const handleTimelineSelect = async (timeline: Timeline) => {
     if (!timeline || isSubmitting) return;
@@ -303,6 +332,106 @@ export function AlphaNextStepsStep({
                 );
               })}
             </div>
+
+            {/* Quote Comparison & Negotiation Letter Entries */}
+            {quoteCount >= 1 && (
+              <div className="flex flex-wrap justify-center gap-3 mt-6">
+                {quoteCount >= 2 && (
+                  <button
+                    onClick={handleOpenComparison}
+                    disabled={isSubmitting}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-full border border-cyan-500/30 bg-cyan-500/10 text-sm font-medium text-cyan-300 hover:border-cyan-400 transition-colors"
+                  >
+                    <Columns3 className="w-4 h-4" />
+                    Compare your {quoteCount} quotes side by side
+                  </button>
+                )}
+                <button
+                  onClick={handleOpenLetter}
+                  disabled={isSubmitting}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-full border border-emerald-500/30 bg-emerald-500/10 text-sm font-medium text-emerald-300 hover:border-emerald-400 transition-colors"
+                >
+                  <PenLine className="w-4 h-4" />
+                  Ask the contractor for changes
+                </button>
+              </div>
+            )}
+          </motion.div>
+        )}
+
+        {/* Quote Comparison */}
+        {step === 'compare' && (
+          <motion.div
+            key="compare"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+          >
+            {/* Header */}
+            <div className="text-center mb-8">
+              <h2 className="text-2xl md:text-3xl font-bold text-white mb-2">
+                Your Quotes, Side by Side
+              </h2>
+              <p className="text-gray-400 max-w-lg mx-auto">
+                Which quote is strongest, and what to push back on in each.
+              </p>
+            </div>
+
+            <div className="max-w-3xl mx-auto">
+              {compareQuery.isLoading && (
+                <div className="flex justify-center py-10">
+                  <Loader2 className="w-6 h-6 text-cyan-400 animate-spin" />
+                </div>
+              )}
+              {compareQuery.data?.comparison && (
+                <QuoteComparison comparison={compareQuery.data.comparison} />
+              )}
+              {compareQuery.data && !compareQuery.data.comparison && (
+                <p className="text-center text-gray-400">{compareQuery.data.message}</p>
+              )}
+            </div>
+
+            {/* Back Button */}
+            <div className="text-center mt-6">
+              <button
+                onClick={() => setStep('timeline')}
+                className="text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                ← Back to Next Steps
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Negotiation Letter */}
+        {step === 'letter' && (
+          <motion.div
+            key="letter"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+          >
+            {/* Header */}
+            <div className="text-center mb-8">
+              <h2 className="text-2xl md:text-3xl font-bold text-white mb-2">
+                Ask for a Better Contract
+              </h2>
+              <p className="text-gray-400 max-w-lg mx-auto">
+                A letter to your contractor asking for the changes your report found. Edit it, then download or email it.
+              </p>
+            </div>
+
+            <NegotiationLetterEditor eventId={eventId} leadId={leadId} className="max-w-2xl mx-auto" />
+
+            {/* Back Button */}
+            <div className="text-center mt-6">
+              <button
+                onClick={() => setStep('timeline')}
+                className="text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                ← Back to Next Steps
+              </button>
+            </div>
           </motion.div>
         )}
 
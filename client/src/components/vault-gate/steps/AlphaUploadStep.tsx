@@ -10,11 +10,12 @@
  * REQUIREMENTS:
  * - Drag and drop support
  * - File type validation (PDF, images)
+ * - Multi-page quotes: several photos or PDFs in one drop/selection (page order kept)
  * - Upload progress indicator
- * - Storage-first upload to Supabase
+ * - Storage-first upload, then server-side analysis (alpha.analyze job, polled via alpha.status)
  */
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Upload, 
@@ -29,13 +30,15 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { pushDL } from '@/lib/tracking';
-import { supabase, analyzeQuote } from '@/lib/supabase';
+import { fileToBase64 } from '@/lib/file';
+import { trpc } from '@/lib/trpc';
+import { useScanJob } from '@/hooks/useScanJob';
 
 interface AlphaUploadStepProps {
   eventId: string;
   leadId: string;
   firstName: string;
-  onComplete: (file: File, results: ScanResult) => void;
+  onComplete: (files: File[], results: ScanResult) => void;
   onBack: () => void;
 }
 
@@ -46,14 +49,49 @@ type UploadState = 'idle' | 'dragging' | 'uploading' | 'success' | 'error';
 
 const ACCEPTED_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic'];
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_FILES = 10; // Matches the server's page limit per scan
 
 export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack }: AlphaUploadStepProps) {
   const [uploadState, setUploadState] = useState<UploadState>('idle');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const uploadMutation = trpc.alpha.upload.useMutation();
+  const analyzeMutation = trpc.alpha.analyze.useMutation();
+  const { job } = useScanJob(leadId, jobId);
+
+  // Hand off once the server job finishes
+  useEffect(() => {
+    if (!job || selectedFiles.length === 0) return;
+
+    if (job.status === 'failed') {
+      setJobId(null);
+      setUploadState('error');
+      setErrorMessage(job.errorMessage || 'Analysis failed. Please try again.');
+      
+      pushDL({
+        event: 'alpha_upload_error',
+        event_id: eventId,
+        lead_id: leadId,
+        error: job.errorMessage || 'Analysis failed',
+      });
+      return;
+    }
+
+    if (job.status === 'completed' && job.result) {
+      const scanResult = job.result;
+      setJobId(null);
+      
+      // Small delay to show success state
+      setTimeout(() => {
+        onComplete(selectedFiles, scanResult);
+      }, 800);
+    }
+  }, [job, selectedFiles, eventId, leadId, onComplete]);
+
   const validateFile = (file: File): string | null => {
     if (!ACCEPTED_TYPES.includes(file.type)) {
       return 'Please upload a PDF or image file (JPG, PNG, WebP)';
@@ -64,40 +102,36 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
     return null;
   };
 
-  const uploadFile = async (file: File) => {
+  const uploadFiles = async (files: File[]) => {
     setUploadState('uploading');
     setUploadProgress(0);
     setErrorMessage(null);
 
     try {
-      // Generate unique file path
-      const fileExt = file.name.split('.').pop() || 'pdf';
-      const fileName = `${leadId}/${Date.now()}.${fileExt}`;
-      
-      // Simulate progress for better UX
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => Math.min(prev + 10, 90));
-      }, 200);
-
-      // Upload to Supabase storage
-      const { data, error } = await supabase.storage
-        .from('estimates')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false,
-        });
-
-      clearInterval(progressInterval);
-
-      if (error) {
-        throw new Error(error.message);
+      const pages: Array<{ key: string; mimeType: string }> = [];
+
+      // Upload each page to storage via tRPC, in order
+      for (let index = 0; index < files.length; index++) {
+        const file = files[index];
+        const fileData = await fileToBase64(file);
+        const startProgress = Math.round((index / files.length) * 90);
+        const endProgress = Math.round(((index + 1) / files.length) * 90);
+
+        // Simulate progress for better UX
+        const progressInterval = setInterval(() => {
+          setUploadProgress(prev => Math.min(Math.max(prev, startProgress) + 10, endProgress));
+        }, 200);
+
+        const upload = await uploadMutation.mutateAsync({
+          leadId,
+          fileData,
+          mimeType: file.type,
+          fileName: file.name,
+        }).finally(() => clearInterval(progressInterval));
+
+        pages.push({ key: upload.key, mimeType: file.type });
       }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('estimates')
-        .getPublicUrl(fileName);
-
       setUploadProgress(100);
       setUploadState('success');
 
@@ -106,38 +140,23 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
         event: 'alpha_quote_uploaded',
         event_id: eventId,
         lead_id: leadId,
-        file_type: file.type,
-        file_size: file.size,
+        file_type: files[0].type,
+        file_size: files.reduce((sum, f) => sum + f.size, 0),
+        file_count: files.length,
       });
 
-      // Run Gemini analysis on the uploaded file
-      setUploadProgress(95);
-      const { data: analysisResult, error: analysisError } = await analyzeQuote(urlData.publicUrl, file.type, leadId, eventId);
+      // Queue server-side analysis on the uploaded pages (polled above)
+      const analysis = await analyzeMutation.mutateAsync({
+        leadId,
+        pages,
+        eventId,
+      });
       
-      if (analysisError || !analysisResult) {
-        throw new Error(analysisError?.message || 'Analysis failed. Please try again.');
+      if (!analysis.success || !analysis.jobId) {
+        throw new Error(analysis.message || 'Analysis failed. Please try again.');
       }
       
-      setUploadProgress(100);
-      
-      // Convert QuoteScanResult to ScanResult format
-      const scanResult: ScanResult = {
-        overallScore: analysisResult.overallScore,
-        safetyScore: analysisResult.safetyScore,
-        scopeScore: analysisResult.scopeScore,
-        priceScore: analysisResult.priceScore,
-        finePrintScore: analysisResult.finePrintScore,
-        warrantyScore: analysisResult.warrantyScore,
-        warnings: analysisResult.warnings || [],
-        missingItems: analysisResult.missingItems || [],
-        estimatedSavings: analysisResult.estimatedSavings,
-        rawResult: analysisResult.rawResult,
-      };
-      
-      // Small delay to show success state
-      setTimeout(() => {
-        onComplete(file, scanResult);
-      }, 800);
+      setJobId(analysis.jobId);
 
     } catch (error) {
       console.error('[AlphaUpload] Upload error:', error);
@@ -153,22 +172,33 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
     }
   };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setUploadState('idle');
-
-    const file = e.dataTransfer.files[0];
-    if (!file) return;
+  // Validate the picked pages, then start uploading
+  const startWithFiles = (files: File[]) => {
+    if (files.length === 0) return;
 
-    const validationError = validateFile(file);
-    if (validationError) {
-      setErrorMessage(validationError);
+    if (files.length > MAX_FILES) {
+      setErrorMessage(`You can upload up to ${MAX_FILES} pages per quote`);
       setUploadState('error');
       return;
     }
 
-    setSelectedFile(file);
-    uploadFile(file);
+    for (const file of files) {
+      const validationError = validateFile(file);
+      if (validationError) {
+        setErrorMessage(validationError);
+        setUploadState('error');
+        return;
+      }
+    }
+
+    setSelectedFiles(files);
+    uploadFiles(files);
+  };
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setUploadState('idle');
+    startWithFiles(Array.from(e.dataTransfer.files));
   }, [leadId, eventId]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -182,18 +212,8 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
   }, []);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const validationError = validateFile(file);
-    if (validationError) {
-      setErrorMessage(validationError);
-      setUploadState('error');
-      return;
-    }
-
-    setSelectedFile(file);
-    uploadFile(file);
+    startWithFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
   };
 
   const handleBrowseClick = () => {
@@ -202,7 +222,7 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
 
   const handleRetry = () => {
     setUploadState('idle');
-    setSelectedFile(null);
+    setSelectedFiles([]);
     setErrorMessage(null);
     setUploadProgress(0);
   };
@@ -258,6 +278,7 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
           ref={fileInputRef}
           type="file"
           accept=".pdf,.jpg,.jpeg,.png,.webp,.heic"
+          multiple
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -356,7 +377,9 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
                     Uploading...
                   </h3>
                   <p className="text-gray-400 text-sm">
-                    {selectedFile?.name}
+                    {selectedFiles.length > 1
+                      ? `${selectedFiles.length} pages`
+                      : selectedFiles[0]?.name}
                   </p>
                   <p className="text-cyan-400 font-medium mt-2">
                     {uploadProgress}%
@@ -380,7 +403,11 @@ export function AlphaUploadStep({ eventId, leadId, firstName, onComplete, onBack
                     Upload Complete!
                   </h3>
                   <p className="text-gray-400 text-sm">
-                    Starting AI analysis...
+                    {job?.status === 'scoring' || job?.status === 'completed'
+                      ? 'Scoring your quote...'
+                      : job?.status === 'extracting'
+                      ? 'AI reading your quote...'
+                      : 'Starting AI analysis...'}
                   </p>
                 </motion.div>
               )}
@@ -14,11 +14,15 @@
  * 5. Verifying Warranty & Protection (80-100%)
  * 
  * ARCHITECTURE: Storage-first approach
- * 1. Upload file to Supabase Storage (estimates bucket)
- * 2. Get public URL
- * 3. Pass URL to Gemini 3 Flash for analysis
- * 4. Save results to Supabase scans table
+ * 1. Upload each page/document to storage (alpha.upload)
+ * 2. Get storage keys (in page order)
+ * 3. Queue server-side analysis (alpha.analyze → scan job)
+ * 4. Poll the job (alpha.status) - the rubric scores all five pillars in one
+ *    pass, so the stages complete together once scoring returns
  * 5. Dual-write to wm_leads for CRM scoring
+ *
+ * The job id is kept in the session, so a refresh resumes polling
+ * instead of re-uploading the file.
  */
 
 import { useEffect, useState, useRef } from 'react';
@@ -27,113 +31,167 @@ import { Shield, CheckCircle, Loader2, Info } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { THEATER_STAGES } from '@/types/vault';
 import type { ScanResult } from '@/types/vault';
-import { 
-  uploadToStorage, 
-  analyzeQuote, 
-  createScan, 
-  upsertWMLead,
-  updateLead 
-} from '@/lib/supabase';
+import { upsertWMLead } from '@/lib/supabase';
+import { fileToBase64 } from '@/lib/file';
+import { trpc } from '@/lib/trpc';
 import { pushDL } from '@/lib/tracking';
+import { useScanJob, type ScanJobState } from '@/hooks/useScanJob';
+
+// Progress while the AI reads the document creeps toward this cap
+// (stays inside stage 1 until scoring returns every pillar at once)
+const EXTRACTION_PROGRESS_CAP = 18;
 
 interface AnalysisTheaterStepProps {
   eventId: string;
   leadId: string;
-  file: File;
+  files: File[]; // Ordered quote pages; empty when resuming a job after refresh
   storageMode: 'base64' | 'storage';
+  resumeJobId?: string;
+  onJobStarted?: (jobId: string) => void;
   onComplete: (results: ScanResult) => void;
   onError: (error: string) => void;
 }
 
+/**
+ * Where the progress bar should head for the current job state
+ */
+function getTargetProgress(job: ScanJobState | null, current: number): number {
+  if (!job) return Math.min(current + 0.05, 5);
+
+  switch (job.status) {
+    case 'completed':
+      return 100;
+    case 'scoring':
+      return Math.max(job.completedPillars.length * 20, EXTRACTION_PROGRESS_CAP);
+    case 'extracting':
+      return Math.min(current + 0.05, EXTRACTION_PROGRESS_CAP);
+    default:
+      return Math.min(current + 0.05, 5);
+  }
+}
+
+function getStatusMessage(job: ScanJobState | null): string | null {
+  if (!job) return null;
+
+  switch (job.status) {
+    case 'queued':
+      return job.attempts > 0 ? 'AI service is busy - retrying shortly...' : 'Queued for analysis...';
+    case 'extracting':
+      return 'AI reading your quote...';
+    case 'scoring':
+      return 'Scoring your quote...';
+    case 'completed':
+      return 'Calculating lead score...';
+    default:
+      return null;
+  }
+}
+
 export function AnalysisTheaterStep({
   eventId,
   leadId,
-  file,
+  files,
   storageMode,
+  resumeJobId,
+  onJobStarted,
   onComplete,
   onError,
 }: AnalysisTheaterStepProps) {
   const [progress, setProgress] = useState(0);
   const [currentStage, setCurrentStage] = useState(0);
   const [isComplete, setIsComplete] = useState(false);
-  const [statusMessage, setStatusMessage] = useState('Uploading document...');
+  const [statusMessage, setStatusMessage] = useState(resumeJobId ? 'Resuming analysis...' : 'Uploading document...');
+  const [jobId, setJobId] = useState<string | null>(resumeJobId || null);
   const analysisStarted = useRef(false);
+  const resultHandled = useRef(false);
   const analysisResult = useRef<ScanResult | null>(null);
+  const jobRef = useRef<ScanJobState | null>(null);
 
-  // Start analysis on mount
+  const uploadMutation = trpc.alpha.upload.useMutation();
+  const analyzeMutation = trpc.alpha.analyze.useMutation();
+  const { job } = useScanJob(leadId, jobId);
+
+  // Upload and queue analysis on mount (skipped when resuming)
   useEffect(() => {
-    if (analysisStarted.current) return;
+    if (analysisStarted.current || resumeJobId) return;
     analysisStarted.current = true;
 
-    const runAnalysis = async () => {
+    const startAnalysis = async () => {
       try {
-        // STEP 1: Upload file to Supabase Storage
-        setStatusMessage('Uploading document to secure vault...');
-        console.log('[AnalysisTheater] Uploading file to Supabase Storage...');
-        
-        const uploadResult = await uploadToStorage(file, leadId);
-        
-        if (!uploadResult) {
-          throw new Error('Failed to upload file to storage');
+        if (files.length === 0) {
+          throw new Error('No file to analyze');
         }
-        
-        const { url: fileUrl, path: filePath } = uploadResult;
-        console.log('[AnalysisTheater] File uploaded:', fileUrl);
 
-        // STEP 2: Analyze with Gemini 3 Flash
-        setStatusMessage('AI analyzing your quote...');
-        console.log('[AnalysisTheater] Starting Gemini 3 Flash analysis...');
-        
-        const { data: scanResult, error: analysisError } = await analyzeQuote(
-          fileUrl,
-          file.type,
-          leadId,
-          eventId
-        );
-        
-        if (analysisError) {
-          throw analysisError;
-        }
-        
-        if (!scanResult) {
-          throw new Error('No analysis result returned');
+        // STEP 1: Upload each page to storage (order is preserved)
+        const pages: Array<{ key: string; mimeType: string }> = [];
+        for (let index = 0; index < files.length; index++) {
+          const file = files[index];
+          setStatusMessage(files.length > 1
+            ? `Uploading page ${index + 1} of ${files.length} to secure vault...`
+            : 'Uploading document to secure vault...');
+          console.log('[AnalysisTheater] Uploading file to storage...', file.name);
+          
+          const upload = await uploadMutation.mutateAsync({
+            leadId,
+            fileData: await fileToBase64(file),
+            mimeType: file.type,
+            fileName: file.name,
+          });
+          
+          console.log('[AnalysisTheater] File uploaded:', upload.key);
+          pages.push({ key: upload.key, mimeType: file.type });
         }
 
-        console.log('[AnalysisTheater] Analysis complete:', scanResult.overallScore);
-
-        // STEP 3: Save scan to Supabase scans table
-        setStatusMessage('Saving audit results...');
-        console.log('[AnalysisTheater] Saving scan to Supabase...');
+        // STEP 2-3: Queue server-side analysis
+        setStatusMessage('Queueing AI analysis...');
         
-        const { error: scanSaveError } = await createScan({
-          lead_id: leadId,
-          quote_url: fileUrl,
-          overall_score: scanResult.overallScore,
-          audit_details: {
-            safety_score: scanResult.safetyScore,
-            scope_score: scanResult.scopeScore,
-            price_score: scanResult.priceScore,
-            fine_print_score: scanResult.finePrintScore,
-            warranty_score: scanResult.warrantyScore,
-            warnings: scanResult.warnings,
-            missing_items: scanResult.missingItems,
-            summary: scanResult.summary,
-            price_per_opening: scanResult.pricePerOpening,
-            estimated_savings: scanResult.estimatedSavings,
-          },
-          raw_response: scanResult.rawResult ? JSON.stringify(scanResult.rawResult) : undefined,
+        const analysis = await analyzeMutation.mutateAsync({
+          leadId,
+          pages,
+          eventId,
         });
         
-        if (scanSaveError) {
-          console.error('[AnalysisTheater] Scan save error:', scanSaveError);
-          // Don't throw - we still have the results
+        if (!analysis.success || !analysis.jobId) {
+          throw new Error(analysis.message || 'Could not start analysis');
         }
 
-        // STEP 4: Lead already created - scan data is in scans table
-        console.log('[AnalysisTheater] Lead and scan data saved successfully');
+        console.log('[AnalysisTheater] Analysis job queued:', analysis.jobId);
+        setJobId(analysis.jobId);
+        onJobStarted?.(analysis.jobId);
+      } catch (err) {
+        console.error('[AnalysisTheater] Analysis error:', err);
+        onError(err instanceof Error ? err.message : 'Analysis failed');
+      }
+    };
+
+    startAnalysis();
+  }, [files, leadId, eventId, resumeJobId, onJobStarted, onError]);
+
+  // React to job progress from the server
+  useEffect(() => {
+    jobRef.current = job;
+    if (!job) return;
+
+    const message = getStatusMessage(job);
+    if (message) setStatusMessage(message);
+
+    if (job.status === 'failed') {
+      if (resultHandled.current) return;
+      resultHandled.current = true;
+      onError(job.errorMessage || 'Analysis failed');
+      return;
+    }
+
+    if (job.status !== 'completed' || !job.result || resultHandled.current) return;
+    resultHandled.current = true;
+
+    const scanResult = job.result;
+
+    const finishAnalysis = async () => {
+      try {
+        console.log('[AnalysisTheater] Analysis complete:', scanResult.overallScore);
 
         // STEP 5: Dual-write to wm_leads for CRM scoring
-        setStatusMessage('Calculating lead score...');
         console.log('[AnalysisTheater] Upserting wm_leads for CRM...');
         
         // Calculate CRM scores from audit results
@@ -171,54 +229,39 @@ export function AnalysisTheaterStep({
           warning_count: scanResult.warnings?.length || 0,
           missing_items_count: scanResult.missingItems?.length || 0,
         });
-
-        // Store result for progress animation completion
-        analysisResult.current = scanResult;
-        
       } catch (err) {
-        console.error('[AnalysisTheater] Analysis error:', err);
-        onError(err instanceof Error ? err.message : 'Analysis failed');
+        // CRM write is best-effort; the scan itself is already saved
+        console.error('[AnalysisTheater] CRM update error:', err);
       }
+
+      // Store result for progress animation completion
+      analysisResult.current = scanResult;
     };
 
-    runAnalysis();
-  }, [file, leadId, eventId, onError]);
+    finishAnalysis();
+  }, [job, leadId, eventId, onError]);
 
-  // Progress animation
+  // Progress animation - follows the job's real stage and completed pillars
   useEffect(() => {
-    const TOTAL_DURATION = 30000; // 30 seconds for deep audit with Gemini 3 Flash
-    const STAGE_DURATION = TOTAL_DURATION / THEATER_STAGES.length;
     const TICK_INTERVAL = 50; // Update every 50ms
-    const TICKS_PER_STAGE = STAGE_DURATION / TICK_INTERVAL;
-
-    let currentTick = 0;
-    let currentStageIndex = 0;
+    let displayed = 0;
 
     const interval = setInterval(() => {
-      currentTick++;
-      
-      // Calculate progress within current stage
-      const ticksInCurrentStage = currentTick - (currentStageIndex * TICKS_PER_STAGE);
-      const stageProgress = Math.min(ticksInCurrentStage / TICKS_PER_STAGE, 1);
-      
-      // Apply easing (ease-out-cubic)
-      const easedProgress = 1 - Math.pow(1 - stageProgress, 3);
-      
-      // Calculate overall progress
-      const stage = THEATER_STAGES[currentStageIndex];
-      const overallProgress = stage.progressStart + (stage.progressEnd - stage.progressStart) * easedProgress;
-      
-      setProgress(Math.min(overallProgress, 100));
-      setCurrentStage(currentStageIndex);
-
-      // Check if we should move to next stage
-      if (ticksInCurrentStage >= TICKS_PER_STAGE && currentStageIndex < THEATER_STAGES.length - 1) {
-        currentStageIndex++;
-      }
+      const currentJob = jobRef.current;
+      const target = getTargetProgress(currentJob, displayed);
 
-      // Check if analysis is complete AND we've reached 100%
-      if (overallProgress >= 100 && analysisResult.current) {
+      // Ease toward the target so pillar jumps still animate smoothly
+      displayed = Math.min(displayed + Math.max((target - displayed) * 0.08, 0), 100);
+      setProgress(displayed);
+
+      const completed = currentJob?.completedPillars ?? [];
+      const nextStage = THEATER_STAGES.findIndex(stage => !completed.includes(stage.pillar));
+      setCurrentStage(nextStage === -1 ? THEATER_STAGES.length - 1 : nextStage);
+
+      // Check if analysis is complete AND we've (nearly) reached 100%
+      if (displayed >= 99.5 && analysisResult.current) {
         clearInterval(interval);
+        setProgress(100);
         setIsComplete(true);
         
         // Small delay before transitioning
@@ -228,11 +271,6 @@ export function AnalysisTheaterStep({
           }
         }, 500);
       }
-
-      // If we've been running too long without results, keep at 95%
-      if (currentTick > TICKS_PER_STAGE * THEATER_STAGES.length && !analysisResult.current) {
-        setProgress(95);
-      }
     }, TICK_INTERVAL);
 
     return () => clearInterval(interval);
@@ -318,7 +356,7 @@ export function AnalysisTheaterStep({
       <div className="max-w-md mx-auto space-y-3">
         {THEATER_STAGES.map((stage, index) => {
           const isActive = index === currentStage;
-          const isCompleted = progress >= stage.progressEnd;
+          const isCompleted = isComplete || (job?.completedPillars.includes(stage.pillar) ?? false);
           
           return (
             <motion.div
@@ -374,9 +412,11 @@ export function AnalysisTheaterStep({
       </div>
 
       {/* File info */}
-      <div className="mt-8 text-center text-xs text-gray-500">
-        Analyzing: {file.name}
-      </div>
+      {files.length > 0 && (
+        <div className="mt-8 text-center text-xs text-gray-500">
+          Analyzing: {files.length > 1 ? `${files[0].name} + ${files.length - 1} more page(s)` : files[0].name}
+        </div>
+      )}
     </motion.div>
   );
 }
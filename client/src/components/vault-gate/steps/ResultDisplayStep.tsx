@@ -4,7 +4,8 @@
  * DESIGN PHILOSOPHY: Digital Fortress Vault
  * - Dramatic reveal of scan results
  * - Score visualization with category breakdown
- * - Warnings and missing items highlighted
+ * - Warnings and missing items highlighted, with "found here" quote evidence
+ * - Per-opening price breakdown when the quote is itemized
  * - Clear CTA to continue to project details
  */
 
@@ -12,6 +13,8 @@ import { motion } from 'framer-motion';
 import { Shield, AlertTriangle, CheckCircle, XCircle, ArrowRight, DollarSign } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import type { ScanResult } from '@/types/vault';
+import { WarningEvidence } from '../WarningEvidence';
+import { OpeningBreakdown } from '../OpeningBreakdown';
 
 interface ResultDisplayStepProps {
   eventId: string;
@@ -151,6 +154,7 @@ export function ResultDisplayStep({ eventId, leadId, results, onContinue }: Resu
                 className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-300"
               >
                 {warning}
+                <WarningEvidence results={results} warning={warning} />
               </div>
             ))}
             {results.warnings.length > 3 && (
@@ -162,6 +166,18 @@ export function ResultDisplayStep({ eventId, leadId, results, onContinue }: Resu
         </motion.div>
       )}
 
+      {/* Per-opening breakdown */}
+      {(results.openingBreakdown?.length ?? 0) > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.85 }}
+          className="max-w-lg mx-auto mb-6"
+        >
+          <OpeningBreakdown results={results} className="p-4 rounded-lg bg-white/5 border border-white/10" />
+        </motion.div>
+      )}
+
       {/* Missing Items */}
       {hasMissingItems && (
         <motion.div
@@ -8,14 +8,15 @@
  * 
  * REQUIREMENTS:
  * - Accept PDF, JPG, PNG, WEBP
- * - Max 25MB
+ * - Max 25MB per file
+ * - Multi-page quotes: up to 10 files (a PDF or one photo per page), kept in page order
  * - Show file preview/name after selection
  * - Dual-path: ≤6MB images → base64, >6MB or PDF → Storage
  */
 
 import { useState, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileText, Image, X, AlertCircle, Loader2, Shield, ArrowRight } from 'lucide-react';
+import { Upload, FileText, Image, X, AlertCircle, Loader2, Shield, ArrowRight, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import type { FileMetadata } from '@/types/vault';
 import { hashFile } from '@/lib/hash';
@@ -24,13 +25,14 @@ import { pushDL } from '@/lib/tracking';
 interface ScannerUploadStepProps {
   eventId: string;
   leadId: string;
-  onUpload: (file: File, metadata: FileMetadata, storageMode: 'base64' | 'storage') => void;
+  onUpload: (files: File[], metadata: FileMetadata, storageMode: 'base64' | 'storage') => void;
   onBack: () => void;
 }
 
 const ACCEPTED_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
 const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
 const BASE64_THRESHOLD = 6 * 1024 * 1024; // 6MB
+const MAX_FILES = 10; // Matches the server's page limit per scan
 
 function getFileIcon(type: string) {
   if (type === 'application/pdf') return FileText;
@@ -44,7 +46,7 @@ function formatFileSize(bytes: number): string {
 }
 
 export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: ScannerUploadStepProps) {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -60,26 +62,36 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
     return null;
   };
 
-  const handleFile = useCallback(async (selectedFile: File) => {
-    const validationError = validateFile(selectedFile);
-    if (validationError) {
-      setError(validationError);
-      return;
+  // Add pages in the order they were picked
+  const handleFiles = useCallback((selectedFiles: File[]) => {
+    for (const selectedFile of selectedFiles) {
+      const validationError = validateFile(selectedFile);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
     }
 
-    setFile(selectedFile);
-    setError(null);
+    setFiles(prev => {
+      const next = [...prev, ...selectedFiles];
+      if (next.length > MAX_FILES) {
+        setError(`You can upload up to ${MAX_FILES} pages per quote`);
+        return prev;
+      }
+      setError(null);
+      return next;
+    });
   }, []);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
 
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      handleFile(droppedFile);
+    const droppedFiles = Array.from(e.dataTransfer.files);
+    if (droppedFiles.length > 0) {
+      handleFiles(droppedFiles);
     }
-  }, [handleFile]);
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -92,40 +104,45 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
   }, []);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      handleFile(selectedFile);
+    const selectedFiles = Array.from(e.target.files ?? []);
+    if (selectedFiles.length > 0) {
+      handleFiles(selectedFiles);
     }
-  }, [handleFile]);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  }, [handleFiles]);
 
-  const handleRemoveFile = () => {
-    setFile(null);
+  const handleRemoveFile = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index));
     setError(null);
-    if (inputRef.current) {
-      inputRef.current.value = '';
-    }
   };
 
   const handleScan = async () => {
-    if (!file) return;
+    if (files.length === 0) return;
 
     setIsProcessing(true);
     setError(null);
 
     try {
-      // Calculate file hash
-      const sha256 = await hashFile(file);
+      const firstFile = files[0];
+      const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+
+      // Calculate file hash (first page identifies the quote)
+      const sha256 = await hashFile(firstFile);
 
       // Determine storage mode
-      const isPdf = file.type === 'application/pdf';
-      const isLarge = file.size > BASE64_THRESHOLD;
-      const storageMode: 'base64' | 'storage' = isPdf || isLarge ? 'storage' : 'base64';
+      const hasPdf = files.some(f => f.type === 'application/pdf');
+      const isLarge = totalSize > BASE64_THRESHOLD;
+      const storageMode: 'base64' | 'storage' = hasPdf || isLarge ? 'storage' : 'base64';
 
       const metadata: FileMetadata = {
-        name: file.name,
-        size: file.size,
-        type: file.type,
+        name: firstFile.name,
+        size: totalSize,
+        type: firstFile.type,
         sha256,
+        // Photos are one page each; PDF page counts come back with the scan
+        pages: hasPdf ? undefined : files.length,
+        files: files.length,
       };
 
       // Fire analytics
@@ -133,13 +150,14 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
         event: 'scan_started',
         event_id: eventId,
         lead_id: leadId,
-        file_type: file.type,
-        file_size: file.size,
+        file_type: firstFile.type,
+        file_size: totalSize,
+        file_count: files.length,
         storage_mode: storageMode,
       });
 
       // Pass to parent
-      onUpload(file, metadata, storageMode);
+      onUpload(files, metadata, storageMode);
 
     } catch (err) {
       console.error('[ScannerUpload] Processing error:', err);
@@ -148,8 +166,6 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
     }
   };
 
-  const FileIcon = file ? getFileIcon(file.type) : Upload;
-
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -173,11 +189,11 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
           onDrop={handleDrop}
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
-          onClick={() => !file && inputRef.current?.click()}
+          onClick={() => files.length === 0 && inputRef.current?.click()}
           className={`relative p-8 rounded-xl border-2 border-dashed transition-all duration-300 cursor-pointer ${
             isDragging
               ? 'border-cyan-500 bg-cyan-500/10'
-              : file
+              : files.length > 0
               ? 'border-emerald-500/50 bg-emerald-500/5'
               : 'border-white/20 bg-white/5 hover:border-cyan-500/50 hover:bg-cyan-500/5'
           }`}
@@ -186,35 +202,58 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
             ref={inputRef}
             type="file"
             accept={ACCEPTED_TYPES.join(',')}
+            multiple
             onChange={handleInputChange}
             className="hidden"
           />
 
           <AnimatePresence mode="wait">
-            {file ? (
+            {files.length > 0 ? (
               <motion.div
-                key="file"
+                key="files"
                 initial={{ opacity: 0, scale: 0.9 }}
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.9 }}
-                className="flex items-center gap-4"
+                className="space-y-3"
               >
-                <div className="p-3 rounded-lg bg-emerald-500/20">
-                  <FileIcon className="w-8 h-8 text-emerald-400" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-white font-medium truncate">{file.name}</p>
-                  <p className="text-gray-400 text-sm">{formatFileSize(file.size)}</p>
-                </div>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleRemoveFile();
-                  }}
-                  className="p-2 rounded-lg hover:bg-white/10 transition-colors"
-                >
-                  <X className="w-5 h-5 text-gray-400" />
-                </button>
+                {files.map((file, index) => {
+                  const FileIcon = getFileIcon(file.type);
+                  return (
+                    <div key={`${file.name}-${index}`} className="flex items-center gap-4">
+                      <div className="p-3 rounded-lg bg-emerald-500/20">
+                        <FileIcon className="w-8 h-8 text-emerald-400" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white font-medium truncate">
+                          {files.length > 1 && <span className="text-gray-400 mr-1">{index + 1}.</span>}
+                          {file.name}
+                        </p>
+                        <p className="text-gray-400 text-sm">{formatFileSize(file.size)}</p>
+                      </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveFile(index);
+                        }}
+                        className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+                      >
+                        <X className="w-5 h-5 text-gray-400" />
+                      </button>
+                    </div>
+                  );
+                })}
+                {files.length < MAX_FILES && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      inputRef.current?.click();
+                    }}
+                    className="w-full flex items-center justify-center gap-2 p-2 rounded-lg border border-dashed border-white/20 text-sm text-cyan-400 hover:bg-cyan-500/5 transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add another page
+                  </button>
+                )}
               </motion.div>
             ) : (
               <motion.div
@@ -231,7 +270,7 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
                   Drop your quote here or click to browse
                 </p>
                 <p className="text-gray-500 text-sm">
-                  PDF, JPG, PNG, or WEBP • Max 25MB
+                  PDF, JPG, PNG, or WEBP • Max 25MB • Up to {MAX_FILES} pages
                 </p>
               </motion.div>
             )}
@@ -262,7 +301,7 @@ export function ScannerUploadStep({ eventId, leadId, onUpload, onBack }: Scanner
           </Button>
           <Button
             onClick={handleScan}
-            disabled={!file || isProcessing}
+            disabled={files.length === 0 || isProcessing}
             className="flex-1 bg-gradient-to-r from-cyan-500 to-emerald-500 hover:from-cyan-400 hover:to-emerald-400 text-white font-semibold shadow-lg shadow-cyan-500/25"
           >
             {isProcessing ? (
@@ -1,7 +1,9 @@
 import { useState, useCallback } from 'react';
-import { analyzeQuote, AI_TIMEOUTS } from '@/lib/supabase';
+import { fileToBase64 } from '@/lib/file';
 import { trpc } from '@/lib/trpc';
 
+const POLL_INTERVAL_MS = 1500;
+
 export interface QuoteAnalysisResult {
   overallScore: number;
   safetyScore: number;
@@ -24,34 +26,37 @@ interface UseQuoteScannerReturn {
   error: string | null;
   
   // Actions
-  analyzeQuoteFile: (file: File, leadId?: number) => Promise<void>;
+  analyzeQuoteFile: (file: File | File[], leadId: string) => Promise<void>; // Array = pages of one quote
   resetScanner: () => void;
 }
 
-/**
- * Convert file to base64 (only for upload to storage, not for AI analysis)
- */
-async function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-}
-
 export function useQuoteScanner(): UseQuoteScannerReturn {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<QuoteAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   
-  const uploadMutation = trpc.upload.file.useMutation();
+  const uploadMutation = trpc.alpha.upload.useMutation();
+  const analyzeMutation = trpc.alpha.analyze.useMutation();
+  const utils = trpc.useUtils();
 
-  const analyzeQuoteFile = useCallback(async (file: File, leadId?: number) => {
+  // Poll alpha.status until the scan job completes or fails
+  const waitForScanJob = useCallback(async (leadId: string, jobId: string) => {
+    for (;;) {
+      const status = await utils.alpha.status.fetch({ leadId, jobId }, { staleTime: 0 });
+      
+      if ('jobId' in status && status.status === 'failed') {
+        throw new Error(status.errorMessage || 'Analysis failed. Please try again.');
+      }
+      if ('jobId' in status && status.status === 'completed' && status.result) {
+        return status.result;
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }, [utils]);
+
+  const analyzeQuoteFile = useCallback(async (file: File | File[], leadId: string) => {
+    const files = Array.isArray(file) ? file : [file];
     setIsAnalyzing(true);
     setError(null);
     setAnalysisResult(null);
@@ -59,36 +64,34 @@ export function useQuoteScanner(): UseQuoteScannerReturn {
     try {
       console.log('[useQuoteScanner] Starting storage-first upload...');
       
-      // Step 1: Convert file to base64 for upload
-      const base64 = await fileToBase64(file);
+      const pages: Array<{ key: string; mimeType: string }> = [];
+      for (const page of files) {
+        // Step 1: Convert file to base64 for upload
+        const base64 = await fileToBase64(page);
+        
+        // Step 2: Upload to storage via tRPC
+        const { key } = await uploadMutation.mutateAsync({
+          fileData: base64,
+          mimeType: page.type,
+          leadId,
+        });
+        
+        console.log('[useQuoteScanner] File uploaded to:', key);
+        pages.push({ key, mimeType: page.type });
+      }
       
-      // Step 2: Upload to storage via tRPC
-      const { url } = await uploadMutation.mutateAsync({
-        fileData: base64,
-        mimeType: file.type,
+      // Step 3: Queue server-side analysis using the storage keys
+      const analysis = await analyzeMutation.mutateAsync({
         leadId,
+        pages,
       });
       
-      console.log('[useQuoteScanner] File uploaded to:', url);
-      
-      // Step 3: Analyze using the URL (no base64 bloat)
-      const { data, error: analysisError } = await analyzeQuote(url, file.type);
-      
-      if (analysisError) {
-        // Stop retry loop on 404 errors
-        const errorStr = String(analysisError);
-        if (errorStr.includes('404') || errorStr.includes('MODEL_NOT_FOUND')) {
-          console.error('[useQuoteScanner] 404 Error - stopping retry loop:', analysisError);
-          setError('Model not found. Please try again later.');
-          setIsAnalyzing(false);
-          return;
-        }
-        throw analysisError;
+      if (!analysis.success || !analysis.jobId) {
+        throw new Error(analysis.message || 'Could not start analysis');
       }
       
-      if (!data) {
-        throw new Error('No analysis result returned');
-      }
+      // Step 4: Wait for the job to finish
+      const data = await waitForScanJob(leadId, analysis.jobId);
       
       // Add timestamp and save
       const resultWithTimestamp: QuoteAnalysisResult = {
@@ -102,7 +105,6 @@ export function useQuoteScanner(): UseQuoteScannerReturn {
         warnings: data.warnings,
         missingItems: data.missingItems,
         summary: data.summary || '',
-        rawResult: data.rawResult,
         analyzedAt: new Date().toISOString(),
       };
       
@@ -116,7 +118,7 @@ export function useQuoteScanner(): UseQuoteScannerReturn {
     } finally {
       setIsAnalyzing(false);
     }
-  }, [uploadMutation]);
+  }, [uploadMutation, analyzeMutation, waitForScanJob]);
 
   const resetScanner = useCallback(() => {
     setAnalysisResult(null);
@@ -0,0 +1,55 @@
+/**
+ * useScanJob Hook
+ *
+ * Polls a server-side analysis job (alpha.status) until it completes or fails.
+ * Jobs live on the server, so polling can pick up again after a page refresh.
+ */
+
+import { useMemo } from 'react';
+import { trpc } from '@/lib/trpc';
+import type { ScanPillar, ScanResult } from '@/types/vault';
+
+const POLL_INTERVAL_MS = 1500;
+
+export type ScanJobStatus = 'queued' | 'extracting' | 'scoring' | 'completed' | 'failed';
+
+export interface ScanJobState {
+  status: ScanJobStatus;
+  attempts: number;
+  completedPillars: ScanPillar[];
+  result: ScanResult | null;
+  errorMessage: string | null;
+}
+
+export function useScanJob(leadId: string, jobId: string | null) {
+  const { data, error } = trpc.alpha.status.useQuery(
+    { leadId, jobId: jobId || undefined },
+    {
+      enabled: !!leadId && !!jobId,
+      refetchInterval: query => {
+        const status = query.state.data?.status;
+        return status === 'completed' || status === 'failed' ? false : POLL_INTERVAL_MS;
+      },
+      refetchOnWindowFocus: false,
+    }
+  );
+
+  const job = useMemo<ScanJobState | null>(() => {
+    if (!data || !('jobId' in data)) return null;
+
+    return {
+      status: data.status,
+      attempts: data.attempts,
+      completedPillars: data.completedPillars,
+      result: data.result
+        ? { ...data.result, scanId: data.scanId ?? undefined }
+        : null,
+      errorMessage: data.errorMessage,
+    };
+  }, [data]);
+
+  return {
+    job,
+    error: error?.message ?? null,
+  };
+}
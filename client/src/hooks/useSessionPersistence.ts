@@ -223,6 +223,10 @@ export function useSessionPersistence() {
     saveSession({ scanResults });
   }, [saveSession]);
 
+  const updateScanJobId = useCallback((scanJobId: string | undefined) => {
+    saveSession({ scanJobId });
+  }, [saveSession]);
+
   const updateFileMetadata = useCallback((fileMetadata: FileMetadata) => {
     saveSession({ fileMetadata });
   }, [saveSession]);
@@ -263,6 +267,7 @@ export function useSessionPersistence() {
     updateProjectDetails,
     updateEscalation,
     updateScanResults,
+    updateScanJobId,
     updateFileMetadata,
     startOver,
     resumeSession,
@@ -32,7 +32,7 @@ const VALID_TRANSITIONS: Record<VaultState, VaultState[]> = {
   lead_capture: ['pivot_question'],
   pivot_question: ['scanner_upload', 'vault_confirmation', 'exit_intercept'],
   scanner_upload: ['analysis_theater', 'exit_intercept'],
-  analysis_theater: ['result_display'],
+  analysis_theater: ['result_display', 'scanner_upload'], // Back to upload on failure
   result_display: ['project_details', 'exit_intercept'],
   vault_confirmation: ['project_details', 'exit_intercept'],
   project_details: ['final_escalation', 'exit_intercept'],
@@ -66,6 +66,15 @@ function vaultReducer(state: VaultReducerState, action: VaultAction): VaultReduc
       };
     }
     
+    case 'RESTORE_STATE':
+      // Jump straight to a saved step (session resume skips transition checks)
+      return {
+        ...state,
+        previousState: null,
+        currentState: action.payload,
+        isExitInterceptActive: false,
+      };
+
     case 'SET_LEAD_ID':
       return { ...state, leadId: action.payload };
     
@@ -144,6 +153,10 @@ export function useVaultStateMachine(initialEventId?: string) {
     dispatch({ type: 'SET_STATE', payload: targetState });
   }, []);
 
+  const restoreState = useCallback((targetState: VaultState) => {
+    dispatch({ type: 'RESTORE_STATE', payload: targetState });
+  }, []);
+
   const setLeadId = useCallback((leadId: string) => {
     dispatch({ type: 'SET_LEAD_ID', payload: leadId });
   }, []);
@@ -242,6 +255,7 @@ export function useVaultStateMachine(initialEventId?: string) {
     
     // Actions
     goToState,
+    restoreState,
     setLeadId,
     setEventId,
     setBranch,
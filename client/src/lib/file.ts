@@ -0,0 +1,22 @@
+/**
+ * File Encoding Utilities
+ * 
+ * Helpers for sending user files to the server over tRPC.
+ */
+
+/**
+ * Convert a file (or recorded audio blob) to base64 (without the data URL prefix)
+ */
+export async function fileToBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
+      const base64 = result.split(',')[1];
+      resolve(base64);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
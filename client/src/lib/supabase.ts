@@ -4,7 +4,8 @@
  * ARCHITECTURE: Direct Supabase SDK for full data ownership
  * - Uses ONLY VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY from environment
  * - NO hardcoded URLs or fallbacks
- * - All leads/scans/wm_leads writes go directly to user's Supabase project
+ * - All leads/wm_leads writes go directly to user's Supabase project
+ * - Scans are analyzed and written server-side (trpc.alpha.analyze)
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
@@ -76,28 +77,6 @@ export class NetworkError extends Error {
   }
 }
 
-// ============================================
-// SCAN DATA TYPES
-// ============================================
-
-export interface QuoteScanResult {
-  overallScore: number;
-  safetyScore: number;
-  scopeScore: number;
-  priceScore: number;
-  finePrintScore: number;
-  warrantyScore: number;
-  warnings: string[];
-  missingItems: string[];
-  summary?: string;
-  pricePerOpening?: string;
-  estimatedSavings?: {
-    low: number;
-    high: number;
-  };
-  rawResult?: Record<string, unknown>;
-}
-
 // ============================================
 // UTM & ATTRIBUTION CAPTURE
 // ============================================
@@ -334,83 +313,6 @@ export async function updateLead(
   }
 }
 
-// ============================================
-// SCAN OPERATIONS (Direct Supabase)
-// ============================================
-
-/**
- * ScanData interface - matches user's actual Supabase scans table:
- * id, lead_id, quote_url, overall_score, audit_details (jsonb), raw_response, created_at, updated_at
- */
-export interface ScanData {
-  lead_id: string;
-  quote_url: string;  // URL to the uploaded quote image
-  overall_score: number;
-  
-  // All detailed scores and analysis go into audit_details jsonb
-  audit_details: {
-    safety_score: number;
-    scope_score: number;
-    price_score: number;
-    fine_print_score: number;
-    warranty_score: number;
-    warnings: string[];
-    missing_items: string[];
-    summary?: string;
-    price_per_opening?: string;
-    estimated_savings?: {
-      low: number;
-      high: number;
-    };
-  };
-  
-  // Raw AI response as text
-  raw_response?: string;
-}
-
-/**
- * Create a scan record in Supabase
- * Schema: id, lead_id, quote_url, overall_score, audit_details (jsonb), raw_response, created_at, updated_at
- */
-export async function createScan(data: ScanData): Promise<{ data: { id: string } | null; error: Error | null }> {
-  try {
-    const now = new Date().toISOString();
-    
-    const scanData = {
-      lead_id: data.lead_id,
-      quote_url: data.quote_url,
-      overall_score: data.overall_score,
-      audit_details: data.audit_details,  // jsonb column accepts object directly
-      raw_response: data.raw_response || null,
-      created_at: now,
-      updated_at: now,
-    };
-    
-    console.log('[createScan] Inserting to Supabase scans table:', {
-      lead_id: data.lead_id,
-      quote_url: data.quote_url,
-      overall_score: data.overall_score,
-    });
-    
-    const { data: result, error } = await supabase
-      .from('scans')
-      .insert(scanData)
-      .select('id')
-      .single();
-    
-    if (error) {
-      console.error('[createScan] Supabase error:', JSON.stringify(error, null, 2));
-      return { data: null, error: new Error(error.message) };
-    }
-    
-    console.log('[createScan] Scan created with ID:', result.id);
-    return { data: result, error: null };
-  } catch (err) {
-    console.error('[createScan] Exception:', err);
-    return { data: null, error: err instanceof Error ? err : new Error(String(err)) };
-  }
-}
-
 // ============================================
 // WM_LEADS CRM SYNC (Dual-Write)
 // ============================================
@@ -617,52 +519,3 @@ export async function uploadToStorage(
     return null;
   }
 }
-
-// ============================================
-// QUOTE ANALYSIS (Client-Side Gemini)
-// ============================================
-
-/**
- * Analyze a quote image using client-side Gemini AI (STORAGE-FIRST)
- * 
- * This function accepts a public URL to the uploaded quote image.
- * NO Base64 encoding - avoids network crashes on large files.
- */
-export async function analyzeQuote(
-  imageUrl: string,
-  mimeType: string,
-  leadId?: string,
-  eventId?: string
-): Promise<{ data: QuoteScanResult | null; error: Error | null }> {
-  try {
-    console.log('[analyzeQuote] Starting storage-first analysis with Gemini 3 Flash...');
-    
-    // Import the scanner engine dynamically to avoid circular deps
-    const { analyzeQuoteFromUrl } = await import('./scannerEngine');
-    
-    const result = await analyzeQuoteFromUrl(imageUrl, mimeType);
-    
-    // Map AnalysisData to QuoteScanResult format
-    const scanResult: QuoteScanResult = {
-      overallScore: result.overallScore,
-      safetyScore: result.safetyScore,
-      scopeScore: result.scopeScore,
-      priceScore: result.priceScore,
-      finePrintScore: result.finePrintScore,
-      warrantyScore: result.warrantyScore,
-      warnings: result.warnings,
-      missingItems: result.missingItems,
-      summary: result.summary,
-      pricePerOpening: result.pricePerOpening,
-      rawResult: result.rawSignals as unknown as Record<string, unknown>,
-    };
-    
-    return { data: scanResult, error: null };
-  } catch (err) {
-    console.error('[analyzeQuote] Storage-first analysis error:', JSON.stringify(err, null, 2));
-    return { 
-      data: null, 
-      error: err instanceof Error ? err : new Error(String(err)) 
-    };
-  }
-}
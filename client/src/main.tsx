@@ -1,7 +1,7 @@
 import { trpc } from "@/lib/trpc";
 import { UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchLink, TRPCClientError } from "@trpc/client";
+import { httpBatchLink, httpBatchStreamLink, splitLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
@@ -37,17 +37,26 @@ queryClient.getMutationCache().subscribe(event => {
   }
 });
 
+const linkOptions = {
+  url: "/api/trpc",
+  transformer: superjson,
+  fetch(input: RequestInfo | URL, init?: RequestInit) {
+    return globalThis.fetch(input, {
+      ...(init ?? {}),
+      credentials: "include",
+    });
+  },
+};
+
+// Streamed procedures (async generators) need the streaming link
+const STREAMED_PATHS = new Set(["alpha.chat", "alpha.voiceChat"]);
+
 const trpcClient = trpc.createClient({
   links: [
-    httpBatchLink({
-      url: "/api/trpc",
-      transformer: superjson,
-      fetch(input, init) {
-        return globalThis.fetch(input, {
-          ...(init ?? {}),
-          credentials: "include",
-        });
-      },
+    splitLink({
+      condition: op => STREAMED_PATHS.has(op.path),
+      true: httpBatchStreamLink(linkOptions),
+      false: httpBatchLink(linkOptions),
     }),
   ],
 });
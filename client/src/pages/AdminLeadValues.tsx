@@ -0,0 +1,268 @@
+/**
+ * Lead value matrix editor (/admin/lead-values)
+ *
+ * Admins edit the matrix (homeowner x window count x timeline -> value and
+ * tier, plus modifiers) as JSON, check it, and save it as a new version.
+ * Saved versions are listed with the active one marked; any of them can be
+ * loaded back into the editor or activated.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle, Loader2, Save, ShieldOff } from "lucide-react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+
+interface MatrixRulePreview {
+  windowCounts: string[] | null;
+  timelines: string[] | null;
+  value: number;
+  tier: string;
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" }) : "";
+}
+
+function parseMatrix(text: string): { matrix: unknown; error: string | null } {
+  try {
+    return { matrix: JSON.parse(text), error: null };
+  } catch (error) {
+    return { matrix: null, error: `Not valid JSON: ${(error as Error).message}` };
+  }
+}
+
+function RulesPreview({ matrix }: { matrix: unknown }) {
+  const rules = (matrix as { rules?: MatrixRulePreview[] } | null)?.rules;
+  if (!Array.isArray(rules)) return null;
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-3">#</th>
+          <th className="py-1 pr-3">Window count</th>
+          <th className="py-1 pr-3">Timeline</th>
+          <th className="py-1 pr-3 text-right">Value</th>
+          <th className="py-1">Tier</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rules.map((rule, index) => (
+          <tr key={index} className="border-t border-white/5 text-gray-300">
+            <td className="py-1 pr-3 text-gray-500">{index + 1}</td>
+            <td className="py-1 pr-3">{Array.isArray(rule.windowCounts) ? rule.windowCounts.join(", ") : "Any"}</td>
+            <td className="py-1 pr-3">{Array.isArray(rule.timelines) ? rule.timelines.join(", ") : "Any"}</td>
+            <td className="py-1 pr-3 text-right">${String(rule.value)}</td>
+            <td className="py-1">{String(rule.tier)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AdminLeadValues() {
+  const { user, loading } = useAuth({ redirectOnUnauthenticated: true });
+  const isAdmin = user?.role === "admin";
+
+  const [text, setText] = useState("");
+  const [version, setVersion] = useState("");
+  const [notes, setNotes] = useState("");
+  const [activate, setActivate] = useState(true);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const activeQuery = trpc.admin.leadValues.active.useQuery(undefined, { enabled: isAdmin });
+  const versionsQuery = trpc.admin.leadValues.versions.useQuery(undefined, { enabled: isAdmin });
+  const validateMutation = trpc.admin.leadValues.validate.useMutation();
+  const saveMutation = trpc.admin.leadValues.save.useMutation();
+  const activateMutation = trpc.admin.leadValues.activate.useMutation();
+
+  // Start from the active matrix
+  useEffect(() => {
+    if (activeQuery.data && !text) {
+      setText(JSON.stringify(activeQuery.data.matrix, null, 2));
+    }
+  }, [activeQuery.data, text]);
+
+  const parsed = useMemo(() => parseMatrix(text), [text]);
+
+  const handleValidate = async () => {
+    setMessage(null);
+    if (parsed.error) {
+      setErrors([parsed.error]);
+      return;
+    }
+    const result = await validateMutation.mutateAsync({ matrix: parsed.matrix });
+    setErrors(result.errors);
+    if (result.valid) setMessage("Matrix is valid.");
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+    if (parsed.error) {
+      setErrors([parsed.error]);
+      return;
+    }
+    const result = await saveMutation.mutateAsync({ version, matrix: parsed.matrix, notes: notes || undefined, activate });
+    setErrors(result.errors);
+    if (result.success) {
+      setMessage(`Saved version ${version}${activate ? " and made it active" : ""}.`);
+      setVersion("");
+      setNotes("");
+      await Promise.all([versionsQuery.refetch(), activeQuery.refetch()]);
+    }
+  };
+
+  const handleActivate = async (versionId: string) => {
+    setMessage(null);
+    const result = await activateMutation.mutateAsync({ versionId });
+    setMessage(result.message);
+    await Promise.all([versionsQuery.refetch(), activeQuery.refetch()]);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="w-8 h-8 text-cyan-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="max-w-md mx-auto py-20 text-center">
+        <ShieldOff className="w-10 h-10 text-gray-500 mx-auto mb-4" />
+        <p className="text-gray-300">This page is for admins only.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <main className="max-w-5xl mx-auto px-4 py-10 space-y-6">
+        <header>
+          <h1 className="text-3xl font-bold text-white">Lead Value Matrix</h1>
+          <p className="text-sm text-gray-400 mt-1">
+            Active version: <span className="text-cyan-300">{activeQuery.data?.version ?? "…"}</span>. New scores use the
+            active version; leads keep the version their score came from.
+          </p>
+        </header>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Editor */}
+          <section className="p-6 rounded-2xl border border-white/10 bg-white/5 space-y-3">
+            <h2 className="text-white font-semibold">Edit</h2>
+            <textarea
+              value={text}
+              onChange={event => setText(event.target.value)}
+              spellCheck={false}
+              rows={24}
+              aria-label="Matrix JSON"
+              className="w-full px-3 py-2 rounded-lg bg-black/30 border border-white/10 font-mono text-xs text-gray-200 focus:border-cyan-400 outline-none resize-y"
+            />
+            <div className="grid sm:grid-cols-2 gap-3">
+              <input
+                value={version}
+                onChange={event => setVersion(event.target.value)}
+                placeholder="Version name, e.g. 2026-11"
+                className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white focus:border-cyan-400 outline-none"
+              />
+              <input
+                value={notes}
+                onChange={event => setNotes(event.target.value)}
+                placeholder="Notes (optional)"
+                className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white focus:border-cyan-400 outline-none"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={activate} onChange={event => setActivate(event.target.checked)} />
+              Make active when saved
+            </label>
+
+            {errors.length > 0 && (
+              <ul className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 space-y-1">
+                {errors.map(error => (
+                  <li key={error} className="flex gap-2 text-xs text-red-300">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                    {error}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {message && (
+              <p className="flex items-center gap-2 text-sm text-emerald-400">
+                <CheckCircle className="w-4 h-4" />
+                {message}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleValidate} disabled={validateMutation.isPending} variant="outline" className="border-white/20 text-white">
+                Validate
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={!version.trim() || saveMutation.isPending}
+                className="bg-cyan-500 hover:bg-cyan-600 text-white"
+              >
+                {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save as New Version
+              </Button>
+            </div>
+          </section>
+
+          <div className="space-y-6">
+            {/* Preview */}
+            <section className="p-6 rounded-2xl border border-white/10 bg-white/5">
+              <h2 className="text-white font-semibold mb-1">Rules (first match wins)</h2>
+              <p className="text-xs text-gray-500 mb-3">For homeowners; unanswered counts as 1-5 windows / researching.</p>
+              <RulesPreview matrix={parsed.matrix} />
+            </section>
+
+            {/* Versions */}
+            <section className="p-6 rounded-2xl border border-white/10 bg-white/5">
+              <h2 className="text-white font-semibold mb-3">Saved versions</h2>
+              {(versionsQuery.data ?? []).length === 0 && (
+                <p className="text-sm text-gray-400">None yet — the built-in matrix is in use.</p>
+              )}
+              <ul className="space-y-2">
+                {(versionsQuery.data ?? []).map(saved => (
+                  <li key={saved.id} className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm text-white">
+                        {saved.version}
+                        {saved.isActive && <span className="ml-2 text-xs text-emerald-400">active</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {formatDate(saved.createdAt)}
+                        {saved.createdBy && <> · {saved.createdBy}</>}
+                        {saved.notes && <> · {saved.notes}</>}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setText(JSON.stringify(saved.matrix, null, 2))}
+                      className="text-xs text-gray-400 hover:text-white"
+                    >
+                      Load
+                    </button>
+                    {!saved.isActive && (
+                      <button
+                        onClick={() => handleActivate(saved.id)}
+                        disabled={activateMutation.isPending}
+                        className="text-xs text-cyan-400 hover:text-cyan-300"
+                      >
+                        Activate
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * Shared audit report (/r/:token)
+ *
+ * The read-only report behind a homeowner's share link. Shows scores,
+ * warnings with the quote text behind them, missing items and the price per
+ * opening against the benchmark; never the homeowner's contact details.
+ */
+
+import { useEffect, useRef } from "react";
+import { useParams } from "wouter";
+import { AlertTriangle, Download, HelpCircle, Loader2, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import type { SharedReport as SharedReportData } from "@/types/vault";
+
+function getScoreColor(score: number): string {
+  if (score >= 80) return "text-emerald-400";
+  if (score >= 60) return "text-yellow-400";
+  return "text-red-400";
+}
+
+function getBarColor(score: number): string {
+  if (score >= 80) return "bg-emerald-500";
+  if (score >= 60) return "bg-yellow-500";
+  return "bg-red-500";
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: "long", day: "numeric", year: "numeric" });
+}
+
+const PRICE_VERDICTS: Record<NonNullable<SharedReportData["price"]["position"]>, string> = {
+  below_market: "Far below the typical range",
+  low: "Below the typical range",
+  fair: "Within the typical range",
+  high: "Above the typical range",
+  above_market: "Far above the typical range",
+};
+
+function ReportBody({ report, token }: { report: SharedReportData; token: string }) {
+  const { price } = report;
+
+  return (
+    <div className="space-y-6">
+      {/* Overall */}
+      <div className="p-6 rounded-2xl border border-white/10 bg-white/5">
+        <p className="text-sm text-gray-400 mb-1">
+          Scanned {formatDate(report.scannedAt)}
+          {report.contractorName && <> · {report.contractorName}</>}
+        </p>
+        <div className="flex items-baseline gap-2 mb-3">
+          <span className={`text-5xl font-bold ${getScoreColor(report.overallScore)}`}>{report.overallScore}</span>
+          <span className="text-gray-500">/100 overall</span>
+        </div>
+        {report.summary && <p className="text-gray-300">{report.summary}</p>}
+      </div>
+
+      {/* Pillars */}
+      <div className="p-6 rounded-2xl border border-white/10 bg-white/5 space-y-3">
+        {report.pillars.map(({ pillar, label, score }) => (
+          <div key={pillar} className="flex items-center gap-4">
+            <span className="w-32 text-sm text-gray-300">{label}</span>
+            <div className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden">
+              {score !== null && <div className={`h-full ${getBarColor(score)}`} style={{ width: `${score}%` }} />}
+            </div>
+            <span className={`w-10 text-right text-sm font-semibold ${score === null ? "text-gray-500" : getScoreColor(score)}`}>
+              {score ?? "n/a"}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Price */}
+      <div className="p-6 rounded-2xl border border-white/10 bg-white/5">
+        <h2 className="text-white font-semibold mb-2">Price per opening</h2>
+        {price.pricePerOpening !== null && price.band ? (
+          <>
+            <p className="text-3xl font-bold text-white">{formatDollars(price.pricePerOpening)}</p>
+            <p className="text-sm text-gray-400 mt-1">
+              Typical for {price.region}: {formatDollars(price.band.low)} - {formatDollars(price.band.high)}
+            </p>
+            {price.position && <p className="text-sm text-cyan-300 mt-2">{PRICE_VERDICTS[price.position]}</p>}
+          </>
+        ) : (
+          <p className="text-sm text-gray-400">The quote doesn't show enough to compute a price per opening.</p>
+        )}
+      </div>
+
+      {/* Warnings */}
+      {report.warnings.length > 0 && (
+        <div className="p-6 rounded-2xl border border-white/10 bg-white/5">
+          <h2 className="flex items-center gap-2 text-red-400 font-semibold mb-4">
+            <AlertTriangle className="w-5 h-5" />
+            Warnings ({report.warnings.length})
+          </h2>
+          <ul className="space-y-4">
+            {report.warnings.map(warning => (
+              <li key={warning.id}>
+                <p className="text-gray-200 text-sm">{warning.text}</p>
+                {warning.evidence.map((evidence, index) => (
+                  <p key={index} className="mt-1 ml-4 text-xs text-gray-500">
+                    Page {evidence.page}: "{evidence.snippet}"
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Missing items */}
+      {report.missingItems.length > 0 && (
+        <div className="p-6 rounded-2xl border border-white/10 bg-white/5">
+          <h2 className="flex items-center gap-2 text-yellow-400 font-semibold mb-4">
+            <HelpCircle className="w-5 h-5" />
+            Missing Items ({report.missingItems.length})
+          </h2>
+          <ul className="space-y-2">
+            {report.missingItems.map(item => (
+              <li key={item.id} className="text-gray-300 text-sm">{item.text}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <p className="text-xs text-gray-500">This link expires {formatDate(report.expiresAt)}.</p>
+        <Button asChild className="bg-cyan-500 hover:bg-cyan-600 text-white">
+          <a href={`/api/report/shared/${token}`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Download PDF
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function SharedReport() {
+  const { token = "" } = useParams<{ token: string }>();
+  const reportQuery = trpc.share.view.useQuery({ token }, { refetchOnWindowFocus: false, retry: false });
+  const recordView = trpc.share.recordView.useMutation();
+
+  // One view per page load (refetches and PDF downloads don't count)
+  const countedToken = useRef<string | null>(null);
+  useEffect(() => {
+    if (!token || countedToken.current === token) return;
+    countedToken.current = token;
+    recordView.mutate({ token });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <main className="max-w-3xl mx-auto px-4 py-10">
+        <header className="mb-8">
+          <p className="text-cyan-400 font-semibold">WindowMan Vault</p>
+          <h1 className="text-3xl font-bold text-white">Quote Audit Report</h1>
+          <p className="text-sm text-gray-400 mt-1">Shared by the homeowner · read-only</p>
+        </header>
+
+        {reportQuery.isLoading && (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-8 h-8 text-cyan-400 animate-spin" />
+          </div>
+        )}
+
+        {reportQuery.data?.report && <ReportBody report={reportQuery.data.report} token={token} />}
+
+        {(reportQuery.isError || (reportQuery.data && !reportQuery.data.report)) && (
+          <div className="p-8 rounded-2xl border border-white/10 bg-white/5 text-center">
+            <ShieldOff className="w-10 h-10 text-gray-500 mx-auto mb-4" />
+            <p className="text-gray-300">{reportQuery.data?.message ?? "This report could not be loaded."}</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -48,6 +48,7 @@ export interface EscalationFormData {
 
 // Scan result from AI analysis
 export interface ScanResult {
+  scanId?: string;
   overallScore: number;
   safetyScore: number;
   scopeScore: number;
@@ -56,11 +57,165 @@ export interface ScanResult {
   warrantyScore: number;
   warnings: string[];
   missingItems: string[];
+  summary?: string;
+  pricePerOpening?: string;
   estimatedSavings?: {
     low: number;
     high: number;
   };
   rawResult?: Record<string, unknown>;
+  pageCount?: number;
+  signalPages?: Partial<Record<string, number[]>>; // Signal name → pages it was found on
+  warningCitations?: WarningCitation[];
+  lineItems?: QuoteLineItem[];
+  openingBreakdown?: OpeningTypeBreakdown[];
+  priceOutliers?: LineItemOutlier[];
+  benchmarkRegion?: string; // Region whose price bands were used (e.g. "Miami-Dade County")
+}
+
+// Quote text behind a finding ("found here")
+export interface EvidenceCitation {
+  signal: string;
+  page: number;
+  snippet: string;
+  bbox?: { x: number; y: number; width: number; height: number } | null; // 0-1 fractions of the page
+}
+
+export interface WarningCitation {
+  warning: string;
+  signals: string[];
+  evidence: EvidenceCitation[];
+}
+
+// One priced window/door line on the quote
+export interface QuoteLineItem {
+  openingType: string;
+  description: string;
+  widthInches: number | null;
+  heightInches: number | null;
+  productLine: string | null;
+  quantity: number;
+  unitPrice: number | null;
+  totalPrice: number | null;
+  page?: number | null;
+}
+
+export interface PriceRange {
+  low: number;
+  high: number;
+}
+
+// Line items grouped by opening type, against the expected price range
+export interface OpeningTypeBreakdown {
+  openingType: string;
+  label: string;
+  quantity: number;
+  totalPrice: number | null;
+  averageUnitPrice: number | null;
+  expectedRange: PriceRange | null;
+}
+
+// A line item priced far outside the range for its type
+export interface LineItemOutlier {
+  itemIndex: number;
+  openingType: string;
+  label: string;
+  description: string;
+  unitPrice: number;
+  expectedRange: PriceRange;
+  direction: 'high' | 'low';
+  page: number | null;
+}
+
+// Report finding cited by the quote expert chat (alpha.chat)
+export interface ChatCitation {
+  id: string; // W1 (warning), M1 (missing item), P1 (price outlier)
+  kind: 'warning' | 'missing_item' | 'price_outlier';
+  text: string;
+  page: number | null;
+  snippet: string | null;
+}
+
+export interface WarrantyTerms {
+  mentioned: boolean;
+  labor: boolean;
+  durationYears: number | null;
+  lifetime: boolean;
+  transferable: boolean;
+}
+
+// One quote in a side-by-side comparison (alpha.compare)
+export interface ComparedQuote {
+  scanId: string;
+  label: string;
+  createdAt: string;
+  contractorName: string | null;
+  licenseStatus: 'active' | 'expired' | 'not_found' | null;
+  overallScore: number;
+  pillars: Record<ScanPillar, number>;
+  pricePerOpening: string;
+  pricePerOpeningValue: number | null;
+  totalPrice: number | null;
+  depositPercentage: number | null;
+  warranty: WarrantyTerms;
+  missingItems: string[];
+  warnings: string[];
+  negotiationPoints: string[];
+}
+
+export interface QuoteComparison {
+  quotes: ComparedQuote[];
+  bestByPillar: Record<ScanPillar, string | null>; // Scan id, null on a tie
+  missingFromAll: string[];
+  recommendation: {
+    scanId: string;
+    label: string;
+    reasons: string[];
+  };
+}
+
+// A read-only link to the lead's report (alpha.shareLinks)
+export interface ReportShareLink {
+  id: string;
+  token: string;
+  scanId: string;
+  createdAt: string;
+  expiresAt: string;
+  viewCount: number;
+  lastViewedAt: string | null;
+}
+
+// The audit behind a share link, without the homeowner's details (share.view)
+export interface SharedReport {
+  scannedAt: string;
+  expiresAt: string;
+  contractorName: string | null;
+  overallScore: number;
+  summary: string | null;
+  pillars: Array<{ pillar: ScanPillar; label: string; score: number | null }>;
+  warnings: Array<ChatCitation & { evidence: Array<{ page: number; snippet: string }> }>;
+  missingItems: ChatCitation[];
+  priceOutliers: ChatCitation[];
+  price: {
+    pricePerOpening: number | null;
+    band: { floor: number; low: number; high: number; ceiling: number } | null;
+    region: string;
+    position: 'below_market' | 'low' | 'fair' | 'high' | 'above_market' | null;
+  };
+  openingBreakdown: OpeningTypeBreakdown[];
+}
+
+// Letter asking the contractor for contract changes (alpha.negotiationLetter)
+export interface NegotiationLetter {
+  id: string;
+  scanId: string;
+  subject: string;
+  body: string;
+  requests: Array<{ kind: string; finding: string; ask: string }>;
+  source: 'llm' | 'template';
+  edited: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
 // File metadata for uploads
@@ -70,6 +225,7 @@ export interface FileMetadata {
   type: string;
   sha256?: string;
   pages?: number;
+  files?: number; // Documents uploaded for the quote (a PDF can hold several pages)
 }
 
 // Session data stored in localStorage
@@ -85,6 +241,7 @@ export interface VaultSession {
     escalation?: EscalationFormData;
   };
   scanResults?: ScanResult;
+  scanJobId?: string; // Server analysis job to resume after a refresh
   fileMetadata?: FileMetadata;
   createdAt: string;
   updatedAt: string;
@@ -109,6 +266,7 @@ export interface AttributionData {
 // State machine action types
 export type VaultAction =
   | { type: 'SET_STATE'; payload: VaultState }
+  | { type: 'RESTORE_STATE'; payload: VaultState }
   | { type: 'SET_LEAD_ID'; payload: string }
   | { type: 'SET_EVENT_ID'; payload: string }
   | { type: 'SET_BRANCH'; payload: BranchChoice }
@@ -142,12 +300,16 @@ export interface VaultReducerState {
 }
 
 // Analysis theater stage
+// Scoring pillars reported by the server scan job (alpha.status)
+export type ScanPillar = 'safety' | 'scope' | 'price' | 'fine_print' | 'warranty';
+
 export interface TheaterStage {
   id: number;
   label: string;
   tooltip: string;
   progressStart: number;
   progressEnd: number;
+  pillar: ScanPillar; // Server scan job pillar that completes this stage
 }
 
 // Analysis theater stages (matching rubric dimensions)
@@ -157,35 +319,40 @@ export const THEATER_STAGES: TheaterStage[] = [
     label: 'Analyzing Safety & Code Match…', 
     tooltip: "Verifies your quote meets Florida's hurricane protection standards",
     progressStart: 0, 
-    progressEnd: 20 
+    progressEnd: 20,
+    pillar: 'safety',
   },
   { 
     id: 2, 
     label: 'Checking Install & Scope Clarity…', 
     tooltip: "Checks if the quote clearly defines what's included (and what's not)",
     progressStart: 20, 
-    progressEnd: 40 
+    progressEnd: 40,
+    pillar: 'scope',
   },
   { 
     id: 3, 
     label: 'Evaluating Price Fairness…', 
     tooltip: "Compares your price against 10,000+ real Florida installations",
     progressStart: 40, 
-    progressEnd: 60 
+    progressEnd: 60,
+    pillar: 'price',
   },
   { 
     id: 4, 
     label: 'Reviewing Fine Print Transparency…', 
     tooltip: "Scans for hidden fees, exclusions, and vague language",
     progressStart: 60, 
-    progressEnd: 80 
+    progressEnd: 80,
+    pillar: 'fine_print',
   },
   { 
     id: 5, 
     label: 'Verifying Warranty & Protection…', 
     tooltip: "Ensures your coverage matches industry best practices",
     progressStart: 80, 
-    progressEnd: 100 
+    progressEnd: 100,
+    pillar: 'warranty',
   },
 ];
 
@@ -0,0 +1,33 @@
+-- ============================================
+-- MIGRATION: Scan Job Queue
+-- Date: 2026-10-18
+-- Description: Persisted queue for server-side quote analysis (alpha.analyze)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS scan_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID REFERENCES leads(id) ON DELETE CASCADE,
+  event_id TEXT,
+  storage_key TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  opening_count_hint INTEGER,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'extracting', 'scoring', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_pillars TEXT[] NOT NULL DEFAULT '{}',
+  error_class TEXT,
+  last_error TEXT,
+  scan_id UUID REFERENCES scans(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_jobs_lead_id ON scan_jobs(lead_id);
+CREATE INDEX IF NOT EXISTS idx_scan_jobs_status_next_attempt ON scan_jobs(status, next_attempt_at);
+
+COMMENT ON TABLE scan_jobs IS 'Quote analysis jobs: queued → extracting → scoring → completed/failed';
+COMMENT ON COLUMN scan_jobs.completed_pillars IS 'Pillars scored so far: safety, scope, price, fine_print, warranty';
+COMMENT ON COLUMN scan_jobs.error_class IS 'classifyGeminiError class of the last failure (e.g. QUOTA_EXCEEDED)';
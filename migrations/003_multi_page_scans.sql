@@ -0,0 +1,9 @@
+-- ============================================
+-- MIGRATION: Multi-Page Quote Scans
+-- Date: 2026-10-18
+-- Description: Scan jobs take an ordered list of uploaded documents
+-- ============================================
+
+ALTER TABLE scan_jobs ADD COLUMN IF NOT EXISTS pages JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN scan_jobs.pages IS 'Ordered documents for the scan: [{ key, mimeType }]. storage_key/mime_type hold the first one';
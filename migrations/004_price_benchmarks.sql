@@ -0,0 +1,41 @@
+-- ============================================
+-- MIGRATION: Regional Price Benchmarks
+-- Date: 2026-10-18
+-- Description: Versioned price bands by region (ZIP / ZIP prefix / county / state)
+--              and opening type, imported from CSV by admins
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS price_benchmark_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  notes TEXT,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  imported_by TEXT,
+  activated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one active version
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_benchmark_versions_active
+  ON price_benchmark_versions(is_active) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS price_benchmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_id UUID NOT NULL REFERENCES price_benchmark_versions(id) ON DELETE CASCADE,
+  region_type TEXT NOT NULL CHECK (region_type IN ('zip', 'zip3', 'county', 'state')),
+  region_key TEXT NOT NULL,
+  opening_type TEXT NOT NULL,
+  floor_price NUMERIC NOT NULL,
+  low_price NUMERIC NOT NULL,
+  high_price NUMERIC NOT NULL,
+  ceiling_price NUMERIC NOT NULL,
+  UNIQUE (version_id, region_type, region_key, opening_type),
+  CHECK (floor_price <= low_price AND low_price <= high_price AND high_price <= ceiling_price)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_benchmarks_lookup ON price_benchmarks(version_id, region_key);
+
+COMMENT ON TABLE price_benchmark_versions IS 'Imported benchmark CSVs; scans record the version they were scored with';
+COMMENT ON COLUMN price_benchmarks.opening_type IS 'Opening type, or "all" for the blended price per opening';
+COMMENT ON COLUMN price_benchmarks.low_price IS '[low_price, high_price] is the fair range; below floor / above ceiling is far off market';
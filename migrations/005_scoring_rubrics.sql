@@ -0,0 +1,31 @@
+-- ============================================
+-- MIGRATION: Scoring Rubric Versions & Re-score Jobs
+-- Date: 2026-10-18
+-- Description: Scans record audit_details.rubric_version; admins can re-score
+--              stored raw signals under another rubric version
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS rescore_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_version TEXT NOT NULL,
+  apply BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  processed INTEGER NOT NULL DEFAULT 0,
+  report JSONB,
+  error_message TEXT,
+  requested_by TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rescore_jobs_created_at ON rescore_jobs(created_at DESC);
+
+-- Keyset pagination over scans during re-scoring
+CREATE INDEX IF NOT EXISTS idx_scans_created_at ON scans(created_at);
+
+COMMENT ON TABLE rescore_jobs IS 'Admin re-score runs of stored scans under a scoring rubric version';
+COMMENT ON COLUMN rescore_jobs.apply IS 'FALSE = dry run (report only); TRUE = scans are updated to the new scores';
+COMMENT ON COLUMN rescore_jobs.report IS 'Diff report: scans re-scored, score/tier changes, tier transitions, largest changes';
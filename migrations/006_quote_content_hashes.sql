@@ -0,0 +1,25 @@
+-- ============================================
+-- MIGRATION: Quote Content Hashes & Duplicate Detection
+-- Date: 2026-10-18
+-- Description: Uploads record the SHA-256 of their bytes; scans store the
+--              content hash of their documents so re-uploads reuse the analysis
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS quote_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_key TEXT NOT NULL UNIQUE,
+  lead_id UUID,
+  sha256 TEXT NOT NULL,
+  mime_type TEXT,
+  byte_size INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_uploads_sha256 ON quote_uploads(sha256);
+
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_scans_content_hash ON scans(content_hash, created_at DESC);
+
+COMMENT ON TABLE quote_uploads IS 'One row per alpha.upload: storage key and SHA-256 of the uploaded bytes';
+COMMENT ON COLUMN scans.content_hash IS 'SHA-256 of the single document, or of the ordered page hashes for multi-document scans';
@@ -0,0 +1,30 @@
+-- ============================================
+-- MIGRATION: Contractor Profiles
+-- Date: 2026-10-18
+-- Description: Contractor identity read off each quote is normalized into
+--              one contractors row; scans link to it
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS contractors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  name_key TEXT NOT NULL,
+  license_number TEXT,
+  phone TEXT,
+  address TEXT,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contractors_license_number ON contractors(license_number) WHERE license_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_contractors_phone ON contractors(phone);
+CREATE INDEX IF NOT EXISTS idx_contractors_name_key ON contractors(name_key);
+CREATE INDEX IF NOT EXISTS idx_contractors_last_seen_at ON contractors(last_seen_at DESC);
+
+ALTER TABLE scans ADD COLUMN IF NOT EXISTS contractor_id UUID REFERENCES contractors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scans_contractor_id ON scans(contractor_id);
+
+COMMENT ON TABLE contractors IS 'Companies named on scanned quotes, matched by license number, then phone, then name';
+COMMENT ON COLUMN contractors.name_key IS 'Lowercased company name without punctuation or legal suffix (LLC, Inc, ...)';
+COMMENT ON COLUMN contractors.license_number IS 'Normalized state license (e.g. CGC1523456)';
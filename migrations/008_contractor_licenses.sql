@@ -0,0 +1,33 @@
+-- ============================================
+-- MIGRATION: Contractor License Records
+-- Date: 2026-10-18
+-- Description: Admin-imported snapshots of Florida licensing records; licenses
+--              printed on quotes are checked against the newest snapshot
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS license_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  is_complete BOOLEAN NOT NULL DEFAULT FALSE,
+  imported_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_license_snapshots_created_at ON license_snapshots(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS contractor_licenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  snapshot_id UUID NOT NULL REFERENCES license_snapshots(id) ON DELETE CASCADE,
+  license_number TEXT NOT NULL,
+  name TEXT,
+  license_type TEXT,
+  status TEXT NOT NULL,
+  expires_on DATE NOT NULL,
+  UNIQUE (snapshot_id, license_number)
+);
+
+COMMENT ON TABLE license_snapshots IS 'Imported CSV snapshots of state contractor licensing records';
+COMMENT ON COLUMN license_snapshots.is_complete IS 'TRUE once every row is saved; only complete snapshots are used';
+COMMENT ON COLUMN contractor_licenses.license_number IS 'Normalized license (e.g. CGC1523456)';
+COMMENT ON COLUMN contractor_licenses.status IS 'Status as printed in the records (e.g. "Current, Active")';
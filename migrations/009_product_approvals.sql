@@ -0,0 +1,43 @@
+-- ============================================
+-- MIGRATION: Product Approval Records
+-- Date: 2026-10-18
+-- Description: Admin-imported snapshots of NOA / Florida product approvals;
+--              approval numbers printed on quotes are checked against the
+--              newest snapshot
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS product_approval_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  is_complete BOOLEAN NOT NULL DEFAULT FALSE,
+  imported_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_approval_snapshots_created_at ON product_approval_snapshots(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS product_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  snapshot_id UUID NOT NULL REFERENCES product_approval_snapshots(id) ON DELETE CASCADE,
+  approval_number TEXT NOT NULL,
+  product_type TEXT NOT NULL,
+  manufacturer TEXT,
+  product_line TEXT,
+  hvhz BOOLEAN NOT NULL DEFAULT FALSE,
+  dp_positive NUMERIC(6,1) NOT NULL,
+  dp_negative NUMERIC(6,1) NOT NULL,
+  expires_on DATE,
+  UNIQUE (snapshot_id, approval_number)
+);
+
+-- Prefix lookups of FL numbers cited without their product suffix (FL17445 → FL17445.1)
+CREATE INDEX IF NOT EXISTS idx_product_approvals_number_prefix
+  ON product_approvals(snapshot_id, approval_number text_pattern_ops);
+
+COMMENT ON TABLE product_approval_snapshots IS 'Imported CSV snapshots of Miami-Dade NOA and Florida FL# product approvals';
+COMMENT ON COLUMN product_approval_snapshots.is_complete IS 'TRUE once every row is saved; only complete snapshots are used';
+COMMENT ON COLUMN product_approvals.approval_number IS 'Normalized number (e.g. "NOA 21-0512.03", "FL17445.1")';
+COMMENT ON COLUMN product_approvals.product_type IS 'Opening type the approval covers (single_hung, casement, sliding_door, ...)';
+COMMENT ON COLUMN product_approvals.hvhz IS 'Approved for the High Velocity Hurricane Zone (Miami-Dade / Broward)';
+COMMENT ON COLUMN product_approvals.expires_on IS 'NULL = no expiration';
@@ -0,0 +1,28 @@
+-- ============================================
+-- MIGRATION: Chat Transcripts
+-- Date: 2026-10-18
+-- Description: Expert chat messages stored per lead (and scan) with a topic,
+--              so sales can read the transcript before a callback and
+--              engagement is scored from what was asked
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  scan_id UUID REFERENCES scans(id) ON DELETE SET NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  topic TEXT NOT NULL DEFAULT 'general',
+  citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  refused BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_lead_id ON chat_messages(lead_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_scan_id ON chat_messages(scan_id);
+
+COMMENT ON TABLE chat_messages IS 'Expert chat transcript, one row per message';
+COMMENT ON COLUMN chat_messages.scan_id IS 'Scan the conversation was about (NULL for chats without a quote)';
+COMMENT ON COLUMN chat_messages.topic IS 'price, timeline, contract, warranty, safety, contractor, scope, general or off_topic';
+COMMENT ON COLUMN chat_messages.citations IS 'Report findings an assistant reply cited ([W1], [M2], ...)';
+COMMENT ON COLUMN chat_messages.refused IS 'Assistant declined an off-topic question';
@@ -0,0 +1,13 @@
+-- ============================================
+-- MIGRATION: Voice Chat Questions
+-- Date: 2026-10-18
+-- Description: Chat questions can be spoken; the transcript is stored as the
+--              message content next to the recording's storage key
+-- ============================================
+
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS input_mode TEXT NOT NULL DEFAULT 'text'
+  CHECK (input_mode IN ('text', 'voice'));
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS audio_key TEXT;
+
+COMMENT ON COLUMN chat_messages.input_mode IS 'text (typed) or voice (recorded, content is the transcript)';
+COMMENT ON COLUMN chat_messages.audio_key IS 'Storage key of the recorded voice question';
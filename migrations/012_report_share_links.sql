@@ -0,0 +1,25 @@
+-- ============================================
+-- MIGRATION: Report Share Links
+-- Date: 2026-10-18
+-- Description: Signed, expiring, revocable links a homeowner sends so
+--              someone else (a spouse, a second contractor) can read the
+--              audit of one scan without the homeowner's contact details
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS report_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  scan_id UUID NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_share_links_lead_id ON report_share_links(lead_id, created_at);
+
+COMMENT ON TABLE report_share_links IS 'Public read-only links to one scan''s audit report';
+COMMENT ON COLUMN report_share_links.id IS 'Share id; the link token is this id plus its HMAC signature';
+COMMENT ON COLUMN report_share_links.revoked_at IS 'Set when the homeowner turns the link off';
+COMMENT ON COLUMN report_share_links.view_count IS 'Times the shared report was opened';
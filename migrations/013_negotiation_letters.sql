@@ -0,0 +1,27 @@
+-- ============================================
+-- MIGRATION: Negotiation Letters
+-- Date: 2026-10-18
+-- Description: A polite letter to the contractor asking for the contract
+--              changes a scan's findings call for; one per scan, editable
+--              by the homeowner before they send it
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS negotiation_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  scan_id UUID NOT NULL UNIQUE REFERENCES scans(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  requests JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source TEXT NOT NULL CHECK (source IN ('llm', 'template')),
+  edited BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_negotiation_letters_lead_id ON negotiation_letters(lead_id);
+
+COMMENT ON TABLE negotiation_letters IS 'Letter to the contractor asking for contract changes, one per scan';
+COMMENT ON COLUMN negotiation_letters.requests IS 'The specific changes asked for, built from the scan''s signals';
+COMMENT ON COLUMN negotiation_letters.source IS 'llm (written by invokeLLM) or template (deterministic fallback)';
+COMMENT ON COLUMN negotiation_letters.edited IS 'Homeowner changed the generated text';
@@ -0,0 +1,28 @@
+-- ============================================
+-- MIGRATION: Lead Value Matrices
+-- Date: 2026-10-18
+-- Description: Versioned lead value matrix (homeowner x window count x
+--              timeline -> value and tier, plus modifiers) edited by admins;
+--              leads record the matrix version behind their lead_value_score
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS lead_value_matrices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  matrix JSONB NOT NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by TEXT,
+  activated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one active version
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_value_matrices_active
+  ON lead_value_matrices(is_active) WHERE is_active;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS lead_value_matrix_version TEXT;
+
+COMMENT ON TABLE lead_value_matrices IS 'Admin-edited lead value matrices; saved versions are never changed, only activated';
+COMMENT ON COLUMN lead_value_matrices.matrix IS 'Validated LeadValueMatrix JSON (rules, fallbacks, modifiers)';
+COMMENT ON COLUMN leads.lead_value_matrix_version IS 'Matrix version that produced lead_value_score ("builtin" = the default matrix)';
@@ -0,0 +1,41 @@
+-- ============================================
+-- MIGRATION: Lead Value History
+-- Date: 2026-10-18
+-- Description: Append-only log of every lead value calculation (factors
+--              snapshot, value, tier, reasoning and the procedure that
+--              triggered it) so a lead's progression through the funnel
+--              can be charted
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS lead_value_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL,
+  factors JSONB NOT NULL,
+  value INTEGER NOT NULL,
+  tier TEXT NOT NULL,
+  reasoning TEXT NOT NULL,
+  breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  matrix_version TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_value_history_lead_id ON lead_value_history(lead_id, created_at);
+
+-- Entries are never rewritten (they go away only with their lead)
+CREATE OR REPLACE FUNCTION public.reject_lead_value_history_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'lead_value_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lead_value_history_append_only ON lead_value_history;
+CREATE TRIGGER lead_value_history_append_only
+  BEFORE UPDATE ON lead_value_history
+  FOR EACH ROW EXECUTE FUNCTION public.reject_lead_value_history_update();
+
+COMMENT ON TABLE lead_value_history IS 'Append-only lead value calculations, one row per recalculation';
+COMMENT ON COLUMN lead_value_history.trigger IS 'Procedure that recalculated the value (alpha.timeline, beta.filter, scan.completed, ...)';
+COMMENT ON COLUMN lead_value_history.factors IS 'LeadValueFactors the value was calculated from (answers + scan factors)';
+COMMENT ON COLUMN lead_value_history.breakdown IS 'Per-factor contributions; amounts add up to value';
@@ -0,0 +1,35 @@
+-- ============================================
+-- MIGRATION: Meta Conversion Events
+-- Date: 2026-10-18
+-- Description: Persisted queue for the server-side Meta Conversions API
+--              relay (Lead / QualifiedLead events with the lead value),
+--              retried with backoff and sent at most once per event_id
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS meta_conversion_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  event_name TEXT NOT NULL CHECK (event_name IN ('Lead', 'QualifiedLead')),
+  event_id TEXT NOT NULL UNIQUE,
+  trigger TEXT NOT NULL,
+  value INTEGER NOT NULL,
+  tier TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_error TEXT,
+  fbtrace_id TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meta_conversion_events_lead_id ON meta_conversion_events(lead_id);
+CREATE INDEX IF NOT EXISTS idx_meta_conversion_events_status_next_attempt ON meta_conversion_events(status, next_attempt_at);
+
+COMMENT ON TABLE meta_conversion_events IS 'Conversions API events: queued → sending → sent/failed';
+COMMENT ON COLUMN meta_conversion_events.event_id IS 'Dedup key shared with the browser pixel (the lead''s event_id, suffixed with the tier for QualifiedLead)';
+COMMENT ON COLUMN meta_conversion_events.trigger IS 'Procedure whose lead value recalculation queued the event';
+COMMENT ON COLUMN meta_conversion_events.payload IS 'Server event as sent; user_data holds only SHA-256 hashes and the _fbp/_fbc cookies';
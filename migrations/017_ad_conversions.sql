@@ -0,0 +1,42 @@
+-- ============================================
+-- MIGRATION: Ad Conversions
+-- Date: 2026-10-18
+-- Description: Offline conversions (qualified / converted leads) for Google
+--              Ads and Microsoft Ads, keyed by click id with hashed
+--              identifiers; each lead/platform/conversion is sent once,
+--              as a CSV export or through an upload adapter
+-- ============================================
+
+-- The client already writes msclkid with the other click ids
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS msclkid TEXT;
+
+CREATE TABLE IF NOT EXISTS ad_conversions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('google', 'microsoft')),
+  conversion TEXT NOT NULL CHECK (conversion IN ('qualified', 'converted')),
+  click_id TEXT NOT NULL,
+  conversion_time TIMESTAMPTZ NOT NULL,
+  value INTEGER NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  hashed_email TEXT,
+  hashed_phone TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent')),
+  sent_via TEXT,
+  sent_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (lead_id, platform, conversion)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_conversions_platform_status ON ad_conversions(platform, status);
+
+COMMENT ON TABLE ad_conversions IS 'Offline conversion uploads: pending → sending → sent (once per lead, platform and conversion)';
+COMMENT ON COLUMN ad_conversions.click_id IS 'gclid (google) or msclkid (microsoft) captured with the lead';
+COMMENT ON COLUMN ad_conversions.value IS 'lead_value_score when the conversion was recorded';
+COMMENT ON COLUMN ad_conversions.hashed_email IS 'SHA-256 of the trimmed, lowercased email (enhanced conversions)';
+COMMENT ON COLUMN ad_conversions.hashed_phone IS 'SHA-256 of the E.164 phone number (enhanced conversions)';
+COMMENT ON COLUMN ad_conversions.sent_via IS '"csv" for a download, otherwise the upload adapter name';
@@ -7,4 +7,17 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // Extraction providers in fallback order, e.g. "forge,gemini" (see server/services/extractionProviders.ts)
+  llmProviders: process.env.LLM_PROVIDERS ?? "",
+  geminiApiKey: process.env.GEMINI_API_KEY ?? "",
+  geminiModel: process.env.GEMINI_MODEL ?? "gemini-2.5-flash",
+  // Extra canned extractions for the local stub provider (<sha256>.json files)
+  llmStubDir: process.env.LLM_STUB_DIR ?? "",
+  // Signs report share links (see server/services/reportShares.ts); falls back to JWT_SECRET
+  shareLinkSecret: process.env.SHARE_LINK_SECRET ?? process.env.JWT_SECRET ?? "",
+  // Meta Conversions API relay (see server/services/metaConversions.ts); off unless pixel id + token are set
+  metaPixelId: process.env.META_PIXEL_ID ?? "",
+  metaCapiAccessToken: process.env.META_CAPI_ACCESS_TOKEN ?? "",
+  metaCapiUrl: process.env.META_CAPI_URL ?? "https://graph.facebook.com/v21.0",
+  metaTestEventCode: process.env.META_TEST_EVENT_CODE ?? "",
 };
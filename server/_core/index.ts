@@ -4,9 +4,13 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerReportRoutes } from "../routes/report";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { resumePendingScanJobs } from "../services/scanJobQueue";
+import { resumePendingConversionEvents } from "../services/metaConversions";
+import { resumeStuckAdConversions } from "../services/adConversions";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -35,6 +39,8 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Printable audit report PDFs under /api/report/:leadId
+  registerReportRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -59,6 +65,12 @@ async function startServer() {
 
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
+    // Pick up scan jobs interrupted by the last shutdown
+    resumePendingScanJobs().catch(console.error);
+    // ...and Meta conversion events that were never sent
+    resumePendingConversionEvents().catch(console.error);
+    // ...and ad conversions claimed by an export or upload that never finished
+    resumeStuckAdConversions().catch(console.error);
   });
 }
 
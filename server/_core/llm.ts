@@ -66,6 +66,8 @@ export type InvokeParams = {
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
+  // Streams the reply: called with each piece of text as it arrives
+  onDelta?: (text: string) => void;
 };
 
 export type ToolCall = {
@@ -214,6 +216,8 @@ const resolveApiUrl = () =>
     ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/chat/completions`
     : "https://forge.manus.im/v1/chat/completions";
 
+export const isLLMConfigured = () => Boolean(ENV.forgeApiKey);
+
 const assertApiKey = () => {
   if (!ENV.forgeApiKey) {
     throw new Error("OPENAI_API_KEY is not configured");
@@ -265,6 +269,78 @@ const normalizeResponseFormat = ({
   };
 };
 
+type StreamChunk = {
+  id?: string;
+  created?: number;
+  model?: string;
+  choices?: Array<{
+    index: number;
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: InvokeResult["usage"];
+};
+
+/**
+ * Read a streamed (server-sent events) completion, passing each text delta on,
+ * and return it assembled as a regular InvokeResult
+ */
+const readStreamedResult = async (
+  response: Response,
+  onDelta: (text: string) => void
+): Promise<InvokeResult> => {
+  if (!response.body) {
+    throw new Error("LLM stream returned no body");
+  }
+
+  const result: InvokeResult = {
+    id: "",
+    created: 0,
+    model: "",
+    choices: [
+      { index: 0, message: { role: "assistant", content: "" }, finish_reason: null },
+    ],
+  };
+  const choice = result.choices[0];
+  let content = "";
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const data = line.slice(5).trim();
+    if (!data || data === "[DONE]") return;
+
+    const chunk = JSON.parse(data) as StreamChunk;
+    result.id = chunk.id ?? result.id;
+    result.created = chunk.created ?? result.created;
+    result.model = chunk.model ?? result.model;
+    if (chunk.usage) result.usage = chunk.usage;
+
+    const delta = chunk.choices?.[0];
+    if (delta?.finish_reason) choice.finish_reason = delta.finish_reason;
+    if (delta?.delta?.content) {
+      content += delta.delta.content;
+      onDelta(delta.delta.content);
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  choice.message.content = content;
+  return result;
+};
+
 export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   assertApiKey();
 
@@ -277,6 +353,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     output_schema,
     responseFormat,
     response_format,
+    onDelta,
   } = params;
 
   const payload: Record<string, unknown> = {
@@ -312,6 +389,10 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
+  if (onDelta) {
+    payload.stream = true;
+  }
+
   const response = await fetch(resolveApiUrl(), {
     method: "POST",
     headers: {
@@ -328,5 +409,9 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     );
   }
 
+  if (onDelta) {
+    return readStreamedResult(response, onDelta);
+  }
+
   return (await response.json()) as InvokeResult;
 }
@@ -7,6 +7,8 @@ import { storagePut } from "./storage";
 import { nanoid } from "nanoid";
 import { alphaRouter } from "./routes/alpha";
 import { betaRouter } from "./routes/beta";
+import { adminRouter } from "./routes/admin";
+import { shareRouter } from "./routes/share";
 import { 
   createLead, 
   upsertLead, 
@@ -30,6 +32,8 @@ export const appRouter = router({
   // ============================================
   alpha: alphaRouter,  // Path Alpha: Quote auditors flow
   beta: betaRouter,    // Path Beta: Researchers flow
+  admin: adminRouter,  // Admin maintenance (benchmarks, rubrics)
+  share: shareRouter,  // Public read-only shared reports
   
   auth: router({
     me: publicProcedure.query(opts => opts.ctx.user),
@@ -0,0 +1,367 @@
+/**
+ * Admin Router
+ *
+ * Admin-only maintenance endpoints (requires an admin session):
+ * price benchmark imports, scoring rubric re-score jobs, duplicate quote groups,
+ * contractor profiles, licensing / product approval record imports, lead
+ * chat transcripts for sales callbacks, lead value history, the lead value
+ * matrix editor, and Google / Microsoft Ads offline conversion exports.
+ */
+
+import { z } from 'zod';
+import { adminProcedure, router } from '../_core/trpc';
+import {
+  activateBenchmarkVersion,
+  importBenchmarkCsv,
+  listBenchmarkVersions,
+} from '../services/benchmarkService';
+import { listScoringRubrics } from '../services/scoringRubrics';
+import { getRescoreJob, listRescoreJobs, startRescoreJob } from '../services/rescoreService';
+import { listDuplicateGroups } from '../services/duplicateDetection';
+import { getContractorProfile, listContractors } from '../services/contractorService';
+import { importLicenseCsv, listLicenseSnapshots, verifyLicense } from '../services/licenseVerification';
+import { importApprovalCsv, listApprovalSnapshots, lookupApproval } from '../services/productApprovals';
+import { getChatTranscript, scoreChatEngagement } from '../services/chatTranscripts';
+import { getLeadValueHistory } from '../services/leadValueHistory';
+import {
+  AD_PLATFORMS,
+  exportAdConversionsCsv,
+  uploadAdConversions,
+} from '../services/adConversions';
+import {
+  activateLeadValueMatrix,
+  getActiveLeadValueMatrix,
+  listLeadValueMatrices,
+  saveLeadValueMatrix,
+  validateLeadValueMatrix,
+} from '../services/leadValueMatrix';
+
+// Largest benchmark CSV accepted in one import
+const MAX_BENCHMARK_CSV_LENGTH = 2_000_000;
+
+// Largest licensing / product approval CSV accepted in one import (a statewide export, under the 50mb body limit)
+const MAX_RECORDS_CSV_LENGTH = 40_000_000;
+
+// ============================================
+// ADMIN ROUTER
+// ============================================
+
+export const adminRouter = router({
+  benchmarks: router({
+    /**
+     * Imported benchmark versions, newest first
+     */
+    versions: adminProcedure.query(async () => {
+      return await listBenchmarkVersions();
+    }),
+
+    /**
+     * Import a benchmark CSV as a new version
+     * Columns: region_type,region,opening_type,floor,low,high,ceiling
+     */
+    import: adminProcedure
+      .input(z.object({
+        csv: z.string().min(1).max(MAX_BENCHMARK_CSV_LENGTH),
+        version: z.string().trim().min(1).max(64),
+        notes: z.string().max(500).optional(),
+        activate: z.boolean().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await importBenchmarkCsv({
+          ...input,
+          importedBy: ctx.user.email || ctx.user.openId,
+        });
+      }),
+
+    /**
+     * Switch scoring to another imported version
+     */
+    activate: adminProcedure
+      .input(z.object({
+        versionId: z.string().uuid(),
+      }))
+      .mutation(async ({ input }) => {
+        const success = await activateBenchmarkVersion(input.versionId);
+        return {
+          success,
+          message: success ? 'Benchmark version activated' : 'Benchmark version not found',
+        };
+      }),
+  }),
+
+  rubrics: router({
+    /**
+     * Registered scoring rubric versions
+     */
+    list: adminProcedure.query(() => {
+      return listScoringRubrics();
+    }),
+
+    /**
+     * Re-score stored scans under a rubric version
+     * Dry run (report only) unless apply is set.
+     */
+    rescore: adminProcedure
+      .input(z.object({
+        targetVersion: z.string().min(1),
+        apply: z.boolean().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { jobId, error } = await startRescoreJob({
+          ...input,
+          requestedBy: ctx.user.email || ctx.user.openId,
+        });
+        return {
+          success: !!jobId,
+          jobId,
+          message: error ?? 'Re-score job started',
+        };
+      }),
+
+    /**
+     * Progress and diff report of a re-score job
+     */
+    rescoreJob: adminProcedure
+      .input(z.object({
+        jobId: z.string(),
+      }))
+      .query(async ({ input }) => {
+        return await getRescoreJob(input.jobId);
+      }),
+
+    /**
+     * Recent re-score jobs, newest first
+     */
+    rescoreJobs: adminProcedure.query(async () => {
+      return await listRescoreJobs();
+    }),
+  }),
+
+  duplicates: router({
+    /**
+     * Recent scans grouped by identical files or a near-identical contractor template
+     * threshold: template similarity (0-1) needed to group different files
+     */
+    groups: adminProcedure
+      .input(z.object({
+        threshold: z.number().min(0.5).max(1).optional(),
+        limit: z.number().int().min(2).max(2000).optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await listDuplicateGroups(input ?? {});
+      }),
+  }),
+
+  contractors: router({
+    /**
+     * Contractors seen on scanned quotes, most recent first
+     */
+    list: adminProcedure
+      .input(z.object({
+        search: z.string().trim().max(100).optional(),
+        limit: z.number().int().min(1).max(200).optional(),
+      }).optional())
+      .query(async ({ input }) => {
+        return await listContractors(input ?? {});
+      }),
+
+    /**
+     * One contractor: average score, common warnings and price per opening
+     */
+    profile: adminProcedure
+      .input(z.object({
+        contractorId: z.string(),
+      }))
+      .query(async ({ input }) => {
+        return await getContractorProfile(input.contractorId);
+      }),
+  }),
+
+  licenses: router({
+    /**
+     * Imported licensing snapshots, newest first (the newest is used)
+     */
+    snapshots: adminProcedure.query(async () => {
+      return await listLicenseSnapshots();
+    }),
+
+    /**
+     * Import a licensing CSV snapshot
+     * Columns: license_number,status,expires_on (name, license_type optional)
+     */
+    import: adminProcedure
+      .input(z.object({
+        csv: z.string().min(1).max(MAX_RECORDS_CSV_LENGTH),
+        source: z.string().max(200).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await importLicenseCsv({
+          ...input,
+          importedBy: ctx.user.email || ctx.user.openId,
+        });
+      }),
+
+    /**
+     * Look up one license as a scan would
+     */
+    verify: adminProcedure
+      .input(z.object({
+        licenseNumber: z.string().trim().min(1).max(50),
+      }))
+      .query(async ({ input }) => {
+        return await verifyLicense(input.licenseNumber);
+      }),
+  }),
+
+  approvals: router({
+    /**
+     * Imported product approval snapshots, newest first (the newest is used)
+     */
+    snapshots: adminProcedure.query(async () => {
+      return await listApprovalSnapshots();
+    }),
+
+    /**
+     * Import a product approval CSV snapshot
+     * Columns: approval_number,product_type,hvhz,dp_positive,dp_negative,expires_on
+     * (manufacturer, product_line optional)
+     */
+    import: adminProcedure
+      .input(z.object({
+        csv: z.string().min(1).max(MAX_RECORDS_CSV_LENGTH),
+        source: z.string().max(200).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await importApprovalCsv({
+          ...input,
+          importedBy: ctx.user.email || ctx.user.openId,
+        });
+      }),
+
+    /**
+     * Look up one NOA / FL# as a scan would
+     */
+    lookup: adminProcedure
+      .input(z.object({
+        approvalNumber: z.string().trim().min(1).max(50),
+      }))
+      .query(async ({ input }) => {
+        return await lookupApproval(input.approvalNumber);
+      }),
+  }),
+
+  leads: router({
+    /**
+     * A lead's expert chat transcript with topics and engagement (read before a callback)
+     */
+    transcript: adminProcedure
+      .input(z.object({
+        leadId: z.string().uuid(),
+      }))
+      .query(async ({ input }) => {
+        const messages = await getChatTranscript(input.leadId);
+        return { messages, engagement: scoreChatEngagement(messages) };
+      }),
+
+    /**
+     * A lead's value over time, oldest first (each entry says what changed and which procedure ran)
+     */
+    valueHistory: adminProcedure
+      .input(z.object({
+        leadId: z.string().uuid(),
+      }))
+      .query(async ({ input }) => {
+        const entries = await getLeadValueHistory(input.leadId);
+        return {
+          entries,
+          tierTransitions: entries.filter(entry => entry.previousTier !== null && entry.previousTier !== entry.tier),
+        };
+      }),
+  }),
+
+  leadValues: router({
+    /**
+     * The matrix lead values are calculated with now
+     */
+    active: adminProcedure.query(async () => {
+      return await getActiveLeadValueMatrix();
+    }),
+
+    /**
+     * Saved matrix versions, newest first
+     */
+    versions: adminProcedure.query(async () => {
+      return await listLeadValueMatrices();
+    }),
+
+    /**
+     * Check an edited matrix without saving it
+     */
+    validate: adminProcedure
+      .input(z.object({
+        matrix: z.unknown(),
+      }))
+      .mutation(({ input }) => {
+        const { errors } = validateLeadValueMatrix(input.matrix);
+        return { valid: errors.length === 0, errors };
+      }),
+
+    /**
+     * Save an edited matrix as a new version (rejected whole if invalid)
+     */
+    save: adminProcedure
+      .input(z.object({
+        version: z.string().trim().min(1).max(64),
+        matrix: z.unknown(),
+        notes: z.string().max(500).optional(),
+        activate: z.boolean().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        return await saveLeadValueMatrix({
+          ...input,
+          createdBy: ctx.user.email || ctx.user.openId,
+        });
+      }),
+
+    /**
+     * Value leads with another saved version from now on
+     */
+    activate: adminProcedure
+      .input(z.object({
+        versionId: z.string().uuid(),
+      }))
+      .mutation(async ({ input }) => {
+        const success = await activateLeadValueMatrix(input.versionId);
+        return {
+          success,
+          message: success ? 'Lead value matrix activated' : 'Lead value matrix not found',
+        };
+      }),
+  }),
+
+  adConversions: router({
+    /**
+     * Pending offline conversions as the platform's import CSV (marked sent; download it right away)
+     */
+    exportCsv: adminProcedure
+      .input(z.object({
+        platform: z.enum(AD_PLATFORMS),
+      }))
+      .mutation(async ({ input }) => {
+        return await exportAdConversionsCsv(input.platform);
+      }),
+
+    /**
+     * Send pending offline conversions through the platform's upload adapter
+     */
+    upload: adminProcedure
+      .input(z.object({
+        platform: z.enum(AD_PLATFORMS),
+      }))
+      .mutation(async ({ input }) => {
+        return await uploadAdConversions(input.platform);
+      }),
+  }),
+});
+
+export type AdminRouter = typeof adminRouter;
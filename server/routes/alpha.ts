@@ -9,10 +9,42 @@ import { z } from 'zod';
 import { publicProcedure, router } from '../_core/trpc';
 import { supabase } from '../services/supabaseClient';
 import { sendVerificationCode, verifyCode, resendVerificationCode } from '../services/smsService';
+import { recordAdConversions } from '../services/adConversions';
 import { recalculateLeadValue, updateLeadValueScore } from '../services/leadValueService';
+import { enqueueScanJob, getScanJobStatus } from '../services/scanJobQueue';
+import { MAX_QUOTE_PAGES } from '../services/quoteAnalysisService';
+import { hashDocument } from '../services/extractionProviders';
+import { recordUpload } from '../services/duplicateDetection';
+import { getQuoteComparison, listLeadScans, MAX_COMPARED_QUOTES } from '../services/quoteComparison';
+import { MAX_CHAT_HISTORY, MAX_CHAT_QUESTION_LENGTH, streamScanChat } from '../services/scanChat';
+import { getChatTranscript } from '../services/chatTranscripts';
+import { MAX_VOICE_BYTES, streamVoiceChat } from '../services/voiceQuestions';
+import {
+  createReportShareLink,
+  listReportShareLinks,
+  MAX_ACTIVE_SHARE_LINKS,
+  MAX_SHARE_DAYS,
+  revokeReportShareLink,
+} from '../services/reportShares';
+import {
+  generateNegotiationLetter,
+  getNegotiationLetter,
+  MAX_LETTER_LENGTH,
+  updateNegotiationLetter,
+} from '../services/negotiationLetter';
 import { storagePut } from '../storage';
 import { nanoid } from 'nanoid';
 
+// Full results (and comparisons) are only shown after SMS verification
+async function isLeadVerified(leadId: string): Promise<boolean> {
+  const { data: lead } = await supabase.from('leads')
+    .select('sms_verified')
+    .eq('id', leadId)
+    .single();
+
+  return Boolean(lead?.sms_verified);
+}
+
 // ============================================
 // PATH ALPHA ROUTER
 // ============================================
@@ -20,7 +52,7 @@ import { nanoid } from 'nanoid';
 export const alphaRouter = router({
   /**
    * Upload quote file to storage
-   * Returns the public URL for Gemini analysis
+   * Returns the storage key for alpha.analyze
    */
   upload: publicProcedure
     .input(z.object({
@@ -44,6 +76,10 @@ export const alphaRouter = router({
       
       // Upload to storage
       const { url } = await storagePut(key, buffer, mimeType);
+
+      // Content hash lets a re-upload of the same file reuse its analysis
+      const sha256 = hashDocument(buffer);
+      await recordUpload({ storageKey: key, leadId, sha256, mimeType, byteSize: buffer.length });
       
       // Update lead with path type
       await supabase.from('leads').update({
@@ -57,10 +93,55 @@ export const alphaRouter = router({
         success: true, 
         url, 
         key,
+        sha256,
         message: 'Quote uploaded successfully',
       };
     }),
 
+  /**
+   * Queue an uploaded quote for server-side analysis
+   * Extraction, scoring and the scans row all happen in the scan job queue
+   */
+  analyze: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      // Ordered documents of one quote (PDFs and/or page photos)
+      pages: z.array(z.object({
+        key: z.string().min(1), // Storage key returned by alpha.upload
+        mimeType: z.string(),
+      })).min(1).max(MAX_QUOTE_PAGES),
+      eventId: z.string().optional(),
+      openingCountHint: z.number().int().positive().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const { leadId, pages } = input;
+
+      console.log('[Alpha] Queueing analysis for lead:', leadId, `(${pages.length} document(s))`);
+
+      // Only allow analysis of files uploaded for this lead
+      if (pages.some(page => !page.key.startsWith(`estimates/${leadId}/`))) {
+        return {
+          success: false,
+          message: 'Quote file does not belong to this lead',
+        };
+      }
+
+      const jobId = await enqueueScanJob(input);
+
+      if (!jobId) {
+        return {
+          success: false,
+          message: 'Could not start analysis. Please try again.',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Analysis queued',
+        jobId,
+      };
+    }),
+
   /**
    * Submit phone number for SMS verification
    */
@@ -101,7 +182,7 @@ export const alphaRouter = router({
       
       if (result.success) {
         // Recalculate lead value with SMS verified bonus
-        await recalculateLeadValue(leadId);
+        await recalculateLeadValue(leadId, 'alpha.verify');
       }
       
       return {
@@ -134,15 +215,27 @@ export const alphaRouter = router({
 
   /**
    * Get analysis status (for polling during Analysis Theater)
+   * Reports the job stage and which of the five pillars are done
    */
   status: publicProcedure
     .input(z.object({
       leadId: z.string().uuid(),
+      jobId: z.string().uuid().optional(),
     }))
     .query(async ({ input }) => {
-      const { leadId } = input;
+      const { leadId, jobId } = input;
+      
+      const job = await getScanJobStatus(leadId, jobId);
+      
+      if (job) {
+        return {
+          ...job,
+          hasResults: job.status === 'completed' && job.result !== null,
+          overallScore: job.result?.overallScore,
+        };
+      }
       
-      // Check if scan exists for this lead
+      // No job yet - fall back to checking for a scan (pre-queue scans)
       const { data: scan, error } = await supabase.from('scans')
         .select('id, overall_score, audit_details, created_at')
         .eq('lead_id', leadId)
@@ -212,6 +305,245 @@ export const alphaRouter = router({
       };
     }),
 
+  /**
+   * Ask the quote expert about the unlocked report
+   * Streams the reply ('delta' chunks), then the cited findings ('done')
+   */
+  chat: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      scanId: z.string().uuid().optional(),
+      question: z.string().trim().min(1).max(MAX_CHAT_QUESTION_LENGTH),
+      history: z.array(z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string().max(4000),
+      })).max(MAX_CHAT_HISTORY * 2).optional(),
+    }))
+    .mutation(async function* ({ input }) {
+      console.log('[Alpha] Chat question for lead:', input.leadId);
+
+      yield* streamScanChat(input);
+    }),
+
+  /**
+   * Ask the quote expert by voice
+   * Streams the transcript ('transcript'), then the answer like alpha.chat
+   */
+  voiceChat: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      scanId: z.string().uuid().optional(),
+      audio: z.string().min(1).max(Math.ceil(MAX_VOICE_BYTES / 3) * 4), // Base64 encoded
+      mimeType: z.string(),
+    }))
+    .mutation(async function* ({ input }) {
+      console.log('[Alpha] Voice question for lead:', input.leadId);
+
+      // Recordings are only stored and transcribed for verified leads
+      if (!(await isLeadVerified(input.leadId))) {
+        yield { type: 'error' as const, message: 'Phone verification required to chat about your quote' };
+        return;
+      }
+
+      yield* streamVoiceChat(input);
+    }),
+
+  /**
+   * Stored chat about the lead's report (restores the drawer after a refresh)
+   */
+  chatHistory: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      scanId: z.string().uuid().optional(),
+    }))
+    .query(async ({ input }) => {
+      const { leadId, scanId } = input;
+
+      if (!(await isLeadVerified(leadId))) {
+        return { success: false, messages: [] };
+      }
+
+      return { success: true, messages: await getChatTranscript(leadId, scanId) };
+    }),
+
+  /**
+   * List the lead's quotes (one entry per distinct upload) for comparison
+   */
+  scans: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+    }))
+    .query(async ({ input }) => {
+      const { leadId } = input;
+
+      if (!(await isLeadVerified(leadId))) {
+        return { success: false, message: 'Phone verification required', scans: [] };
+      }
+
+      return { success: true, message: 'OK', scans: await listLeadScans(leadId) };
+    }),
+
+  /**
+   * Compare two or more of the lead's quotes side by side
+   * Defaults to the lead's newest quotes when no scans are picked.
+   */
+  compare: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      scanIds: z.array(z.string().uuid()).min(2).max(MAX_COMPARED_QUOTES).optional(),
+    }))
+    .query(async ({ input }) => {
+      const { leadId, scanIds } = input;
+
+      if (!(await isLeadVerified(leadId))) {
+        return { success: false, message: 'Phone verification required to compare quotes', comparison: null };
+      }
+
+      const comparison = await getQuoteComparison(leadId, scanIds);
+
+      if (!comparison) {
+        return { success: false, message: 'Upload at least two quotes to compare them', comparison: null };
+      }
+
+      return { success: true, message: 'Comparison ready', comparison };
+    }),
+
+  /**
+   * Create a read-only link to the lead's report for someone else
+   * The link shows the audit without the homeowner's contact details.
+   */
+  createShareLink: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      scanId: z.string().uuid().optional(),
+      expiresInDays: z.number().int().min(1).max(MAX_SHARE_DAYS).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      console.log('[Alpha] Creating share link for lead:', input.leadId);
+
+      if (!(await isLeadVerified(input.leadId))) {
+        return { success: false, message: 'Phone verification required to share your report', link: null };
+      }
+
+      const link = await createReportShareLink(input);
+
+      if (!link) {
+        return {
+          success: false,
+          message: `Could not create a link (at most ${MAX_ACTIVE_SHARE_LINKS} can be active at once)`,
+          link: null,
+        };
+      }
+
+      return { success: true, message: 'Share link created', link };
+    }),
+
+  /**
+   * The lead's active share links with their view counts
+   */
+  shareLinks: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+    }))
+    .query(async ({ input }) => {
+      if (!(await isLeadVerified(input.leadId))) {
+        return { success: false, links: [] };
+      }
+
+      return { success: true, links: await listReportShareLinks(input.leadId) };
+    }),
+
+  /**
+   * Turn off one of the lead's share links
+   */
+  revokeShareLink: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      shareId: z.string().uuid(),
+    }))
+    .mutation(async ({ input }) => {
+      console.log('[Alpha] Revoking share link for lead:', input.leadId);
+
+      if (!(await isLeadVerified(input.leadId))) {
+        return { success: false, message: 'Phone verification required to manage share links' };
+      }
+
+      const revoked = await revokeReportShareLink(input.leadId, input.shareId);
+
+      return { success: revoked, message: revoked ? 'Share link turned off' : 'Share link not found' };
+    }),
+
+  /**
+   * The stored negotiation letter for the lead's scan, if one was written
+   */
+  negotiationLetter: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      scanId: z.string().uuid().optional(),
+    }))
+    .query(async ({ input }) => {
+      if (!(await isLeadVerified(input.leadId))) {
+        return { success: false, letter: null };
+      }
+
+      return { success: true, letter: await getNegotiationLetter(input.leadId, input.scanId) };
+    }),
+
+  /**
+   * Write a letter asking the contractor for the changes the scan calls for
+   * Returns the stored letter unless regenerate is set (which discards edits).
+   */
+  generateNegotiationLetter: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      scanId: z.string().uuid().optional(),
+      regenerate: z.boolean().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const { leadId, ...options } = input;
+
+      console.log('[Alpha] Generating negotiation letter for lead:', leadId);
+
+      if (!(await isLeadVerified(leadId))) {
+        return { success: false, message: 'Phone verification required to write a letter', letter: null };
+      }
+
+      const result = await generateNegotiationLetter(leadId, options);
+
+      if (result.status === 'nothing_to_ask') {
+        return { success: false, message: 'Your quote has no findings worth negotiating', letter: null };
+      }
+      if (result.status !== 'ok') {
+        return { success: false, message: 'Report not found', letter: null };
+      }
+
+      return { success: true, message: 'Letter ready', letter: result.letter };
+    }),
+
+  /**
+   * Save the homeowner's edits to their negotiation letter
+   */
+  saveNegotiationLetter: publicProcedure
+    .input(z.object({
+      leadId: z.string().uuid(),
+      letterId: z.string().uuid(),
+      subject: z.string().trim().min(1).max(200).optional(),
+      body: z.string().trim().min(1).max(MAX_LETTER_LENGTH),
+    }))
+    .mutation(async ({ input }) => {
+      const { leadId, letterId, ...changes } = input;
+
+      console.log('[Alpha] Saving negotiation letter for lead:', leadId);
+
+      if (!(await isLeadVerified(leadId))) {
+        return { success: false, message: 'Phone verification required to edit a letter', letter: null };
+      }
+
+      const letter = await updateNegotiationLetter(leadId, letterId, changes);
+
+      return { success: letter !== null, message: letter ? 'Letter saved' : 'Letter not found', letter };
+    }),
+
   /**
    * Submit timeline selection
    */
@@ -232,7 +564,7 @@ export const alphaRouter = router({
       }).eq('id', leadId);
       
       // Recalculate lead value with new timeline
-      const valueResult = await recalculateLeadValue(leadId);
+      const valueResult = await recalculateLeadValue(leadId, 'alpha.timeline');
       
       return {
         success: true,
@@ -269,7 +601,7 @@ export const alphaRouter = router({
       await supabase.from('leads').update(updateData).eq('id', leadId);
       
       // Recalculate lead value
-      const valueResult = await recalculateLeadValue(leadId);
+      const valueResult = await recalculateLeadValue(leadId, 'alpha.filterQuestions');
       
       return {
         success: true,
@@ -335,7 +667,12 @@ export const alphaRouter = router({
       await supabase.from('leads').update(updateData).eq('id', leadId);
       
       // Get final lead value for Meta pixel
-      const valueResult = await recalculateLeadValue(leadId);
+      const valueResult = await recalculateLeadValue(leadId, 'alpha.finalAction');
+
+      // Qualified leads are reported back to Google / Microsoft Ads as offline conversions
+      if (typeof updateData.status === 'string') {
+        await recordAdConversions(leadId, updateData.status);
+      }
       
       return {
         success: true,
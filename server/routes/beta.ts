@@ -9,7 +9,10 @@ import { z } from 'zod';
 import { publicProcedure, router } from '../_core/trpc';
 import { supabase } from '../services/supabaseClient';
 import { sendVerificationCode, verifyCode, resendVerificationCode } from '../services/smsService';
+import { recordAdConversions } from '../services/adConversions';
 import { recalculateLeadValue } from '../services/leadValueService';
+import { saveChatMessage, updateChatEngagement } from '../services/chatTranscripts';
+import { MAX_CHAT_HISTORY, MAX_CHAT_QUESTION_LENGTH } from '../services/scanChat';
 
 // ============================================
 // PATH BETA ROUTER
@@ -88,7 +91,7 @@ export const betaRouter = router({
       await supabase.from('leads').update(updateData).eq('id', leadId);
       
       // Recalculate lead value with new data
-      const valueResult = await recalculateLeadValue(leadId);
+      const valueResult = await recalculateLeadValue(leadId, 'beta.filter');
       
       return {
         success: true,
@@ -139,7 +142,7 @@ export const betaRouter = router({
       
       if (result.success) {
         // Recalculate lead value with SMS verified bonus
-        await recalculateLeadValue(leadId);
+        await recalculateLeadValue(leadId, 'beta.verify');
       }
       
       return {
@@ -225,7 +228,12 @@ export const betaRouter = router({
       await supabase.from('leads').update(updateData).eq('id', leadId);
       
       // Get final lead value for Meta pixel
-      const valueResult = await recalculateLeadValue(leadId);
+      const valueResult = await recalculateLeadValue(leadId, 'beta.finalAction');
+
+      // Qualified leads are reported back to Google / Microsoft Ads as offline conversions
+      if (typeof updateData.status === 'string') {
+        await recordAdConversions(leadId, updateData.status);
+      }
       
       return {
         success: true,
@@ -277,36 +285,32 @@ export const betaRouter = router({
 
   /**
    * Track AI chat interaction
+   * The homeowner's questions are stored in the lead's transcript (only what the homeowner
+   * typed: answers are recorded where they are generated), then engagement is re-scored
+   * from the transcript. messageCount and topic are logged as before.
    */
   trackChatInteraction: publicProcedure
     .input(z.object({
       leadId: z.string().uuid(),
       messageCount: z.number(),
       topic: z.string().optional(),
+      questions: z.array(z.string().trim().min(1).max(MAX_CHAT_QUESTION_LENGTH)).max(MAX_CHAT_HISTORY).optional(),
     }))
     .mutation(async ({ input }) => {
-      const { leadId, messageCount, topic } = input;
-      
-      console.log('[Beta] Chat interaction for lead:', leadId, { messageCount, topic });
+      const { leadId, messageCount, topic, questions = [] } = input;
       
-      // Update engagement score based on chat interaction
-      const { data: lead } = await supabase.from('leads')
-        .select('engagement_score')
-        .eq('id', leadId)
-        .single();
+      console.log('[Beta] Chat interaction for lead:', leadId, { messageCount, topic, questions: questions.length });
       
-      const currentScore = lead?.engagement_score || 0;
-      const newScore = Math.min(100, currentScore + messageCount * 5);
+      for (const question of questions) {
+        await saveChatMessage({ leadId, role: 'user', content: question });
+      }
       
-      await supabase.from('leads').update({
-        engagement_score: newScore,
-        updated_at: new Date().toISOString(),
-      }).eq('id', leadId);
+      const engagement = await updateChatEngagement(leadId);
       
       return {
         success: true,
         message: 'Chat interaction tracked',
-        engagementScore: newScore,
+        engagementScore: engagement.score,
       };
     }),
 });
@@ -0,0 +1,71 @@
+/**
+ * Report Routes - Downloadable PDF of the Audit
+ *
+ * GET /api/report/:leadId?scanId=... serves the printable audit report of a
+ * verified lead's scan (the newest one by default) as a PDF attachment.
+ * GET /api/report/shared/:token serves the PII-free copy behind a share link.
+ */
+
+import type { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { loadAuditReport, renderAuditReportPdf } from '../services/auditReport';
+import { getSharedReport } from '../services/reportShares';
+
+const reportParamsSchema = z.object({
+  leadId: z.string().uuid(),
+  scanId: z.string().uuid().optional(),
+});
+
+export async function handleAuditReportDownload(req: Request, res: Response): Promise<void> {
+  const params = reportParamsSchema.safeParse({
+    leadId: req.params.leadId,
+    scanId: typeof req.query.scanId === 'string' ? req.query.scanId : undefined,
+  });
+
+  if (!params.success) {
+    res.status(400).json({ error: 'A valid leadId (and optional scanId) is required' });
+    return;
+  }
+
+  try {
+    const report = await loadAuditReport(params.data.leadId, params.data.scanId);
+    if (!report) {
+      // Same answer for unverified leads and unknown scans
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    const pdf = renderAuditReportPdf(report);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="quote-audit-${report.scannedAt.slice(0, 10)}.pdf"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(pdf);
+  } catch (error) {
+    console.error('[Report] Failed to render report:', error);
+    res.status(500).json({ error: 'Failed to render report' });
+  }
+}
+
+export async function handleSharedReportDownload(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await getSharedReport(String(req.params.token ?? ''));
+    if (result.status !== 'ok') {
+      res.status(result.status === 'invalid' ? 404 : 410).json({ error: `Share link ${result.status}` });
+      return;
+    }
+
+    const pdf = renderAuditReportPdf(result.report);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="quote-audit-${result.report.scannedAt.slice(0, 10)}.pdf"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(pdf);
+  } catch (error) {
+    console.error('[Report] Failed to render shared report:', error);
+    res.status(500).json({ error: 'Failed to render report' });
+  }
+}
+
+export function registerReportRoutes(app: Express) {
+  app.get('/api/report/shared/:token', handleSharedReportDownload);
+  app.get('/api/report/:leadId', handleAuditReportDownload);
+}
@@ -0,0 +1,54 @@
+/**
+ * Share Router - Public, Read-Only Shared Reports
+ *
+ * Anyone with a share link can read the audit it points to (without the
+ * homeowner's details) until the link expires or is revoked. Links are
+ * created and revoked by the lead through alpha.createShareLink /
+ * alpha.revokeShareLink.
+ */
+
+import { z } from 'zod';
+import { publicProcedure, router } from '../_core/trpc';
+import { getSharedReport, recordSharedReportView } from '../services/reportShares';
+
+const SHARE_MESSAGES = {
+  invalid: 'This link is not valid. Ask the homeowner to send a new one.',
+  expired: 'This link has expired. Ask the homeowner to send a new one.',
+  revoked: 'The homeowner has turned this link off.',
+} as const;
+
+// ============================================
+// SHARE ROUTER
+// ============================================
+
+export const shareRouter = router({
+  /**
+   * The shared report behind a link token
+   */
+  view: publicProcedure
+    .input(z.object({
+      token: z.string().min(1).max(200),
+    }))
+    .query(async ({ input }) => {
+      const result = await getSharedReport(input.token);
+
+      if (result.status !== 'ok') {
+        return { success: false, status: result.status, message: SHARE_MESSAGES[result.status], report: null };
+      }
+
+      return { success: true, status: result.status, message: 'OK', report: result.report };
+    }),
+
+  /**
+   * Count one view of the link (the report page calls this once per load)
+   */
+  recordView: publicProcedure
+    .input(z.object({
+      token: z.string().min(1).max(200),
+    }))
+    .mutation(async ({ input }) => {
+      return { success: await recordSharedReportView(input.token) };
+    }),
+});
+
+export type ShareRouter = typeof shareRouter;
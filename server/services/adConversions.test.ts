@@ -0,0 +1,214 @@
+/**
+ * Unit tests for Google / Microsoft Ads offline conversions (+ admin router)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  buildAdConversionsCsv,
+  exportAdConversionsCsv,
+  recordAdConversions,
+  registerAdConversionUploader,
+  resumeStuckAdConversions,
+  SENDING_TIMEOUT_MS,
+  unregisterAdConversionUploader,
+  uploadAdConversions,
+  type AdConversion,
+  type AdConversionUploader,
+} from './adConversions';
+import { adminRouter } from '../routes/admin';
+import { betaRouter } from '../routes/beta';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_LEAD_ID = '22222222-2222-4222-8222-222222222222';
+
+// sha256 of "jane@example.com" and "+13055550123"
+const EMAIL_HASH = '8c87b489ce35cf2e2f39f80e282cb2e804932a56a213983eeeb428407d43b52d';
+const PHONE_HASH = '7f42c0025e9dfd7f36f944108afc4d79095b9e9336cccb521a7e6d3823541ce5';
+
+const createAdmin = () => adminRouter.createCaller({
+  user: { id: 1, openId: 'admin-1', email: 'ops@example.com', role: 'admin' },
+  req: {},
+  res: {},
+} as any);
+
+const conversions = () => db.table('ad_conversions');
+
+const CONVERSION: AdConversion = {
+  id: 'c1',
+  leadId: LEAD_ID,
+  platform: 'google',
+  conversion: 'qualified',
+  clickId: 'Cj0KCQjw-gclid',
+  conversionTime: '2026-10-18T14:05:09.123Z',
+  value: 600,
+  currency: 'USD',
+  hashedEmail: EMAIL_HASH,
+  hashedPhone: PHONE_HASH,
+  attempts: 0,
+};
+
+describe('buildAdConversionsCsv', () => {
+  it('should follow each platform\'s import template', () => {
+    expect(buildAdConversionsCsv('google', [CONVERSION])).toBe([
+      'Parameters:TimeZone=+0000',
+      'Google Click ID,Email,Phone Number,Conversion Name,Conversion Time,Conversion Value,Conversion Currency',
+      `Cj0KCQjw-gclid,${EMAIL_HASH},${PHONE_HASH},Qualified Lead,2026-10-18 14:05:09,600,USD`,
+      '',
+    ].join('\n'));
+
+    const microsoft = buildAdConversionsCsv('microsoft', [
+      { ...CONVERSION, platform: 'microsoft', conversion: 'converted', clickId: 'abc,123', hashedPhone: null },
+    ]);
+    expect(microsoft.split('\n').slice(1, 3)).toEqual([
+      'Microsoft Click ID,Hashed Email Address,Hashed Phone Number,Conversion Name,Conversion Time,Conversion Value,Conversion Currency',
+      `"abc,123",${EMAIL_HASH},,Converted Lead,2026-10-18 14:05:09,600,USD`,
+    ]);
+  });
+});
+
+describe('ad conversions', () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    db.seed('leads', [
+      {
+        id: LEAD_ID,
+        status: 'new',
+        email: 'Jane@Example.com',
+        phone: '+13055550123',
+        gclid: 'Cj0KCQjw-gclid',
+        msclkid: 'ms-click-1',
+        lead_value_score: 600,
+        is_homeowner: true,
+        window_count: 'entire_home',
+        timeline_urgency: 'asap',
+        path_type: 'beta',
+        sms_verified: true,
+      },
+      { id: OTHER_LEAD_ID, status: 'qualified', email: 'sam@example.com', phone: null, gclid: null, msclkid: null },
+    ]);
+  });
+
+  afterEach(() => {
+    unregisterAdConversionUploader('google');
+    vi.restoreAllMocks();
+  });
+
+  it('should record a conversion per clicked platform when a lead qualifies, once', async () => {
+    const beta = betaRouter.createCaller({ req: {}, res: {} } as any);
+
+    await beta.finalAction({ leadId: LEAD_ID, action: 'schedule_consultation' });
+    await beta.finalAction({ leadId: LEAD_ID, action: 'request_callback' });
+
+    expect(conversions()).toHaveLength(2);
+    expect(conversions()).toMatchObject([
+      { lead_id: LEAD_ID, platform: 'google', conversion: 'qualified', click_id: 'Cj0KCQjw-gclid', value: 600, hashed_email: EMAIL_HASH, hashed_phone: PHONE_HASH, status: 'pending' },
+      { lead_id: LEAD_ID, platform: 'microsoft', conversion: 'qualified', click_id: 'ms-click-1', value: 600, status: 'pending' },
+    ]);
+    expect(await recordAdConversions(OTHER_LEAD_ID, 'qualified')).toBe(0); // no click id
+    expect(await recordAdConversions(LEAD_ID, 'new')).toBe(0);
+  });
+
+  it('should export each pending conversion as CSV exactly once', async () => {
+    await recordAdConversions(LEAD_ID, 'qualified', new Date('2026-10-18T14:05:09Z'));
+
+    const first = await createAdmin().adConversions.exportCsv({ platform: 'google' });
+    expect(first.count).toBe(1);
+    expect(first.filename).toMatch(/^google-offline-conversions-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(first.csv).toContain(`Cj0KCQjw-gclid,${EMAIL_HASH},${PHONE_HASH},Qualified Lead,2026-10-18 14:05:09,600,USD`);
+
+    expect((await exportAdConversionsCsv('google')).count).toBe(0);
+    expect(conversions().map(({ platform, status, sent_via }) => ({ platform, status, sent_via }))).toEqual([
+      { platform: 'google', status: 'sent', sent_via: 'csv' },
+      { platform: 'microsoft', status: 'pending', sent_via: undefined },
+    ]);
+  });
+
+  it('should pick up status changes made outside the funnel', async () => {
+    Object.assign(db.table('leads')[0], { status: 'converted', lead_value_score: 900, updated_at: '2026-10-20T09:00:00.000Z' });
+
+    const { csv, count } = await exportAdConversionsCsv('microsoft');
+
+    expect(count).toBe(1);
+    expect(csv).toContain('ms-click-1,');
+    expect(csv).toContain('Converted Lead,2026-10-20 09:00:00,900,USD');
+    expect(conversions().find(row => row.platform === 'google')).toMatchObject({ conversion: 'converted', status: 'pending' });
+  });
+
+  it('should upload through the registered adapter and retry only rejected conversions', async () => {
+    expect(await uploadAdConversions('google')).toMatchObject({ success: false, message: 'No upload adapter is configured for google' });
+
+    db.table('leads')[1].gclid = 'second-gclid';
+    await recordAdConversions(LEAD_ID, 'qualified');
+    await recordAdConversions(OTHER_LEAD_ID, 'qualified');
+
+    const sent: string[] = [];
+    const uploader: AdConversionUploader = {
+      name: 'google-ads-api',
+      platform: 'google',
+      isConfigured: () => true,
+      upload: vi.fn(async (batch: AdConversion[]) => {
+        sent.push(...batch.map(conversion => conversion.clickId));
+        return { failed: batch.filter(conversion => conversion.clickId === 'second-gclid').map(conversion => ({ id: conversion.id, error: 'INVALID_GCLID' })) };
+      }),
+    };
+    registerAdConversionUploader(uploader);
+
+    expect(await createAdmin().adConversions.upload({ platform: 'google' })).toEqual({
+      success: false,
+      uploaded: 1,
+      failed: 1,
+      message: 'Uploaded 1, failed 1',
+    });
+    expect(conversions().filter(row => row.platform === 'google').map(({ status, sent_via, attempts, last_error }) => ({ status, sent_via, attempts, last_error }))).toEqual([
+      { status: 'sent', sent_via: 'google-ads-api', attempts: 0, last_error: null },
+      { status: 'pending', sent_via: undefined, attempts: 1, last_error: 'INVALID_GCLID' },
+    ]);
+
+    uploader.upload = vi.fn(async () => ({ failed: [] }));
+    expect(await uploadAdConversions('google')).toMatchObject({ success: true, uploaded: 1 });
+    expect(sent).toEqual(['Cj0KCQjw-gclid', 'second-gclid']);
+    expect(uploader.upload).toHaveBeenCalledWith([expect.objectContaining({ clickId: 'second-gclid' })]);
+  });
+
+  it('should put conversions back when the adapter throws', async () => {
+    await recordAdConversions(LEAD_ID, 'qualified');
+    registerAdConversionUploader({
+      name: 'google-ads-api',
+      platform: 'google',
+      isConfigured: () => true,
+      upload: async () => { throw new Error('UNAUTHENTICATED'); },
+    });
+
+    expect(await uploadAdConversions('google')).toMatchObject({ success: false, uploaded: 0, failed: 1 });
+    expect(conversions()[0]).toMatchObject({ status: 'pending', attempts: 1, last_error: 'UNAUTHENTICATED' });
+  });
+
+  it('should release conversions left in sending by an interrupted export or upload', async () => {
+    await recordAdConversions(LEAD_ID, 'qualified');
+    const [google, microsoft] = conversions();
+    const stale = new Date(Date.now() - SENDING_TIMEOUT_MS - 1000).toISOString();
+    Object.assign(google, { status: 'sending', updated_at: stale });
+    Object.assign(microsoft, { status: 'sending', updated_at: new Date().toISOString() });
+
+    expect(await resumeStuckAdConversions()).toBe(1);
+    expect(google.status).toBe('pending');
+    expect(microsoft.status).toBe('sending');
+
+    Object.assign(google, { status: 'sending', updated_at: stale });
+    const upload = vi.fn(async () => ({ failed: [] }));
+    registerAdConversionUploader({ name: 'google-ads-api', platform: 'google', isConfigured: () => true, upload });
+
+    expect(await uploadAdConversions('google')).toMatchObject({ success: true, uploaded: 1 });
+    expect(upload).toHaveBeenCalledWith([expect.objectContaining({ id: google.id })]);
+    expect(google.status).toBe('sent');
+  });
+});
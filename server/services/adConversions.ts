@@ -0,0 +1,430 @@
+/**
+ * Ad Conversions Service - Google Ads / Microsoft Ads Offline Conversions
+ *
+ * When a lead becomes `qualified` or `converted`, a conversion is recorded
+ * for each ad platform it has a click id for (gclid → google, msclkid →
+ * microsoft) with the conversion time, its lead_value_score and SHA-256
+ * hashed email / phone for enhanced conversions.
+ *
+ * Pending conversions leave either as a CSV in the platform's offline import
+ * format or through an upload adapter registered for the platform (e.g. a
+ * Google Ads API client). Either way a conversion is claimed before it is
+ * sent and marked sent afterwards, so each lead/platform/conversion goes out
+ * once. Status changes made outside the funnel (e.g. `converted` set in the
+ * CRM) are picked up by a sweep before every export or upload, and claims
+ * left behind by a crash mid-send are released after SENDING_TIMEOUT_MS.
+ */
+
+import { createHash } from 'node:crypto';
+import { supabase } from './supabaseClient';
+import { hashEmail } from './metaConversions';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const AD_PLATFORMS = ['google', 'microsoft'] as const;
+export const AD_CONVERSIONS = ['qualified', 'converted'] as const;
+
+// Conversion action names as set up in both ad accounts
+export const AD_CONVERSION_NAMES: Record<AdConversionName, string> = {
+  qualified: 'Qualified Lead',
+  converted: 'Converted Lead',
+};
+
+// Lead column holding each platform's click id
+const CLICK_ID_COLUMNS: Record<AdPlatform, 'gclid' | 'msclkid'> = {
+  google: 'gclid',
+  microsoft: 'msclkid',
+};
+
+// A conversion still 'sending' after this long was interrupted (crash or restart mid-upload)
+export const SENDING_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Header row of each platform's offline conversion import template
+const CSV_HEADERS: Record<AdPlatform, string[]> = {
+  google: ['Google Click ID', 'Email', 'Phone Number', 'Conversion Name', 'Conversion Time', 'Conversion Value', 'Conversion Currency'],
+  microsoft: ['Microsoft Click ID', 'Hashed Email Address', 'Hashed Phone Number', 'Conversion Name', 'Conversion Time', 'Conversion Value', 'Conversion Currency'],
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AdPlatform = typeof AD_PLATFORMS[number];
+export type AdConversionName = typeof AD_CONVERSIONS[number];
+
+export interface AdConversion {
+  id: string;
+  leadId: string;
+  platform: AdPlatform;
+  conversion: AdConversionName;
+  clickId: string;
+  conversionTime: string;
+  value: number;
+  currency: string;
+  hashedEmail: string | null;
+  hashedPhone: string | null;
+  attempts: number;
+}
+
+export interface AdConversionUploadResult {
+  // Conversions the platform rejected (everything else counts as uploaded)
+  failed: Array<{ id: string; error: string }>;
+}
+
+// Sends conversions to one platform's API
+export interface AdConversionUploader {
+  name: string;
+  platform: AdPlatform;
+  isConfigured(): boolean;
+  upload(conversions: AdConversion[]): Promise<AdConversionUploadResult>;
+}
+
+export interface AdConversionCsvExport {
+  csv: string;
+  count: number;
+  filename: string;
+}
+
+export interface AdConversionUploadSummary {
+  success: boolean;
+  uploaded: number;
+  failed: number;
+  message: string;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * SHA-256 of the phone in E.164 (+13055550123), as Google and Microsoft expect
+ */
+export function hashPhoneE164(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  // 10 digits are a US number without its country code (as in smsService)
+  const e164 = `+${digits.length === 10 ? `1${digits}` : digits}`;
+  return createHash('sha256').update(e164).digest('hex');
+}
+
+/**
+ * "2026-10-18 14:05:09" in UTC (the CSVs declare TimeZone=+0000)
+ */
+export function formatConversionTime(iso: string): string {
+  return new Date(iso).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Offline conversion import file for a platform
+ */
+export function buildAdConversionsCsv(platform: AdPlatform, conversions: AdConversion[]): string {
+  const rows = conversions.map(conversion => [
+    conversion.clickId,
+    conversion.hashedEmail ?? '',
+    conversion.hashedPhone ?? '',
+    AD_CONVERSION_NAMES[conversion.conversion],
+    formatConversionTime(conversion.conversionTime),
+    String(conversion.value),
+    conversion.currency,
+  ]);
+
+  return [
+    'Parameters:TimeZone=+0000',
+    CSV_HEADERS[platform].join(','),
+    ...rows.map(row => row.map(csvCell).join(',')),
+  ].join('\n') + '\n';
+}
+
+function mapConversion(row: Record<string, any>): AdConversion {
+  return {
+    id: row.id,
+    leadId: row.lead_id,
+    platform: row.platform,
+    conversion: row.conversion,
+    clickId: row.click_id,
+    conversionTime: row.conversion_time,
+    value: row.value ?? 0,
+    currency: row.currency ?? 'USD',
+    hashedEmail: row.hashed_email ?? null,
+    hashedPhone: row.hashed_phone ?? null,
+    attempts: row.attempts ?? 0,
+  };
+}
+
+function isAdConversionName(status: unknown): status is AdConversionName {
+  return AD_CONVERSIONS.includes(status as AdConversionName);
+}
+
+// ============================================
+// UPLOAD ADAPTERS
+// ============================================
+
+const UPLOADERS = new Map<AdPlatform, AdConversionUploader>();
+
+/**
+ * Use an adapter for a platform's uploads (replaces the one registered before)
+ */
+export function registerAdConversionUploader(uploader: AdConversionUploader): void {
+  UPLOADERS.set(uploader.platform, uploader);
+}
+
+export function unregisterAdConversionUploader(platform: AdPlatform): void {
+  UPLOADERS.delete(platform);
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+const LEAD_COLUMNS = 'id, status, email, phone, gclid, msclkid, lead_value_score, updated_at';
+
+/**
+ * Record a lead's conversion for every platform it has a click id for (existing ones are kept)
+ */
+async function recordLeadConversion(
+  lead: Record<string, any>,
+  conversion: AdConversionName,
+  conversionTime: string
+): Promise<number> {
+  let recorded = 0;
+
+  for (const platform of AD_PLATFORMS) {
+    const clickId = lead[CLICK_ID_COLUMNS[platform]];
+    if (!clickId) continue;
+
+    const { data: existing } = await supabase.from('ad_conversions')
+      .select('id')
+      .eq('lead_id', lead.id)
+      .eq('platform', platform)
+      .eq('conversion', conversion)
+      .maybeSingle();
+
+    if (existing) continue;
+
+    const now = new Date().toISOString();
+    const { error } = await supabase.from('ad_conversions').insert({
+      lead_id: lead.id,
+      platform,
+      conversion,
+      click_id: clickId,
+      conversion_time: conversionTime,
+      value: lead.lead_value_score ?? 0,
+      currency: 'USD',
+      hashed_email: lead.email ? hashEmail(lead.email) : null,
+      hashed_phone: lead.phone ? hashPhoneE164(lead.phone) : null,
+      status: 'pending',
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+    });
+
+    if (error) {
+      console.error('[AdConversions] Failed to record conversion:', lead.id, platform, conversion, error);
+      continue;
+    }
+
+    recorded++;
+  }
+
+  return recorded;
+}
+
+/**
+ * Record the conversion a lead status change is worth (call after the status is saved)
+ */
+export async function recordAdConversions(
+  leadId: string,
+  status: string,
+  conversionTime: Date = new Date()
+): Promise<number> {
+  if (!isAdConversionName(status)) {
+    return 0;
+  }
+
+  const { data: lead, error } = await supabase.from('leads')
+    .select(LEAD_COLUMNS)
+    .eq('id', leadId)
+    .maybeSingle();
+
+  if (error || !lead) {
+    if (error) console.error('[AdConversions] Failed to load lead:', error);
+    return 0;
+  }
+
+  return await recordLeadConversion(lead, status, conversionTime.toISOString());
+}
+
+/**
+ * Record conversions for qualified / converted leads that have none yet
+ * (status set outside the funnel; the lead's updated_at stands in for the conversion time)
+ */
+export async function syncAdConversions(): Promise<number> {
+  const { data: leads, error } = await supabase.from('leads')
+    .select(LEAD_COLUMNS)
+    .in('status', [...AD_CONVERSIONS]);
+
+  if (error || !leads) {
+    console.error('[AdConversions] Failed to load converted leads:', error);
+    return 0;
+  }
+
+  const clicked = leads.filter(lead => lead.gclid || lead.msclkid);
+  if (clicked.length === 0) {
+    return 0;
+  }
+
+  const { data: existing } = await supabase.from('ad_conversions')
+    .select('lead_id, platform, conversion')
+    .in('lead_id', clicked.map(lead => lead.id));
+  const recordedKeys = new Set((existing ?? []).map(row => `${row.lead_id}:${row.platform}:${row.conversion}`));
+
+  let recorded = 0;
+  for (const lead of clicked) {
+    const missing = AD_PLATFORMS.some(platform =>
+      lead[CLICK_ID_COLUMNS[platform]] && !recordedKeys.has(`${lead.id}:${platform}:${lead.status}`)
+    );
+    if (!missing) continue;
+    recorded += await recordLeadConversion(lead, lead.status, lead.updated_at ?? new Date().toISOString());
+  }
+
+  if (recorded > 0) {
+    console.log(`[AdConversions] Recorded ${recorded} conversion(s) from lead statuses`);
+  }
+
+  return recorded;
+}
+
+/**
+ * Put conversions stuck in 'sending' back to pending (call on server start)
+ * Only rows claimed longer than SENDING_TIMEOUT_MS ago are touched, so an
+ * export or upload still in flight keeps its claim.
+ */
+export async function resumeStuckAdConversions(): Promise<number> {
+  const cutoff = new Date(Date.now() - SENDING_TIMEOUT_MS).toISOString();
+  const { data, error } = await supabase.from('ad_conversions')
+    .update({ status: 'pending', updated_at: new Date().toISOString() })
+    .eq('status', 'sending')
+    .lt('updated_at', cutoff)
+    .select('id');
+
+  if (error || !data) {
+    if (error) console.error('[AdConversions] Failed to resume stuck conversions:', error);
+    return 0;
+  }
+
+  if (data.length > 0) {
+    console.log(`[AdConversions] Resumed ${data.length} conversion(s) stuck in sending`);
+  }
+
+  return data.length;
+}
+
+/**
+ * Take a platform's pending conversions (so a concurrent export or upload cannot send them too)
+ */
+async function claimPendingConversions(platform: AdPlatform): Promise<AdConversion[]> {
+  const { data, error } = await supabase.from('ad_conversions')
+    .update({ status: 'sending', updated_at: new Date().toISOString() })
+    .eq('platform', platform)
+    .eq('status', 'pending')
+    .select('*');
+
+  if (error || !data) {
+    if (error) console.error('[AdConversions] Failed to claim conversions:', error);
+    return [];
+  }
+
+  return data
+    .map(mapConversion)
+    .sort((a, b) => a.conversionTime.localeCompare(b.conversionTime));
+}
+
+async function markSent(ids: string[], sentVia: string): Promise<void> {
+  if (ids.length === 0) return;
+
+  const now = new Date().toISOString();
+  await supabase.from('ad_conversions').update({
+    status: 'sent',
+    sent_via: sentVia,
+    sent_at: now,
+    last_error: null,
+    updated_at: now,
+  }).in('id', ids);
+}
+
+/**
+ * Pending conversions as an import CSV (they count as sent once downloaded)
+ */
+export async function exportAdConversionsCsv(platform: AdPlatform): Promise<AdConversionCsvExport> {
+  await syncAdConversions();
+  await resumeStuckAdConversions();
+
+  const conversions = await claimPendingConversions(platform);
+  await markSent(conversions.map(conversion => conversion.id), 'csv');
+
+  console.log(`[AdConversions] Exported ${conversions.length} ${platform} conversion(s) as CSV`);
+
+  return {
+    csv: buildAdConversionsCsv(platform, conversions),
+    count: conversions.length,
+    filename: `${platform}-offline-conversions-${new Date().toISOString().slice(0, 10)}.csv`,
+  };
+}
+
+/**
+ * Send pending conversions through the platform's upload adapter
+ * Rejected conversions go back to pending (with the error) for the next run.
+ */
+export async function uploadAdConversions(platform: AdPlatform): Promise<AdConversionUploadSummary> {
+  const uploader = UPLOADERS.get(platform);
+  if (!uploader || !uploader.isConfigured()) {
+    return { success: false, uploaded: 0, failed: 0, message: `No upload adapter is configured for ${platform}` };
+  }
+
+  await syncAdConversions();
+  await resumeStuckAdConversions();
+
+  const conversions = await claimPendingConversions(platform);
+  if (conversions.length === 0) {
+    return { success: true, uploaded: 0, failed: 0, message: 'Nothing to upload' };
+  }
+
+  let failed: AdConversionUploadResult['failed'];
+  try {
+    ({ failed } = await uploader.upload(conversions));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    failed = conversions.map(conversion => ({ id: conversion.id, error: message }));
+  }
+
+  const errors = new Map(failed.map(failure => [failure.id, failure.error]));
+  const uploaded = conversions.filter(conversion => !errors.has(conversion.id));
+  const rejected = conversions.filter(conversion => errors.has(conversion.id));
+  await markSent(uploaded.map(conversion => conversion.id), uploader.name);
+
+  for (const conversion of rejected) {
+    await supabase.from('ad_conversions').update({
+      status: 'pending',
+      attempts: conversion.attempts + 1,
+      last_error: errors.get(conversion.id)!.slice(0, 500),
+      updated_at: new Date().toISOString(),
+    }).eq('id', conversion.id);
+  }
+
+  if (rejected.length > 0) {
+    console.warn(`[AdConversions] ${uploader.name} rejected ${rejected.length} ${platform} conversion(s)`);
+  }
+  console.log(`[AdConversions] Uploaded ${uploaded.length} ${platform} conversion(s) via ${uploader.name}`);
+
+  return {
+    success: rejected.length === 0,
+    uploaded: uploaded.length,
+    failed: rejected.length,
+    message: `Uploaded ${uploaded.length}, failed ${rejected.length}`,
+  };
+}
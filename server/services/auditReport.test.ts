@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the printable PDF audit report
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import { buildAuditReport, classifyPricePosition, loadAuditReport, renderAuditReportPdf, type ReportScan } from './auditReport';
+import { DEFAULT_BENCHMARKS } from './priceBenchmarks';
+import { wrapText } from './pdfDocument';
+import { handleAuditReportDownload } from '../routes/report';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+
+const DEPOSIT_WARNING = 'High risk: deposit exceeds 40% (60% requested).';
+
+function createScan(overrides: Record<string, unknown> = {}): ReportScan {
+  return {
+    id: SCAN_ID,
+    overall_score: 58,
+    created_at: '2026-10-01T14:03:00.000Z',
+    raw_response: JSON.stringify({ contractor: { name: 'Sunshine Impact Windows LLC' } }),
+    audit_details: {
+      safety_score: 85,
+      scope_score: 62,
+      price_score: 75,
+      fine_print_score: 30,
+      warranty_score: 40,
+      summary: 'Solid products, but the payment terms favor the contractor.',
+      price_per_opening: '$1,950',
+      benchmark_version: 'builtin',
+      benchmark_region: 'Miami-Dade County',
+      warnings: [DEPOSIT_WARNING, 'Price "subject to change" after remeasure.'],
+      warning_citations: [{
+        warning: DEPOSIT_WARNING,
+        signals: ['depositPercentage'],
+        evidence: [
+          { signal: 'depositPercentage', page: 2, snippet: 'A 60% deposit is due at signing.' },
+          { signal: 'depositPercentage', page: 3, snippet: 'Balance (40%) due on completion.' },
+        ],
+      }],
+      missing_items: ['Stucco and drywall repair not mentioned.'],
+      opening_breakdown: [
+        { openingType: 'single_hung', label: 'Single hung', quantity: 8, totalPrice: 12800, averageUnitPrice: 1600, expectedRange: { low: 900, high: 1800 } },
+        { openingType: 'sliding_door', label: 'Sliding door', quantity: 1, totalPrice: 4750, averageUnitPrice: 4750, expectedRange: { low: 2800, high: 6500 } },
+      ],
+      price_outliers: [],
+      ...overrides,
+    },
+  };
+}
+
+describe('buildAuditReport', () => {
+  it('should collect scores, findings with their evidence and the price comparison', () => {
+    const report = buildAuditReport(createScan(), DEFAULT_BENCHMARKS);
+
+    expect(report.contractorName).toBe('Sunshine Impact Windows LLC');
+    expect(report.pillars.map(pillar => [pillar.label, pillar.score])).toEqual([
+      ['Safety & Code', 85],
+      ['Scope Clarity', 62],
+      ['Price Fairness', 75],
+      ['Fine Print', 30],
+      ['Warranty', 40],
+    ]);
+    expect(report.warnings.map(warning => [warning.id, warning.evidence.map(evidence => evidence.page)])).toEqual([
+      ['W1', [2, 3]],
+      ['W2', []],
+    ]);
+    expect(report.missingItems.map(item => item.id)).toEqual(['M1']);
+    expect(report.price).toEqual({
+      pricePerOpening: 1950,
+      band: DEFAULT_BENCHMARKS.bands.all,
+      region: 'Miami-Dade County',
+      position: 'high',
+    });
+  });
+
+  it('should place a price in the same bands price scoring uses', () => {
+    const band = { floor: 1000, low: 1200, high: 1800, ceiling: 2500 };
+    expect([900, 1100, 1800, 2500, 2600].map(price => classifyPricePosition(price, band)))
+      .toEqual(['below_market', 'low', 'fair', 'high', 'above_market']);
+
+    expect(buildAuditReport(createScan({ price_per_opening: 'N/A' }), DEFAULT_BENCHMARKS).price)
+      .toMatchObject({ pricePerOpening: null, position: null });
+  });
+});
+
+describe('renderAuditReportPdf', () => {
+  it('should render the same bytes every time', async () => {
+    const report = buildAuditReport(createScan(), DEFAULT_BENCHMARKS);
+    const pdf = renderAuditReportPdf(report);
+
+    expect(renderAuditReportPdf(buildAuditReport(createScan(), DEFAULT_BENCHMARKS)).equals(pdf)).toBe(true);
+    await expect(pdf.toString('latin1')).toMatchFileSnapshot('./__snapshots__/auditReport.pdf');
+  });
+
+  it('should write a well-formed PDF and continue onto more pages', () => {
+    const warnings = Array.from({ length: 40 }, (_, index) => `Warning ${index + 1}: ${'the contract language is vague '.repeat(4)}`);
+    const pdf = renderAuditReportPdf(buildAuditReport(createScan({ warnings }), DEFAULT_BENCHMARKS)).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(/[^\x09\x0a\x20-\x7e]/.test(pdf)).toBe(false);
+
+    // Every xref entry points at its object
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+    const entries = pdf.slice(xrefOffset).match(/^\d{10} 00000 n $/gm)!;
+    entries.forEach((entry, index) => {
+      expect(pdf.startsWith(`${index + 1} 0 obj`, Number(entry.slice(0, 10)))).toBe(true);
+    });
+
+    const pageCount = Number(pdf.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1]);
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+    expect(pdf).toContain('([W40] Warning 40: the contract');
+  });
+
+  it('should escape PDF syntax and map typographic characters', () => {
+    const pdf = renderAuditReportPdf(buildAuditReport(createScan({
+      warnings: ['Line item (Door) priced $4,750 – far above typical \\ “premium”.'],
+      warning_citations: [],
+    }), DEFAULT_BENCHMARKS)).toString('latin1');
+
+    expect(pdf).toContain('([W1] Line item \\(Door\\) priced $4,750 \\226 far above typical \\\\ \\223premium\\224.) Tj');
+    expect(wrapText('Supercalifragilistic', 40)).toEqual(['Supercal', 'ifragilisti', 'c']);
+  });
+});
+
+describe('loadAuditReport', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('leads', [{ id: LEAD_ID, sms_verified: true }]);
+    db.seed('scans', [{ ...createScan(), lead_id: LEAD_ID }]);
+  });
+
+  it('should only load reports for verified leads', async () => {
+    expect((await loadAuditReport(LEAD_ID))?.scanId).toBe(SCAN_ID);
+    expect(await loadAuditReport(LEAD_ID, '44444444-4444-4444-8444-444444444444')).toBeNull();
+
+    db.table('leads')[0].sms_verified = false;
+    expect(await loadAuditReport(LEAD_ID)).toBeNull();
+  });
+
+  it('should serve the report as a PDF download', async () => {
+    const send = async (leadId: string) => {
+      const res = {
+        statusCode: 200,
+        headers: {} as Record<string, string>,
+        body: undefined as unknown,
+        status(code: number) { this.statusCode = code; return this; },
+        setHeader(name: string, value: string) { this.headers[name] = value; },
+        json(body: unknown) { this.body = body; },
+        send(body: unknown) { this.body = body; },
+      };
+      await handleAuditReportDownload({ params: { leadId }, query: {} } as any, res as any);
+      return res;
+    };
+
+    const ok = await send(LEAD_ID);
+    expect(ok.statusCode).toBe(200);
+    expect(ok.headers).toMatchObject({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': 'attachment; filename="quote-audit-2026-10-01.pdf"',
+    });
+    expect(Buffer.isBuffer(ok.body)).toBe(true);
+
+    expect((await send('not-a-lead')).statusCode).toBe(400);
+    db.table('leads')[0].sms_verified = false;
+    expect((await send(LEAD_ID)).statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Audit Report - Printable PDF of One Scan
+ *
+ * The report a homeowner prints and brings to the contractor: the five
+ * pillar scores, warnings with the quote text behind them, missing items,
+ * and the price per opening against the benchmark band the scan was scored
+ * with. Built only from the stored scan (nothing is re-scored), and rendered
+ * deterministically: the same scan always yields the same bytes.
+ */
+
+import { supabase } from './supabaseClient';
+import { getBenchmarksForLead } from './benchmarkService';
+import { buildScanFindings, type ScanFinding } from './scanChat';
+import { SCAN_PILLARS, type ScanPillar } from './scanJobQueue';
+import { parseDollars, parseRawSignals, type SignalEvidence, type WarningCitation } from './scannerEngine';
+import type { OpeningTypeBreakdown } from './lineItemPricing';
+import type { PriceBand, RegionalBenchmarks } from './priceBenchmarks';
+import { measureText, PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, wrapText, type PdfColor, type PdfFont } from './pdfDocument';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PricePosition = 'below_market' | 'low' | 'fair' | 'high' | 'above_market';
+
+export interface ReportScan {
+  id: string;
+  overall_score: number | null;
+  audit_details: Record<string, any> | null;
+  raw_response: unknown;
+  created_at: string;
+}
+
+export interface ReportWarning extends ScanFinding {
+  evidence: Array<Pick<SignalEvidence, 'page' | 'snippet'>>;
+}
+
+export interface PriceComparison {
+  pricePerOpening: number | null;
+  band: PriceBand | null; // All-openings band the scan was scored against
+  region: string;
+  position: PricePosition | null;
+}
+
+export interface AuditReport {
+  scanId: string;
+  scannedAt: string;
+  contractorName: string | null;
+  overallScore: number;
+  summary: string | null;
+  pillars: Array<{ pillar: ScanPillar; label: string; score: number | null }>;
+  warnings: ReportWarning[];
+  missingItems: ScanFinding[];
+  priceOutliers: ScanFinding[];
+  price: PriceComparison;
+  openingBreakdown: OpeningTypeBreakdown[];
+}
+
+// Shared copies are printed without the scan id
+export type PrintableReport = Omit<AuditReport, 'scanId'> & { scanId?: string };
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+const PILLAR_LABELS: Record<ScanPillar, string> = {
+  safety: 'Safety & Code',
+  scope: 'Scope Clarity',
+  price: 'Price Fairness',
+  fine_print: 'Fine Print',
+  warranty: 'Warranty',
+};
+
+const PRICE_VERDICTS: Record<PricePosition, string> = {
+  below_market: 'Far below the typical range. Confirm the products and scope before signing.',
+  low: 'Below the typical range.',
+  fair: 'Within the typical range.',
+  high: 'Above the typical range. Worth negotiating.',
+  above_market: 'Far above the typical range. Get competing quotes.',
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Fixed locale so the output doesn't depend on the server's
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+// "2026-10-01T14:03:00Z" → "October 1, 2026" (UTC, locale-independent)
+function formatReportDate(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Where a price per opening falls in a benchmark band (same bands as price scoring)
+ */
+export function classifyPricePosition(pricePerOpening: number, band: PriceBand): PricePosition {
+  if (pricePerOpening < band.floor) return 'below_market';
+  if (pricePerOpening < band.low) return 'low';
+  if (pricePerOpening <= band.high) return 'fair';
+  if (pricePerOpening <= band.ceiling) return 'high';
+  return 'above_market';
+}
+
+/**
+ * Everything the report shows, from a stored scan and the benchmarks it was scored with
+ */
+export function buildAuditReport(scan: ReportScan, benchmarks: RegionalBenchmarks): AuditReport {
+  const details = scan.audit_details || {};
+  const findings = buildScanFindings(details);
+  const citations = (details.warning_citations ?? []) as WarningCitation[];
+  const pricePerOpening = parseDollars(details.price_per_opening);
+  const band = benchmarks.bands.all ?? null;
+
+  return {
+    scanId: scan.id,
+    scannedAt: scan.created_at,
+    contractorName: parseRawSignals(scan.raw_response)?.contractor?.name?.trim() || null,
+    overallScore: scan.overall_score ?? 0,
+    summary: details.summary || null,
+    pillars: SCAN_PILLARS.map(pillar => ({
+      pillar,
+      label: PILLAR_LABELS[pillar],
+      score: typeof details[`${pillar}_score`] === 'number' ? details[`${pillar}_score`] : null,
+    })),
+    warnings: findings
+      .filter(finding => finding.kind === 'warning')
+      .map(finding => ({
+        ...finding,
+        evidence: (citations.find(citation => citation.warning === finding.text)?.evidence ?? [])
+          .map(({ page, snippet }) => ({ page, snippet })),
+      })),
+    missingItems: findings.filter(finding => finding.kind === 'missing_item'),
+    priceOutliers: findings.filter(finding => finding.kind === 'price_outlier'),
+    price: {
+      pricePerOpening,
+      band,
+      region: details.benchmark_region || benchmarks.region,
+      position: pricePerOpening !== null && band ? classifyPricePosition(pricePerOpening, band) : null,
+    },
+    openingBreakdown: (details.opening_breakdown ?? []) as OpeningTypeBreakdown[],
+  };
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 64;
+
+const COLORS = {
+  navy: [0.06, 0.09, 0.16],
+  cyan: [0.02, 0.71, 0.83],
+  text: [0.12, 0.14, 0.18],
+  muted: [0.42, 0.45, 0.5],
+  rule: [0.85, 0.87, 0.9],
+  track: [0.92, 0.93, 0.95],
+  fairBand: [0.73, 0.9, 0.8],
+  good: [0.06, 0.6, 0.42],
+  fair: [0.85, 0.6, 0.05],
+  concern: [0.86, 0.2, 0.2],
+  white: [1, 1, 1],
+} satisfies Record<string, PdfColor>;
+
+// x for text that should end at the right margin
+function alignRight(text: string, size: number, font: PdfFont = 'regular'): number {
+  return PAGE_WIDTH - MARGIN - measureText(text, size, font);
+}
+
+function scoreColor(score: number): PdfColor {
+  if (score >= 80) return COLORS.good;
+  if (score >= 60) return COLORS.fair;
+  return COLORS.concern;
+}
+
+function scoreLabel(score: number): string {
+  if (score >= 80) return 'Good';
+  if (score >= 60) return 'Fair';
+  return 'Concern';
+}
+
+/**
+ * Top-down layout over a PdfDocument: tracks the cursor and breaks pages
+ */
+function createLayout(doc: PdfDocument) {
+  let y = 0;
+
+  const continuationHeader = () => {
+    doc.rect(0, 0, PAGE_WIDTH, 36, COLORS.navy);
+    doc.text(MARGIN, 23, 'WindowMan Vault', { font: 'bold', size: 11, color: COLORS.white });
+    doc.text(MARGIN + 100, 23, 'Quote Audit Report (continued)', { size: 9, color: COLORS.cyan });
+    y = 64;
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    continuationHeader();
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > CONTENT_BOTTOM) {
+      newPage();
+    }
+  };
+
+  const paragraph = (text: string, options: { x?: number; size?: number; font?: PdfFont; color?: PdfColor; gap?: number } = {}) => {
+    const x = options.x ?? MARGIN;
+    const size = options.size ?? 10;
+    const lineHeight = size * 1.4;
+    for (const line of wrapText(text, PAGE_WIDTH - MARGIN - x, size, options.font)) {
+      ensureSpace(lineHeight);
+      y += lineHeight;
+      doc.text(x, y, line, { size, font: options.font, color: options.color ?? COLORS.text });
+    }
+    y += options.gap ?? 4;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(48);
+    y += 18;
+    doc.text(MARGIN, y, text, { font: 'bold', size: 13, color: COLORS.navy });
+    y += 6;
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, COLORS.rule, 0.75);
+    y += 4;
+  };
+
+  return {
+    doc,
+    get y() { return y; },
+    set y(value: number) { y = value; },
+    newPage,
+    ensureSpace,
+    paragraph,
+    heading,
+  };
+}
+
+type ReportLayout = ReturnType<typeof createLayout>;
+
+function drawCover(layout: ReportLayout, report: PrintableReport): void {
+  const { doc } = layout;
+
+  doc.rect(0, 0, PAGE_WIDTH, 96, COLORS.navy);
+  doc.text(MARGIN, 44, 'WindowMan Vault', { font: 'bold', size: 22, color: COLORS.white });
+  doc.text(MARGIN, 68, 'Quote Audit Report', { size: 13, color: COLORS.cyan });
+  const scanned = `Scanned ${formatReportDate(report.scannedAt)}`;
+  doc.text(alignRight(scanned, 10), 44, scanned, { size: 10, color: COLORS.white });
+  if (report.contractorName) {
+    const contractor = wrapText(report.contractorName, 200, 10)[0];
+    doc.text(alignRight(contractor, 10), 62, contractor, { size: 10, color: COLORS.white });
+  }
+
+  // Overall score
+  const color = scoreColor(report.overallScore);
+  layout.y = 128;
+  doc.text(MARGIN, layout.y + 18, String(report.overallScore), { font: 'bold', size: 40, color });
+  doc.text(MARGIN + measureText(String(report.overallScore), 40, 'bold') + 4, layout.y + 18, '/100', { size: 14, color: COLORS.muted });
+  doc.text(MARGIN + 130, layout.y - 2, 'Overall protection score', { font: 'bold', size: 11, color: COLORS.text });
+  doc.text(MARGIN + 130, layout.y + 14, scoreLabel(report.overallScore), { font: 'bold', size: 11, color });
+  layout.y += 30;
+
+  if (report.summary) {
+    layout.paragraph(report.summary, { gap: 8 });
+  }
+}
+
+function drawPillars(layout: ReportLayout, report: PrintableReport): void {
+  const { doc } = layout;
+  const barX = MARGIN + 130;
+  const barWidth = CONTENT_WIDTH - 130 - 70;
+
+  layout.heading('Pillar Scores');
+  for (const { label, score } of report.pillars) {
+    layout.ensureSpace(24);
+    layout.y += 20;
+    doc.text(MARGIN, layout.y, label, { size: 10, color: COLORS.text });
+    doc.rect(barX, layout.y - 9, barWidth, 10, COLORS.track);
+    if (score !== null) {
+      doc.rect(barX, layout.y - 9, (barWidth * Math.max(0, Math.min(100, score))) / 100, 10, scoreColor(score));
+    }
+    doc.text(barX + barWidth + 12, layout.y, score === null ? 'n/a' : `${score} ${scoreLabel(score)}`, {
+      font: 'bold',
+      size: 10,
+      color: score === null ? COLORS.muted : scoreColor(score),
+    });
+  }
+  layout.y += 6;
+}
+
+function drawPrice(layout: ReportLayout, report: PrintableReport): void {
+  const { doc } = layout;
+  const { pricePerOpening, band, region, position } = report.price;
+
+  layout.heading('Price per Opening vs. Benchmark');
+
+  if (pricePerOpening === null || !band) {
+    layout.paragraph('The quote does not show enough to compute a price per opening (total price or opening count is missing).');
+    return;
+  }
+
+  layout.paragraph(`Your quote: ${formatDollars(pricePerOpening)} per opening`, { font: 'bold', size: 11 });
+  layout.paragraph(
+    `Typical for ${region}: ${formatDollars(band.low)} - ${formatDollars(band.high)} installed. `
+    + `Below ${formatDollars(band.floor)} or above ${formatDollars(band.ceiling)} is far off market.`,
+    { color: COLORS.muted }
+  );
+
+  // Scale from the floor to the ceiling, padded so outliers still show
+  layout.ensureSpace(44);
+  const min = Math.min(band.floor, pricePerOpening) * 0.9;
+  const max = Math.max(band.ceiling, pricePerOpening) * 1.1;
+  const toX = (value: number) => MARGIN + ((value - min) / (max - min)) * CONTENT_WIDTH;
+  const barY = layout.y + 10;
+
+  doc.rect(MARGIN, barY, CONTENT_WIDTH, 10, COLORS.track);
+  doc.rect(toX(band.floor), barY, toX(band.ceiling) - toX(band.floor), 10, COLORS.rule);
+  doc.rect(toX(band.low), barY, toX(band.high) - toX(band.low), 10, COLORS.fairBand);
+  doc.line(toX(pricePerOpening), barY - 4, toX(pricePerOpening), barY + 14, COLORS.navy, 2);
+  doc.text(toX(band.low), barY + 24, formatDollars(band.low), { size: 8, color: COLORS.muted });
+  doc.text(toX(band.high), barY + 24, formatDollars(band.high), { size: 8, color: COLORS.muted });
+  layout.y = barY + 30;
+
+  if (position) {
+    layout.paragraph(PRICE_VERDICTS[position], { font: 'bold', color: position === 'fair' ? COLORS.good : COLORS.fair });
+  }
+
+  if (report.openingBreakdown.length > 0) {
+    const columns = [MARGIN, MARGIN + 200, MARGIN + 260, MARGIN + 360];
+    layout.ensureSpace(40);
+    layout.y += 16;
+    ['Opening type', 'Qty', 'Avg. each', 'Typical each'].forEach((title, index) => {
+      doc.text(columns[index], layout.y, title, { font: 'bold', size: 9, color: COLORS.muted });
+    });
+    for (const row of report.openingBreakdown) {
+      layout.ensureSpace(16);
+      layout.y += 15;
+      doc.text(columns[0], layout.y, row.label, { size: 9, color: COLORS.text });
+      doc.text(columns[1], layout.y, String(row.quantity), { size: 9, color: COLORS.text });
+      doc.text(columns[2], layout.y, row.averageUnitPrice === null ? '-' : formatDollars(row.averageUnitPrice), { size: 9, color: COLORS.text });
+      doc.text(columns[3], layout.y, row.expectedRange
+        ? `${formatDollars(row.expectedRange.low)} - ${formatDollars(row.expectedRange.high)}`
+        : '-', { size: 9, color: COLORS.text });
+    }
+    layout.y += 6;
+  }
+}
+
+function drawFindings(layout: ReportLayout, report: PrintableReport): void {
+  layout.heading(`Warnings (${report.warnings.length})`);
+  if (report.warnings.length === 0) {
+    layout.paragraph('No warnings were raised for this quote.', { color: COLORS.muted });
+  }
+  for (const warning of report.warnings) {
+    layout.paragraph(`[${warning.id}] ${warning.text}`, { font: 'bold', gap: 2 });
+    for (const evidence of warning.evidence) {
+      layout.paragraph(`Page ${evidence.page}: "${evidence.snippet}"`, { x: MARGIN + 16, size: 9, color: COLORS.muted, gap: 2 });
+    }
+    layout.y += 4;
+  }
+
+  layout.heading(`Missing Items (${report.missingItems.length})`);
+  if (report.missingItems.length === 0) {
+    layout.paragraph('Nothing we check for is missing from this quote.', { color: COLORS.muted });
+  }
+  for (const item of report.missingItems) {
+    layout.paragraph(`[${item.id}] ${item.text}`);
+  }
+
+  if (report.priceOutliers.length > 0) {
+    layout.heading(`Line Items Priced Off Market (${report.priceOutliers.length})`);
+    for (const outlier of report.priceOutliers) {
+      layout.paragraph(`[${outlier.id}] ${outlier.text}${outlier.page ? ` (page ${outlier.page})` : ''}`);
+    }
+  }
+
+  layout.y += 12;
+  layout.paragraph(
+    'This report reviews the quote document only, against Florida impact window and door benchmarks. '
+    + 'It is not legal advice. Ask the contractor to answer each warning and missing item in writing before you sign.',
+    { size: 8, color: COLORS.muted }
+  );
+}
+
+function drawFooters(doc: PdfDocument, report: PrintableReport): void {
+  for (let index = 0; index < doc.pageCount; index++) {
+    doc.goToPage(index);
+    doc.line(MARGIN, PAGE_HEIGHT - 44, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 44, COLORS.rule, 0.5);
+    doc.text(MARGIN, PAGE_HEIGHT - 30, report.scanId ? `Scan ${report.scanId.slice(0, 8)}` : 'Shared copy', { size: 8, color: COLORS.muted });
+    const pageLabel = `Page ${index + 1} of ${doc.pageCount}`;
+    doc.text(alignRight(pageLabel, 8), PAGE_HEIGHT - 30, pageLabel, { size: 8, color: COLORS.muted });
+  }
+}
+
+/**
+ * Render the report as a multi-page PDF (deterministic: same report, same bytes)
+ */
+export function renderAuditReportPdf(report: PrintableReport): Buffer {
+  const doc = new PdfDocument(`Quote Audit Report - ${formatReportDate(report.scannedAt)}`);
+  const layout = createLayout(doc);
+
+  doc.addPage();
+  drawCover(layout, report);
+  drawPillars(layout, report);
+  drawPrice(layout, report);
+  // Findings start on their own page: the one to hand the contractor
+  layout.newPage();
+  drawFindings(layout, report);
+  drawFooters(doc, report);
+
+  return doc.toBuffer();
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * The report for a verified lead's scan (the newest one unless scanId is given)
+ * Returns null when the lead hasn't verified their phone or has no such scan.
+ */
+export async function loadAuditReport(leadId: string, scanId?: string): Promise<AuditReport | null> {
+  const { data: lead } = await supabase.from('leads')
+    .select('sms_verified')
+    .eq('id', leadId)
+    .single();
+
+  if (!lead?.sms_verified) {
+    return null;
+  }
+
+  let query = supabase.from('scans')
+    .select('id, overall_score, audit_details, raw_response, created_at')
+    .eq('lead_id', leadId);
+  if (scanId) {
+    query = query.eq('id', scanId);
+  }
+
+  const { data: scan, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !scan) {
+    if (error) console.error('[AuditReport] Failed to load scan:', error);
+    return null;
+  }
+
+  // Compare against the bands the scan was scored with, not today's
+  const benchmarks = await getBenchmarksForLead(leadId, scan.audit_details?.benchmark_version);
+  return buildAuditReport(scan, benchmarks);
+}
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for versioned benchmark import and lookup (+ admin router)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  activateBenchmarkVersion,
+  getBenchmarksForLead,
+  importBenchmarkCsv,
+  listBenchmarkVersions,
+} from './benchmarkService';
+import { DEFAULT_BENCHMARKS } from './priceBenchmarks';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+const CSV = [
+  'region_type,region,opening_type,floor,low,high,ceiling',
+  'county,miami-dade,all,1100,1400,2100,2900',
+  'zip,33156,sliding_door,2000,3500,8000,10000',
+  'county,orange,all,800,900,1300,1900',
+].join('\n');
+
+const createCaller = (role: 'admin' | 'user' | null) => adminRouter.createCaller({
+  user: role ? { id: 1, openId: 'admin-1', email: 'ops@example.com', role } : null,
+  req: {},
+  res: {},
+} as any);
+
+describe('benchmarkService', () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('importBenchmarkCsv', () => {
+    it('should store a new inactive version with its rows', async () => {
+      const result = await importBenchmarkCsv({ csv: CSV, version: '2026-q4' });
+
+      expect(result).toMatchObject({ success: true, rowCount: 3, errors: [] });
+      expect(db.table('price_benchmark_versions')[0]).toMatchObject({ version: '2026-q4', is_active: false, row_count: 3 });
+      expect(db.table('price_benchmarks')).toHaveLength(3);
+      expect(db.table('price_benchmarks')[1]).toMatchObject({
+        version_id: result.versionId,
+        region_type: 'zip',
+        region_key: '33156',
+        opening_type: 'sliding_door',
+        low_price: 3500,
+      });
+    });
+
+    it('should write nothing when any row is invalid', async () => {
+      const result = await importBenchmarkCsv({ csv: `${CSV}\nzip,33156,all,1000,900,1800,2500`, version: '2026-q4' });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['Line 5: prices must be positive with floor ≤ low ≤ high ≤ ceiling']);
+      expect(db.table('price_benchmark_versions')).toHaveLength(0);
+    });
+
+    it('should refuse to overwrite an existing version', async () => {
+      await importBenchmarkCsv({ csv: CSV, version: '2026-q4' });
+      const result = await importBenchmarkCsv({ csv: CSV, version: '2026-q4' });
+
+      expect(result.errors).toEqual(['Version "2026-q4" already exists']);
+      expect(db.table('price_benchmarks')).toHaveLength(3);
+    });
+
+    it('should roll back the version when the rows fail to save', async () => {
+      db.failing.add('price_benchmarks');
+
+      const result = await importBenchmarkCsv({ csv: CSV, version: '2026-q4' });
+
+      expect(result.success).toBe(false);
+      expect(db.table('price_benchmark_versions')).toHaveLength(0);
+    });
+  });
+
+  describe('activateBenchmarkVersion', () => {
+    it('should keep exactly one version active', async () => {
+      const first = await importBenchmarkCsv({ csv: CSV, version: '2026-q3', activate: true });
+      const second = await importBenchmarkCsv({ csv: CSV, version: '2026-q4' });
+
+      expect(await activateBenchmarkVersion(second.versionId!)).toBe(true);
+
+      const versions = await listBenchmarkVersions();
+      expect(versions.filter(v => v.isActive).map(v => v.id)).toEqual([second.versionId]);
+      expect(versions.map(v => v.id)).toContain(first.versionId);
+    });
+
+    it('should report unknown versions', async () => {
+      expect(await activateBenchmarkVersion('missing')).toBe(false);
+    });
+  });
+
+  describe('getBenchmarksForLead', () => {
+    it('should use the built-in bands when nothing is active', async () => {
+      db.seed('leads', [{ id: LEAD_ID, zip: '33156', ocr_city: 'Miami' }]);
+      await importBenchmarkCsv({ csv: CSV, version: '2026-q4' });
+
+      expect(await getBenchmarksForLead(LEAD_ID)).toEqual(DEFAULT_BENCHMARKS);
+    });
+
+    it('should pick bands from the lead ZIP and OCR city', async () => {
+      db.seed('leads', [{ id: LEAD_ID, zip: '33156', ocr_city: 'Miami' }]);
+      await importBenchmarkCsv({ csv: CSV, version: '2026-q4', activate: true });
+
+      const benchmarks = await getBenchmarksForLead(LEAD_ID);
+
+      expect(benchmarks.version).toBe('2026-q4');
+      expect(benchmarks.region).toBe('Miami-Dade County');
+      expect(benchmarks.bands.all).toEqual({ floor: 1100, low: 1400, high: 2100, ceiling: 2900 });
+      expect(benchmarks.bands.sliding_door?.ceiling).toBe(10000);
+    });
+
+    it('should score a ZIP-only Miami-Dade lead against the county band', async () => {
+      db.seed('leads', [{ id: LEAD_ID, zip: '33176', ocr_city: null }]);
+      await importBenchmarkCsv({ csv: CSV, version: '2026-q4', activate: true });
+
+      const benchmarks = await getBenchmarksForLead(LEAD_ID);
+
+      expect(benchmarks.region).toBe('Miami-Dade County');
+      expect(benchmarks.bands.all).toEqual({ floor: 1100, low: 1400, high: 2100, ceiling: 2900 });
+    });
+
+    it('should score an Orlando lead against Orange County', async () => {
+      db.seed('leads', [{ id: LEAD_ID, zip: null, ocr_city: 'Orlando' }]);
+      await importBenchmarkCsv({ csv: CSV, version: '2026-q4', activate: true });
+
+      const benchmarks = await getBenchmarksForLead(LEAD_ID);
+
+      expect(benchmarks.region).toBe('Orange County');
+      expect(benchmarks.bands.all?.high).toBe(1300);
+    });
+  });
+
+  describe('getBenchmarksForLead with a version', () => {
+    it('should load the named version instead of the active one', async () => {
+      db.seed('leads', [{ id: LEAD_ID, zip: null, ocr_city: 'Orlando' }]);
+      await importBenchmarkCsv({ csv: CSV, version: '2026-q3' });
+      await importBenchmarkCsv({ csv: 'region_type,region,opening_type,floor,low,high,ceiling\nstate,FL,all,900,1000,1500,2000', version: '2026-q4', activate: true });
+
+      expect((await getBenchmarksForLead(LEAD_ID, '2026-q3')).region).toBe('Orange County');
+      expect((await getBenchmarksForLead(LEAD_ID, 'builtin'))).toEqual(DEFAULT_BENCHMARKS);
+      expect((await getBenchmarksForLead(LEAD_ID)).bands.all?.high).toBe(1500);
+    });
+  });
+
+  describe('admin router', () => {
+    it('should reject non-admins', async () => {
+      await expect(createCaller('user').benchmarks.import({ csv: CSV, version: 'x' })).rejects.toThrow();
+      await expect(createCaller(null).benchmarks.versions()).rejects.toThrow();
+    });
+
+    it('should import and list versions for admins', async () => {
+      const caller = createCaller('admin');
+
+      const result = await caller.benchmarks.import({ csv: CSV, version: '2026-q4', activate: true });
+      expect(result.success).toBe(true);
+
+      const versions = await caller.benchmarks.versions();
+      expect(versions).toEqual([expect.objectContaining({
+        version: '2026-q4',
+        rowCount: 3,
+        isActive: true,
+        importedBy: 'ops@example.com',
+      })]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Benchmark Service
+ *
+ * Versioned regional price bands (price_benchmark_versions / price_benchmarks).
+ * Admins import a CSV as a new version and activate it; scans are scored
+ * against the active version and record which version and region they used.
+ */
+
+import { supabase } from './supabaseClient';
+import {
+  BUILTIN_BENCHMARK_VERSION,
+  DEFAULT_BENCHMARKS,
+  getRegionCandidates,
+  parseBenchmarkCsv,
+  resolveBenchmarks,
+  type BenchmarkRow,
+  type RegionalBenchmarks,
+} from './priceBenchmarks';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BenchmarkImportInput {
+  csv: string;
+  version: string;
+  notes?: string;
+  activate?: boolean;
+  importedBy?: string | null;
+}
+
+export interface BenchmarkImportResult {
+  success: boolean;
+  versionId: string | null;
+  rowCount: number;
+  errors: string[];
+}
+
+export interface BenchmarkVersion {
+  id: string;
+  version: string;
+  notes: string | null;
+  rowCount: number;
+  isActive: boolean;
+  importedBy: string | null;
+  createdAt: string;
+}
+
+// ============================================
+// IMPORT / ACTIVATION
+// ============================================
+
+/**
+ * Import a benchmark CSV as a new version
+ * Nothing is written if any row fails validation.
+ */
+export async function importBenchmarkCsv(input: BenchmarkImportInput): Promise<BenchmarkImportResult> {
+  const { rows, errors } = parseBenchmarkCsv(input.csv);
+
+  if (errors.length > 0) {
+    return { success: false, versionId: null, rowCount: 0, errors };
+  }
+
+  const { data: existing } = await supabase.from('price_benchmark_versions')
+    .select('id')
+    .eq('version', input.version)
+    .maybeSingle();
+
+  if (existing) {
+    return { success: false, versionId: null, rowCount: 0, errors: [`Version "${input.version}" already exists`] };
+  }
+
+  const { data: version, error: versionError } = await supabase.from('price_benchmark_versions')
+    .insert({
+      version: input.version,
+      notes: input.notes || null,
+      row_count: rows.length,
+      is_active: false,
+      imported_by: input.importedBy || null,
+      created_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (versionError || !version) {
+    console.error('[Benchmarks] Failed to create version:', versionError);
+    return { success: false, versionId: null, rowCount: 0, errors: ['Failed to save benchmark version'] };
+  }
+
+  const { error: rowsError } = await supabase.from('price_benchmarks')
+    .insert(rows.map(row => ({
+      version_id: version.id,
+      region_type: row.regionType,
+      region_key: row.regionKey,
+      opening_type: row.openingType,
+      floor_price: row.floor,
+      low_price: row.low,
+      high_price: row.high,
+      ceiling_price: row.ceiling,
+    })));
+
+  if (rowsError) {
+    console.error('[Benchmarks] Failed to save rows:', rowsError);
+    await supabase.from('price_benchmark_versions').delete().eq('id', version.id);
+    return { success: false, versionId: null, rowCount: 0, errors: ['Failed to save benchmark rows'] };
+  }
+
+  console.log(`[Benchmarks] Imported version ${input.version} (${rows.length} rows)`);
+
+  if (input.activate) {
+    await activateBenchmarkVersion(version.id);
+  }
+
+  return { success: true, versionId: version.id, rowCount: rows.length, errors: [] };
+}
+
+/**
+ * Make one version the active set (only one is active at a time)
+ */
+export async function activateBenchmarkVersion(versionId: string): Promise<boolean> {
+  const { data: version } = await supabase.from('price_benchmark_versions')
+    .select('id, version')
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (!version) {
+    return false;
+  }
+
+  await supabase.from('price_benchmark_versions')
+    .update({ is_active: false })
+    .eq('is_active', true);
+
+  const { error } = await supabase.from('price_benchmark_versions')
+    .update({ is_active: true, activated_at: new Date().toISOString() })
+    .eq('id', versionId);
+
+  if (error) {
+    console.error('[Benchmarks] Failed to activate version:', error);
+    return false;
+  }
+
+  console.log(`[Benchmarks] Activated version ${version.version}`);
+  return true;
+}
+
+/**
+ * All imported versions, newest first
+ */
+export async function listBenchmarkVersions(): Promise<BenchmarkVersion[]> {
+  const { data, error } = await supabase.from('price_benchmark_versions')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error || !data) {
+    return [];
+  }
+
+  return data.map(row => ({
+    id: row.id,
+    version: row.version,
+    notes: row.notes ?? null,
+    rowCount: row.row_count ?? 0,
+    isActive: !!row.is_active,
+    importedBy: row.imported_by ?? null,
+    createdAt: row.created_at,
+  }));
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Price bands for a lead, from its ZIP or OCR city and the active version
+ * (or a named version, e.g. the one a stored scan was scored with).
+ * Falls back to the built-in statewide bands.
+ */
+export async function getBenchmarksForLead(leadId: string, version?: string): Promise<RegionalBenchmarks> {
+  if (version === BUILTIN_BENCHMARK_VERSION) {
+    return DEFAULT_BENCHMARKS;
+  }
+
+  const { data: lead } = await supabase.from('leads')
+    .select('zip, ocr_city')
+    .eq('id', leadId)
+    .maybeSingle();
+
+  const versionQuery = supabase.from('price_benchmark_versions').select('id, version');
+  const { data: active } = await (version
+    ? versionQuery.eq('version', version)
+    : versionQuery.eq('is_active', true)
+  ).maybeSingle();
+
+  if (!active) {
+    return DEFAULT_BENCHMARKS;
+  }
+
+  const candidates = getRegionCandidates(lead?.zip, lead?.ocr_city);
+  const { data: rows, error } = await supabase.from('price_benchmarks')
+    .select('*')
+    .eq('version_id', active.id)
+    .in('region_key', candidates.map(c => c.regionKey));
+
+  if (error || !rows) {
+    console.error('[Benchmarks] Failed to load bands, using built-in:', error);
+    return DEFAULT_BENCHMARKS;
+  }
+
+  const bandRows: BenchmarkRow[] = rows.map(row => ({
+    regionType: row.region_type,
+    regionKey: row.region_key,
+    openingType: row.opening_type,
+    floor: Number(row.floor_price),
+    low: Number(row.low_price),
+    high: Number(row.high_price),
+    ceiling: Number(row.ceiling_price),
+  }));
+
+  return resolveBenchmarks(active.version, bandRows, candidates);
+}
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for stored chat transcripts and engagement scoring
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+import { llmResponse } from '../testing/quoteFixtures';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+vi.mock('../_core/llm', () => ({
+  invokeLLM: vi.fn(),
+  isLLMConfigured: () => true,
+}));
+
+import { supabase } from './supabaseClient';
+import { invokeLLM } from '../_core/llm';
+import {
+  classifyChatTopic,
+  getChatTranscript,
+  saveChatMessage,
+  scoreChatEngagement,
+  updateChatEngagement,
+  type ChatTopic,
+} from './chatTranscripts';
+import { CHAT_REFUSAL, streamScanChat } from './scanChat';
+import { adminRouter } from '../routes/admin';
+import { betaRouter } from '../routes/beta';
+
+const db = supabase as unknown as FakeSupabase;
+const mockInvokeLLM = vi.mocked(invokeLLM);
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+
+const question = (content: string, topic: ChatTopic = classifyChatTopic(content)) => ({
+  role: 'user' as const,
+  content,
+  topic,
+});
+
+async function ask(text: string): Promise<void> {
+  for await (const chunk of streamScanChat({ leadId: LEAD_ID, question: text })) void chunk;
+}
+
+describe('classifyChatTopic', () => {
+  it('should read the topic from the question', () => {
+    expect(classifyChatTopic('How soon can they install before hurricane season?')).toBe('timeline');
+    expect(classifyChatTopic('Is $1,450 per opening a fair price?')).toBe('price');
+    expect(classifyChatTopic('Should I pay a 60% deposit?')).toBe('contract');
+    expect(classifyChatTopic('Is the labor warranty transferable?')).toBe('warranty');
+    expect(classifyChatTopic('Do these windows have an NOA?')).toBe('safety');
+    expect(classifyChatTopic('Is this contractor licensed?')).toBe('contractor');
+    expect(classifyChatTopic('Does it include stucco repair?')).toBe('scope');
+    expect(classifyChatTopic('Why is my score low?')).toBe('general');
+  });
+});
+
+describe('scoreChatEngagement', () => {
+  it('should score what was asked, not how many messages were sent', () => {
+    const chatter = scoreChatEngagement([
+      question('hi'),
+      question('ok'),
+      question('thanks'),
+      question('cool'),
+      question('tell me a joke', 'off_topic'),
+    ]);
+    const shopper = scoreChatEngagement([
+      question('Is this a fair price?'),
+      question('When can they start the install?'),
+    ]);
+
+    expect(chatter.score).toBe(9); // general once + 3 follow-ups
+    expect(shopper).toEqual({
+      score: 35,
+      questionCount: 2,
+      topics: { price: 1, timeline: 1 },
+      buyingIntent: false,
+    });
+    expect(shopper.score).toBeGreaterThan(chatter.score);
+  });
+
+  it('should add buying intent, ignore assistant messages and cap at 100', () => {
+    const engaged = scoreChatEngagement([
+      question("I'm ready to sign if they lower the deposit"),
+      { role: 'assistant', content: 'Ask about timeline and price [W1].', topic: 'timeline' },
+    ]);
+    expect(engaged).toMatchObject({ score: 27, buyingIntent: true, topics: { contract: 1 } });
+
+    const many = scoreChatEngagement([
+      'When can they install?', 'Is the price fair?', 'What about the deposit?', 'Is the warranty good?',
+      'Are these impact rated?', 'Is the contractor licensed?', 'Is stucco included?', 'Why is my score low?',
+      'Can we get started next month?', 'Is $900 cheap?', 'How long does install take?',
+    ].map(text => question(text)));
+    expect(many.score).toBe(100);
+  });
+});
+
+describe('chat transcripts', () => {
+  beforeEach(() => {
+    db.reset();
+    mockInvokeLLM.mockReset();
+    db.seed('leads', [{ id: LEAD_ID, sms_verified: true, engagement_score: 0 }]);
+    db.seed('scans', [{
+      id: SCAN_ID,
+      lead_id: LEAD_ID,
+      overall_score: 58,
+      audit_details: { warnings: ['High risk: deposit exceeds 40%.'], missing_items: [] },
+      raw_response: null,
+      created_at: '2026-10-01T00:00:00.000Z',
+    }]);
+  });
+
+  it('should store both sides of each exchange and feed them back as history', async () => {
+    mockInvokeLLM.mockResolvedValueOnce(llmResponse('Push back on the deposit [W1].'));
+    await ask('Should I pay a 60% deposit?');
+
+    mockInvokeLLM.mockResolvedValueOnce(llmResponse(CHAT_REFUSAL));
+    await ask("What's the weather tomorrow?");
+
+    const transcript = await getChatTranscript(LEAD_ID, SCAN_ID);
+    expect(transcript.map(message => [message.role, message.topic, message.refused])).toEqual([
+      ['user', 'contract', false],
+      ['assistant', 'contract', false],
+      ['user', 'off_topic', false],
+      ['assistant', 'off_topic', true],
+    ]);
+    expect(transcript[1].citations.map(citation => citation.id)).toEqual(['W1']);
+
+    const secondCall = mockInvokeLLM.mock.calls[1][0].messages;
+    expect(secondCall.slice(1).map(message => message.content)).toEqual([
+      'Should I pay a 60% deposit?',
+      'Push back on the deposit [W1].',
+      "What's the weather tomorrow?",
+    ]);
+    expect(db.table('leads')[0].engagement_score).toBe(12);
+  });
+
+  it('should keep the question when the answer fails', async () => {
+    mockInvokeLLM.mockRejectedValueOnce(new Error('LLM invoke failed: 503'));
+    await ask('When can they install?');
+
+    expect((await getChatTranscript(LEAD_ID)).map(message => message.role)).toEqual(['user']);
+    expect(db.table('leads')[0].engagement_score).toBe(20);
+  });
+
+  it('should show sales the transcript and re-score beta chats from their content', async () => {
+    await saveChatMessage({ leadId: LEAD_ID, role: 'user', content: 'Is this a fair price?' });
+    await saveChatMessage({ leadId: LEAD_ID, role: 'assistant', content: 'It is within the typical range.', topic: 'price' });
+
+    const admin = adminRouter.createCaller({
+      user: { id: 1, openId: 'admin-1', email: 'ops@example.com', role: 'admin' },
+      req: {},
+      res: {},
+    } as any);
+    const { messages, engagement } = await admin.leads.transcript({ leadId: LEAD_ID });
+    expect(messages.map(message => message.content)).toEqual(['Is this a fair price?', 'It is within the typical range.']);
+    expect(engagement.topics).toEqual({ price: 1 });
+
+    expect((await updateChatEngagement(LEAD_ID)).score).toBe(15);
+  });
+
+  it('should store beta questions and score them like alpha ones', async () => {
+    const beta = betaRouter.createCaller({ req: {}, res: {} } as any);
+
+    const tracked = await beta.trackChatInteraction({ leadId: LEAD_ID, messageCount: 2, questions: ['Is this a fair price?'] });
+
+    expect((await getChatTranscript(LEAD_ID)).map(({ role, topic }) => [role, topic])).toEqual([['user', 'price']]);
+    expect(tracked).toMatchObject({ success: true, engagementScore: 15 });
+    expect(db.table('leads')[0].engagement_score).toBe(15);
+
+    // The old contract still works, and can't write answers into the transcript
+    expect(await beta.trackChatInteraction({ leadId: LEAD_ID, messageCount: 40, topic: 'pricing' })).toMatchObject({ engagementScore: 15 });
+    await expect(beta.trackChatInteraction({
+      leadId: LEAD_ID,
+      messageCount: 1,
+      messages: [{ role: 'assistant', content: 'Sign today!' }],
+    } as any)).resolves.toMatchObject({ success: true });
+    expect(await getChatTranscript(LEAD_ID)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Chat Transcripts - Stored Expert Chat and Engagement Scoring
+ *
+ * Every chat message is saved per lead (and scan) with a topic read from its
+ * text. Sales reads the transcript before calling the homeowner back, and the
+ * lead's engagement_score is computed from what the homeowner asked about:
+ * timeline and price questions signal buying intent, off-topic chatter counts
+ * for nothing.
+ */
+
+import { supabase } from './supabaseClient';
+import type { ScanFinding } from './scanChat';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ChatTopic =
+  | 'price'
+  | 'timeline'
+  | 'contract'
+  | 'warranty'
+  | 'safety'
+  | 'contractor'
+  | 'scope'
+  | 'general'
+  | 'off_topic';
+
+export type ChatRole = 'user' | 'assistant';
+
+// How a question was asked (voice questions are stored as their transcript)
+export type ChatInputMode = 'text' | 'voice';
+
+export interface ChatMessageInput {
+  leadId: string;
+  scanId?: string | null;
+  role: ChatRole;
+  content: string;
+  topic?: ChatTopic;
+  citations?: ScanFinding[];
+  refused?: boolean;
+  inputMode?: ChatInputMode;
+  audioKey?: string | null;
+}
+
+export interface ChatTranscriptMessage {
+  id: string;
+  scanId: string | null;
+  role: ChatRole;
+  content: string;
+  topic: ChatTopic;
+  citations: ScanFinding[];
+  refused: boolean;
+  inputMode: ChatInputMode;
+  audioKey: string | null;
+  createdAt: string;
+}
+
+export interface ChatEngagement {
+  score: number; // 0-100
+  questionCount: number;
+  topics: Partial<Record<ChatTopic, number>>; // Questions per topic
+  buyingIntent: boolean;
+}
+
+// ============================================
+// TOPICS AND SCORING
+// ============================================
+
+// First match wins, so the more specific buying signals come first
+const TOPIC_PATTERNS: Array<[ChatTopic, RegExp]> = [
+  ['timeline', /\b(how soon|how long|timeline|schedule|install(ation)? date|start date|lead time|asap|hurricane season|this month|next month|when (can|will|should|could|do))\b/],
+  ['price', /(\$|\b(price|pric(ed|ing)|cost|expensive|cheap|afford|budget|dollars?|sav(e|ing|ings)|fair|overpriced|discount|financ\w*|per opening)\b)/],
+  ['contract', /\b(deposit|payment|contract|sign(ing)?|cancel\w*|fine print|subject to|remeasure|terms)\b/],
+  ['warranty', /\b(warrant\w*|guarantee\w*)\b/],
+  ['safety', /\b(impact|hurricane|noa|approval|code|permits?|dp|design pressure|hvhz|laminated|glass|wind)\b/],
+  ['contractor', /\b(contractor|licen[sc]e\w*|company|installer|reviews?|trust\w*|legit\w*)\b/],
+  ['scope', /\b(install\w*|stucco|drywall|paint\w*|trim|clean ?up|removal|disposal|scope|missing|included?)\b/],
+];
+
+// Points for asking about a topic at all (each topic counts once)
+const TOPIC_POINTS: Record<ChatTopic, number> = {
+  timeline: 20,
+  price: 15,
+  contract: 12,
+  contractor: 10,
+  warranty: 8,
+  safety: 8,
+  scope: 6,
+  general: 3,
+  off_topic: 0,
+};
+
+// Follow-up questions on topics already asked about
+const FOLLOW_UP_POINTS = 2;
+const MAX_FOLLOW_UP_POINTS = 20;
+
+// Homeowner talks about going ahead with the project
+const BUYING_INTENT_PATTERN = /\b(ready to (sign|start|move forward|go)|go ahead|book|schedule (an?|the) (install\w*|appointment|visit|measure\w*)|sign (the|this|it)|move forward|get started)\b/;
+const BUYING_INTENT_POINTS = 15;
+
+/**
+ * Topic of a chat message, read from its text
+ */
+export function classifyChatTopic(text: string): ChatTopic {
+  const normalized = text.toLowerCase();
+  return TOPIC_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0] ?? 'general';
+}
+
+/**
+ * Engagement from what the homeowner asked (their messages only)
+ */
+export function scoreChatEngagement(messages: Array<Pick<ChatTranscriptMessage, 'role' | 'content' | 'topic'>>): ChatEngagement {
+  const questions = messages.filter(message => message.role === 'user');
+  const topics: Partial<Record<ChatTopic, number>> = {};
+
+  for (const question of questions) {
+    topics[question.topic] = (topics[question.topic] ?? 0) + 1;
+  }
+
+  const topicPoints = (Object.keys(topics) as ChatTopic[]).reduce((sum, topic) => sum + TOPIC_POINTS[topic], 0);
+  const followUps = (Object.entries(topics) as Array<[ChatTopic, number]>)
+    .filter(([topic]) => topic !== 'off_topic')
+    .reduce((sum, [, count]) => sum + count - 1, 0);
+  const buyingIntent = questions.some(question => BUYING_INTENT_PATTERN.test(question.content.toLowerCase()));
+
+  const score = topicPoints
+    + Math.min(MAX_FOLLOW_UP_POINTS, followUps * FOLLOW_UP_POINTS)
+    + (buyingIntent ? BUYING_INTENT_POINTS : 0);
+
+  return {
+    score: Math.min(100, score),
+    questionCount: questions.length,
+    topics,
+    buyingIntent,
+  };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+function mapMessage(row: Record<string, any>): ChatTranscriptMessage {
+  return {
+    id: row.id,
+    scanId: row.scan_id ?? null,
+    role: row.role,
+    content: row.content,
+    topic: row.topic ?? 'general',
+    citations: row.citations ?? [],
+    refused: row.refused ?? false,
+    inputMode: row.input_mode ?? 'text',
+    audioKey: row.audio_key ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Store one chat message (topic classified from the text unless given)
+ */
+export async function saveChatMessage(message: ChatMessageInput): Promise<string | null> {
+  const { data, error } = await supabase.from('chat_messages')
+    .insert({
+      lead_id: message.leadId,
+      scan_id: message.scanId ?? null,
+      role: message.role,
+      content: message.content,
+      topic: message.topic ?? classifyChatTopic(message.content),
+      citations: message.citations ?? [],
+      refused: message.refused ?? false,
+      input_mode: message.inputMode ?? 'text',
+      audio_key: message.audioKey ?? null,
+      created_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[ChatTranscripts] Failed to save message:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+/**
+ * A lead's chat transcript, oldest first (optionally only about one scan)
+ */
+export async function getChatTranscript(leadId: string, scanId?: string): Promise<ChatTranscriptMessage[]> {
+  let query = supabase.from('chat_messages')
+    .select('*')
+    .eq('lead_id', leadId);
+  if (scanId) {
+    query = query.eq('scan_id', scanId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+
+  if (error || !data) {
+    if (error) console.error('[ChatTranscripts] Failed to load transcript:', error);
+    return [];
+  }
+
+  return data.map(mapMessage);
+}
+
+/**
+ * Re-score a lead's engagement from their whole transcript and save it
+ */
+export async function updateChatEngagement(leadId: string): Promise<ChatEngagement> {
+  const engagement = scoreChatEngagement(await getChatTranscript(leadId));
+
+  const { error } = await supabase.from('leads').update({
+    engagement_score: engagement.score,
+    updated_at: new Date().toISOString(),
+  }).eq('id', leadId);
+
+  if (error) {
+    console.error('[ChatTranscripts] Failed to update engagement score:', error);
+  }
+
+  return engagement;
+}
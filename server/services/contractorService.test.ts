@@ -0,0 +1,183 @@
+/**
+ * Unit tests for contractor identity normalization and profiles
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSignals } from '../testing/quoteFixtures';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  companyNameKey,
+  getContractorProfile,
+  listContractors,
+  normalizeContractorIdentity,
+  normalizeLicenseNumber,
+  normalizePhone,
+  resolveContractor,
+} from './contractorService';
+import { saveScan } from './quoteAnalysisService';
+import { scoreWithRubric } from './scoringRubrics';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+const identity = (overrides = {}) => ({
+  name: 'Sunshine Impact Windows, LLC',
+  licenseNumber: 'Lic# CGC 152-3456',
+  phone: '+1 305.555.0100',
+  address: '12 Main St,  Miami FL 33130',
+  ...overrides,
+});
+
+describe('normalization', () => {
+  it('should normalize license numbers', () => {
+    expect(normalizeLicenseNumber('Lic# CGC 152-3456')).toBe('CGC1523456');
+    expect(normalizeLicenseNumber('State License No. CBC058221')).toBe('CBC058221');
+    expect(normalizeLicenseNumber('cgc1523456')).toBe('CGC1523456');
+    expect(normalizeLicenseNumber('#12')).toBeNull();
+    expect(normalizeLicenseNumber(null)).toBeNull();
+  });
+
+  it('should normalize US phone numbers', () => {
+    expect(normalizePhone('+1 305.555.0100')).toBe('(305) 555-0100');
+    expect(normalizePhone('(305) 555 0100')).toBe('(305) 555-0100');
+    expect(normalizePhone('555-0100')).toBeNull();
+  });
+
+  it('should compare company names without punctuation or legal suffixes', () => {
+    expect(companyNameKey('Sunshine Impact Windows, LLC')).toBe('sunshine impact windows');
+    expect(companyNameKey('The Sunshine Impact Windows Inc.')).toBe('sunshine impact windows');
+    expect(companyNameKey('A&B Glass Co')).toBe('a and b glass');
+  });
+
+  it('should drop identities with nothing to match on', () => {
+    expect(normalizeContractorIdentity(null)).toBeNull();
+    expect(normalizeContractorIdentity({ name: ' LLC ', licenseNumber: null, phone: '3055550100', address: null })).toBeNull();
+    expect(normalizeContractorIdentity(identity())).toEqual({
+      name: 'Sunshine Impact Windows, LLC',
+      licenseNumber: 'CGC1523456',
+      phone: '(305) 555-0100',
+      address: '12 Main St, Miami FL 33130',
+    });
+  });
+});
+
+describe('resolveContractor', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('should create a contractor once and match it again by license, phone or name', async () => {
+    const id = await resolveContractor(identity());
+
+    expect(id).toBeTruthy();
+    expect(db.table('contractors')).toHaveLength(1);
+    expect(db.table('contractors')[0]).toMatchObject({
+      name_key: 'sunshine impact windows',
+      license_number: 'CGC1523456',
+      phone: '(305) 555-0100',
+    });
+
+    expect(await resolveContractor(identity({ name: 'Sunshine Impact Win.' }))).toBe(id);
+    expect(await resolveContractor({ name: 'SIW', licenseNumber: null, phone: '305-555-0100', address: null })).toBe(id);
+    expect(await resolveContractor({ name: 'Sunshine Impact Windows Inc', licenseNumber: null, phone: null, address: null })).toBe(id);
+    expect(db.table('contractors')).toHaveLength(1);
+  });
+
+  it('should fill in details a known contractor was missing', async () => {
+    const id = await resolveContractor({ name: 'Sunshine Impact Windows', licenseNumber: null, phone: null, address: null });
+    await resolveContractor(identity());
+
+    expect(db.table('contractors')).toHaveLength(1);
+    expect(db.table('contractors')[0]).toMatchObject({ id, license_number: 'CGC1523456', phone: '(305) 555-0100' });
+  });
+
+  it('should keep contractors with different licenses apart', async () => {
+    const first = await resolveContractor(identity());
+    const second = await resolveContractor(identity({ licenseNumber: 'CBC058221' }));
+
+    expect(second).not.toBe(first);
+    expect(db.table('contractors')).toHaveLength(2);
+  });
+
+  it('should return null when the quote names no contractor', async () => {
+    expect(await resolveContractor(undefined)).toBeNull();
+    expect(db.table('contractors')).toHaveLength(0);
+  });
+});
+
+describe('contractor profiles', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('should link saved scans and aggregate score, warnings and price per opening', async () => {
+    const extraction = (totalPriceValue: number, depositPercentage: number) => ({
+      signals: createSignals({ totalPriceValue, depositPercentage, contractor: identity() }),
+      modelVersion: 'gemini-2.5-flash',
+      quoteUrls: ['https://files.example.com/q.pdf'],
+      pageCount: 1,
+      signalPages: {},
+      openingCountHint: null,
+      contentHash: null,
+      cachedFromScanId: null,
+    });
+
+    for (const [total, deposit] of [[30000, 60], [42000, 70], [36000, 20]]) {
+      const data = extraction(total, deposit);
+      await saveScan(LEAD_ID, data, scoreWithRubric(data.signals, null), 1000);
+    }
+
+    const scans = db.table('scans');
+    const contractorId = scans[0].contractor_id;
+    expect(contractorId).toBeTruthy();
+    expect(scans.every(scan => scan.contractor_id === contractorId)).toBe(true);
+
+    const profile = await getContractorProfile(contractorId);
+    const scores = scans.map(scan => scan.overall_score);
+
+    expect(profile).toMatchObject({
+      name: 'Sunshine Impact Windows, LLC',
+      licenseNumber: 'CGC1523456',
+      scanCount: 3,
+      averageScore: Math.round((scores.reduce((a, b) => a + b, 0) / 3) * 10) / 10,
+      pricePerOpening: { count: 3, average: 3600, low: 3000, high: 4200 },
+    });
+
+    // The high-deposit warning counts once per scan whatever the percentage
+    const depositWarning = profile!.commonWarnings.find(w => w.warning.toLowerCase().includes('deposit'));
+    expect(depositWarning?.count).toBe(2);
+  });
+
+  it('should list contractors with scan counts for admins', async () => {
+    db.seed('contractors', [
+      { id: 'c-1', name: 'Sunshine Impact Windows', name_key: 'sunshine impact windows', first_seen_at: '2026-10-01', last_seen_at: '2026-10-05' },
+      { id: 'c-2', name: 'Gulf Coast Glass', name_key: 'gulf coast glass', first_seen_at: '2026-10-01', last_seen_at: '2026-10-02' },
+    ]);
+    db.seed('scans', [
+      { id: 's-1', contractor_id: 'c-1', overall_score: 80 },
+      { id: 's-2', contractor_id: 'c-1', overall_score: 65 },
+      { id: 's-3', contractor_id: 'c-2', overall_score: 50 },
+    ]);
+
+    const all = await listContractors();
+    expect(all.map(c => [c.id, c.scanCount, c.averageScore])).toEqual([
+      ['c-1', 2, 72.5],
+      ['c-2', 1, 50],
+    ]);
+
+    const admin = adminRouter.createCaller({
+      user: { id: 1, openId: 'admin-1', email: 'ops@example.com', role: 'admin' },
+      req: {},
+      res: {},
+    } as any);
+    const found = await admin.contractors.list({ search: 'Gulf Coast' });
+    expect(found.map(c => c.id)).toEqual(['c-2']);
+    expect(await admin.contractors.profile({ contractorId: 'missing' })).toBeNull();
+  });
+});
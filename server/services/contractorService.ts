@@ -0,0 +1,318 @@
+/**
+ * Contractor Service
+ *
+ * The contractor identity the extractor reads off a quote (name, license,
+ * phone, address) is normalized into one contractors row, matched by license
+ * number, then phone, then company name. Scans link to it (scans.contractor_id),
+ * so each contractor's profile aggregates every quote scanned: average score,
+ * recurring warnings and price per opening.
+ */
+
+import { supabase } from './supabaseClient';
+import { parseDollars, parseScoreDetails, type ContractorIdentity } from './scannerEngine';
+
+// Recurring warnings listed on a profile
+const MAX_COMMON_WARNINGS = 5;
+
+// Words dropped when comparing company names ("ABC Windows, LLC" = "ABC Windows Inc")
+const COMPANY_SUFFIXES = new Set(['llc', 'inc', 'corp', 'corporation', 'co', 'company', 'ltd', 'pa', 'pllc', 'the']);
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Contractor {
+  id: string;
+  name: string;
+  licenseNumber: string | null;
+  phone: string | null;
+  address: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface ContractorSummary extends Contractor {
+  scanCount: number;
+  averageScore: number | null;
+}
+
+export interface CommonWarning {
+  warning: string; // Most recent wording
+  count: number; // Scans that raised it
+}
+
+export interface PricePerOpeningStats {
+  count: number;
+  average: number;
+  low: number;
+  high: number;
+}
+
+export interface ContractorProfile extends ContractorSummary {
+  commonWarnings: CommonWarning[];
+  pricePerOpening: PricePerOpeningStats | null;
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * "Lic# CGC 152-3456" → "CGC1523456"
+ */
+export function normalizeLicenseNumber(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+
+  const license = raw
+    .toUpperCase()
+    .replace(/^(STATE\s+)?(LICENSE|LIC|CERTIFIED|CERT)\b\.?\s*(NUMBER|NO\b\.?)?\s*[#:]?\s*/, '')
+    .replace(/[^A-Z0-9]/g, '');
+
+  return license.length >= 4 ? license : null;
+}
+
+/**
+ * US numbers as "(305) 555-0100"; anything else is dropped
+ */
+export function normalizePhone(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+
+  let digits = raw.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) {
+    digits = digits.slice(1);
+  }
+  if (digits.length !== 10) return null;
+
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+}
+
+/**
+ * Comparable company name: lowercase, "&" as "and", no punctuation or legal suffix
+ */
+export function companyNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !COMPANY_SUFFIXES.has(word))
+    .join(' ');
+}
+
+/**
+ * Cleaned identity, or null when there is no name or license to match on
+ */
+export function normalizeContractorIdentity(identity: ContractorIdentity | null | undefined): ContractorIdentity | null {
+  if (!identity) return null;
+
+  const name = identity.name ? collapseWhitespace(identity.name) : null;
+  const licenseNumber = normalizeLicenseNumber(identity.licenseNumber);
+
+  if (!licenseNumber && !(name && companyNameKey(name))) {
+    return null;
+  }
+
+  return {
+    name,
+    licenseNumber,
+    phone: normalizePhone(identity.phone),
+    address: identity.address ? collapseWhitespace(identity.address) : null,
+  };
+}
+
+function averageScore(scores: Array<number | null>): number | null {
+  const valid = scores.filter((score): score is number => typeof score === 'number');
+  return valid.length > 0
+    ? Math.round((valid.reduce((sum, score) => sum + score, 0) / valid.length) * 10) / 10
+    : null;
+}
+
+// Same warning, different figures: "Deposit of 60% ..." / "Deposit of 50% ..."
+function warningKey(warning: string): string {
+  return warning.toLowerCase().replace(/\$?\d[\d,.]*%?/g, '#');
+}
+
+/**
+ * Average score, recurring warnings and price per opening over a contractor's scans
+ */
+export function summarizeContractorScans(scans: Array<{ overall_score: number | null; audit_details: unknown }>): {
+  scanCount: number;
+  averageScore: number | null;
+  commonWarnings: CommonWarning[];
+  pricePerOpening: PricePerOpeningStats | null;
+} {
+  const details = scans.map(scan => parseScoreDetails(scan.audit_details));
+  const prices = details.map(detail => parseDollars(detail.price_per_opening)).filter((price): price is number => price !== null);
+
+  // Scans arrive newest first, so the first wording seen is the latest
+  const warnings = new Map<string, CommonWarning>();
+  for (const detail of details) {
+    const seen = new Set<string>();
+    for (const warning of detail.warnings ?? []) {
+      const key = warningKey(warning);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const entry = warnings.get(key) ?? { warning, count: 0 };
+      entry.count += 1;
+      warnings.set(key, entry);
+    }
+  }
+
+  return {
+    scanCount: scans.length,
+    averageScore: averageScore(scans.map(scan => scan.overall_score)),
+    commonWarnings: Array.from(warnings.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_COMMON_WARNINGS),
+    pricePerOpening: prices.length > 0
+      ? {
+          count: prices.length,
+          average: Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length),
+          low: Math.min(...prices),
+          high: Math.max(...prices),
+        }
+      : null,
+  };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+function mapContractor(row: Record<string, any>): Contractor {
+  return {
+    id: row.id,
+    name: row.name,
+    licenseNumber: row.license_number ?? null,
+    phone: row.phone ?? null,
+    address: row.address ?? null,
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+  };
+}
+
+async function findContractor(identity: ContractorIdentity): Promise<Record<string, any> | null> {
+  const lookups: Array<[string, string | null]> = [
+    ['license_number', identity.licenseNumber],
+    ['phone', identity.phone],
+    ['name_key', identity.name ? companyNameKey(identity.name) : null],
+  ];
+
+  for (const [column, value] of lookups) {
+    if (!value) continue;
+    const { data } = await supabase.from('contractors')
+      .select('*')
+      .eq(column, value)
+      .limit(5);
+    // Two different licenses are two different contractors, whatever else they share
+    const match = (data ?? []).find(row =>
+      !row.license_number || !identity.licenseNumber || row.license_number === identity.licenseNumber
+    );
+    if (match) return match;
+  }
+
+  return null;
+}
+
+/**
+ * Contractor id for an extracted identity (matched or newly created)
+ * Returns null when the quote names no contractor. Known contractors get
+ * any missing license, phone or address filled in.
+ */
+export async function resolveContractor(identity: ContractorIdentity | null | undefined): Promise<string | null> {
+  const normalized = normalizeContractorIdentity(identity);
+  if (!normalized) return null;
+
+  const now = new Date().toISOString();
+  const existing = await findContractor(normalized);
+
+  if (existing) {
+    await supabase.from('contractors').update({
+      license_number: existing.license_number || normalized.licenseNumber,
+      phone: existing.phone || normalized.phone,
+      address: existing.address || normalized.address,
+      last_seen_at: now,
+    }).eq('id', existing.id);
+    return existing.id;
+  }
+
+  const name = normalized.name || normalized.licenseNumber!;
+  const { data, error } = await supabase.from('contractors')
+    .insert({
+      name,
+      name_key: companyNameKey(name),
+      license_number: normalized.licenseNumber,
+      phone: normalized.phone,
+      address: normalized.address,
+      first_seen_at: now,
+      last_seen_at: now,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[Contractors] Failed to create contractor:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+/**
+ * Contractors seen most recently, with scan counts and average scores
+ */
+export async function listContractors(options: { search?: string; limit?: number } = {}): Promise<ContractorSummary[]> {
+  let query = supabase.from('contractors')
+    .select('*')
+    .order('last_seen_at', { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.search) {
+    query = query.ilike('name_key', `%${companyNameKey(options.search)}%`);
+  }
+
+  const { data: contractors, error } = await query;
+  if (error || !contractors || contractors.length === 0) {
+    return [];
+  }
+
+  const { data: scans } = await supabase.from('scans')
+    .select('contractor_id, overall_score')
+    .in('contractor_id', contractors.map(row => row.id));
+
+  return contractors.map(row => {
+    const own = (scans ?? []).filter(scan => scan.contractor_id === row.id);
+    return {
+      ...mapContractor(row),
+      scanCount: own.length,
+      averageScore: averageScore(own.map(scan => scan.overall_score)),
+    };
+  });
+}
+
+/**
+ * One contractor with aggregates over all of their scanned quotes
+ */
+export async function getContractorProfile(contractorId: string): Promise<ContractorProfile | null> {
+  const { data: row } = await supabase.from('contractors')
+    .select('*')
+    .eq('id', contractorId)
+    .maybeSingle();
+
+  if (!row) {
+    return null;
+  }
+
+  const { data: scans } = await supabase.from('scans')
+    .select('overall_score, audit_details, created_at')
+    .eq('contractor_id', contractorId)
+    .order('created_at', { ascending: false });
+
+  return {
+    ...mapContractor(row),
+    ...summarizeContractorScans(scans ?? []),
+  };
+}
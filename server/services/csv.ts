@@ -0,0 +1,51 @@
+/**
+ * CSV helpers for the admin record imports (licensing, product approvals)
+ *
+ * State exports quote fields that contain commas ("ABC WINDOWS, LLC") and
+ * write dates either as YYYY-MM-DD or MM/DD/YYYY.
+ */
+
+/**
+ * Split one CSV line into trimmed cells ("" inside quotes is a literal quote)
+ */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+/**
+ * "2027-08-31" or "08/31/2027" → "2027-08-31"; null for anything else or an impossible date
+ */
+export function parseCsvDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : us
+      ? [us[3], us[1].padStart(2, '0'), us[2].padStart(2, '0')]
+      : [];
+
+  if (!year) return null;
+  const date = `${year}-${month}-${day}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+}
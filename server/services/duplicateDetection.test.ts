@@ -0,0 +1,151 @@
+/**
+ * Unit tests for content hashes and duplicate / shared-template grouping
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSignals } from '../testing/quoteFixtures';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  buildTemplateFeatures,
+  computeContentHash,
+  getContentHash,
+  groupDuplicateScans,
+  templateSimilarity,
+  type GroupableScan,
+} from './duplicateDetection';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+// One contractor's boilerplate, with the numbers filled in per customer
+const templateSignals = (total: number, deposit: number) => createSignals({
+  totalPriceValue: total,
+  depositPercentage: deposit,
+  contractTrapsList: [`Balance of $${total - 1000} due upon delivery of materials`],
+  lineItems: [
+    { openingType: 'single_hung', description: `SH ${total % 7 + 30}x62 impact`, widthInches: 36, heightInches: 62, productLine: 'PGT WinGuard', quantity: 4, unitPrice: 1100, totalPrice: 4400, page: 1 },
+  ],
+  evidence: [
+    { signal: 'hasPermitMention', page: 2, snippet: 'Permit fees included (est. $450)' },
+    { signal: 'hasCleanupMention', page: 2, snippet: 'Daily cleanup and haul-away of old windows' },
+    { signal: 'depositPercentage', page: 3, snippet: `${deposit}% deposit due at signing` },
+  ],
+});
+
+const scan = (scanId: string, overrides: Partial<GroupableScan> = {}): GroupableScan => ({
+  scanId,
+  leadId: `lead-${scanId}`,
+  contentHash: `hash-${scanId}`,
+  overallScore: 70,
+  createdAt: `2026-10-0${scanId.slice(-1)}T00:00:00Z`,
+  features: [],
+  ...overrides,
+});
+
+describe('computeContentHash', () => {
+  it('should keep a single file hash and combine ordered page hashes', () => {
+    expect(computeContentHash(['abc'])).toBe('abc');
+    expect(computeContentHash(['abc', 'def'])).toHaveLength(64);
+    expect(computeContentHash(['abc', 'def'])).not.toBe(computeContentHash(['def', 'abc']));
+  });
+});
+
+describe('template similarity', () => {
+  it('should match the same template with different numbers', () => {
+    const a = buildTemplateFeatures(templateSignals(18400, 50));
+    const b = buildTemplateFeatures(templateSignals(26100, 40));
+
+    expect(a).toContain('text:daily cleanup and haul away of old windows');
+    expect(templateSimilarity(a, b)).toBe(1);
+  });
+
+  it('should not match sparse or unrelated quotes', () => {
+    const template = buildTemplateFeatures(templateSignals(18400, 50));
+    const other = buildTemplateFeatures(createSignals({
+      contractTrapsList: ['Cancellation fee of 25%'],
+      evidence: [
+        { signal: 'hasPermitMention', page: 1, snippet: 'Homeowner pulls own permit' },
+        { signal: 'hasLaminatedMention', page: 1, snippet: 'Laminated glass throughout' },
+        { signal: 'hasBrandClarity', page: 1, snippet: 'CGI Sentinel series' },
+      ],
+    }));
+
+    expect(templateSimilarity(template, other)).toBe(0);
+    expect(templateSimilarity(buildTemplateFeatures(createSignals()), buildTemplateFeatures(createSignals()))).toBe(0);
+  });
+});
+
+describe('groupDuplicateScans', () => {
+  it('should group identical files and shared templates separately', () => {
+    const template = buildTemplateFeatures(templateSignals(18400, 50));
+    const groups = groupDuplicateScans([
+      scan('s1', { contentHash: 'same', leadId: 'lead-a' }),
+      scan('s2', { contentHash: 'same', leadId: 'lead-a' }),
+      scan('s3', { features: template }),
+      scan('s4', { features: buildTemplateFeatures(templateSignals(26100, 40)) }),
+      scan('s5'),
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ kind: 'same_file', contentHashes: ['same'], leadCount: 1, similarity: 1 });
+    expect(groups[0].scans.map(s => s.scanId)).toEqual(['s1', 's2']);
+    expect(groups[1]).toMatchObject({ kind: 'similar_template', leadCount: 2 });
+    expect(groups[1].scans.map(s => s.scanId)).toEqual(['s3', 's4']);
+    expect(groups[1].scans[0]).not.toHaveProperty('features');
+  });
+
+  it('should chain near-identical templates and report the weakest link', () => {
+    const base = ['text:a', 'text:b', 'text:c', 'text:d', 'text:e'];
+    const groups = groupDuplicateScans([
+      scan('s1', { features: base }),
+      scan('s2', { features: [...base, 'text:f'] }),
+      scan('s3', { features: [...base, 'text:f', 'text:g'] }),
+    ], 0.8);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].scans).toHaveLength(3);
+    expect(groups[0].similarity).toBe(0.83);
+  });
+});
+
+describe('duplicate lookups', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('should only hash scans whose uploads all have recorded hashes', async () => {
+    db.seed('quote_uploads', [
+      { storage_key: 'estimates/a/1.pdf', sha256: 'h1' },
+      { storage_key: 'estimates/a/2.jpg', sha256: 'h2' },
+    ]);
+
+    expect(await getContentHash(['estimates/a/1.pdf'])).toBe('h1');
+    expect(await getContentHash(['estimates/a/1.pdf', 'estimates/a/2.jpg'])).toBe(computeContentHash(['h1', 'h2']));
+    expect(await getContentHash(['estimates/a/1.pdf', 'estimates/a/3.jpg'])).toBeNull();
+  });
+
+  it('should expose groups to admins only', async () => {
+    db.seed('scans', [
+      { id: 'scan-1', lead_id: 'lead-1', content_hash: 'same', overall_score: 70, raw_response: JSON.stringify(createSignals()), created_at: '2026-10-01T00:00:00Z' },
+      { id: 'scan-2', lead_id: 'lead-1', content_hash: 'same', overall_score: 70, raw_response: JSON.stringify(createSignals()), created_at: '2026-10-02T00:00:00Z' },
+      { id: 'scan-3', lead_id: 'lead-2', content_hash: 'other', overall_score: 55, raw_response: null, created_at: '2026-10-03T00:00:00Z' },
+    ]);
+
+    const admin = adminRouter.createCaller({
+      user: { id: 1, openId: 'admin-1', email: 'ops@example.com', role: 'admin' },
+      req: {},
+      res: {},
+    } as any);
+    const groups = await admin.duplicates.groups();
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].scans.map(s => s.scanId)).toEqual(['scan-1', 'scan-2']);
+
+    const anonymous = adminRouter.createCaller({ user: null, req: {}, res: {} } as any);
+    await expect(anonymous.duplicates.groups()).rejects.toThrow();
+  });
+});
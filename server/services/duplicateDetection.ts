@@ -0,0 +1,292 @@
+/**
+ * Duplicate Detection - Content Hashes & Shared Contractor Templates
+ *
+ * Every upload records the SHA-256 of its bytes (quote_uploads), and every
+ * scan stores the content hash of its documents. A scan whose content hash
+ * was already analyzed reuses those signals instead of calling the model.
+ *
+ * For admins, scans are grouped when they share a content hash (the same
+ * file uploaded again) or a near-identical contractor template: the same
+ * boilerplate text, contract terms and line-item descriptions with only the
+ * numbers changed.
+ */
+
+import { createHash } from 'node:crypto';
+import { supabase } from './supabaseClient';
+import { parseRawSignals, type ExtractionSignals } from './scannerEngine';
+import type { SignalPages } from './signalMerge';
+
+// Jaccard similarity of template features at which two scans share a template
+export const DEFAULT_TEMPLATE_THRESHOLD = 0.8;
+
+// Scans with fewer text features than this are never template-matched
+const MIN_TEMPLATE_FEATURES = 4;
+
+// Most recent scans compared by the admin grouping query
+const DEFAULT_GROUPING_LIMIT = 500;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface UploadRecord {
+  storageKey: string;
+  leadId: string;
+  sha256: string;
+  mimeType: string;
+  byteSize: number;
+}
+
+export interface CachedExtraction {
+  scanId: string;
+  signals: ExtractionSignals;
+  signalPages: SignalPages;
+  pageCount: number;
+  modelVersion: string;
+}
+
+export type DuplicateKind = 'same_file' | 'similar_template';
+
+export interface DuplicateScan {
+  scanId: string;
+  leadId: string | null;
+  contentHash: string | null;
+  overallScore: number | null;
+  createdAt: string;
+}
+
+export interface DuplicateGroup {
+  kind: DuplicateKind;
+  similarity: number; // Weakest link that joined the group (1 = identical files)
+  contentHashes: string[];
+  leadCount: number;
+  scans: DuplicateScan[];
+}
+
+export interface GroupableScan extends DuplicateScan {
+  features: string[];
+}
+
+// ============================================
+// HASHING (file hashes: hashDocument in extractionProviders)
+// ============================================
+
+/**
+ * One hash for a scan's ordered documents (a single document keeps its own hash)
+ */
+export function computeContentHash(pageHashes: string[]): string {
+  if (pageHashes.length === 1) {
+    return pageHashes[0];
+  }
+  return createHash('sha256').update(pageHashes.join(':')).digest('hex');
+}
+
+// ============================================
+// TEMPLATE SIMILARITY
+// ============================================
+
+// Lowercase, numbers masked, punctuation collapsed: "$12,400 due" → "# due"
+function maskText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\d[\d,.]*/g, '#')
+    .replace(/[^a-z#]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Text features of a quote's template (numbers masked, prices and counts ignored)
+ */
+export function buildTemplateFeatures(signals: ExtractionSignals): string[] {
+  const features = new Set<string>();
+
+  (signals.contractTrapsList ?? []).forEach(trap => {
+    const text = maskText(trap);
+    if (text) features.add(`trap:${text}`);
+  });
+  (signals.lineItems ?? []).forEach(item => {
+    features.add(`item:${item.openingType}|${maskText(item.productLine ?? '')}|${maskText(item.description)}`);
+  });
+  (signals.evidence ?? []).forEach(evidence => {
+    const text = maskText(evidence.snippet);
+    if (text) features.add(`text:${text}`);
+  });
+
+  return Array.from(features).sort();
+}
+
+export function templateSimilarity(a: string[], b: string[]): number {
+  if (a.length < MIN_TEMPLATE_FEATURES || b.length < MIN_TEMPLATE_FEATURES) {
+    return 0;
+  }
+
+  const setB = new Set(b);
+  const shared = a.filter(feature => setB.has(feature)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+/**
+ * Group scans that share a content hash or a near-identical template
+ * Groups are connected components, so A~B and B~C puts A, B and C together.
+ */
+export function groupDuplicateScans(
+  scans: GroupableScan[],
+  threshold = DEFAULT_TEMPLATE_THRESHOLD
+): DuplicateGroup[] {
+  const parent = scans.map((_, index) => index);
+  const linkSimilarity = scans.map(() => 1);
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number, similarity: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const weakest = Math.min(linkSimilarity[rootA], linkSimilarity[rootB], similarity);
+    if (rootA !== rootB) parent[rootB] = rootA;
+    linkSimilarity[rootA] = weakest;
+  };
+
+  for (let i = 0; i < scans.length; i++) {
+    for (let j = i + 1; j < scans.length; j++) {
+      if (scans[i].contentHash && scans[i].contentHash === scans[j].contentHash) {
+        union(i, j, 1);
+        continue;
+      }
+      const similarity = templateSimilarity(scans[i].features, scans[j].features);
+      if (similarity >= threshold) {
+        union(i, j, similarity);
+      }
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  for (let index = 0; index < scans.length; index++) {
+    const root = find(index);
+    members.set(root, [...(members.get(root) ?? []), index]);
+  }
+
+  const groups: DuplicateGroup[] = [];
+  members.forEach((indexes, root) => {
+    if (indexes.length < 2) return;
+
+    const groupScans = indexes.map(index => {
+      const { features: _features, ...scan } = scans[index];
+      return scan;
+    });
+    const contentHashes = Array.from(new Set(groupScans.map(scan => scan.contentHash).filter((hash): hash is string => !!hash)));
+    const sameFile = contentHashes.length === 1 && groupScans.every(scan => scan.contentHash);
+
+    groups.push({
+      kind: sameFile ? 'same_file' : 'similar_template',
+      similarity: Math.round(linkSimilarity[root] * 100) / 100,
+      contentHashes,
+      leadCount: new Set(groupScans.map(scan => scan.leadId)).size,
+      scans: groupScans.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    });
+  });
+
+  return groups.sort((a, b) => b.scans.length - a.scans.length || b.similarity - a.similarity);
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * Remember the hash of an uploaded file
+ */
+export async function recordUpload(upload: UploadRecord): Promise<void> {
+  const { error } = await supabase.from('quote_uploads').insert({
+    storage_key: upload.storageKey,
+    lead_id: upload.leadId,
+    sha256: upload.sha256,
+    mime_type: upload.mimeType,
+    byte_size: upload.byteSize,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('[Duplicates] Failed to record upload hash:', error);
+  }
+}
+
+/**
+ * Content hash of a scan's documents, or null if any upload has no recorded hash
+ */
+export async function getContentHash(storageKeys: string[]): Promise<string | null> {
+  const { data, error } = await supabase.from('quote_uploads')
+    .select('storage_key, sha256')
+    .in('storage_key', storageKeys);
+
+  if (error || !data) {
+    return null;
+  }
+
+  const hashes = storageKeys.map(key => data.find(row => row.storage_key === key)?.sha256);
+  return hashes.every(Boolean) ? computeContentHash(hashes as string[]) : null;
+}
+
+/**
+ * The newest scan of the same content, if any (its signals can be reused)
+ */
+export async function findCachedExtraction(contentHash: string): Promise<CachedExtraction | null> {
+  const { data, error } = await supabase.from('scans')
+    .select('id, audit_details, raw_response, created_at')
+    .eq('content_hash', contentHash)
+    .order('created_at', { ascending: false })
+    .limit(5);
+
+  if (error || !data) {
+    return null;
+  }
+
+  for (const scan of data) {
+    const signals = parseRawSignals(scan.raw_response);
+    if (!signals) continue;
+
+    const details = scan.audit_details || {};
+    return {
+      scanId: scan.id,
+      signals,
+      signalPages: details.signal_pages || {},
+      pageCount: details.page_count || 1,
+      modelVersion: details.model_version || '',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Recent scans grouped by shared file or near-identical template (admin view)
+ */
+export async function listDuplicateGroups(options: { threshold?: number; limit?: number } = {}): Promise<DuplicateGroup[]> {
+  const { data, error } = await supabase.from('scans')
+    .select('id, lead_id, content_hash, overall_score, raw_response, created_at')
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? DEFAULT_GROUPING_LIMIT);
+
+  if (error || !data) {
+    console.error('[Duplicates] Failed to load scans:', error);
+    return [];
+  }
+
+  const scans: GroupableScan[] = data.map(scan => {
+    const signals = parseRawSignals(scan.raw_response);
+    return {
+      scanId: scan.id,
+      leadId: scan.lead_id ?? null,
+      contentHash: scan.content_hash ?? null,
+      overallScore: scan.overall_score ?? null,
+      createdAt: scan.created_at,
+      features: signals ? buildTemplateFeatures(signals) : [],
+    };
+  });
+
+  return groupDuplicateScans(scans, options.threshold ?? DEFAULT_TEMPLATE_THRESHOLD);
+}
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for the extraction provider layer (selection, fallback, local stub)
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSignals, llmResponse } from '../testing/quoteFixtures';
+
+const llmState = vi.hoisted(() => ({ configured: true }));
+
+vi.mock('../_core/llm', () => ({
+  invokeLLM: vi.fn(),
+  isLLMConfigured: () => llmState.configured,
+}));
+
+const generateContent = vi.hoisted(() => vi.fn());
+
+vi.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: class {
+    getGenerativeModel() {
+      return { generateContent };
+    }
+  },
+}));
+
+import { invokeLLM } from '../_core/llm';
+import { ENV } from '../_core/env';
+import {
+  extractWithProviders,
+  getProviderChain,
+  hashDocument,
+  type ExtractionRequest,
+} from './extractionProviders';
+import { DEFAULT_STUB_EXTRACTION, STUB_MODEL } from './stubExtractions';
+
+const SAMPLE_QUOTE = fs.readFileSync(path.resolve(__dirname, '../../test-quote.png'));
+
+const toDataUrl = (bytes: Buffer, mimeType = 'image/png') =>
+  `data:${mimeType};base64,${bytes.toString('base64')}`;
+
+const request = (url: string, mimeType = 'image/png'): ExtractionRequest => ({
+  systemPrompt: 'rubric',
+  userPrompt: 'extract',
+  document: { url, mimeType },
+  schema: { name: 'extraction_signals', schema: {} },
+});
+
+const originalEnv = { ...ENV };
+
+describe('extraction providers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    llmState.configured = true;
+    Object.assign(ENV, { llmProviders: '', geminiApiKey: '', llmStubDir: '', isProduction: false });
+  });
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+  });
+
+  describe('getProviderChain', () => {
+    it('should use every provider with credentials by default', () => {
+      ENV.geminiApiKey = 'gemini-key';
+      expect(getProviderChain().map(p => p.name)).toEqual(['forge', 'gemini']);
+    });
+
+    it('should fall back to the local stub outside production when nothing is configured', () => {
+      llmState.configured = false;
+      expect(getProviderChain().map(p => p.name)).toEqual(['stub']);
+
+      ENV.isProduction = true;
+      expect(getProviderChain()).toEqual([]);
+    });
+
+    it('should follow LLM_PROVIDERS, skipping unknown and unconfigured entries', () => {
+      ENV.llmProviders = 'gemini, bogus, forge, stub';
+      expect(getProviderChain().map(p => p.name)).toEqual(['forge', 'stub']);
+
+      ENV.geminiApiKey = 'gemini-key';
+      expect(getProviderChain().map(p => p.name)).toEqual(['gemini', 'forge', 'stub']);
+    });
+  });
+
+  describe('extractWithProviders', () => {
+    it('should send the document to Forge as an image or file part', async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+
+      const result = await extractWithProviders(request('https://files.example.com/q.pdf', 'application/pdf'));
+
+      expect(result).toMatchObject({ provider: 'forge', model: 'gemini-2.5-flash' });
+      expect(result.signals.totalPriceValue).toBe(15000);
+      const params = vi.mocked(invokeLLM).mock.calls[0][0];
+      expect(params.outputSchema?.name).toBe('extraction_signals');
+      expect((params.messages[1].content as unknown[])[1]).toMatchObject({ type: 'file_url' });
+    });
+
+    it('should fall back to the next provider when one fails', async () => {
+      ENV.llmProviders = 'forge,gemini';
+      ENV.geminiApiKey = 'gemini-key';
+      vi.mocked(invokeLLM).mockRejectedValue(new Error('LLM invoke failed: 503 Service Unavailable'));
+      generateContent.mockResolvedValue({
+        response: { text: () => JSON.stringify(createSignals({ totalPriceValue: 22000 })) },
+      });
+
+      const result = await extractWithProviders(request(toDataUrl(SAMPLE_QUOTE)));
+
+      expect(result.provider).toBe('gemini');
+      expect(result.signals.totalPriceValue).toBe(22000);
+      const parts = generateContent.mock.calls[0][0];
+      expect(parts[1].inlineData).toEqual({ data: SAMPLE_QUOTE.toString('base64'), mimeType: 'image/png' });
+    });
+
+    it('should fall back when a provider returns invalid JSON', async () => {
+      ENV.llmProviders = 'forge,stub';
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse('not json'));
+
+      const result = await extractWithProviders(request(toDataUrl(SAMPLE_QUOTE)));
+
+      expect(result.provider).toBe('stub');
+    });
+
+    it("should throw the first provider's error when all fail", async () => {
+      ENV.llmProviders = 'forge,gemini';
+      ENV.geminiApiKey = 'gemini-key';
+      vi.mocked(invokeLLM).mockRejectedValue(new Error('LLM invoke failed: 429 Too Many Requests'));
+      generateContent.mockRejectedValue(new Error('[403 Forbidden] permission denied'));
+
+      await expect(extractWithProviders(request('https://files.example.com/q.png')))
+        .rejects.toThrow('429 Too Many Requests');
+    });
+
+    it('should fail clearly when no provider is available', async () => {
+      llmState.configured = false;
+      ENV.isProduction = true;
+
+      await expect(extractWithProviders(request('https://files.example.com/q.png')))
+        .rejects.toThrow('No LLM provider is configured');
+    });
+  });
+
+  describe('local stub', () => {
+    beforeEach(() => {
+      ENV.llmProviders = 'stub';
+    });
+
+    it('should return the canned extraction for a known file hash', async () => {
+      const result = await extractWithProviders(request(toDataUrl(SAMPLE_QUOTE)));
+
+      expect(result).toMatchObject({ provider: 'stub', model: STUB_MODEL });
+      expect(result.signals.totalPriceValue).toBe(40800);
+      expect(result.signals.openingCountEstimate).toBe(10);
+      expect(invokeLLM).not.toHaveBeenCalled();
+    });
+
+    it('should return the same default extraction for any other file', async () => {
+      const first = await extractWithProviders(request(toDataUrl(Buffer.from('some other quote'))));
+      const second = await extractWithProviders(request(toDataUrl(Buffer.from('some other quote'))));
+
+      expect(first.signals).toEqual(DEFAULT_STUB_EXTRACTION);
+      expect(second.signals).toEqual(first.signals);
+    });
+
+    it('should prefer canned extractions from LLM_STUB_DIR', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-stub-'));
+      const bytes = Buffer.from('receipt');
+      fs.writeFileSync(
+        path.join(dir, `${hashDocument(bytes)}.json`),
+        JSON.stringify(createSignals({ isValidQuote: false, validityReason: 'Receipt' }))
+      );
+      ENV.llmStubDir = dir;
+
+      try {
+        const result = await extractWithProviders(request(toDataUrl(bytes, 'image/jpeg')));
+        expect(result.signals.isValidQuote).toBe(false);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
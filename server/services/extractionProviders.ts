@@ -0,0 +1,274 @@
+/**
+ * Extraction Providers - Pluggable Structured Extraction Backends
+ *
+ * One interface for "read this document and return the signals JSON", with:
+ * - forge:  the Forge invokeLLM backend (server/_core/llm.ts)
+ * - gemini: Google Gemini directly (@google/generative-ai)
+ * - stub:   deterministic canned signals keyed by file hash (no network)
+ *
+ * LLM_PROVIDERS sets the order (e.g. "gemini,forge"); each provider is tried
+ * in turn until one returns parseable JSON. Unset, every provider with
+ * credentials is used, and outside production the stub stands in when none has.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ENV } from '../_core/env';
+import { invokeLLM, isLLMConfigured, type InvokeResult, type MessageContent } from '../_core/llm';
+import { classifyGeminiError, type ExtractionSignals } from './scannerEngine';
+import { DEFAULT_STUB_EXTRACTION, STUB_EXTRACTIONS, STUB_MODEL } from './stubExtractions';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ExtractionProviderName = 'forge' | 'gemini' | 'stub';
+
+export interface ExtractionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  document: {
+    url: string; // https:, or data: for inline files
+    mimeType: string;
+  };
+  schema: {
+    name: string;
+    schema: Record<string, unknown>;
+  };
+}
+
+export interface ProviderResponse {
+  content: string; // Raw JSON text from the model
+  model: string;
+}
+
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+  isConfigured(): boolean;
+  extract(request: ExtractionRequest): Promise<ProviderResponse>;
+}
+
+export interface ProviderExtraction {
+  signals: ExtractionSignals;
+  model: string;
+  provider: ExtractionProviderName;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Text of the first choice (array content is joined)
+ */
+export function getResponseText(result: InvokeResult): string {
+  const content = result.choices[0]?.message.content;
+  return typeof content === 'string'
+    ? content
+    : (content ?? [])
+        .map(part => (part.type === 'text' ? part.text : ''))
+        .join('');
+}
+
+/**
+ * Parse the signals JSON a provider returned
+ */
+export function parseSignalsJson(text: string): ExtractionSignals {
+  try {
+    return JSON.parse(text) as ExtractionSignals;
+  } catch {
+    console.error('[Extraction] Failed to parse LLM response:', text);
+    throw new Error('Failed to parse AI response. Please try again.');
+  }
+}
+
+/**
+ * Bytes of a document URL (data: URLs are decoded, anything else is fetched)
+ */
+export async function loadDocumentBytes(url: string): Promise<Buffer> {
+  if (url.startsWith('data:')) {
+    return Buffer.from(url.slice(url.indexOf(',') + 1), 'base64');
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download quote file: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export function hashDocument(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+// PDFs go as files, everything else as images
+function buildDocumentPart(url: string, mimeType: string): MessageContent {
+  if (mimeType === 'application/pdf') {
+    return {
+      type: 'file_url',
+      file_url: { url, mime_type: 'application/pdf' },
+    };
+  }
+
+  return {
+    type: 'image_url',
+    image_url: { url, detail: 'high' },
+  };
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+const forgeProvider: ExtractionProvider = {
+  name: 'forge',
+  isConfigured: isLLMConfigured,
+
+  async extract(request) {
+    const result = await invokeLLM({
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        {
+          role: 'user',
+          content: [
+            request.userPrompt,
+            buildDocumentPart(request.document.url, request.document.mimeType),
+          ],
+        },
+      ],
+      outputSchema: request.schema,
+    });
+
+    return { content: getResponseText(result), model: result.model };
+  },
+};
+
+const geminiProvider: ExtractionProvider = {
+  name: 'gemini',
+  isConfigured: () => Boolean(ENV.geminiApiKey),
+
+  async extract(request) {
+    // JSON mode only: the extraction schema uses keywords Gemini's responseSchema rejects,
+    // and the rubric already spells out the shape
+    const model = new GoogleGenerativeAI(ENV.geminiApiKey).getGenerativeModel({
+      model: ENV.geminiModel,
+      systemInstruction: request.systemPrompt,
+      generationConfig: { responseMimeType: 'application/json' },
+    });
+
+    const bytes = await loadDocumentBytes(request.document.url);
+    const result = await model.generateContent([
+      request.userPrompt,
+      { inlineData: { data: bytes.toString('base64'), mimeType: request.document.mimeType } },
+    ]);
+
+    return { content: result.response.text(), model: ENV.geminiModel };
+  },
+};
+
+/**
+ * Canned signals for a file: LLM_STUB_DIR/<sha256>.json, then the built-in set, then the default
+ */
+function getStubExtraction(hash: string): ExtractionSignals {
+  if (ENV.llmStubDir) {
+    const file = path.resolve(ENV.llmStubDir, `${hash}.json`);
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, 'utf8')) as ExtractionSignals;
+    }
+  }
+
+  return STUB_EXTRACTIONS[hash] ?? DEFAULT_STUB_EXTRACTION;
+}
+
+const stubProvider: ExtractionProvider = {
+  name: 'stub',
+  isConfigured: () => true,
+
+  async extract(request) {
+    const hash = hashDocument(await loadDocumentBytes(request.document.url));
+    return { content: JSON.stringify(getStubExtraction(hash)), model: STUB_MODEL };
+  },
+};
+
+const PROVIDERS: Record<ExtractionProviderName, ExtractionProvider> = {
+  forge: forgeProvider,
+  gemini: geminiProvider,
+  stub: stubProvider,
+};
+
+// Used when LLM_PROVIDERS is unset
+const DEFAULT_PROVIDER_ORDER: ExtractionProviderName[] = ['forge', 'gemini'];
+
+// ============================================
+// SELECTION / FALLBACK
+// ============================================
+
+/**
+ * Providers to try, in order
+ */
+export function getProviderChain(): ExtractionProvider[] {
+  const names = ENV.llmProviders
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (names.length > 0) {
+    const unknown = names.filter(name => !(name in PROVIDERS));
+    if (unknown.length > 0) {
+      console.warn('[Extraction] Ignoring unknown LLM_PROVIDERS entries:', unknown.join(', '));
+    }
+    return names
+      .filter((name): name is ExtractionProviderName => name in PROVIDERS)
+      .map(name => PROVIDERS[name])
+      .filter(provider => provider.isConfigured());
+  }
+
+  const configured = DEFAULT_PROVIDER_ORDER
+    .map(name => PROVIDERS[name])
+    .filter(provider => provider.isConfigured());
+
+  if (configured.length === 0 && !ENV.isProduction) {
+    return [stubProvider];
+  }
+  return configured;
+}
+
+/**
+ * Run the extraction on the first provider that succeeds
+ * A provider that errors or returns unparseable JSON falls through to the next;
+ * if all fail, the first provider's error is thrown (the job queue classifies it).
+ */
+export async function extractWithProviders(request: ExtractionRequest): Promise<ProviderExtraction> {
+  const chain = getProviderChain();
+
+  if (chain.length === 0) {
+    throw new Error('No LLM provider is configured (set BUILT_IN_FORGE_API_KEY or GEMINI_API_KEY)');
+  }
+
+  let firstError: unknown = null;
+
+  for (let index = 0; index < chain.length; index++) {
+    const provider = chain[index];
+
+    try {
+      const response = await provider.extract(request);
+      const signals = parseSignalsJson(response.content);
+
+      if (index > 0) {
+        console.warn(`[Extraction] Used fallback provider ${provider.name}`);
+      }
+      return { signals, model: response.model, provider: provider.name };
+    } catch (error) {
+      firstError ??= error;
+      const next = chain[index + 1];
+      console.warn(
+        `[Extraction] ${provider.name} failed (${classifyGeminiError(error).split(':')[0]})`,
+        next ? `- falling back to ${next.name}` : '- no providers left'
+      );
+    }
+  }
+
+  throw firstError;
+}
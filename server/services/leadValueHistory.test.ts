@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the lead value history (+ admin router)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import { diffLeadValueFactors, getLeadValueHistory, type LeadValueTrigger } from './leadValueHistory';
+import { BUILTIN_MATRIX_VERSION } from './leadValueMatrix';
+import { recalculateLeadValue, type LeadValueFactors } from './leadValueService';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+const createCaller = (role: 'admin' | 'user' | null) => adminRouter.createCaller({
+  user: role ? { id: 1, openId: 'admin-1', email: 'ops@example.com', role } : null,
+  req: {},
+  res: {},
+} as any);
+
+// Answer a funnel step, then recalculate the way its procedure does
+async function answer(fields: Record<string, unknown>, trigger: LeadValueTrigger) {
+  Object.assign(db.table('leads')[0], fields);
+  return await recalculateLeadValue(LEAD_ID, trigger);
+}
+
+describe('lead value history', () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db.seed('leads', [{
+      id: LEAD_ID,
+      is_homeowner: null,
+      window_count: null,
+      timeline_urgency: null,
+      path_type: 'beta',
+      sms_verified: false,
+    }]);
+  });
+
+  it('should append one entry per recalculation with the factors and trigger', async () => {
+    await answer({ is_homeowner: true, window_count: 'entire_home' }, 'beta.filter');
+    await answer({ sms_verified: true }, 'beta.verify');
+    await answer({ timeline_urgency: 'asap' }, 'beta.finalAction');
+
+    const rows = db.table('lead_value_history');
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({
+      lead_id: LEAD_ID,
+      trigger: 'beta.filter',
+      value: 15,
+      tier: 'cold',
+      factors: { isHomeowner: true, windowCount: 'entire_home', timelineUrgency: null, smsVerified: false, scan: null },
+      matrix_version: BUILTIN_MATRIX_VERSION,
+    });
+    expect(rows[0].breakdown).toEqual([{ factor: 'base', label: rows[0].reasoning, amount: 15 }]);
+    expect(db.table('leads')[0].lead_value_score).toBe(600);
+  });
+
+  it('should chart the progression with what changed at each step', async () => {
+    await answer({ is_homeowner: true, window_count: 'entire_home' }, 'beta.filter');
+    await answer({ sms_verified: true }, 'beta.verify');
+    await answer({ timeline_urgency: 'asap' }, 'beta.finalAction');
+
+    const history = await getLeadValueHistory(LEAD_ID);
+
+    expect(history.map(({ trigger, value, tier, previousTier, valueChange, changedFactors }) => (
+      { trigger, value, tier, previousTier, valueChange, changedFactors }
+    ))).toEqual([
+      { trigger: 'beta.filter', value: 15, tier: 'cold', previousTier: null, valueChange: 0, changedFactors: [] },
+      { trigger: 'beta.verify', value: 18, tier: 'cold', previousTier: 'cold', valueChange: 3, changedFactors: ['smsVerified'] },
+      { trigger: 'beta.finalAction', value: 600, tier: 'whale', previousTier: 'cold', valueChange: 582, changedFactors: ['timelineUrgency'] },
+    ]);
+  });
+
+  it('should keep scoring when the history cannot be written', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    db.failing.add('lead_value_history');
+
+    expect(await answer({ is_homeowner: false }, 'beta.filter')).toMatchObject({ value: 0, tier: 'disqualified' });
+    expect(db.table('leads')[0].lead_value_score).toBe(0);
+    expect(await getLeadValueHistory(LEAD_ID)).toEqual([]);
+  });
+
+  it('should give admins the history and its tier transitions', async () => {
+    await answer({ is_homeowner: true, window_count: 'entire_home' }, 'beta.filter');
+    await answer({ sms_verified: true }, 'beta.verify');
+    await answer({ timeline_urgency: 'asap' }, 'beta.finalAction');
+
+    const { entries, tierTransitions } = await createCaller('admin').leads.valueHistory({ leadId: LEAD_ID });
+
+    expect(entries).toHaveLength(3);
+    expect(tierTransitions).toMatchObject([{ trigger: 'beta.finalAction', previousTier: 'cold', tier: 'whale' }]);
+    await expect(createCaller('user').leads.valueHistory({ leadId: LEAD_ID })).rejects.toThrow();
+  });
+});
+
+describe('diffLeadValueFactors', () => {
+  it('should compare scan factors by value', () => {
+    const factors: LeadValueFactors = {
+      isHomeowner: true,
+      windowCount: '6-10',
+      timelineUrgency: 'asap',
+      pathType: 'alpha',
+      smsVerified: true,
+    };
+    const scan = { scanId: 's1', quoteTotal: 9000, openingCount: 8, overallScore: 70, depositPercentage: 30, hasSubjectToChange: false };
+
+    expect(diffLeadValueFactors({ ...factors, scan: null }, factors)).toEqual([]);
+    expect(diffLeadValueFactors({ ...factors, scan }, { ...factors, scan: { ...scan } })).toEqual([]);
+    expect(diffLeadValueFactors({ ...factors, scan }, { ...factors, windowCount: '11-15', scan: { ...scan, overallScore: 40 } }))
+      .toEqual(['windowCount', 'scan']);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Lead Value History Service
+ *
+ * Every lead value calculation is appended to lead_value_history with the
+ * factors it was calculated from and the procedure that triggered it, so
+ * admins can chart how a lead moved through the tiers and see which answer
+ * (or scan) moved it.
+ */
+
+import { supabase } from './supabaseClient';
+import type { LeadTier } from './leadValueMatrix';
+import type { LeadValueContribution, LeadValueFactors, LeadValueResult } from './leadValueService';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Procedures that recalculate a lead's value
+export const LEAD_VALUE_TRIGGERS = [
+  'alpha.verify',
+  'alpha.timeline',
+  'alpha.filterQuestions',
+  'alpha.finalAction',
+  'beta.filter',
+  'beta.verify',
+  'beta.finalAction',
+  'scan.completed',
+] as const;
+
+export type LeadValueTrigger = typeof LEAD_VALUE_TRIGGERS[number];
+
+export interface LeadValueHistoryEntry {
+  id: string;
+  trigger: string;
+  factors: LeadValueFactors;
+  value: number;
+  tier: LeadTier;
+  reasoning: string;
+  breakdown: LeadValueContribution[];
+  matrixVersion: string;
+  createdAt: string;
+  // Compared with the entry before it (null / 0 / [] for the first one)
+  previousTier: LeadTier | null;
+  valueChange: number;
+  changedFactors: Array<keyof LeadValueFactors>;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+const FACTOR_KEYS: Array<keyof LeadValueFactors> = [
+  'isHomeowner',
+  'windowCount',
+  'timelineUrgency',
+  'pathType',
+  'smsVerified',
+  'scan',
+];
+
+/**
+ * Factors that differ between two snapshots (the answer or scan that moved the value)
+ */
+export function diffLeadValueFactors(
+  before: LeadValueFactors,
+  after: LeadValueFactors
+): Array<keyof LeadValueFactors> {
+  return FACTOR_KEYS.filter(key => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null));
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * Append a calculation to the lead's value history (failures are logged, never thrown)
+ */
+export async function recordLeadValue(
+  leadId: string,
+  trigger: LeadValueTrigger,
+  factors: LeadValueFactors,
+  result: LeadValueResult
+): Promise<void> {
+  const { error } = await supabase.from('lead_value_history').insert({
+    lead_id: leadId,
+    trigger,
+    factors,
+    value: result.value,
+    tier: result.tier,
+    reasoning: result.reasoning,
+    breakdown: result.breakdown,
+    matrix_version: result.matrixVersion,
+  });
+
+  if (error) {
+    console.error('[LeadValueHistory] Failed to record lead value:', error);
+  }
+}
+
+/**
+ * The lead's most recent value and tier (null before the first calculation)
+ */
+export async function getLatestLeadValue(leadId: string): Promise<{ value: number; tier: LeadTier } | null> {
+  const { data, error } = await supabase.from('lead_value_history')
+    .select('value, tier')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[LeadValueHistory] Failed to load latest value:', error);
+  }
+
+  return data ? { value: data.value, tier: data.tier } : null;
+}
+
+/**
+ * A lead's value history, oldest first, with each entry's change from the one before
+ */
+export async function getLeadValueHistory(leadId: string): Promise<LeadValueHistoryEntry[]> {
+  const { data, error } = await supabase.from('lead_value_history')
+    .select('id, trigger, factors, value, tier, reasoning, breakdown, matrix_version, created_at')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[LeadValueHistory] Failed to load history:', error);
+    return [];
+  }
+
+  const rows: Array<Record<string, any>> = data || [];
+
+  return rows.map((row, index) => {
+    const previous = index > 0 ? rows[index - 1] : null;
+
+    return {
+      id: row.id,
+      trigger: row.trigger,
+      factors: row.factors,
+      value: row.value,
+      tier: row.tier,
+      reasoning: row.reasoning,
+      breakdown: row.breakdown ?? [],
+      matrixVersion: row.matrix_version,
+      createdAt: row.created_at,
+      previousTier: previous?.tier ?? null,
+      valueChange: previous ? row.value - previous.value : 0,
+      changedFactors: previous ? diffLeadValueFactors(previous.factors, row.factors) : [],
+    };
+  });
+}
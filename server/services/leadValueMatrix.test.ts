@@ -0,0 +1,202 @@
+/**
+ * Unit tests for the versioned lead value matrix (+ admin router)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  activateLeadValueMatrix,
+  BUILTIN_MATRIX_VERSION,
+  DEFAULT_LEAD_VALUE_MATRIX,
+  getActiveLeadValueMatrix,
+  listLeadValueMatrices,
+  saveLeadValueMatrix,
+  validateLeadValueMatrix,
+  type LeadValueMatrix,
+} from './leadValueMatrix';
+import { calculateLeadValue, recalculateLeadValue, type LeadValueFactors } from './leadValueService';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+const createCaller = (role: 'admin' | 'user' | null) => adminRouter.createCaller({
+  user: role ? { id: 1, openId: 'admin-1', email: 'ops@example.com', role } : null,
+  req: {},
+  res: {},
+} as any);
+
+const createFactors = (overrides: Partial<LeadValueFactors> = {}): LeadValueFactors => ({
+  isHomeowner: true,
+  windowCount: 'entire_home',
+  timelineUrgency: 'asap',
+  pathType: 'alpha',
+  smsVerified: false,
+  ...overrides,
+});
+
+// Marketing's November numbers: whales worth more, alpha leads get a bonus
+const NOVEMBER_MATRIX: LeadValueMatrix = {
+  ...DEFAULT_LEAD_VALUE_MATRIX,
+  rules: [
+    { ...DEFAULT_LEAD_VALUE_MATRIX.rules[0], value: 800 },
+    ...DEFAULT_LEAD_VALUE_MATRIX.rules.slice(1),
+  ],
+  modifiers: [
+    { factor: 'sms_verified', percent: 25, label: 'SMS verified bonus' },
+    { factor: 'alpha_path', percent: 10, label: 'quote uploaded bonus' },
+  ],
+};
+
+describe('calculateLeadValue with a matrix', () => {
+  it('should apply the matrix rules and every matching modifier to the base value', () => {
+    const result = calculateLeadValue(createFactors({ smsVerified: true }), { version: '2026-11', matrix: NOVEMBER_MATRIX });
+
+    expect(result).toEqual({
+      value: 1080,
+      tier: 'whale',
+      reasoning: 'Whale lead: Entire home project with immediate timeline (+200 SMS verified bonus) (+80 quote uploaded bonus)',
+      breakdown: [
+        { factor: 'base', label: 'Whale lead: Entire home project with immediate timeline', amount: 800 },
+        { factor: 'sms_verified', label: 'SMS verified bonus', amount: 200 },
+        { factor: 'alpha_path', label: 'quote uploaded bonus', amount: 80 },
+      ],
+      matrixVersion: '2026-11',
+    });
+  });
+
+  it('should default to the built-in matrix', () => {
+    expect(calculateLeadValue(createFactors({ windowCount: null, timelineUrgency: null }))).toMatchObject({
+      value: 25,
+      tier: 'cold',
+      matrixVersion: BUILTIN_MATRIX_VERSION,
+    });
+    expect(calculateLeadValue(createFactors({ timelineUrgency: 'someday' }))).toMatchObject({ value: 10, tier: 'cold' });
+  });
+});
+
+describe('validateLeadValueMatrix', () => {
+  it('should accept the built-in matrix', () => {
+    expect(validateLeadValueMatrix(JSON.parse(JSON.stringify(DEFAULT_LEAD_VALUE_MATRIX)))).toEqual({
+      matrix: DEFAULT_LEAD_VALUE_MATRIX,
+      errors: [],
+    });
+  });
+
+  it('should report every problem with a path', () => {
+    const { matrix, errors } = validateLeadValueMatrix({
+      ...DEFAULT_LEAD_VALUE_MATRIX,
+      unknownHomeowner: { value: -5, tier: 'lukewarm', reasoning: '' },
+      rules: [
+        { windowCounts: ['entire_home'], timelines: ['asap'], value: 50000, tier: 'whale', reasoning: 'Whale' },
+        { windowCounts: ['entire_home', 'mansion'], timelines: null, value: 300, tier: 'whale', reasoning: 'Whale' },
+        { windowCounts: null, timelines: [], value: 20, tier: 'cold', reasoning: 'Cold' },
+      ],
+      modifiers: [
+        { factor: 'sms_verified', percent: 20, label: 'SMS verified bonus' },
+        { factor: 'sms_verified', percent: 0, label: 'Again' },
+      ],
+    });
+
+    expect(matrix).toBeNull();
+    expect(errors).toEqual([
+      'unknownHomeowner.value: must be a whole number from 0 to 5000',
+      'unknownHomeowner.tier: must be one of whale, hot, warm, cold, disqualified',
+      'unknownHomeowner.reasoning: must be 1-200 characters',
+      'rules[0].value: must be a whole number from 0 to 5000',
+      'rules[1].windowCounts: unknown option(s) "mansion"',
+      'rules[2].timelines: must be null (any) or a non-empty list of asap, 1_3_months, 3_6_months, researching',
+      'modifiers[1].factor: sms_verified already has a modifier',
+      'modifiers[1].percent: must be a whole, non-zero percentage from -100 to 100',
+    ]);
+  });
+
+  it('should reject rules an earlier rule always wins over', () => {
+    const { errors } = validateLeadValueMatrix({
+      ...DEFAULT_LEAD_VALUE_MATRIX,
+      rules: [
+        { windowCounts: null, timelines: ['asap'], value: 200, tier: 'hot', reasoning: 'Any ASAP' },
+        { windowCounts: ['entire_home'], timelines: ['asap'], value: 500, tier: 'whale', reasoning: 'Whale' },
+      ],
+    });
+
+    expect(errors).toEqual([
+      'rules[1]: never applies (every window count / timeline it covers is matched by an earlier rule)',
+    ]);
+  });
+});
+
+describe('lead value matrix versions', () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db.seed('leads', [{
+      id: LEAD_ID,
+      is_homeowner: true,
+      window_count: 'entire_home',
+      timeline_urgency: 'asap',
+      path_type: 'alpha',
+      sms_verified: true,
+    }]);
+  });
+
+  it('should use the built-in matrix until a version is activated', async () => {
+    expect(await getActiveLeadValueMatrix()).toEqual({ version: BUILTIN_MATRIX_VERSION, matrix: DEFAULT_LEAD_VALUE_MATRIX });
+
+    const saved = await saveLeadValueMatrix({ version: '2026-11', matrix: NOVEMBER_MATRIX });
+    expect(saved).toMatchObject({ success: true, errors: [] });
+    expect((await getActiveLeadValueMatrix()).version).toBe(BUILTIN_MATRIX_VERSION);
+
+    expect(await activateLeadValueMatrix(saved.versionId!)).toBe(true);
+    expect(await getActiveLeadValueMatrix()).toEqual({ version: '2026-11', matrix: NOVEMBER_MATRIX });
+  });
+
+  it('should record the matrix version behind each stored lead value', async () => {
+    expect(await recalculateLeadValue(LEAD_ID, 'alpha.timeline')).toMatchObject({ value: 600, matrixVersion: BUILTIN_MATRIX_VERSION });
+    expect(db.table('leads')[0]).toMatchObject({ lead_value_score: 600, lead_value_matrix_version: BUILTIN_MATRIX_VERSION });
+
+    await saveLeadValueMatrix({ version: '2026-11', matrix: NOVEMBER_MATRIX, activate: true });
+    await recalculateLeadValue(LEAD_ID, 'alpha.timeline');
+
+    expect(db.table('leads')[0]).toMatchObject({ lead_value_score: 1080, lead_value_matrix_version: '2026-11' });
+  });
+
+  it('should save nothing for an invalid, duplicate or reserved version', async () => {
+    await saveLeadValueMatrix({ version: '2026-11', matrix: NOVEMBER_MATRIX });
+
+    expect(await saveLeadValueMatrix({ version: 'broken', matrix: { rules: [] } })).toMatchObject({ success: false });
+    expect(await saveLeadValueMatrix({ version: '2026-11', matrix: NOVEMBER_MATRIX })).toEqual({
+      success: false,
+      versionId: null,
+      errors: ['Version "2026-11" already exists'],
+    });
+    expect(await saveLeadValueMatrix({ version: BUILTIN_MATRIX_VERSION, matrix: NOVEMBER_MATRIX })).toMatchObject({
+      errors: ['Version names starting with "builtin" are reserved'],
+    });
+    expect((await listLeadValueMatrices()).map(version => version.version)).toEqual(['2026-11']);
+  });
+
+  it('should fall back to the built-in matrix when the active one is unreadable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    db.seed('lead_value_matrices', [{ id: 'm1', version: 'hand-edited', matrix: { rules: 'oops' }, is_active: true }]);
+
+    expect((await getActiveLeadValueMatrix()).version).toBe(BUILTIN_MATRIX_VERSION);
+  });
+
+  it('should let only admins edit the matrix', async () => {
+    const admin = createCaller('admin');
+
+    expect(await admin.leadValues.validate({ matrix: NOVEMBER_MATRIX })).toEqual({ valid: true, errors: [] });
+    expect(await admin.leadValues.save({ version: '2026-11', matrix: NOVEMBER_MATRIX, activate: true })).toMatchObject({ success: true });
+    expect(await admin.leadValues.active()).toMatchObject({ version: '2026-11' });
+    expect(await admin.leadValues.versions()).toMatchObject([{ version: '2026-11', isActive: true, createdBy: 'ops@example.com' }]);
+
+    await expect(createCaller('user').leadValues.save({ version: 'x', matrix: NOVEMBER_MATRIX })).rejects.toThrow();
+    await expect(createCaller(null).leadValues.active()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * Lead Value Matrix - Versioned Lead Value Weights
+ *
+ * The weights calculateLeadValue applies (homeowner x window count x
+ * timeline -> value and tier, plus modifiers such as the SMS verified bonus
+ * or a large quote total on the lead's scan) are data, not code. Admins save
+ * an edited matrix as a new version in lead_value_matrices and activate it;
+ * every lead_value_score records the version that produced it. The built-in
+ * matrix is used until a version is activated (and whenever the stored one
+ * can't be read).
+ *
+ * Saved versions are never edited in place; a change is a new version.
+ */
+
+import { supabase } from './supabaseClient';
+
+// Bump when the built-in weights change ("builtin" had no scan modifiers)
+export const BUILTIN_MATRIX_VERSION = 'builtin-v2';
+
+export const WINDOW_COUNTS = ['1-5', '6-10', '11-15', 'entire_home'] as const;
+export const TIMELINES = ['asap', '1_3_months', '3_6_months', 'researching'] as const;
+export const LEAD_TIERS = ['whale', 'hot', 'warm', 'cold', 'disqualified'] as const;
+export const MODIFIER_FACTORS = [
+  'sms_verified',
+  'alpha_path',
+  // From the lead's newest scan
+  'quote_total_at_least',
+  'openings_at_least',
+  'score_below',
+  'deposit_above',
+  'subject_to_change',
+] as const;
+
+// Factors compared against the modifier's threshold
+export const THRESHOLD_FACTORS: readonly ModifierFactor[] = [
+  'quote_total_at_least',
+  'openings_at_least',
+  'score_below',
+  'deposit_above',
+];
+
+// Keeps a typo (an extra zero) from flooding the ad platforms with fake value
+export const MAX_LEAD_VALUE = 5000;
+
+const MAX_MATRIX_RULES = 50;
+const MAX_REASONING_LENGTH = 200;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type WindowCount = typeof WINDOW_COUNTS[number];
+export type Timeline = typeof TIMELINES[number];
+export type LeadTier = typeof LEAD_TIERS[number];
+export type ModifierFactor = typeof MODIFIER_FACTORS[number];
+
+export interface LeadValueOutcome {
+  value: number;
+  tier: LeadTier;
+  reasoning: string;
+}
+
+// First matching rule wins; null matches any answer
+export interface LeadValueRule extends LeadValueOutcome {
+  windowCounts: WindowCount[] | null;
+  timelines: Timeline[] | null;
+}
+
+// Percentage of the rule's value added when the factor holds (only to positive values)
+export interface LeadValueModifier {
+  factor: ModifierFactor;
+  percent: number;
+  label: string;
+  threshold?: number; // Dollars, openings, score or deposit %, for THRESHOLD_FACTORS
+}
+
+export interface LeadValueMatrix {
+  nonHomeowner: LeadValueOutcome;
+  unknownHomeowner: LeadValueOutcome;
+  rules: LeadValueRule[];
+  fallback: LeadValueOutcome; // Homeowner matching no rule
+  modifiers: LeadValueModifier[];
+}
+
+export interface VersionedLeadValueMatrix {
+  version: string;
+  matrix: LeadValueMatrix;
+}
+
+export interface LeadValueMatrixVersion extends VersionedLeadValueMatrix {
+  id: string;
+  notes: string | null;
+  isActive: boolean;
+  createdBy: string | null;
+  activatedAt: string | null;
+  createdAt: string;
+}
+
+export interface MatrixValidationResult {
+  matrix: LeadValueMatrix | null;
+  errors: string[];
+}
+
+export interface SaveMatrixInput {
+  version: string;
+  matrix: unknown;
+  notes?: string;
+  activate?: boolean;
+  createdBy?: string | null;
+}
+
+export interface SaveMatrixResult {
+  success: boolean;
+  versionId: string | null;
+  errors: string[];
+}
+
+// ============================================
+// BUILT-IN MATRIX
+// ============================================
+
+/**
+ * | Homeowner | Window Count | Timeline | Value |
+ * |-----------|--------------|----------|-------|
+ * | Yes       | Entire Home  | ASAP     | $500  |
+ * | Yes       | Entire Home  | 1-3 mo   | $300  |
+ * | Yes       | 11-15        | ASAP     | $200  |
+ * | Yes       | 6-10         | ASAP     | $150  |
+ * | Yes       | 11-15        | 1-3 mo   | $150  |
+ * | Yes       | 6-10         | 1-3 mo   | $100  |
+ * | Yes       | Any          | 3-6 mo   | $50   |
+ * | Yes       | 1-5          | Any      | $25   |
+ * | Yes       | Any          | Research | $15   |
+ * | No        | Any          | Any      | $0    |
+ * | Unknown   | Any          | Any      | $10   |
+ *
+ * Plus 20% for an SMS verified phone, and for a scanned quote: 25% at
+ * $25,000+, 10% at 10+ openings, 20% under a 50 overall score (about to
+ * sign a bad deal), 10% each for "subject to change" pricing and a deposit
+ * over 40%.
+ */
+export const DEFAULT_LEAD_VALUE_MATRIX: LeadValueMatrix = {
+  nonHomeowner: { value: 0, tier: 'disqualified', reasoning: 'Not a homeowner - cannot make purchasing decision' },
+  unknownHomeowner: { value: 10, tier: 'cold', reasoning: 'Homeowner status unknown - needs qualification' },
+  rules: [
+    { windowCounts: ['entire_home'], timelines: ['asap'], value: 500, tier: 'whale', reasoning: 'Whale lead: Entire home project with immediate timeline' },
+    { windowCounts: ['entire_home'], timelines: ['1_3_months'], value: 300, tier: 'whale', reasoning: 'Whale lead: Entire home project with near-term timeline' },
+    { windowCounts: ['11-15'], timelines: ['asap'], value: 200, tier: 'hot', reasoning: 'Hot lead: Large project (11-15 windows) with immediate timeline' },
+    { windowCounts: ['6-10'], timelines: ['asap'], value: 150, tier: 'hot', reasoning: 'Hot lead: Medium project (6-10 windows) with immediate timeline' },
+    { windowCounts: ['11-15'], timelines: ['1_3_months'], value: 150, tier: 'hot', reasoning: 'Hot lead: Large project (11-15 windows) with near-term timeline' },
+    { windowCounts: ['6-10'], timelines: ['1_3_months'], value: 100, tier: 'warm', reasoning: 'Warm lead: Medium project (6-10 windows) with near-term timeline' },
+    { windowCounts: null, timelines: ['3_6_months'], value: 50, tier: 'warm', reasoning: 'Warm lead: Homeowner with mid-term timeline (3-6 months)' },
+    { windowCounts: ['1-5'], timelines: null, value: 25, tier: 'cold', reasoning: 'Cold lead: Small project (1-5 windows)' },
+    { windowCounts: null, timelines: ['researching'], value: 15, tier: 'cold', reasoning: 'Cold lead: Still researching, no defined timeline' },
+  ],
+  fallback: { value: 10, tier: 'cold', reasoning: 'Cold lead: Insufficient qualification data' },
+  modifiers: [
+    { factor: 'sms_verified', percent: 20, label: 'SMS verified bonus' },
+    { factor: 'quote_total_at_least', threshold: 25000, percent: 25, label: 'quote of $25,000+' },
+    { factor: 'openings_at_least', threshold: 10, percent: 10, label: '10+ openings quoted' },
+    { factor: 'score_below', threshold: 50, percent: 20, label: 'quote scored under 50' },
+    { factor: 'subject_to_change', percent: 10, label: "'subject to change' pricing" },
+    { factor: 'deposit_above', threshold: 40, percent: 10, label: 'deposit over 40%' },
+  ],
+};
+
+export const BUILTIN_LEAD_VALUE_MATRIX: VersionedLeadValueMatrix = {
+  version: BUILTIN_MATRIX_VERSION,
+  matrix: DEFAULT_LEAD_VALUE_MATRIX,
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateOutcome(raw: unknown, path: string, errors: string[]): LeadValueOutcome | null {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: must be an object with value, tier and reasoning`);
+    return null;
+  }
+
+  const before = errors.length;
+  const { value, tier, reasoning } = raw;
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_LEAD_VALUE) {
+    errors.push(`${path}.value: must be a whole number from 0 to ${MAX_LEAD_VALUE}`);
+  }
+  if (!LEAD_TIERS.includes(tier as LeadTier)) {
+    errors.push(`${path}.tier: must be one of ${LEAD_TIERS.join(', ')}`);
+  }
+  if (typeof reasoning !== 'string' || !reasoning.trim() || reasoning.length > MAX_REASONING_LENGTH) {
+    errors.push(`${path}.reasoning: must be 1-${MAX_REASONING_LENGTH} characters`);
+  }
+
+  return errors.length === before
+    ? { value: value as number, tier: tier as LeadTier, reasoning: (reasoning as string).trim() }
+    : null;
+}
+
+function validateOptions<T extends string>(
+  raw: unknown,
+  allowed: readonly T[],
+  path: string,
+  errors: string[]
+): T[] | null | undefined {
+  if (raw === null) {
+    return null;
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    errors.push(`${path}: must be null (any) or a non-empty list of ${allowed.join(', ')}`);
+    return undefined;
+  }
+
+  const unknown = raw.filter(option => !allowed.includes(option as T));
+  if (unknown.length > 0) {
+    errors.push(`${path}: unknown option(s) ${unknown.map(option => JSON.stringify(option)).join(', ')}`);
+    return undefined;
+  }
+  if (new Set(raw).size !== raw.length) {
+    errors.push(`${path}: lists an option twice`);
+    return undefined;
+  }
+
+  return raw as T[];
+}
+
+function ruleCells(rule: Pick<LeadValueRule, 'windowCounts' | 'timelines'>): string[] {
+  return (rule.windowCounts ?? WINDOW_COUNTS).flatMap(windowCount =>
+    (rule.timelines ?? TIMELINES).map(timeline => `${windowCount}:${timeline}`)
+  );
+}
+
+/**
+ * Check an edited matrix before it is saved
+ * Returns the cleaned matrix, or every problem found (nothing is partially accepted).
+ */
+export function validateLeadValueMatrix(raw: unknown): MatrixValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { matrix: null, errors: ['Matrix must be a JSON object'] };
+  }
+
+  const nonHomeowner = validateOutcome(raw.nonHomeowner, 'nonHomeowner', errors);
+  const unknownHomeowner = validateOutcome(raw.unknownHomeowner, 'unknownHomeowner', errors);
+  const fallback = validateOutcome(raw.fallback, 'fallback', errors);
+
+  const rules: LeadValueRule[] = [];
+  if (!Array.isArray(raw.rules) || raw.rules.length === 0 || raw.rules.length > MAX_MATRIX_RULES) {
+    errors.push(`rules: must be a list of 1-${MAX_MATRIX_RULES} rules`);
+  } else {
+    const covered = new Set<string>();
+
+    raw.rules.forEach((rawRule, index) => {
+      const path = `rules[${index}]`;
+      const outcome = validateOutcome(rawRule, path, errors);
+      if (!isRecord(rawRule)) return;
+
+      const windowCounts = validateOptions(rawRule.windowCounts, WINDOW_COUNTS, `${path}.windowCounts`, errors);
+      const timelines = validateOptions(rawRule.timelines, TIMELINES, `${path}.timelines`, errors);
+      if (!outcome || windowCounts === undefined || timelines === undefined) return;
+
+      const cells = ruleCells({ windowCounts, timelines });
+      if (cells.every(cell => covered.has(cell))) {
+        errors.push(`${path}: never applies (every window count / timeline it covers is matched by an earlier rule)`);
+      }
+      cells.forEach(cell => covered.add(cell));
+
+      rules.push({ windowCounts, timelines, ...outcome });
+    });
+  }
+
+  const modifiers: LeadValueModifier[] = [];
+  if (!Array.isArray(raw.modifiers)) {
+    errors.push('modifiers: must be a list (empty for none)');
+  } else {
+    const seen = new Set<string>();
+
+    raw.modifiers.forEach((modifier, index) => {
+      const path = `modifiers[${index}]`;
+      if (!isRecord(modifier)) {
+        errors.push(`${path}: must be an object with factor, percent and label`);
+        return;
+      }
+
+      const { factor, percent, label, threshold } = modifier;
+      const before = errors.length;
+      const needsThreshold = THRESHOLD_FACTORS.includes(factor as ModifierFactor);
+
+      if (!MODIFIER_FACTORS.includes(factor as ModifierFactor)) {
+        errors.push(`${path}.factor: must be one of ${MODIFIER_FACTORS.join(', ')}`);
+      } else if (seen.has(factor as string)) {
+        errors.push(`${path}.factor: ${factor} already has a modifier`);
+      }
+      if (typeof percent !== 'number' || !Number.isInteger(percent) || percent < -100 || percent > 100 || percent === 0) {
+        errors.push(`${path}.percent: must be a whole, non-zero percentage from -100 to 100`);
+      }
+      if (typeof label !== 'string' || !label.trim() || label.length > MAX_REASONING_LENGTH) {
+        errors.push(`${path}.label: must be 1-${MAX_REASONING_LENGTH} characters`);
+      }
+      if (needsThreshold && (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 0)) {
+        errors.push(`${path}.threshold: ${factor} needs a threshold of 0 or more`);
+      } else if (!needsThreshold && threshold !== undefined) {
+        errors.push(`${path}.threshold: ${factor} takes no threshold`);
+      }
+
+      if (errors.length === before) {
+        seen.add(factor as string);
+        modifiers.push({
+          factor: factor as ModifierFactor,
+          percent: percent as number,
+          label: (label as string).trim(),
+          ...(needsThreshold ? { threshold: threshold as number } : {}),
+        });
+      }
+    });
+  }
+
+  if (errors.length > 0 || !nonHomeowner || !unknownHomeowner || !fallback) {
+    return { matrix: null, errors };
+  }
+
+  return { matrix: { nonHomeowner, unknownHomeowner, rules, fallback, modifiers }, errors: [] };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+function mapMatrixVersion(row: Record<string, any>): LeadValueMatrixVersion {
+  return {
+    id: row.id,
+    version: row.version,
+    matrix: row.matrix,
+    notes: row.notes ?? null,
+    isActive: !!row.is_active,
+    createdBy: row.created_by ?? null,
+    activatedAt: row.activated_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * The matrix leads are valued with now (the built-in one until a version is activated)
+ */
+export async function getActiveLeadValueMatrix(): Promise<VersionedLeadValueMatrix> {
+  const { data, error } = await supabase.from('lead_value_matrices')
+    .select('version, matrix')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('[LeadValueMatrix] Failed to load active matrix, using built-in:', error);
+    return BUILTIN_LEAD_VALUE_MATRIX;
+  }
+
+  const { matrix, errors } = validateLeadValueMatrix(data.matrix);
+  if (!matrix) {
+    console.error(`[LeadValueMatrix] Active version ${data.version} is invalid, using built-in:`, errors);
+    return BUILTIN_LEAD_VALUE_MATRIX;
+  }
+
+  return { version: data.version, matrix };
+}
+
+/**
+ * Saved versions, newest first
+ */
+export async function listLeadValueMatrices(): Promise<LeadValueMatrixVersion[]> {
+  const { data, error } = await supabase.from('lead_value_matrices')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error || !data) {
+    if (error) console.error('[LeadValueMatrix] Failed to list versions:', error);
+    return [];
+  }
+
+  return data.map(mapMatrixVersion);
+}
+
+/**
+ * Validate an edited matrix and save it as a new version
+ * Nothing is written if the matrix fails validation.
+ */
+export async function saveLeadValueMatrix(input: SaveMatrixInput): Promise<SaveMatrixResult> {
+  const { matrix, errors } = validateLeadValueMatrix(input.matrix);
+
+  if (!matrix) {
+    return { success: false, versionId: null, errors };
+  }
+
+  if (input.version.startsWith('builtin')) {
+    return { success: false, versionId: null, errors: ['Version names starting with "builtin" are reserved'] };
+  }
+
+  const { data: existing } = await supabase.from('lead_value_matrices')
+    .select('id')
+    .eq('version', input.version)
+    .maybeSingle();
+
+  if (existing) {
+    return { success: false, versionId: null, errors: [`Version "${input.version}" already exists`] };
+  }
+
+  const { data: saved, error } = await supabase.from('lead_value_matrices')
+    .insert({
+      version: input.version,
+      matrix,
+      notes: input.notes || null,
+      is_active: false,
+      created_by: input.createdBy || null,
+      created_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !saved) {
+    console.error('[LeadValueMatrix] Failed to save version:', error);
+    return { success: false, versionId: null, errors: ['Failed to save lead value matrix'] };
+  }
+
+  console.log(`[LeadValueMatrix] Saved version ${input.version}`);
+
+  if (input.activate) {
+    await activateLeadValueMatrix(saved.id);
+  }
+
+  return { success: true, versionId: saved.id, errors: [] };
+}
+
+/**
+ * Value new scores with another saved version (only one is active at a time)
+ */
+export async function activateLeadValueMatrix(versionId: string): Promise<boolean> {
+  const { data: version } = await supabase.from('lead_value_matrices')
+    .select('id, version')
+    .eq('id', versionId)
+    .maybeSingle();
+
+  if (!version) {
+    return false;
+  }
+
+  await supabase.from('lead_value_matrices')
+    .update({ is_active: false })
+    .eq('is_active', true);
+
+  const { error } = await supabase.from('lead_value_matrices')
+    .update({ is_active: true, activated_at: new Date().toISOString() })
+    .eq('id', versionId);
+
+  if (error) {
+    console.error('[LeadValueMatrix] Failed to activate version:', error);
+    return false;
+  }
+
+  console.log(`[LeadValueMatrix] Activated version ${version.version}`);
+  return true;
+}
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for scan-aware lead valuation and its breakdown
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+import { createSignals } from '../testing/quoteFixtures';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  calculateLeadValue,
+  getLeadValueFactors,
+  recalculateLeadValue,
+  type LeadValueFactors,
+  type ScanValueFactors,
+} from './leadValueService';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+
+const FILTER_ANSWERS: LeadValueFactors = {
+  isHomeowner: true,
+  windowCount: 'entire_home',
+  timelineUrgency: 'asap',
+  pathType: 'beta',
+  smsVerified: true,
+};
+
+// A $40k whole-home quote scored 35, with "subject to change" pricing and a 50% deposit
+const BAD_DEAL: ScanValueFactors = {
+  scanId: SCAN_ID,
+  quoteTotal: 40000,
+  openingCount: 18,
+  overallScore: 35,
+  depositPercentage: 50,
+  hasSubjectToChange: true,
+};
+
+describe('calculateLeadValue with scan factors', () => {
+  it('should value a lead about to sign a bad deal above a researcher with the same answers', () => {
+    const researcher = calculateLeadValue(FILTER_ANSWERS);
+    const scanned = calculateLeadValue({ ...FILTER_ANSWERS, pathType: 'alpha', scan: BAD_DEAL });
+
+    expect(researcher.value).toBe(600);
+    expect(scanned.value).toBe(975);
+    expect(scanned.tier).toBe('whale');
+    expect(scanned.breakdown).toEqual([
+      { factor: 'base', label: 'Whale lead: Entire home project with immediate timeline', amount: 500 },
+      { factor: 'sms_verified', label: 'SMS verified bonus', amount: 100 },
+      { factor: 'quote_total_at_least', label: 'quote of $25,000+', amount: 125 },
+      { factor: 'openings_at_least', label: '10+ openings quoted', amount: 50 },
+      { factor: 'score_below', label: 'quote scored under 50', amount: 100 },
+      { factor: 'subject_to_change', label: "'subject to change' pricing", amount: 50 },
+      { factor: 'deposit_above', label: 'deposit over 40%', amount: 50 },
+    ]);
+    expect(scanned.breakdown.reduce((sum, line) => sum + line.amount, 0)).toBe(scanned.value);
+    expect(scanned.reasoning).toContain('(+100 quote scored under 50)');
+  });
+
+  it('should leave out scan factors the quote does not meet', () => {
+    const result = calculateLeadValue({
+      ...FILTER_ANSWERS,
+      smsVerified: false,
+      scan: { ...BAD_DEAL, quoteTotal: null, openingCount: 6, overallScore: 50, depositPercentage: 40, hasSubjectToChange: false },
+    });
+
+    expect(result.value).toBe(500);
+    expect(result.breakdown.map(line => line.factor)).toEqual(['base']);
+  });
+
+  it('should not lift disqualified leads', () => {
+    const result = calculateLeadValue({ ...FILTER_ANSWERS, isHomeowner: false, scan: BAD_DEAL });
+
+    expect(result).toMatchObject({ value: 0, tier: 'disqualified' });
+    expect(result.breakdown).toEqual([{ factor: 'base', label: result.reasoning, amount: 0 }]);
+  });
+});
+
+describe('recalculateLeadValue', () => {
+  beforeEach(() => {
+    db.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db.seed('leads', [{
+      id: LEAD_ID,
+      is_homeowner: true,
+      window_count: 'entire_home',
+      timeline_urgency: 'asap',
+      path_type: 'alpha',
+      sms_verified: true,
+    }]);
+  });
+
+  it('should read the scan factors from the lead\'s newest scan', async () => {
+    db.seed('scans', [
+      {
+        id: 'old-scan',
+        lead_id: LEAD_ID,
+        overall_score: 90,
+        raw_response: JSON.stringify(createSignals()),
+        created_at: '2026-09-01T00:00:00.000Z',
+      },
+      {
+        id: SCAN_ID,
+        lead_id: LEAD_ID,
+        overall_score: 35,
+        audit_details: { opening_count_hint: 18 },
+        raw_response: JSON.stringify(createSignals({
+          totalPriceValue: 40000,
+          openingCountEstimate: null,
+          depositPercentage: 50,
+          hasSubjectToChange: true,
+        })),
+        created_at: '2026-10-01T00:00:00.000Z',
+      },
+    ]);
+
+    expect((await getLeadValueFactors(LEAD_ID))?.scan).toEqual(BAD_DEAL);
+    expect(await recalculateLeadValue(LEAD_ID, 'alpha.timeline')).toMatchObject({ value: 975 });
+    expect(db.table('leads')[0].lead_value_score).toBe(975);
+  });
+
+  it('should count the quote\'s itemized openings over the model\'s estimate', async () => {
+    db.seed('scans', [{
+      id: SCAN_ID,
+      lead_id: LEAD_ID,
+      overall_score: 35,
+      raw_response: JSON.stringify(createSignals({
+        openingCountEstimate: 4,
+        lineItems: [
+          { openingType: 'single_hung', description: 'SH 37x63', widthInches: 37, heightInches: 63, productLine: null, quantity: 8, unitPrice: 1000, totalPrice: 8000, page: 1 },
+        ],
+      })),
+    }]);
+
+    expect((await getLeadValueFactors(LEAD_ID))?.scan?.openingCount).toBe(8);
+  });
+
+  it('should not value an upload that is not a quote as a bad deal', async () => {
+    db.seed('scans', [{
+      id: SCAN_ID,
+      lead_id: LEAD_ID,
+      overall_score: 0,
+      raw_response: JSON.stringify(createSignals({ isValidQuote: false, validityReason: 'This appears to be a photo of a house.' })),
+    }]);
+
+    expect((await getLeadValueFactors(LEAD_ID))?.scan).toBeNull();
+    expect(await recalculateLeadValue(LEAD_ID, 'scan.completed')).toMatchObject({ value: 600 });
+  });
+
+  it('should value leads without a scan on their answers alone', async () => {
+    expect((await getLeadValueFactors(LEAD_ID))?.scan).toBeNull();
+    expect(await recalculateLeadValue(LEAD_ID, 'alpha.timeline')).toMatchObject({ value: 600 });
+  });
+});
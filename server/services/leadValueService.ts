@@ -4,30 +4,43 @@
  * Calculates the monetary value of a lead for Meta Pixel optimization.
  * Uses the "Golden Signals" (homeowner status, window count, timeline urgency)
  * to weight leads for Facebook's conversion optimization algorithm.
+ *
+ * The weights live in the active lead value matrix (leadValueMatrix); each
+ * stored lead_value_score records the matrix version that produced it, and
+ * every calculation is appended to the lead's value history. Final actions
+ * and tier changes are relayed to the Meta Conversions API (metaConversions).
  */
 
 import { supabase } from './supabaseClient';
+import {
+  BUILTIN_LEAD_VALUE_MATRIX,
+  getActiveLeadValueMatrix,
+  type LeadTier,
+  type LeadValueModifier,
+  type LeadValueOutcome,
+  type ModifierFactor,
+  type Timeline,
+  type VersionedLeadValueMatrix,
+  type WindowCount,
+} from './leadValueMatrix';
+import { getLatestLeadValue, recordLeadValue, type LeadValueTrigger } from './leadValueHistory';
+import { countLineItemOpenings, normalizeLineItem } from './lineItemPricing';
+import { queueLeadValueConversions } from './metaConversions';
+import { parseRawSignals, type ExtractionSignals } from './scannerEngine';
 
 // ============================================
-// VALUE WEIGHTS (Based on your spec)
+// TYPES
 // ============================================
 
-/**
- * Lead Value Matrix:
- * 
- * | Homeowner | Window Count | Timeline | Value |
- * |-----------|--------------|----------|-------|
- * | Yes       | Entire Home  | ASAP     | $500  |
- * | Yes       | 11-15        | ASAP     | $200  |
- * | Yes       | 6-10         | ASAP     | $150  |
- * | Yes       | 6-10         | 1-3 mo   | $100  |
- * | Yes       | 11-15        | 1-3 mo   | $150  |
- * | Yes       | Entire Home  | 1-3 mo   | $300  |
- * | Yes       | Any          | 3-6 mo   | $50   |
- * | Yes       | 1-5          | Any      | $25   |
- * | No        | Any          | Any      | $0    |
- * | Unknown   | Any          | Any      | $10   |
- */
+// What the lead's newest scan says about the project
+export interface ScanValueFactors {
+  scanId: string;
+  quoteTotal: number | null;
+  openingCount: number | null;
+  overallScore: number | null;
+  depositPercentage: number | null;
+  hasSubjectToChange: boolean;
+}
 
 export interface LeadValueFactors {
   isHomeowner: boolean | null;
@@ -35,129 +48,108 @@ export interface LeadValueFactors {
   timelineUrgency: string | null;  // 'asap', '1_3_months', '3_6_months', 'researching'
   pathType: string | null;  // 'alpha', 'beta'
   smsVerified: boolean;
+  scan?: ScanValueFactors | null;  // Alpha leads with a scanned quote
+}
+
+// One line of the value: the matrix rule's base value, then each modifier
+export interface LeadValueContribution {
+  factor: 'base' | ModifierFactor;
+  label: string;
+  amount: number;
 }
 
 export interface LeadValueResult {
   value: number;
-  tier: 'whale' | 'hot' | 'warm' | 'cold' | 'disqualified';
+  tier: LeadTier;
   reasoning: string;
+  breakdown: LeadValueContribution[]; // Amounts add up to value
+  matrixVersion: string;
 }
 
 // ============================================
 // CORE CALCULATION
 // ============================================
 
+function atLeast(value: number | null | undefined, threshold: number | undefined): boolean {
+  return value != null && threshold !== undefined && value >= threshold;
+}
+
+function modifierApplies(modifier: LeadValueModifier, factors: LeadValueFactors): boolean {
+  const { scan } = factors;
+
+  switch (modifier.factor) {
+    case 'sms_verified':
+      return factors.smsVerified;
+    case 'alpha_path':
+      return factors.pathType === 'alpha';
+    case 'quote_total_at_least':
+      return atLeast(scan?.quoteTotal, modifier.threshold);
+    case 'openings_at_least':
+      return atLeast(scan?.openingCount, modifier.threshold);
+    case 'score_below':
+      return scan?.overallScore != null && modifier.threshold !== undefined && scan.overallScore < modifier.threshold;
+    case 'deposit_above':
+      return scan?.depositPercentage != null && modifier.threshold !== undefined && scan.depositPercentage > modifier.threshold;
+    case 'subject_to_change':
+      return Boolean(scan?.hasSubjectToChange);
+  }
+}
+
+function baseResult(outcome: LeadValueOutcome, version: string): LeadValueResult {
+  return {
+    value: outcome.value,
+    tier: outcome.tier,
+    reasoning: outcome.reasoning,
+    breakdown: [{ factor: 'base', label: outcome.reasoning, amount: outcome.value }],
+    matrixVersion: version,
+  };
+}
+
 /**
  * Calculate the monetary value of a lead based on golden signals
+ * (and its scanned quote, when there is one). Weights come from a lead value
+ * matrix (the built-in one by default).
  */
-export function calculateLeadValue(factors: LeadValueFactors): LeadValueResult {
-  const { isHomeowner, windowCount, timelineUrgency, smsVerified } = factors;
-  
+export function calculateLeadValue(
+  factors: LeadValueFactors,
+  { version, matrix }: VersionedLeadValueMatrix = BUILTIN_LEAD_VALUE_MATRIX
+): LeadValueResult {
+  const { isHomeowner } = factors;
+
   // Disqualified: Not a homeowner
   if (isHomeowner === false) {
-    return {
-      value: 0,
-      tier: 'disqualified',
-      reasoning: 'Not a homeowner - cannot make purchasing decision',
-    };
+    return baseResult(matrix.nonHomeowner, version);
   }
-  
+
   // Unknown homeowner status - minimal value
   if (isHomeowner === null) {
-    return {
-      value: 10,
-      tier: 'cold',
-      reasoning: 'Homeowner status unknown - needs qualification',
-    };
-  }
-  
-  // Homeowner = true from here
-  
-  // Timeline-based base values
-  const isASAP = timelineUrgency === 'asap';
-  const is1to3Months = timelineUrgency === '1_3_months';
-  const is3to6Months = timelineUrgency === '3_6_months';
-  const isResearching = timelineUrgency === 'researching' || !timelineUrgency;
-  
-  // Window count multipliers
-  const isEntireHome = windowCount === 'entire_home';
-  const is11to15 = windowCount === '11-15';
-  const is6to10 = windowCount === '6-10';
-  const is1to5 = windowCount === '1-5' || !windowCount;
-  
-  let value = 0;
-  let tier: LeadValueResult['tier'] = 'cold';
-  let reasoning = '';
-  
-  // WHALE: Entire home + ASAP
-  if (isEntireHome && isASAP) {
-    value = 500;
-    tier = 'whale';
-    reasoning = 'Whale lead: Entire home project with immediate timeline';
-  }
-  // WHALE: Entire home + 1-3 months
-  else if (isEntireHome && is1to3Months) {
-    value = 300;
-    tier = 'whale';
-    reasoning = 'Whale lead: Entire home project with near-term timeline';
-  }
-  // HOT: 11-15 windows + ASAP
-  else if (is11to15 && isASAP) {
-    value = 200;
-    tier = 'hot';
-    reasoning = 'Hot lead: Large project (11-15 windows) with immediate timeline';
+    return baseResult(matrix.unknownHomeowner, version);
   }
-  // HOT: 6-10 windows + ASAP
-  else if (is6to10 && isASAP) {
-    value = 150;
-    tier = 'hot';
-    reasoning = 'Hot lead: Medium project (6-10 windows) with immediate timeline';
-  }
-  // HOT: 11-15 windows + 1-3 months
-  else if (is11to15 && is1to3Months) {
-    value = 150;
-    tier = 'hot';
-    reasoning = 'Hot lead: Large project (11-15 windows) with near-term timeline';
-  }
-  // WARM: 6-10 windows + 1-3 months
-  else if (is6to10 && is1to3Months) {
-    value = 100;
-    tier = 'warm';
-    reasoning = 'Warm lead: Medium project (6-10 windows) with near-term timeline';
-  }
-  // WARM: Any size + 3-6 months
-  else if (is3to6Months) {
-    value = 50;
-    tier = 'warm';
-    reasoning = 'Warm lead: Homeowner with mid-term timeline (3-6 months)';
-  }
-  // COLD: Small project (1-5 windows)
-  else if (is1to5) {
-    value = 25;
-    tier = 'cold';
-    reasoning = 'Cold lead: Small project (1-5 windows)';
-  }
-  // COLD: Researching / no timeline
-  else if (isResearching) {
-    value = 15;
-    tier = 'cold';
-    reasoning = 'Cold lead: Still researching, no defined timeline';
-  }
-  // Default
-  else {
-    value = 10;
-    tier = 'cold';
-    reasoning = 'Cold lead: Insufficient qualification data';
-  }
-  
-  // SMS verification bonus (+20% value)
-  if (smsVerified && value > 0) {
-    const bonus = Math.round(value * 0.2);
-    value += bonus;
-    reasoning += ` (+${bonus} SMS verified bonus)`;
+
+  // Unanswered counts as the smallest project / still researching
+  const windowCount = factors.windowCount || '1-5';
+  const timeline = factors.timelineUrgency || 'researching';
+
+  const rule = matrix.rules.find(candidate =>
+    (candidate.windowCounts === null || candidate.windowCounts.includes(windowCount as WindowCount))
+    && (candidate.timelines === null || candidate.timelines.includes(timeline as Timeline))
+  );
+  const result = baseResult(rule ?? matrix.fallback, version);
+
+  if (result.value > 0) {
+    const base = result.value;
+    for (const modifier of matrix.modifiers) {
+      if (!modifierApplies(modifier, factors)) continue;
+
+      // Discounts stop at zero
+      const amount = Math.max(Math.round(base * modifier.percent / 100), -result.value);
+      result.value += amount;
+      result.reasoning += ` (${amount >= 0 ? '+' : ''}${amount} ${modifier.label})`;
+      result.breakdown.push({ factor: modifier.factor, label: modifier.label, amount });
+    }
   }
-  
-  return { value, tier, reasoning };
+
+  return result;
 }
 
 // ============================================
@@ -165,28 +157,72 @@ export function calculateLeadValue(factors: LeadValueFactors): LeadValueResult {
 // ============================================
 
 /**
- * Update lead value score in database
+ * Update lead value score in database (append it to the value history and
+ * queue any conversion events it warrants)
  */
 export async function updateLeadValueScore(
   leadId: string,
-  factors: LeadValueFactors
+  factors: LeadValueFactors,
+  trigger: LeadValueTrigger
 ): Promise<LeadValueResult> {
-  const result = calculateLeadValue(factors);
+  const result = calculateLeadValue(factors, await getActiveLeadValueMatrix());
+  const previous = await getLatestLeadValue(leadId);
   
   try {
     await supabase.from('leads').update({
       lead_value_score: result.value,
+      lead_value_matrix_version: result.matrixVersion,
       updated_at: new Date().toISOString(),
     }).eq('id', leadId);
     
-    console.log(`[LeadValue] Updated lead ${leadId}: $${result.value} (${result.tier})`);
+    console.log(`[LeadValue] Updated lead ${leadId}: $${result.value} (${result.tier}, matrix ${result.matrixVersion})`);
   } catch (err) {
     console.error('[LeadValue] Failed to update lead value:', err);
   }
+
+  await recordLeadValue(leadId, trigger, factors, result);
+  await queueLeadValueConversions(leadId, trigger, result, previous?.tier ?? null);
   
   return result;
 }
 
+/**
+ * Value factors from the lead's newest scan (null before any quote is scanned,
+ * or when the newest upload isn't a quote)
+ */
+export async function getScanValueFactors(leadId: string): Promise<ScanValueFactors | null> {
+  const { data: scan, error } = await supabase.from('scans')
+    .select('id, overall_score, audit_details, raw_response')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !scan) {
+    if (error) console.error('[LeadValue] Failed to load scan:', error);
+    return null;
+  }
+
+  // A photo that isn't a quote scores 0, which must not read as a bad deal
+  const signals = parseRawSignals(scan.raw_response);
+  if (!signals?.isValidQuote) {
+    return null;
+  }
+
+  return {
+    scanId: scan.id,
+    quoteTotal: signals.totalPriceFound ? signals.totalPriceValue : null,
+    // Same precedence as the scanner's price per opening: itemized openings first
+    openingCount: countLineItemOpenings((signals.lineItems ?? []).map(normalizeLineItem))
+      ?? signals.openingCountEstimate
+      ?? scan.audit_details?.opening_count_hint
+      ?? null,
+    overallScore: scan.overall_score ?? null,
+    depositPercentage: signals.depositPercentage ?? null,
+    hasSubjectToChange: Boolean(signals.hasSubjectToChange),
+  };
+}
+
 /**
  * Get lead value factors from database
  */
@@ -207,6 +243,7 @@ export async function getLeadValueFactors(leadId: string): Promise<LeadValueFact
       timelineUrgency: data.timeline_urgency,
       pathType: data.path_type,
       smsVerified: data.sms_verified || false,
+      scan: await getScanValueFactors(leadId),
     };
   } catch {
     return null;
@@ -216,11 +253,14 @@ export async function getLeadValueFactors(leadId: string): Promise<LeadValueFact
 /**
  * Calculate and update lead value in one call
  */
-export async function recalculateLeadValue(leadId: string): Promise<LeadValueResult | null> {
+export async function recalculateLeadValue(
+  leadId: string,
+  trigger: LeadValueTrigger
+): Promise<LeadValueResult | null> {
   const factors = await getLeadValueFactors(leadId);
   if (!factors) {
     return null;
   }
   
-  return await updateLeadValueScore(leadId, factors);
+  return await updateLeadValueScore(leadId, factors, trigger);
 }
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for licensing CSV imports and contractor license verification
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  classifyLicenseRecord,
+  importLicenseCsv,
+  parseLicenseCsv,
+  toFloridaLicenseNumber,
+  verifyLicense,
+} from './licenseVerification';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LICENSE_CSV = [
+  'license_number,name,license_type,status,expires_on',
+  'CGC1523456,"SUNSHINE IMPACT WINDOWS, LLC",Certified General Contractor,"Current, Active",2099-08-31',
+  'CBC058221,GULF COAST GLASS INC,Certified Building Contractor,"Current, Active",08/31/2020',
+  'CRC1330001,"THE ""BEST"" WINDOWS",Certified Residential Contractor,"Delinquent, Active",2099-08-31',
+].join('\n');
+
+const admin = () => adminRouter.createCaller({
+  user: { id: 1, openId: 'admin-1', email: 'ops@example.com', role: 'admin' },
+  req: {},
+  res: {},
+} as any);
+
+describe('parseLicenseCsv', () => {
+  it('should read quoted names and both date formats', () => {
+    const { rows, errors } = parseLicenseCsv(LICENSE_CSV);
+
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toEqual({
+      licenseNumber: 'CGC1523456',
+      name: 'SUNSHINE IMPACT WINDOWS, LLC',
+      licenseType: 'Certified General Contractor',
+      status: 'Current, Active',
+      expiresOn: '2099-08-31',
+    });
+    expect(rows[1].expiresOn).toBe('2020-08-31');
+    expect(rows[2].name).toBe('THE "BEST" WINDOWS');
+  });
+
+  it('should report every bad row with its line number', () => {
+    const { rows, errors } = parseLicenseCsv([
+      'license_number,status,expires_on',
+      '#1,Current,2099-01-01',
+      'CGC1523456,,2099-01-01',
+      'CGC1523456,Current,2099-02-30',
+      'CBC058221,Current,2099-01-01',
+      'CBC 058221,Current,2099-01-01',
+    ].join('\n'));
+
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual([
+      'Line 2: invalid license_number "#1"',
+      'Line 3: missing status for CGC1523456',
+      'Line 4: invalid expires_on "2099-02-30" (use YYYY-MM-DD or MM/DD/YYYY)',
+      'Line 6: duplicate license CBC058221',
+    ]);
+  });
+
+  it('should require the license, status and expiry columns', () => {
+    expect(parseLicenseCsv('license_number,name\nCGC1523456,X').errors).toEqual(['Missing column(s): status, expires_on']);
+    expect(parseLicenseCsv('license_number,status,expires_on\n').errors).toEqual(['CSV has no license rows']);
+  });
+});
+
+describe('license classification', () => {
+  it('should only check Florida certified contractor licenses', () => {
+    expect(toFloridaLicenseNumber('Lic# CGC 152-3456')).toBe('CGC1523456');
+    expect(toFloridaLicenseNumber('CRC1330001')).toBe('CRC1330001');
+    expect(toFloridaLicenseNumber('EC13001234')).toBeNull();
+    expect(toFloridaLicenseNumber(null)).toBeNull();
+  });
+
+  it('should treat inactive statuses and past expiry dates as expired', () => {
+    const record = { licenseNumber: 'CGC1523456', name: null, licenseType: null, status: 'Current, Active', expiresOn: '2026-08-31' };
+
+    expect(classifyLicenseRecord(record, '2026-08-31')).toBe('active');
+    expect(classifyLicenseRecord(record, '2026-09-01')).toBe('expired');
+    expect(classifyLicenseRecord({ ...record, status: 'Current, Inactive' }, '2026-01-01')).toBe('expired');
+    expect(classifyLicenseRecord({ ...record, status: 'Null and Void' }, '2026-01-01')).toBe('expired');
+  });
+});
+
+describe('verifyLicense', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('should not check anything before a snapshot is imported', async () => {
+    expect(await verifyLicense('CGC1523456')).toBeNull();
+  });
+
+  it('should report active, expired and not found against the newest snapshot', async () => {
+    const result = await admin().licenses.import({ csv: LICENSE_CSV, source: 'DBPR export' });
+
+    expect(result).toMatchObject({ success: true, rowCount: 3, errors: [] });
+    expect(db.table('license_snapshots')[0]).toMatchObject({ source: 'DBPR export', imported_by: 'ops@example.com', is_complete: true });
+
+    const active = await verifyLicense('Lic# CGC 152-3456');
+    expect(active).toMatchObject({ licenseNumber: 'CGC1523456', status: 'active', snapshotId: result.snapshotId });
+    expect(active?.record?.name).toBe('SUNSHINE IMPACT WINDOWS, LLC');
+
+    expect((await verifyLicense('CBC058221'))?.status).toBe('expired');
+    expect((await verifyLicense('CRC1330001'))?.status).toBe('expired');
+    expect(await verifyLicense('CGC9999999')).toMatchObject({ status: 'not_found', record: null });
+    expect(await verifyLicense('EC13001234')).toBeNull();
+
+    expect(await admin().licenses.snapshots()).toHaveLength(1);
+  });
+
+  it('should save nothing from an invalid CSV', async () => {
+    const result = await importLicenseCsv({ csv: 'license_number,status,expires_on\nCGC1523456,Current,someday' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(db.table('license_snapshots')).toHaveLength(0);
+  });
+
+  it('should ignore snapshots that never finished importing', async () => {
+    db.seed('license_snapshots', [{ id: 'partial', is_complete: false, created_at: '2026-10-18T00:00:00Z' }]);
+    db.seed('contractor_licenses', [{ snapshot_id: 'partial', license_number: 'CGC1523456', status: 'Current, Active', expires_on: '2099-01-01' }]);
+
+    expect(await verifyLicense('CGC1523456')).toBeNull();
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * License Verification - Florida Contractor Licensing Records
+ *
+ * Admins import a CSV snapshot of the state licensing records
+ * (license_snapshots / contractor_licenses); the newest snapshot is used.
+ * A Florida certified contractor license printed on a quote (CGC, CBC or CRC)
+ * is looked up there and reported as active, expired or not found. That status
+ * becomes the licenseStatus signal scoreFromSignals scores.
+ *
+ * Numbers of other formats, or any number before a snapshot is imported, are
+ * not checked (null), never reported as "not found".
+ */
+
+import { supabase } from './supabaseClient';
+import { normalizeLicenseNumber } from './contractorService';
+import { parseCsvDate, splitCsvLine } from './csv';
+import type { LicenseStatus } from './scannerEngine';
+
+// Certified general / building / residential contractor
+const FLORIDA_LICENSE_PATTERN = /^(CGC|CBC|CRC)\d{6,7}$/;
+
+// Record statuses that mean the license can't be used, even if "Active" is in the text
+const INACTIVE_STATUS_PATTERN = /inactive|delinquent|void|revoked|suspend|expired|retired|deceased/;
+
+const CSV_COLUMNS = ['license_number', 'status', 'expires_on'] as const;
+
+// Rows written per insert during an import
+const IMPORT_BATCH_SIZE = 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LicenseRecord {
+  licenseNumber: string;
+  name: string | null;
+  licenseType: string | null;
+  status: string; // As printed in the records, e.g. "Current, Active"
+  expiresOn: string; // YYYY-MM-DD
+}
+
+export interface LicenseCsvResult {
+  rows: LicenseRecord[];
+  errors: string[];
+}
+
+export interface LicenseImportInput {
+  csv: string;
+  source?: string;
+  importedBy?: string | null;
+}
+
+export interface LicenseImportResult {
+  success: boolean;
+  snapshotId: string | null;
+  rowCount: number;
+  errors: string[];
+}
+
+export interface LicenseSnapshot {
+  id: string;
+  source: string | null;
+  rowCount: number;
+  importedBy: string | null;
+  createdAt: string;
+}
+
+export interface LicenseVerification {
+  licenseNumber: string;
+  status: LicenseStatus;
+  record: LicenseRecord | null;
+  snapshotId: string;
+  snapshotDate: string;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Normalized Florida certified contractor license, or null for anything else
+ */
+export function toFloridaLicenseNumber(raw: string | null | undefined): string | null {
+  const license = normalizeLicenseNumber(raw);
+  return license && FLORIDA_LICENSE_PATTERN.test(license) ? license : null;
+}
+
+/**
+ * Active only when the record says so and the license hasn't expired
+ */
+export function classifyLicenseRecord(record: LicenseRecord, today: string = new Date().toISOString().slice(0, 10)): LicenseStatus {
+  const status = record.status.toLowerCase();
+  const active = /\bactive\b/.test(status) && !INACTIVE_STATUS_PATTERN.test(status);
+  return active && record.expiresOn >= today ? 'active' : 'expired';
+}
+
+/**
+ * Parse and validate a licensing CSV
+ * Columns: license_number,status,expires_on (required), name, license_type.
+ * Every problem is reported with its line number; repeated licenses are rejected.
+ */
+export function parseLicenseCsv(csv: string): LicenseCsvResult {
+  const lines = csv.split(/\r?\n/);
+  const errors: string[] = [];
+  const rows: LicenseRecord[] = [];
+
+  const header = splitCsvLine(lines[0] ?? '').map(col => col.toLowerCase());
+  const missing = CSV_COLUMNS.filter(col => !header.includes(col));
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const seen = new Set<string>();
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    const lineNumber = i + 1;
+    const cells = splitCsvLine(lines[i]);
+    const value = (column: string) => (header.includes(column) ? cells[header.indexOf(column)] ?? '' : '');
+
+    const licenseNumber = normalizeLicenseNumber(value('license_number'));
+    if (!licenseNumber) {
+      errors.push(`Line ${lineNumber}: invalid license_number "${value('license_number')}"`);
+      continue;
+    }
+
+    const status = value('status');
+    if (!status) {
+      errors.push(`Line ${lineNumber}: missing status for ${licenseNumber}`);
+      continue;
+    }
+
+    const expiresOn = parseCsvDate(value('expires_on'));
+    if (!expiresOn) {
+      errors.push(`Line ${lineNumber}: invalid expires_on "${value('expires_on')}" (use YYYY-MM-DD or MM/DD/YYYY)`);
+      continue;
+    }
+
+    if (seen.has(licenseNumber)) {
+      errors.push(`Line ${lineNumber}: duplicate license ${licenseNumber}`);
+      continue;
+    }
+    seen.add(licenseNumber);
+
+    rows.push({
+      licenseNumber,
+      name: value('name') || null,
+      licenseType: value('license_type') || null,
+      status,
+      expiresOn,
+    });
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push('CSV has no license rows');
+  }
+
+  return { rows, errors };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * Import a licensing CSV as the new snapshot
+ * Nothing is used if any row fails validation or the rows fail to save.
+ */
+export async function importLicenseCsv(input: LicenseImportInput): Promise<LicenseImportResult> {
+  const { rows, errors } = parseLicenseCsv(input.csv);
+
+  if (errors.length > 0) {
+    return { success: false, snapshotId: null, rowCount: 0, errors };
+  }
+
+  const { data: snapshot, error: snapshotError } = await supabase.from('license_snapshots')
+    .insert({
+      source: input.source || null,
+      row_count: rows.length,
+      is_complete: false,
+      imported_by: input.importedBy || null,
+      created_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (snapshotError || !snapshot) {
+    console.error('[Licenses] Failed to create snapshot:', snapshotError);
+    return { success: false, snapshotId: null, rowCount: 0, errors: ['Failed to save license snapshot'] };
+  }
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const { error } = await supabase.from('contractor_licenses')
+      .insert(rows.slice(start, start + IMPORT_BATCH_SIZE).map(row => ({
+        snapshot_id: snapshot.id,
+        license_number: row.licenseNumber,
+        name: row.name,
+        license_type: row.licenseType,
+        status: row.status,
+        expires_on: row.expiresOn,
+      })));
+
+    if (error) {
+      console.error('[Licenses] Failed to save rows:', error);
+      await supabase.from('license_snapshots').delete().eq('id', snapshot.id);
+      return { success: false, snapshotId: null, rowCount: 0, errors: ['Failed to save license rows'] };
+    }
+  }
+
+  // Only a fully written snapshot is ever looked up
+  await supabase.from('license_snapshots').update({ is_complete: true }).eq('id', snapshot.id);
+
+  console.log(`[Licenses] Imported snapshot ${snapshot.id} (${rows.length} licenses)`);
+  return { success: true, snapshotId: snapshot.id, rowCount: rows.length, errors: [] };
+}
+
+/**
+ * Imported snapshots, newest first
+ */
+export async function listLicenseSnapshots(): Promise<LicenseSnapshot[]> {
+  const { data, error } = await supabase.from('license_snapshots')
+    .select('*')
+    .eq('is_complete', true)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) {
+    return [];
+  }
+
+  return data.map(row => ({
+    id: row.id,
+    source: row.source ?? null,
+    rowCount: row.row_count ?? 0,
+    importedBy: row.imported_by ?? null,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Check a license printed on a quote against the newest snapshot
+ * Returns null when it isn't a Florida certified contractor license or no
+ * snapshot has been imported.
+ */
+export async function verifyLicense(raw: string | null | undefined): Promise<LicenseVerification | null> {
+  const licenseNumber = toFloridaLicenseNumber(raw);
+  if (!licenseNumber) {
+    return null;
+  }
+
+  const { data: snapshot } = await supabase.from('license_snapshots')
+    .select('id, created_at')
+    .eq('is_complete', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const { data: row, error } = await supabase.from('contractor_licenses')
+    .select('*')
+    .eq('snapshot_id', snapshot.id)
+    .eq('license_number', licenseNumber)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Licenses] License lookup failed:', error);
+    return null;
+  }
+
+  const record: LicenseRecord | null = row
+    ? {
+        licenseNumber: row.license_number,
+        name: row.name ?? null,
+        licenseType: row.license_type ?? null,
+        status: row.status,
+        expiresOn: row.expires_on,
+      }
+    : null;
+
+  return {
+    licenseNumber,
+    status: record ? classifyLicenseRecord(record) : 'not_found',
+    record,
+    snapshotId: snapshot.id,
+    snapshotDate: snapshot.created_at,
+  };
+}
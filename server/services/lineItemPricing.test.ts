@@ -0,0 +1,130 @@
+/**
+ * Unit tests for line item normalization, per-type breakdown and outliers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildOpeningBreakdown,
+  countLineItemOpenings,
+  findPriceOutliers,
+  normalizeLineItem,
+  normalizeOpeningType,
+} from './lineItemPricing';
+import type { QuoteLineItem } from './scannerEngine';
+
+const item = (overrides: Partial<QuoteLineItem> = {}): QuoteLineItem => ({
+  openingType: 'single_hung',
+  description: 'SH 37x63',
+  widthInches: 37,
+  heightInches: 63,
+  productLine: 'PGT WinGuard',
+  quantity: 1,
+  unitPrice: 1200,
+  totalPrice: 1200,
+  page: 1,
+  ...overrides,
+});
+
+describe('normalizeOpeningType', () => {
+  it('should map common quote wording onto opening types', () => {
+    expect(normalizeOpeningType('single_hung')).toBe('single_hung');
+    expect(normalizeOpeningType('Single Hung')).toBe('single_hung');
+    expect(normalizeOpeningType('Sliding Glass Door')).toBe('sliding_door');
+    expect(normalizeOpeningType('XO')).toBe('horizontal_roller');
+    expect(normalizeOpeningType('French doors')).toBe('french_door');
+    expect(normalizeOpeningType('Picture window')).toBe('fixed');
+    expect(normalizeOpeningType('Skylight')).toBe('other');
+    expect(normalizeOpeningType(undefined)).toBe('other');
+  });
+});
+
+describe('normalizeLineItem', () => {
+  it('should derive the unit price from the line total', () => {
+    const normalized = normalizeLineItem({ openingType: 'casement', description: ' Casement ', quantity: 3, unitPrice: null, totalPrice: 4500 });
+
+    expect(normalized).toMatchObject({ description: 'Casement', quantity: 3, unitPrice: 1500, totalPrice: 4500 });
+  });
+
+  it('should default bad quantities and sizes', () => {
+    const normalized = normalizeLineItem({ openingType: 'fixed', description: '', quantity: 0, widthInches: -4, unitPrice: 900 } as any);
+
+    expect(normalized).toMatchObject({ quantity: 1, widthInches: null, heightInches: null, productLine: null, totalPrice: 900, page: null });
+  });
+});
+
+describe('buildOpeningBreakdown', () => {
+  it('should total each opening type against its expected range', () => {
+    const breakdown = buildOpeningBreakdown([
+      item({ quantity: 4, unitPrice: 1100 }),
+      item({ quantity: 2, unitPrice: 1400 }),
+      item({ openingType: 'sliding_door', description: 'Slider', quantity: 1, unitPrice: 9000 }),
+      item({ openingType: 'other', description: 'Skylight', unitPrice: null }),
+    ]);
+
+    expect(breakdown).toEqual([
+      {
+        openingType: 'single_hung',
+        label: 'Single hung',
+        quantity: 6,
+        totalPrice: 7200,
+        averageUnitPrice: 1200,
+        expectedRange: { low: 900, high: 1800 },
+      },
+      {
+        openingType: 'sliding_door',
+        label: 'Sliding glass door',
+        quantity: 1,
+        totalPrice: 9000,
+        averageUnitPrice: 9000,
+        expectedRange: { low: 2800, high: 6500 },
+      },
+      {
+        openingType: 'other',
+        label: 'Other',
+        quantity: 1,
+        totalPrice: null,
+        averageUnitPrice: null,
+        expectedRange: null,
+      },
+    ]);
+  });
+
+  it('should use the benchmarks it is given', () => {
+    const [row] = buildOpeningBreakdown([item()], { single_hung: { floor: 400, low: 500, high: 700, ceiling: 900 } });
+
+    expect(row.expectedRange).toEqual({ low: 500, high: 700 });
+  });
+});
+
+describe('findPriceOutliers', () => {
+  it('should flag items beyond the floor or ceiling and ignore the rest', () => {
+    const outliers = findPriceOutliers([
+      item({ unitPrice: 2000 }),
+      item({ openingType: 'sliding_door', description: '12ft slider', unitPrice: 9000, page: 2 }),
+      item({ description: 'Bathroom SH', unitPrice: 400 }),
+      item({ openingType: 'other', unitPrice: 20000 }),
+      item({ unitPrice: null }),
+    ]);
+
+    expect(outliers).toEqual([
+      {
+        itemIndex: 1,
+        openingType: 'sliding_door',
+        label: 'Sliding glass door',
+        description: '12ft slider',
+        unitPrice: 9000,
+        expectedRange: { low: 2800, high: 6500 },
+        direction: 'high',
+        page: 2,
+      },
+      expect.objectContaining({ itemIndex: 2, direction: 'low', unitPrice: 400 }),
+    ]);
+  });
+});
+
+describe('countLineItemOpenings', () => {
+  it('should sum quantities', () => {
+    expect(countLineItemOpenings([item({ quantity: 4 }), item({ quantity: 2 })])).toBe(6);
+    expect(countLineItemOpenings([])).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Line Item Pricing - Per-Opening Breakdown & Outliers
+ *
+ * A single blended price per opening hides lopsided quotes (one $9,000 slider
+ * inside a $20k quote). This module normalizes the line items the extractor
+ * returns, groups them by opening type, and flags individual items priced far
+ * outside the expected range for their type.
+ *
+ * Bands are installed prices per unit (regional, see priceBenchmarks).
+ */
+
+import type { OpeningType, QuoteLineItem } from './scannerEngine';
+import { DEFAULT_BENCHMARKS, type BenchmarkBands } from './priceBenchmarks';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PriceRange {
+  low: number;
+  high: number;
+}
+
+// One row of the per-type breakdown
+export interface OpeningTypeBreakdown {
+  openingType: OpeningType;
+  label: string;
+  quantity: number;
+  totalPrice: number | null;
+  averageUnitPrice: number | null;
+  expectedRange: PriceRange | null;
+}
+
+// A line item priced far outside its expected range
+export interface LineItemOutlier {
+  itemIndex: number;
+  openingType: OpeningType;
+  label: string;
+  description: string;
+  unitPrice: number;
+  expectedRange: PriceRange;
+  direction: 'high' | 'low';
+  page: number | null;
+}
+
+export const OPENING_TYPES = [
+  'single_hung',
+  'double_hung',
+  'horizontal_roller',
+  'casement',
+  'awning',
+  'fixed',
+  'sliding_door',
+  'french_door',
+  'entry_door',
+  'other',
+] as const satisfies readonly OpeningType[];
+
+export const OPENING_TYPE_LABELS: Record<OpeningType, string> = {
+  single_hung: 'Single hung',
+  double_hung: 'Double hung',
+  horizontal_roller: 'Horizontal roller',
+  casement: 'Casement',
+  awning: 'Awning',
+  fixed: 'Fixed / picture',
+  sliding_door: 'Sliding glass door',
+  french_door: 'French door',
+  entry_door: 'Entry door',
+  other: 'Other',
+};
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+function positiveNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Map free-form opening types from the model onto the known set
+ */
+export function normalizeOpeningType(value: unknown): OpeningType {
+  const text = String(value ?? '').toLowerCase().replace(/[\s-]+/g, '_');
+
+  if ((OPENING_TYPES as readonly string[]).includes(text)) return text as OpeningType;
+  if (text.includes('slid') && text.includes('door')) return 'sliding_door';
+  if (text.includes('french')) return 'french_door';
+  if (text.includes('door')) return 'entry_door';
+  if (text.includes('single') || text === 'sh') return 'single_hung';
+  if (text.includes('double') || text === 'dh') return 'double_hung';
+  if (text.includes('roller') || text.includes('slider') || text === 'xo' || text === 'ox') return 'horizontal_roller';
+  if (text.includes('casement')) return 'casement';
+  if (text.includes('awning')) return 'awning';
+  if (text.includes('fixed') || text.includes('picture')) return 'fixed';
+  return 'other';
+}
+
+/**
+ * Clean up one extracted line item (unit price is derived from the line total if missing)
+ */
+export function normalizeLineItem(raw: Partial<QuoteLineItem>): QuoteLineItem {
+  const quantity = Math.max(1, Math.round(positiveNumber(raw.quantity) ?? 1));
+  const totalPrice = positiveNumber(raw.totalPrice);
+  const unitPrice = positiveNumber(raw.unitPrice) ?? (totalPrice !== null ? totalPrice / quantity : null);
+
+  return {
+    openingType: normalizeOpeningType(raw.openingType),
+    description: String(raw.description ?? '').trim(),
+    widthInches: positiveNumber(raw.widthInches),
+    heightInches: positiveNumber(raw.heightInches),
+    productLine: raw.productLine ? String(raw.productLine).trim() : null,
+    quantity,
+    unitPrice: unitPrice !== null ? Math.round(unitPrice) : null,
+    totalPrice: totalPrice ?? (unitPrice !== null ? Math.round(unitPrice * quantity) : null),
+    page: positiveNumber(raw.page),
+  };
+}
+
+/**
+ * Total openings across line items (null when there are none)
+ */
+export function countLineItemOpenings(items: QuoteLineItem[] = []): number | null {
+  const count = items.reduce((sum, item) => sum + item.quantity, 0);
+  return count > 0 ? count : null;
+}
+
+// ============================================
+// BREAKDOWN
+// ============================================
+
+/**
+ * Group line items by opening type, in a stable order
+ */
+export function buildOpeningBreakdown(
+  items: QuoteLineItem[],
+  bands: BenchmarkBands = DEFAULT_BENCHMARKS.bands
+): OpeningTypeBreakdown[] {
+  return OPENING_TYPES
+    .map(openingType => {
+      const group = items.filter(item => item.openingType === openingType);
+      if (group.length === 0) return null;
+
+      const band = bands[openingType];
+      const quantity = group.reduce((sum, item) => sum + item.quantity, 0);
+      const priced = group.filter(item => item.unitPrice !== null);
+      const pricedQuantity = priced.reduce((sum, item) => sum + item.quantity, 0);
+      const totalPrice = priced.length > 0
+        ? priced.reduce((sum, item) => sum + (item.unitPrice as number) * item.quantity, 0)
+        : null;
+
+      return {
+        openingType,
+        label: OPENING_TYPE_LABELS[openingType],
+        quantity,
+        totalPrice,
+        averageUnitPrice: totalPrice !== null ? Math.round(totalPrice / pricedQuantity) : null,
+        expectedRange: band ? { low: band.low, high: band.high } : null,
+      };
+    })
+    .filter((row): row is OpeningTypeBreakdown => row !== null);
+}
+
+/**
+ * Line items whose unit price is beyond the floor/ceiling for their type
+ */
+export function findPriceOutliers(
+  items: QuoteLineItem[],
+  bands: BenchmarkBands = DEFAULT_BENCHMARKS.bands
+): LineItemOutlier[] {
+  const outliers: LineItemOutlier[] = [];
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    const band = bands[item.openingType];
+    if (item.unitPrice === null || !band) continue;
+
+    const direction = item.unitPrice > band.ceiling
+      ? 'high'
+      : item.unitPrice < band.floor
+        ? 'low'
+        : null;
+    if (!direction) continue;
+
+    outliers.push({
+      itemIndex: index,
+      openingType: item.openingType,
+      label: OPENING_TYPE_LABELS[item.openingType],
+      description: item.description || OPENING_TYPE_LABELS[item.openingType],
+      unitPrice: item.unitPrice,
+      expectedRange: { low: band.low, high: band.high },
+      direction,
+      page: item.page ?? null,
+    });
+  }
+
+  return outliers;
+}
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for the Meta Conversions API relay (against a local stand-in)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+import { startMetaCapiStandIn, type MetaCapiStandIn } from '../testing/metaCapiStandIn';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  buildConversionEvent,
+  deliverConversionEvent,
+  getConversionEventNames,
+  resumePendingConversionEvents,
+  type ConversionLead,
+} from './metaConversions';
+import { calculateLeadValue, recalculateLeadValue } from './leadValueService';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+// sha256 of the normalized email / phone
+const EMAIL_HASH = '8c87b489ce35cf2e2f39f80e282cb2e804932a56a213983eeeb428407d43b52d';
+const PHONE_HASH = '2db47bbc0f3d43a32bfe34653a351a8a9279f19e42d47d2a065cc1e6ebb9023c';
+
+const LEAD: ConversionLead = {
+  id: LEAD_ID,
+  email: ' Jane@Example.com ',
+  phone: '+1 (305) 555-0123',
+  fbp: 'fb.1.1700000000000.123456789',
+  fbc: 'fb.1.1700000000000.AbCdEf',
+  eventId: 'evt_1700000000000_abc1234',
+};
+
+const WHALE = calculateLeadValue({
+  isHomeowner: true,
+  windowCount: 'entire_home',
+  timelineUrgency: 'asap',
+  pathType: 'alpha',
+  smsVerified: true,
+});
+
+const conversionEvents = () => db.table('meta_conversion_events');
+
+const seedEvent = (overrides: Record<string, unknown> = {}) => {
+  db.seed('meta_conversion_events', [{
+    id: 'event-1',
+    lead_id: LEAD_ID,
+    event_name: 'Lead',
+    event_id: LEAD.eventId,
+    trigger: 'alpha.finalAction',
+    value: WHALE.value,
+    tier: WHALE.tier,
+    payload: buildConversionEvent('Lead', LEAD, WHALE),
+    status: 'queued',
+    attempts: 0,
+    ...overrides,
+  }]);
+};
+
+describe('buildConversionEvent', () => {
+  it('should carry the value and only hashed contact details', () => {
+    const event = buildConversionEvent('QualifiedLead', LEAD, WHALE, new Date('2026-10-18T12:00:00.000Z'));
+
+    expect(event).toEqual({
+      event_name: 'QualifiedLead',
+      event_time: 1792324800,
+      event_id: 'evt_1700000000000_abc1234_whale',
+      action_source: 'website',
+      user_data: {
+        em: [EMAIL_HASH],
+        ph: [PHONE_HASH],
+        external_id: [expect.stringMatching(/^[0-9a-f]{64}$/)],
+        fbp: LEAD.fbp,
+        fbc: LEAD.fbc,
+      },
+      custom_data: { value: 600, currency: 'USD', lead_tier: 'whale' },
+    });
+    expect(JSON.stringify(event)).not.toMatch(/example\.com|555|1111/i);
+  });
+
+  it('should leave out contact details the lead does not have', () => {
+    const { user_data, event_id } = buildConversionEvent('Lead', { ...LEAD, email: null, phone: null, fbp: null, fbc: null, eventId: null }, WHALE);
+
+    expect(Object.keys(user_data)).toEqual(['external_id']);
+    expect(event_id).toBe(`lead_${LEAD_ID}`);
+  });
+});
+
+describe('getConversionEventNames', () => {
+  it('should report final actions and tier changes into a qualified tier', () => {
+    expect(getConversionEventNames('alpha.finalAction', WHALE, 'whale')).toEqual(['Lead']);
+    expect(getConversionEventNames('alpha.timeline', WHALE, 'cold')).toEqual(['QualifiedLead']);
+    expect(getConversionEventNames('beta.finalAction', WHALE, null)).toEqual(['Lead', 'QualifiedLead']);
+    expect(getConversionEventNames('alpha.timeline', WHALE, 'whale')).toEqual([]);
+    expect(getConversionEventNames('beta.filter', { ...WHALE, tier: 'cold' }, 'warm')).toEqual([]);
+  });
+});
+
+describe('Meta conversions relay', () => {
+  let meta: MetaCapiStandIn;
+
+  beforeEach(async () => {
+    db.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    db.seed('leads', [{
+      id: LEAD_ID,
+      email: LEAD.email,
+      phone: LEAD.phone,
+      fbp: LEAD.fbp,
+      fbc: LEAD.fbc,
+      event_id: LEAD.eventId,
+      is_homeowner: true,
+      window_count: 'entire_home',
+      timeline_urgency: 'researching',
+      path_type: 'alpha',
+      sms_verified: true,
+    }]);
+    meta = await startMetaCapiStandIn();
+  });
+
+  afterEach(async () => {
+    await meta.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should send a QualifiedLead on a tier change and a Lead on the final action, once each', async () => {
+    await recalculateLeadValue(LEAD_ID, 'alpha.filterQuestions');
+    expect(conversionEvents()).toHaveLength(0);
+
+    db.table('leads')[0].timeline_urgency = 'asap';
+    await recalculateLeadValue(LEAD_ID, 'alpha.timeline');
+    await recalculateLeadValue(LEAD_ID, 'alpha.finalAction');
+    await recalculateLeadValue(LEAD_ID, 'alpha.finalAction');
+
+    await vi.waitFor(() => expect(meta.requests).toHaveLength(2));
+
+    expect(meta.requests.map(request => request.data[0])).toMatchObject([
+      {
+        event_name: 'QualifiedLead',
+        event_id: `${LEAD.eventId}_whale`,
+        user_data: { em: [EMAIL_HASH], ph: [PHONE_HASH], fbp: LEAD.fbp, fbc: LEAD.fbc },
+        custom_data: { value: 600, currency: 'USD', lead_tier: 'whale' },
+      },
+      { event_name: 'Lead', event_id: LEAD.eventId, custom_data: { value: 600 } },
+    ]);
+    expect(meta.requests[0].accessToken).toBe('test-capi-token');
+    await vi.waitFor(() => expect(conversionEvents().map(event => event.status)).toEqual(['sent', 'sent']));
+    expect(conversionEvents()[0]).toMatchObject({ trigger: 'alpha.timeline', attempts: 1, fbtrace_id: 'trace-1' });
+  });
+
+  it('should retry rate limits and server errors, then send', async () => {
+    seedEvent();
+    meta.failWith(503);
+
+    expect(await deliverConversionEvent('event-1')).toBe('queued');
+    expect(conversionEvents()[0]).toMatchObject({ status: 'queued', attempts: 1, last_error: expect.stringContaining('503') });
+    expect(new Date(conversionEvents()[0].next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+
+    expect(await deliverConversionEvent('event-1')).toBe('sent');
+    expect(conversionEvents()[0]).toMatchObject({ status: 'sent', attempts: 2, last_error: null });
+    expect(meta.requests).toHaveLength(1);
+  });
+
+  it('should give up on rejected events and after the last attempt', async () => {
+    seedEvent();
+    seedEvent({ id: 'event-2', event_id: 'evt_2', attempts: 4 });
+    meta.failWith(400);
+
+    expect(await deliverConversionEvent('event-1')).toBe('failed');
+
+    meta.failWith(500);
+    expect(await deliverConversionEvent('event-2')).toBe('failed');
+
+    expect(conversionEvents().map(({ status, attempts }) => ({ status, attempts }))).toEqual([
+      { status: 'failed', attempts: 1 },
+      { status: 'failed', attempts: 5 },
+    ]);
+    expect(await deliverConversionEvent('event-1')).toBeNull();
+  });
+
+  it('should queue nothing when the relay is not configured', async () => {
+    // Stopping the stand-in restores the unconfigured ENV
+    await meta.stop();
+    meta = { ...meta, stop: async () => {} };
+
+    db.table('leads')[0].timeline_urgency = 'asap';
+    await recalculateLeadValue(LEAD_ID, 'alpha.finalAction');
+
+    expect(conversionEvents()).toHaveLength(0);
+  });
+
+  it('should resume events interrupted mid-send', async () => {
+    seedEvent({ status: 'sending', next_attempt_at: new Date().toISOString() });
+
+    expect(await resumePendingConversionEvents()).toBe(1);
+    await vi.waitFor(() => expect(conversionEvents()[0].status).toBe('sent'));
+    expect(meta.requests).toHaveLength(1);
+  });
+});
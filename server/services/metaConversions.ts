@@ -0,0 +1,389 @@
+/**
+ * Meta Conversions API Relay
+ *
+ * Server-side copy of the value-based conversion events the browser pixel
+ * sends through GTM (which ad blockers drop). A lead value recalculation
+ * queues:
+ *   - Lead: when a finalAction runs (event_id = the lead's event_id, the same
+ *     id the pixel sends, so Meta deduplicates the pair)
+ *   - QualifiedLead: when the tier changes into warm / hot / whale
+ *     (event_id = `${event_id}_${tier}`, so each tier is reported once)
+ *
+ * Events are persisted in meta_conversion_events and delivered like scan jobs:
+ * queued → sending → sent (or failed), retried with backoff on 429 / 5xx /
+ * network errors. Email and phone only ever leave (or get stored) as SHA-256
+ * hashes. Nothing is queued unless META_PIXEL_ID and META_CAPI_ACCESS_TOKEN
+ * are set.
+ */
+
+import { createHash } from 'node:crypto';
+import { ENV } from '../_core/env';
+import { supabase } from './supabaseClient';
+import type { LeadTier } from './leadValueMatrix';
+import type { LeadValueTrigger } from './leadValueHistory';
+import type { LeadValueResult } from './leadValueService';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Total attempts per event (first send + retries)
+const MAX_ATTEMPTS = 5;
+
+// Exponential backoff: 5s, 10s, 20s ... capped at 10 minutes
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 600000;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Tiers worth reporting as a QualifiedLead
+export const QUALIFIED_TIERS: LeadTier[] = ['warm', 'hot', 'whale'];
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ConversionEventName = 'Lead' | 'QualifiedLead';
+export type ConversionEventStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+// What the lead row contributes to an event
+export interface ConversionLead {
+  id: string;
+  email: string | null;
+  phone: string | null;
+  fbp: string | null;
+  fbc: string | null;
+  eventId: string | null;
+}
+
+// A Conversions API server event (https://developers.facebook.com/docs/marketing-api/conversions-api/parameters)
+export interface MetaServerEvent {
+  event_name: ConversionEventName;
+  event_time: number;
+  event_id: string;
+  action_source: 'website';
+  user_data: {
+    em?: string[];
+    ph?: string[];
+    external_id: string[];
+    fbp?: string;
+    fbc?: string;
+  };
+  custom_data: {
+    value: number;
+    currency: 'USD';
+    lead_tier: LeadTier;
+  };
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+export const isMetaCapiConfigured = () => Boolean(ENV.metaPixelId && ENV.metaCapiAccessToken);
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Meta's normalization: emails trimmed and lowercased, phones as digits with the country code
+ */
+export function hashEmail(email: string): string {
+  return sha256(email.trim().toLowerCase());
+}
+
+export function hashPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  // 10 digits are a US number without its country code (as in smsService)
+  return sha256(digits.length === 10 ? `1${digits}` : digits);
+}
+
+/**
+ * Dedup key for an event (shared with the pixel for Lead)
+ */
+export function getConversionEventId(eventName: ConversionEventName, lead: ConversionLead, tier: LeadTier): string {
+  const base = lead.eventId || `lead_${lead.id}`;
+  return eventName === 'Lead' ? base : `${base}_${tier}`;
+}
+
+/**
+ * Events a recalculation should report (Lead on a final action, QualifiedLead on a tier change)
+ */
+export function getConversionEventNames(
+  trigger: LeadValueTrigger,
+  result: LeadValueResult,
+  previousTier: LeadTier | null
+): ConversionEventName[] {
+  const names: ConversionEventName[] = [];
+
+  if (trigger.endsWith('.finalAction')) {
+    names.push('Lead');
+  }
+  if (result.tier !== previousTier && QUALIFIED_TIERS.includes(result.tier)) {
+    names.push('QualifiedLead');
+  }
+
+  return names;
+}
+
+export function buildConversionEvent(
+  eventName: ConversionEventName,
+  lead: ConversionLead,
+  result: LeadValueResult,
+  eventTime: Date = new Date()
+): MetaServerEvent {
+  return {
+    event_name: eventName,
+    event_time: Math.floor(eventTime.getTime() / 1000),
+    event_id: getConversionEventId(eventName, lead, result.tier),
+    action_source: 'website',
+    user_data: {
+      ...(lead.email ? { em: [hashEmail(lead.email)] } : {}),
+      ...(lead.phone ? { ph: [hashPhone(lead.phone)] } : {}),
+      external_id: [sha256(lead.id)],
+      ...(lead.fbp ? { fbp: lead.fbp } : {}),
+      ...(lead.fbc ? { fbc: lead.fbc } : {}),
+    },
+    custom_data: {
+      value: result.value,
+      currency: 'USD',
+      lead_tier: result.tier,
+    },
+  };
+}
+
+/**
+ * Backoff before the next attempt (attempt is 1-based)
+ */
+export function getConversionRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt - 1), MAX_BACKOFF_MS);
+}
+
+// Rate limits, server errors and network failures (status null) are worth retrying
+function isRetryableStatus(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500;
+}
+
+/**
+ * Send an event after a delay without blocking the caller
+ */
+function scheduleConversionEvent(id: string, delayMs: number): void {
+  setTimeout(() => {
+    deliverConversionEvent(id).catch(err => {
+      console.error('[MetaCAPI] Unhandled delivery error:', id, err);
+    });
+  }, delayMs);
+}
+
+async function updateConversionEvent(id: string, updates: Record<string, unknown>): Promise<void> {
+  await supabase.from('meta_conversion_events').update({
+    ...updates,
+    updated_at: new Date().toISOString(),
+  }).eq('id', id);
+}
+
+// ============================================
+// CORE FUNCTIONS
+// ============================================
+
+/**
+ * Queue the events a lead value recalculation should report (failures are logged, never thrown)
+ */
+export async function queueLeadValueConversions(
+  leadId: string,
+  trigger: LeadValueTrigger,
+  result: LeadValueResult,
+  previousTier: LeadTier | null
+): Promise<string[]> {
+  const eventNames = getConversionEventNames(trigger, result, previousTier);
+  if (!isMetaCapiConfigured() || eventNames.length === 0) {
+    return [];
+  }
+
+  const { data: row, error } = await supabase.from('leads')
+    .select('id, email, phone, fbp, fbc, event_id')
+    .eq('id', leadId)
+    .maybeSingle();
+
+  if (error || !row) {
+    console.error('[MetaCAPI] Failed to load lead:', leadId, error);
+    return [];
+  }
+
+  const lead: ConversionLead = {
+    id: row.id,
+    email: row.email ?? null,
+    phone: row.phone ?? null,
+    fbp: row.fbp ?? null,
+    fbc: row.fbc ?? null,
+    eventId: row.event_id ?? null,
+  };
+
+  const queued: string[] = [];
+  for (const eventName of eventNames) {
+    const id = await enqueueConversionEvent(lead, eventName, trigger, result);
+    if (id) queued.push(id);
+  }
+
+  return queued;
+}
+
+/**
+ * Persist one event and start sending it (null if it was already queued or could not be saved)
+ */
+async function enqueueConversionEvent(
+  lead: ConversionLead,
+  eventName: ConversionEventName,
+  trigger: LeadValueTrigger,
+  result: LeadValueResult
+): Promise<string | null> {
+  const payload = buildConversionEvent(eventName, lead, result);
+
+  // Each event_id goes to Meta once (the unique index backs this up)
+  const { data: existing } = await supabase.from('meta_conversion_events')
+    .select('id')
+    .eq('event_id', payload.event_id)
+    .maybeSingle();
+
+  if (existing) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase.from('meta_conversion_events')
+    .insert({
+      lead_id: lead.id,
+      event_name: eventName,
+      event_id: payload.event_id,
+      trigger,
+      value: result.value,
+      tier: result.tier,
+      payload,
+      status: 'queued',
+      attempts: 0,
+      next_attempt_at: now,
+      created_at: now,
+      updated_at: now,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[MetaCAPI] Failed to queue event:', payload.event_id, error);
+    return null;
+  }
+
+  console.log(`[MetaCAPI] Queued ${eventName} ${payload.event_id} ($${result.value}, ${result.tier})`);
+  scheduleConversionEvent(data.id, 0);
+
+  return data.id;
+}
+
+/**
+ * Send one queued event to the Conversions API
+ */
+export async function deliverConversionEvent(id: string): Promise<ConversionEventStatus | null> {
+  // Claim the event (only queued events can be sent)
+  const { data: claimed } = await supabase.from('meta_conversion_events')
+    .update({ status: 'sending', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'queued')
+    .select('*');
+
+  const event = claimed?.[0];
+  if (!event) {
+    return null;
+  }
+
+  const attempt = (event.attempts || 0) + 1;
+  let status: number | null = null;
+  let message: string;
+
+  try {
+    const response = await fetch(`${ENV.metaCapiUrl}/${ENV.metaPixelId}/events`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        data: [event.payload],
+        access_token: ENV.metaCapiAccessToken,
+        ...(ENV.metaTestEventCode ? { test_event_code: ENV.metaTestEventCode } : {}),
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    status = response.status;
+
+    if (response.ok) {
+      const body = await response.json().catch(() => ({}));
+      await updateConversionEvent(id, {
+        status: 'sent',
+        attempts: attempt,
+        fbtrace_id: body?.fbtrace_id ?? null,
+        last_error: null,
+        sent_at: new Date().toISOString(),
+      });
+      console.log(`[MetaCAPI] Sent ${event.event_name} ${event.event_id} (attempt ${attempt})`);
+      return 'sent';
+    }
+
+    message = `${response.status} ${response.statusText}: ${(await response.text()).slice(0, 500)}`;
+  } catch (error) {
+    message = error instanceof Error ? error.message : String(error);
+  }
+
+  if (attempt < MAX_ATTEMPTS && isRetryableStatus(status)) {
+    const delayMs = getConversionRetryDelayMs(attempt);
+
+    console.warn(`[MetaCAPI] ${event.event_id} attempt ${attempt} failed (${message}), retrying in ${delayMs}ms`);
+
+    await updateConversionEvent(id, {
+      status: 'queued',
+      attempts: attempt,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+    });
+
+    scheduleConversionEvent(id, delayMs);
+    return 'queued';
+  }
+
+  console.error(`[MetaCAPI] ${event.event_id} failed permanently:`, message);
+
+  await updateConversionEvent(id, {
+    status: 'failed',
+    attempts: attempt,
+    last_error: message,
+  });
+
+  return 'failed';
+}
+
+/**
+ * Re-schedule unsent events (call on server start)
+ * Events interrupted mid-send are put back in the queue.
+ */
+export async function resumePendingConversionEvents(): Promise<number> {
+  const { data: events, error } = await supabase.from('meta_conversion_events')
+    .select('id, status, next_attempt_at')
+    .in('status', ['queued', 'sending']);
+
+  if (error || !events) {
+    console.error('[MetaCAPI] Failed to load pending events:', error);
+    return 0;
+  }
+
+  for (const event of events) {
+    if (event.status !== 'queued') {
+      await updateConversionEvent(event.id, { status: 'queued' });
+    }
+
+    const dueIn = event.next_attempt_at ? new Date(event.next_attempt_at).getTime() - Date.now() : 0;
+    scheduleConversionEvent(event.id, Math.max(0, dueIn));
+  }
+
+  if (events.length > 0) {
+    console.log(`[MetaCAPI] Resumed ${events.length} pending event(s)`);
+  }
+
+  return events.length;
+}
@@ -0,0 +1,239 @@
+/**
+ * Unit tests for negotiation letters built from scan findings
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+import { createSignals, llmResponse } from '../testing/quoteFixtures';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+const llmState = vi.hoisted(() => ({ configured: true }));
+
+vi.mock('../_core/llm', () => ({
+  invokeLLM: vi.fn(),
+  isLLMConfigured: () => llmState.configured,
+}));
+
+import { supabase } from './supabaseClient';
+import { invokeLLM } from '../_core/llm';
+import {
+  buildLetterPrompt,
+  buildNegotiationRequests,
+  buildTemplateLetter,
+  generateNegotiationLetter,
+  getNegotiationLetter,
+  updateNegotiationLetter,
+} from './negotiationLetter';
+import { alphaRouter } from '../routes/alpha';
+
+const db = supabase as unknown as FakeSupabase;
+const mockInvokeLLM = vi.mocked(invokeLLM);
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_LEAD_ID = '22222222-2222-4222-8222-222222222222';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+
+// 50% deposit, final payment trap, no permits, subject to change, 1-year labor warranty
+const RISKY_SIGNALS = createSignals({
+  hasFinalPaymentTrap: true,
+  hasPermitMention: false,
+  hasSubjectToChange: true,
+  warrantyDurationYears: 1,
+  hasWallRepairMention: true,
+  contractor: { name: 'Sunshine Impact Windows LLC', licenseNumber: 'CGC1234567', phone: null, address: null },
+});
+
+beforeEach(() => {
+  llmState.configured = true;
+  mockInvokeLLM.mockReset();
+  db.reset();
+  db.seed('leads', [
+    { id: LEAD_ID, sms_verified: true, first_name: 'Maria', last_name: 'Gonzalez' },
+    { id: OTHER_LEAD_ID, sms_verified: true },
+  ]);
+  db.seed('scans', [{
+    id: SCAN_ID,
+    lead_id: LEAD_ID,
+    overall_score: 48,
+    raw_response: JSON.stringify(RISKY_SIGNALS),
+    audit_details: {},
+    created_at: '2026-10-01T00:00:00.000Z',
+  }]);
+});
+
+describe('buildNegotiationRequests', () => {
+  it('should ask for a change for each risky term, most important first', () => {
+    const requests = buildNegotiationRequests(RISKY_SIGNALS);
+
+    expect(requests.map(request => request.kind)).toEqual(['deposit', 'final_payment', 'price_lock', 'permit', 'labor_warranty']);
+    expect(requests[0]).toEqual({
+      kind: 'deposit',
+      finding: 'The quote asks for a 50% deposit.',
+      ask: 'Please reduce the deposit to 40% or less, with the balance tied to delivery and completion.',
+    });
+    expect(requests[4].finding).toBe('The labor warranty is only 1 year.');
+  });
+
+  it('should cover licensing, missing scope and contract traps', () => {
+    const requests = buildNegotiationRequests(createSignals({
+      depositPercentage: 30,
+      licenseStatus: 'expired',
+      hasComplianceIdentifier: false,
+      hasLaborWarranty: false,
+      hasRepairsExcluded: true,
+      hasCleanupMention: false,
+      hasContractTraps: true,
+      contractTrapsList: ['binding arbitration', 'restocking fee', 'cancellation penalty'],
+    }));
+
+    expect(requests.map(request => request.kind)).toEqual([
+      'license', 'product_approval', 'labor_warranty', 'wall_repair', 'cleanup', 'contract_term', 'contract_term',
+    ]);
+    expect(requests[0].finding).toBe('License on the quote is not active in Florida licensing records.');
+    expect(requests[3].finding).toBe('Repairs around the openings are excluded.');
+  });
+
+  it('should have nothing to ask for a clean quote', () => {
+    expect(buildNegotiationRequests(createSignals({ depositPercentage: 30, hasWallRepairMention: true }))).toEqual([]);
+  });
+});
+
+describe('letter text', () => {
+  it('should number every ask in the template and sign it from the homeowner', () => {
+    const requests = buildNegotiationRequests(RISKY_SIGNALS);
+    const letter = buildTemplateLetter({ homeownerName: 'Maria Gonzalez', contractorName: 'Sunshine Impact Windows LLC' }, requests);
+
+    expect(letter.startsWith('Dear Sunshine Impact Windows LLC,')).toBe(true);
+    requests.forEach((request, index) => expect(letter).toContain(`${index + 1}. ${request.ask}`));
+    expect(letter.endsWith('Thank you,\nMaria Gonzalez')).toBe(true);
+
+    expect(buildTemplateLetter({ homeownerName: null, contractorName: null }, requests)).toMatch(/^Hello,[\s\S]*Thank you,$/);
+  });
+
+  it('should give the model every finding and ask', () => {
+    const requests = buildNegotiationRequests(RISKY_SIGNALS);
+    const prompt = buildLetterPrompt({ homeownerName: 'Maria Gonzalez', contractorName: null }, requests);
+
+    for (const request of requests) {
+      expect(prompt).toContain(request.finding);
+      expect(prompt).toContain(request.ask);
+    }
+    expect(prompt).toContain('Sign it: Maria Gonzalez');
+  });
+});
+
+describe('generateNegotiationLetter', () => {
+  it('should store the model\'s letter for the scan and reuse it', async () => {
+    mockInvokeLLM.mockResolvedValue(llmResponse('  Dear Sunshine team,\n\n1. Please lower the deposit...  '));
+
+    const result = await generateNegotiationLetter(LEAD_ID);
+    const again = await generateNegotiationLetter(LEAD_ID);
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.letter).toMatchObject({
+      scanId: SCAN_ID,
+      subject: 'Requested changes to the Sunshine Impact Windows LLC window quote',
+      body: 'Dear Sunshine team,\n\n1. Please lower the deposit...',
+      source: 'llm',
+      edited: false,
+    });
+    expect(result.letter.requests).toHaveLength(5);
+    expect(again).toEqual(result);
+    expect(mockInvokeLLM).toHaveBeenCalledTimes(1);
+    expect(db.table('negotiation_letters')).toHaveLength(1);
+  });
+
+  it('should fall back to the template when the model fails or is unavailable', async () => {
+    mockInvokeLLM.mockRejectedValueOnce(new Error('upstream 500'));
+    const failed = await generateNegotiationLetter(LEAD_ID);
+
+    llmState.configured = false;
+    mockInvokeLLM.mockClear();
+    const offline = await generateNegotiationLetter(LEAD_ID, { regenerate: true });
+
+    expect(failed).toMatchObject({ status: 'ok', letter: { source: 'template' } });
+    expect(offline).toMatchObject({ status: 'ok', letter: { source: 'template' } });
+    expect(mockInvokeLLM).not.toHaveBeenCalled();
+    if (offline.status === 'ok') {
+      expect(offline.letter.body).toBe(buildTemplateLetter(
+        { homeownerName: 'Maria Gonzalez', contractorName: 'Sunshine Impact Windows LLC' },
+        buildNegotiationRequests(RISKY_SIGNALS)
+      ));
+    }
+  });
+
+  it('should have nothing to ask about a scan that is not a quote', async () => {
+    db.table('scans')[0].raw_response = JSON.stringify({ ...RISKY_SIGNALS, isValidQuote: false, validityReason: 'This appears to be a receipt.' });
+
+    expect(buildNegotiationRequests({ ...RISKY_SIGNALS, isValidQuote: false })).toEqual([]);
+    expect(await generateNegotiationLetter(LEAD_ID)).toEqual({ status: 'nothing_to_ask' });
+    expect(mockInvokeLLM).not.toHaveBeenCalled();
+    expect(db.table('negotiation_letters')).toHaveLength(0);
+  });
+
+  it('should refuse unverified leads and other leads\' scans', async () => {
+    expect(await generateNegotiationLetter(OTHER_LEAD_ID, { scanId: SCAN_ID })).toEqual({ status: 'not_found' });
+    db.table('leads')[0].sms_verified = false;
+    expect(await generateNegotiationLetter(LEAD_ID)).toEqual({ status: 'not_found' });
+    expect(db.table('negotiation_letters')).toHaveLength(0);
+  });
+
+  it('should keep edits until the letter is regenerated', async () => {
+    llmState.configured = false;
+    const result = await generateNegotiationLetter(LEAD_ID);
+    if (result.status !== 'ok') throw new Error('expected a letter');
+
+    expect(await updateNegotiationLetter(OTHER_LEAD_ID, result.letter.id, { body: 'Hijacked' })).toBeNull();
+    const edited = await updateNegotiationLetter(LEAD_ID, result.letter.id, { body: 'My own words.' });
+
+    expect(edited).toMatchObject({ body: 'My own words.', edited: true });
+    expect(await getNegotiationLetter(LEAD_ID)).toMatchObject({ body: 'My own words.', edited: true });
+    expect(await generateNegotiationLetter(LEAD_ID)).toMatchObject({ letter: { body: 'My own words.' } });
+
+    const regenerated = await generateNegotiationLetter(LEAD_ID, { regenerate: true });
+    expect(regenerated).toMatchObject({ status: 'ok', letter: { id: result.letter.id, edited: false, source: 'template' } });
+  });
+});
+
+describe('alpha negotiation letter procedures', () => {
+  it('should write, load and save the letter through the router', async () => {
+    llmState.configured = false;
+    const alpha = alphaRouter.createCaller({ req: {}, res: {} } as any);
+
+    expect(await alpha.negotiationLetter({ leadId: LEAD_ID })).toEqual({ success: true, letter: null });
+
+    const generated = await alpha.generateNegotiationLetter({ leadId: LEAD_ID });
+    expect(generated).toMatchObject({ success: true, letter: { scanId: SCAN_ID } });
+
+    const saved = await alpha.saveNegotiationLetter({
+      leadId: LEAD_ID,
+      letterId: generated.letter!.id,
+      subject: 'Changes before I sign',
+      body: 'Dear Sunshine,\n\nPlease lower the deposit.',
+    });
+    expect(saved).toMatchObject({ success: true, letter: { subject: 'Changes before I sign', edited: true } });
+    expect((await alpha.negotiationLetter({ leadId: LEAD_ID })).letter?.body).toBe('Dear Sunshine,\n\nPlease lower the deposit.');
+
+    db.table('scans')[0].raw_response = JSON.stringify(createSignals({ depositPercentage: 30, hasWallRepairMention: true }));
+    expect(await alpha.generateNegotiationLetter({ leadId: LEAD_ID, regenerate: true })).toMatchObject({
+      success: false,
+      message: 'Your quote has no findings worth negotiating',
+    });
+  });
+
+  it('should not let an unverified lead overwrite the letter', async () => {
+    llmState.configured = false;
+    const alpha = alphaRouter.createCaller({ req: {}, res: {} } as any);
+    const generated = await alpha.generateNegotiationLetter({ leadId: LEAD_ID });
+
+    db.table('leads')[0].sms_verified = false;
+    expect(await alpha.saveNegotiationLetter({ leadId: LEAD_ID, letterId: generated.letter!.id, body: 'Hijacked' })).toEqual({
+      success: false,
+      message: 'Phone verification required to edit a letter',
+      letter: null,
+    });
+    expect(db.table('negotiation_letters')[0]).toMatchObject({ body: generated.letter!.body, edited: false });
+  });
+});
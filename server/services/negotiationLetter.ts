@@ -0,0 +1,401 @@
+/**
+ * Negotiation Letter - Asking the Contractor for Contract Changes
+ *
+ * Turns a scan's findings (a 50% deposit, final payment before the permit is
+ * closed, no permit language, "subject to change" pricing, a short labor
+ * warranty...) into a polite letter asking the contractor for the specific
+ * changes. The asks are built from the extracted signals; invokeLLM writes
+ * the letter around them, and a fixed template is used when the model is
+ * unavailable or returns nothing usable.
+ *
+ * One letter per scan (negotiation_letters). The homeowner can edit it before
+ * downloading or emailing it; regenerating replaces their edits.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { invokeLLM, isLLMConfigured } from '../_core/llm';
+import { supabase } from './supabaseClient';
+import { MAX_FAIR_DEPOSIT, parseRawSignals, type ExtractionSignals } from './scannerEngine';
+
+// Labor warranties this short (in years) are worth asking to extend
+const SHORT_LABOR_WARRANTY_YEARS = 1;
+const REQUESTED_LABOR_WARRANTY_YEARS = 2;
+
+const MAX_CONTRACT_TRAP_REQUESTS = 2;
+
+export const MAX_LETTER_LENGTH = 10000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type NegotiationRequestKind =
+  | 'license'
+  | 'deposit'
+  | 'final_payment'
+  | 'price_lock'
+  | 'permit'
+  | 'product_approval'
+  | 'labor_warranty'
+  | 'wall_repair'
+  | 'cleanup'
+  | 'contract_term';
+
+// One change the letter asks for, and the finding behind it
+export interface NegotiationRequest {
+  kind: NegotiationRequestKind;
+  finding: string;
+  ask: string;
+}
+
+export type LetterSource = 'llm' | 'template';
+
+export interface NegotiationLetter {
+  id: string;
+  scanId: string;
+  subject: string;
+  body: string;
+  requests: NegotiationRequest[];
+  source: LetterSource;
+  edited: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LetterParties {
+  homeownerName: string | null;
+  contractorName: string | null;
+}
+
+export type NegotiationLetterResult =
+  | { status: 'ok'; letter: NegotiationLetter }
+  | { status: 'not_found' | 'nothing_to_ask' };
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * The contract changes a scan's signals call for, most important first
+ */
+export function buildNegotiationRequests(signals: ExtractionSignals): NegotiationRequest[] {
+  // A receipt or other non-quote has no terms to negotiate
+  if (!signals.isValidQuote) {
+    return [];
+  }
+
+  const requests: NegotiationRequest[] = [];
+
+  if (signals.licenseStatus === 'expired' || signals.licenseStatus === 'not_found') {
+    const licenseNumber = signals.contractor?.licenseNumber ?? 'on the quote';
+    requests.push({
+      kind: 'license',
+      finding: signals.licenseStatus === 'expired'
+        ? `License ${licenseNumber} is not active in Florida licensing records.`
+        : `License ${licenseNumber} was not found in Florida licensing records.`,
+      ask: 'Please send your current, active Florida contractor license number so I can verify it before signing.',
+    });
+  }
+
+  if (signals.depositPercentage !== null && signals.depositPercentage > MAX_FAIR_DEPOSIT) {
+    requests.push({
+      kind: 'deposit',
+      finding: `The quote asks for a ${signals.depositPercentage}% deposit.`,
+      ask: `Please reduce the deposit to ${MAX_FAIR_DEPOSIT}% or less, with the balance tied to delivery and completion.`,
+    });
+  }
+
+  if (signals.hasFinalPaymentTrap) {
+    requests.push({
+      kind: 'final_payment',
+      finding: 'Final payment is due before the final inspection and permit close-out.',
+      ask: 'Please make the final payment due after the final inspection has passed and the permit is closed.',
+    });
+  }
+
+  if (signals.hasSubjectToChange) {
+    requests.push({
+      kind: 'price_lock',
+      finding: "The price is 'subject to change' or remeasure after signing.",
+      ask: 'Please fix the price in the contract, with any changes made only by a written change order we both sign.',
+    });
+  }
+
+  if (!signals.hasPermitMention) {
+    requests.push({
+      kind: 'permit',
+      finding: 'The quote does not mention permits.',
+      ask: 'Please state in writing that you will pull the permit, include its fees in the price, and schedule the inspections.',
+    });
+  }
+
+  if (!signals.hasComplianceIdentifier) {
+    requests.push({
+      kind: 'product_approval',
+      finding: 'No product approval numbers (NOA or FL#) are listed.',
+      ask: 'Please list the NOA or Florida Product Approval number and design pressure rating for each window and door.',
+    });
+  }
+
+  if (!signals.hasLaborWarranty) {
+    requests.push({
+      kind: 'labor_warranty',
+      finding: 'No labor or workmanship warranty is stated.',
+      ask: `Please add a written labor and workmanship warranty of at least ${REQUESTED_LABOR_WARRANTY_YEARS} years.`,
+    });
+  } else if (
+    !signals.hasLifetimeWarranty
+    && signals.warrantyDurationYears !== null
+    && signals.warrantyDurationYears <= SHORT_LABOR_WARRANTY_YEARS
+  ) {
+    requests.push({
+      kind: 'labor_warranty',
+      finding: `The labor warranty is only ${signals.warrantyDurationYears} year${signals.warrantyDurationYears === 1 ? '' : 's'}.`,
+      ask: `Please extend the labor and workmanship warranty to at least ${REQUESTED_LABOR_WARRANTY_YEARS} years.`,
+    });
+  }
+
+  if (signals.hasRepairsExcluded || !signals.hasWallRepairMention) {
+    requests.push({
+      kind: 'wall_repair',
+      finding: signals.hasRepairsExcluded
+        ? 'Repairs around the openings are excluded.'
+        : 'The quote does not say who repairs the walls after install.',
+      ask: 'Please include stucco, drywall and paint touch-up around each opening in the scope.',
+    });
+  }
+
+  if (!signals.hasCleanupMention) {
+    requests.push({
+      kind: 'cleanup',
+      finding: 'Cleanup and removal of the old windows are not mentioned.',
+      ask: 'Please include job-site cleanup and haul-away of the old windows and debris.',
+    });
+  }
+
+  if (signals.hasContractTraps) {
+    for (const trap of signals.contractTrapsList.slice(0, MAX_CONTRACT_TRAP_REQUESTS)) {
+      requests.push({
+        kind: 'contract_term',
+        finding: `The contract contains: ${trap}.`,
+        ask: `Please remove or explain this term: ${trap}.`,
+      });
+    }
+  }
+
+  return requests;
+}
+
+export function buildLetterSubject(contractorName: string | null): string {
+  return contractorName
+    ? `Requested changes to the ${contractorName} window quote`
+    : 'Requested changes to the window quote';
+}
+
+/**
+ * The deterministic letter: greeting, numbered asks, sign-off
+ */
+export function buildTemplateLetter(parties: LetterParties, requests: NegotiationRequest[]): string {
+  const greeting = parties.contractorName ? `Dear ${parties.contractorName},` : 'Hello,';
+  const asks = requests.map((request, index) => `${index + 1}. ${request.ask}`);
+
+  return [
+    greeting,
+    'Thank you for the quote for our impact window and door project. Before signing, I would like to ask for a few changes to the contract:',
+    asks.join('\n'),
+    'If you can send a revised quote with these changes in writing, I would be glad to move forward. Please let me know if any of them is a problem so we can talk it through.',
+    `Thank you,\n${parties.homeownerName ?? ''}`.trimEnd(),
+  ].join('\n\n');
+}
+
+/**
+ * Instructions for the model: the asks are fixed, only the wording is its own
+ */
+export function buildLetterPrompt(parties: LetterParties, requests: NegotiationRequest[]): string {
+  const lines = requests.map((request, index) =>
+    `${index + 1}. Finding: ${request.finding}\n   Ask: ${request.ask}`
+  );
+
+  return `Write a short, polite letter from a homeowner to the contractor who quoted their impact window and door project, asking for the contract changes below before they sign.
+
+RULES
+- Ask for every change listed, in the order given, as a numbered list. Do not add, drop or soften any.
+- Friendly and cooperative, not accusatory; no legal threats or legal advice.
+- Plain text only: no subject line, no markdown, no placeholders in brackets.
+- Under 300 words.
+- Address it to: ${parties.contractorName ?? 'the contractor (no name given)'}
+- Sign it: ${parties.homeownerName ?? '"Thank you" with no name'}
+
+CHANGES TO ASK FOR
+${lines.join('\n')}`;
+}
+
+async function writeLetterBody(parties: LetterParties, requests: NegotiationRequest[]): Promise<{ body: string; source: LetterSource }> {
+  if (isLLMConfigured()) {
+    try {
+      const result = await invokeLLM({
+        messages: [{ role: 'user', content: buildLetterPrompt(parties, requests) }],
+      });
+      const content = result.choices[0]?.message.content;
+      const body = typeof content === 'string' ? content.trim() : '';
+
+      if (body && body.length <= MAX_LETTER_LENGTH) {
+        return { body, source: 'llm' };
+      }
+      console.warn('[NegotiationLetter] LLM returned an unusable letter; using the template');
+    } catch (error) {
+      console.error('[NegotiationLetter] LLM request failed; using the template:', error);
+    }
+  }
+
+  return { body: buildTemplateLetter(parties, requests), source: 'template' };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+function mapLetter(row: Record<string, any>): NegotiationLetter {
+  return {
+    id: row.id,
+    scanId: row.scan_id,
+    subject: row.subject,
+    body: row.body,
+    requests: row.requests ?? [],
+    source: row.source,
+    edited: Boolean(row.edited),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+async function findLeadScan(leadId: string, scanId?: string): Promise<Record<string, any> | null> {
+  let query = supabase.from('scans')
+    .select('id, raw_response')
+    .eq('lead_id', leadId);
+  if (scanId) {
+    query = query.eq('id', scanId);
+  }
+
+  const { data: scan, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[NegotiationLetter] Failed to load scan:', error);
+  }
+  return scan ?? null;
+}
+
+/**
+ * The stored letter for a lead's scan (the newest scan unless scanId is given)
+ */
+export async function getNegotiationLetter(leadId: string, scanId?: string): Promise<NegotiationLetter | null> {
+  const scan = await findLeadScan(leadId, scanId);
+  if (!scan) {
+    return null;
+  }
+
+  const { data, error } = await supabase.from('negotiation_letters')
+    .select('*')
+    .eq('scan_id', scan.id)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('[NegotiationLetter] Failed to load letter:', error);
+    return null;
+  }
+
+  return mapLetter(data);
+}
+
+/**
+ * Write (or rewrite) the letter for a verified lead's scan
+ * An existing letter is returned as-is unless regenerate is set.
+ */
+export async function generateNegotiationLetter(
+  leadId: string,
+  options: { scanId?: string; regenerate?: boolean } = {}
+): Promise<NegotiationLetterResult> {
+  const { data: lead } = await supabase.from('leads')
+    .select('sms_verified, first_name, last_name')
+    .eq('id', leadId)
+    .single();
+
+  if (!lead?.sms_verified) {
+    return { status: 'not_found' };
+  }
+
+  const scan = await findLeadScan(leadId, options.scanId);
+  const signals = parseRawSignals(scan?.raw_response);
+  if (!scan || !signals) {
+    return { status: 'not_found' };
+  }
+
+  const existing = await getNegotiationLetter(leadId, scan.id);
+  if (existing && !options.regenerate) {
+    return { status: 'ok', letter: existing };
+  }
+
+  const requests = buildNegotiationRequests(signals);
+  if (requests.length === 0) {
+    return { status: 'nothing_to_ask' };
+  }
+
+  const parties: LetterParties = {
+    homeownerName: [lead.first_name, lead.last_name].filter(Boolean).join(' ').trim() || null,
+    contractorName: signals.contractor?.name?.trim() || null,
+  };
+  const { body, source } = await writeLetterBody(parties, requests);
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase.from('negotiation_letters')
+    .upsert({
+      id: existing?.id ?? randomUUID(),
+      lead_id: leadId,
+      scan_id: scan.id,
+      subject: buildLetterSubject(parties.contractorName),
+      body,
+      requests,
+      source,
+      edited: false,
+      updated_at: now,
+    }, { onConflict: 'scan_id' })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('[NegotiationLetter] Failed to save letter:', error);
+    return { status: 'not_found' };
+  }
+
+  return { status: 'ok', letter: mapLetter(data) };
+}
+
+/**
+ * Save the homeowner's edits to their letter (null if it isn't theirs)
+ */
+export async function updateNegotiationLetter(
+  leadId: string,
+  letterId: string,
+  changes: { subject?: string; body: string }
+): Promise<NegotiationLetter | null> {
+  const { data, error } = await supabase.from('negotiation_letters')
+    .update({
+      ...(changes.subject !== undefined ? { subject: changes.subject } : {}),
+      body: changes.body,
+      edited: true,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', letterId)
+    .eq('lead_id', leadId)
+    .select('*');
+
+  if (error || !data?.length) {
+    if (error) console.error('[NegotiationLetter] Failed to save edits:', error);
+    return null;
+  }
+
+  return mapLetter(data[0]);
+}
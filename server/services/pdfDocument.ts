@@ -0,0 +1,274 @@
+/**
+ * PDF Document - Minimal, Deterministic PDF Writer
+ *
+ * Just enough of PDF 1.4 for printable reports: US Letter pages, the
+ * built-in Helvetica fonts (nothing embedded), text, filled rectangles and
+ * lines. Content streams are uncompressed and nothing time-dependent is
+ * written, so the same drawing calls always produce byte-identical, plain
+ * ASCII output.
+ *
+ * Coordinates are in points from the TOP-left corner of the page; text is
+ * positioned by its baseline.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PdfColor = readonly [number, number, number]; // RGB, 0-1
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextStyle {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+const DEFAULT_TEXT_SIZE = 10;
+const BLACK: PdfColor = [0, 0, 0];
+
+const FONTS: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Glyph widths (1/1000 em) for ASCII 32-126, from the standard Helvetica AFMs
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+// Typographic characters outside Latin-1: WinAnsiEncoding code, regular and bold width
+const WIN_ANSI_EXTRAS: Record<string, [number, number, number]> = {
+  '‘': [0x91, 222, 278],
+  '’': [0x92, 222, 278],
+  '“': [0x93, 333, 500],
+  '”': [0x94, 333, 500],
+  '•': [0x95, 350, 350],
+  '–': [0x96, 556, 556],
+  '—': [0x97, 1000, 1000],
+  '…': [0x85, 1000, 1000],
+};
+
+// Latin-1 letters and symbols aren't in the tables above; close enough for wrapping
+const FALLBACK_WIDTH = 556;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * A character as WinAnsiEncoding: its code (null if it can't be shown) and width
+ */
+function toWinAnsi(char: string, font: PdfFont): { code: number | null; width: number } {
+  const codePoint = char.codePointAt(0) ?? 0;
+
+  if (codePoint >= 32 && codePoint <= 126) {
+    return { code: codePoint, width: ASCII_WIDTHS[font][codePoint - 32] };
+  }
+  const extra = WIN_ANSI_EXTRAS[char];
+  if (extra) {
+    return { code: extra[0], width: font === 'bold' ? extra[2] : extra[1] };
+  }
+  if (codePoint >= 0xA0 && codePoint <= 0xFF) {
+    return { code: codePoint, width: FALLBACK_WIDTH };
+  }
+  return { code: null, width: ASCII_WIDTHS[font]['?'.charCodeAt(0) - 32] };
+}
+
+/**
+ * Text as a PDF literal string body (unsupported characters become "?")
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text.replace(/\s/g, ' ')) {
+    const code = toWinAnsi(char, 'regular').code ?? '?'.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += String.fromCharCode(code);
+    } else {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    }
+  }
+  return encoded;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measureText(text: string, size: number = DEFAULT_TEXT_SIZE, font: PdfFont = 'regular'): number {
+  let width = 0;
+  for (const char of text) {
+    width += toWinAnsi(char, font).width;
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth (long words are split)
+ */
+export function wrapText(text: string, maxWidth: number, size: number = DEFAULT_TEXT_SIZE, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, size, font) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    line = '';
+
+    // A single word wider than the line is split by character
+    for (const char of word) {
+      if (line && measureText(line + char, size, font) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private pageIndex = -1;
+
+  constructor(private readonly title: string) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page and draw on it
+   */
+  addPage(): void {
+    this.pages.push([]);
+    this.pageIndex = this.pages.length - 1;
+  }
+
+  /**
+   * Draw on an existing page again (e.g. to add "Page 1 of 3" footers)
+   */
+  goToPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`No page ${index + 1} in a ${this.pages.length}-page document`);
+    }
+    this.pageIndex = index;
+  }
+
+  private draw(operation: string): void {
+    if (this.pageIndex < 0) {
+      this.addPage();
+    }
+    this.pages[this.pageIndex].push(operation);
+  }
+
+  /**
+   * One line of text with its baseline at y
+   */
+  text(x: number, y: number, text: string, style: PdfTextStyle = {}): void {
+    const font = FONTS[style.font ?? 'regular'];
+    this.draw(
+      `BT /${font.resource} ${formatNumber(style.size ?? DEFAULT_TEXT_SIZE)} Tf ${formatColor(style.color ?? BLACK)} rg `
+      + `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  /**
+   * Filled rectangle with its top-left corner at (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    this.draw(
+      `${formatColor(fill)} rg ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} `
+      + `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = BLACK, lineWidth: number = 1): void {
+    this.draw(
+      `${formatColor(color)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m `
+      + `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /**
+   * Serialize: catalog, page tree, fonts, info, then each page and its content
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const pageObjectIds = this.pages.map((_, index) => 6 + index * 2);
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.regular.baseFont} /Encoding /WinAnsiEncoding >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.bold.baseFont} /Encoding /WinAnsiEncoding >>`,
+      `<< /Title (${encodeText(this.title)}) /Producer (WindowMan Vault) >>`,
+    ];
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /${FONTS.regular.resource} 3 0 R /${FONTS.bold.resource} 4 0 R >> >> `
+        + `/Contents ${pageObjectIds[index] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // Everything is ASCII, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Unit tests for regional price bands and benchmark CSV parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BENCHMARKS,
+  getCountyForCity,
+  getCountyForZip,
+  getRegionCandidates,
+  parseBenchmarkCsv,
+  resolveBenchmarks,
+  type BenchmarkRow,
+} from './priceBenchmarks';
+
+const HEADER = 'region_type,region,opening_type,floor,low,high,ceiling';
+
+const band = (overrides: Partial<BenchmarkRow>): BenchmarkRow => ({
+  regionType: 'state',
+  regionKey: 'FL',
+  openingType: 'all',
+  floor: 1000,
+  low: 1200,
+  high: 1800,
+  ceiling: 2500,
+  ...overrides,
+});
+
+describe('getRegionCandidates', () => {
+  it('should list ZIP, ZIP prefix, county and state, most specific first', () => {
+    expect(getRegionCandidates('33156-1234', 'Miami, FL')).toEqual([
+      { regionType: 'zip', regionKey: '33156' },
+      { regionType: 'zip3', regionKey: '331' },
+      { regionType: 'county', regionKey: 'miami-dade' },
+      { regionType: 'state', regionKey: 'FL' },
+    ]);
+  });
+
+  it('should fall back to the state without a ZIP or known city', () => {
+    expect(getRegionCandidates(null, 'Nowhere')).toEqual([{ regionType: 'state', regionKey: 'FL' }]);
+    expect(getRegionCandidates('abc', null)).toEqual([{ regionType: 'state', regionKey: 'FL' }]);
+  });
+
+  it('should find the county from the ZIP when there is no OCR city', () => {
+    expect(getRegionCandidates('33176', null)).toEqual([
+      { regionType: 'zip', regionKey: '33176' },
+      { regionType: 'zip3', regionKey: '331' },
+      { regionType: 'county', regionKey: 'miami-dade' },
+      { regionType: 'state', regionKey: 'FL' },
+    ]);
+  });
+
+  it('should map ZIPs to counties', () => {
+    expect(getCountyForZip('32801')).toBe('orange');
+    expect(getCountyForZip('33040')).toBe('monroe');
+    expect(getCountyForZip('32601')).toBeNull();
+  });
+
+  it('should map OCR cities to counties', () => {
+    expect(getCountyForCity('  Orlando ')).toBe('orange');
+    expect(getCountyForCity('St. Petersburg')).toBe('pinellas');
+    expect(getCountyForCity(undefined)).toBeNull();
+  });
+});
+
+describe('resolveBenchmarks', () => {
+  it('should prefer the most specific band per opening type', () => {
+    const rows = [
+      band({ low: 1100 }),
+      band({ regionType: 'county', regionKey: 'miami-dade', floor: 1100, low: 1400, high: 2100, ceiling: 2900 }),
+      band({ regionType: 'zip', regionKey: '33156', openingType: 'sliding_door', floor: 2000, low: 3500, high: 8000, ceiling: 10000 }),
+      band({ regionType: 'county', regionKey: 'orange', floor: 800, low: 900, high: 1300, ceiling: 1900 }),
+    ];
+
+    const resolved = resolveBenchmarks('2026-q4', rows, getRegionCandidates('33156', 'Miami'));
+
+    expect(resolved.version).toBe('2026-q4');
+    expect(resolved.region).toBe('Miami-Dade County');
+    expect(resolved.bands.all).toEqual({ floor: 1100, low: 1400, high: 2100, ceiling: 2900 });
+    expect(resolved.bands.sliding_door?.low).toBe(3500);
+    expect(resolved.bands.casement).toEqual(DEFAULT_BENCHMARKS.bands.casement);
+  });
+
+  it('should report the built-in set when no row matches', () => {
+    const resolved = resolveBenchmarks('2026-q4', [band({ regionType: 'county', regionKey: 'orange' })], getRegionCandidates(null, 'Tampa'));
+
+    expect(resolved).toEqual(DEFAULT_BENCHMARKS);
+  });
+});
+
+describe('parseBenchmarkCsv', () => {
+  it('should parse valid rows and normalize regions', () => {
+    const { rows, errors } = parseBenchmarkCsv([
+      HEADER,
+      'county,Miami-Dade County,all,1100,1400,2100,2900',
+      'zip,33156,Sliding_Door,2000,3500,8000,10000',
+      '',
+      'state,fl,all,1000,1200,1800,2500',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(rows.map(row => [row.regionType, row.regionKey, row.openingType])).toEqual([
+      ['county', 'miami-dade', 'all'],
+      ['zip', '33156', 'sliding_door'],
+      ['state', 'FL', 'all'],
+    ]);
+  });
+
+  it('should accept columns in any order', () => {
+    const { rows } = parseBenchmarkCsv('opening_type,region,region_type,ceiling,high,low,floor\nall,331,zip3,2500,1800,1200,1000');
+
+    expect(rows[0]).toEqual(band({ regionType: 'zip3', regionKey: '331' }));
+  });
+
+  it('should report every invalid line', () => {
+    const { errors } = parseBenchmarkCsv([
+      HEADER,
+      'city,Miami,all,1000,1200,1800,2500',
+      'zip,3315,all,1000,1200,1800,2500',
+      'zip,33156,skylight,1000,1200,1800,2500',
+      'zip,33156,all,1000,1900,1800,2500',
+      'zip,33156,all,1000,1200,1800,2500',
+      'zip,33156,all,1000,1200,1800,2600',
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      'Line 2: unknown region_type "city"',
+      'Line 3: invalid zip "3315"',
+      'Line 4: unknown opening_type "skylight"',
+      'Line 5: prices must be positive with floor ≤ low ≤ high ≤ ceiling',
+      'Line 7: duplicate band for zip 33156 / all',
+    ]);
+  });
+
+  it('should reject a CSV without the expected columns or rows', () => {
+    expect(parseBenchmarkCsv('region,price\nmiami,1500').errors).toEqual([
+      'Missing column(s): region_type, opening_type, floor, low, high, ceiling',
+    ]);
+    expect(parseBenchmarkCsv(HEADER).errors).toEqual(['CSV has no benchmark rows']);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Price Benchmarks - Regional Price Bands
+ *
+ * Price bands used by the price pillar and the per-opening breakdown.
+ * Bands are keyed by region (ZIP, ZIP prefix, county or state) and opening type;
+ * 'all' is the blended price per opening. Regional bands are loaded from the
+ * versioned benchmark tables (see benchmarkService); the built-in set below is
+ * the fallback when no imported band covers a lead.
+ *
+ * CSV format (one band per row):
+ *   region_type,region,opening_type,floor,low,high,ceiling
+ *   county,miami-dade,all,1100,1400,2100,2900
+ */
+
+import type { OpeningType } from './scannerEngine';
+
+// ============================================
+// TYPES
+// ============================================
+
+// floor ≤ low ≤ high ≤ ceiling: [low, high] is fair; outside floor/ceiling is far off market
+export interface PriceBand {
+  floor: number;
+  low: number;
+  high: number;
+  ceiling: number;
+}
+
+export type BenchmarkOpeningType = OpeningType | 'all';
+
+export type BenchmarkBands = Partial<Record<BenchmarkOpeningType, PriceBand>>;
+
+export type RegionType = 'zip' | 'zip3' | 'county' | 'state';
+
+export interface BenchmarkRegion {
+  regionType: RegionType;
+  regionKey: string;
+}
+
+// The bands one scan is scored against
+export interface RegionalBenchmarks {
+  version: string;
+  region: string;
+  bands: BenchmarkBands;
+}
+
+export interface BenchmarkRow extends BenchmarkRegion, PriceBand {
+  openingType: BenchmarkOpeningType;
+}
+
+export interface BenchmarkCsvResult {
+  rows: BenchmarkRow[];
+  errors: string[];
+}
+
+export const BUILTIN_BENCHMARK_VERSION = 'builtin';
+
+const BENCHMARK_OPENING_TYPES: readonly BenchmarkOpeningType[] = [
+  'all',
+  'single_hung',
+  'double_hung',
+  'horizontal_roller',
+  'casement',
+  'awning',
+  'fixed',
+  'sliding_door',
+  'french_door',
+  'entry_door',
+  'other',
+];
+
+const REGION_TYPES: readonly RegionType[] = ['zip', 'zip3', 'county', 'state'];
+
+// Most specific first
+const REGION_PRIORITY: Record<RegionType, number> = { zip: 0, zip3: 1, county: 2, state: 3 };
+
+const CSV_COLUMNS = ['region_type', 'region', 'opening_type', 'floor', 'low', 'high', 'ceiling'] as const;
+
+// Installed impact prices, statewide
+export const DEFAULT_BENCHMARKS: RegionalBenchmarks = {
+  version: BUILTIN_BENCHMARK_VERSION,
+  region: 'Florida',
+  bands: {
+    all: { floor: 1000, low: 1200, high: 1800, ceiling: 2500 },
+    single_hung: { floor: 550, low: 900, high: 1800, ceiling: 2350 },
+    double_hung: { floor: 600, low: 1000, high: 2000, ceiling: 2600 },
+    horizontal_roller: { floor: 550, low: 900, high: 1900, ceiling: 2450 },
+    casement: { floor: 700, low: 1200, high: 2500, ceiling: 3250 },
+    awning: { floor: 600, low: 1000, high: 2200, ceiling: 2850 },
+    fixed: { floor: 500, low: 800, high: 2200, ceiling: 2850 },
+    sliding_door: { floor: 1700, low: 2800, high: 6500, ceiling: 8500 },
+    french_door: { floor: 2100, low: 3500, high: 8000, ceiling: 10400 },
+    entry_door: { floor: 1500, low: 2500, high: 6500, ceiling: 8500 },
+  },
+};
+
+// OCR city → county, for leads without a usable ZIP band
+const CITY_COUNTIES: Record<string, string> = {
+  'miami': 'miami-dade',
+  'miami beach': 'miami-dade',
+  'hialeah': 'miami-dade',
+  'homestead': 'miami-dade',
+  'coral gables': 'miami-dade',
+  'doral': 'miami-dade',
+  'kendall': 'miami-dade',
+  'fort lauderdale': 'broward',
+  'hollywood': 'broward',
+  'pembroke pines': 'broward',
+  'coral springs': 'broward',
+  'pompano beach': 'broward',
+  'davie': 'broward',
+  'plantation': 'broward',
+  'weston': 'broward',
+  'west palm beach': 'palm-beach',
+  'boca raton': 'palm-beach',
+  'boynton beach': 'palm-beach',
+  'delray beach': 'palm-beach',
+  'jupiter': 'palm-beach',
+  'wellington': 'palm-beach',
+  'naples': 'collier',
+  'fort myers': 'lee',
+  'cape coral': 'lee',
+  'sarasota': 'sarasota',
+  'bradenton': 'manatee',
+  'tampa': 'hillsborough',
+  'st. petersburg': 'pinellas',
+  'st petersburg': 'pinellas',
+  'clearwater': 'pinellas',
+  'orlando': 'orange',
+  'kissimmee': 'osceola',
+  'daytona beach': 'volusia',
+  'melbourne': 'brevard',
+  'palm bay': 'brevard',
+  'port st. lucie': 'st-lucie',
+  'port st lucie': 'st-lucie',
+  'stuart': 'martin',
+  'vero beach': 'indian-river',
+  'key west': 'monroe',
+  'jacksonville': 'duval',
+  'tallahassee': 'leon',
+  'gainesville': 'alachua',
+  'pensacola': 'escambia',
+};
+
+// ZIP prefix → the county it (almost entirely) covers; also drives the wind zones
+const ZIP3_COUNTIES: Record<string, string> = {
+  '322': 'duval',
+  '323': 'leon',
+  '328': 'orange',
+  '329': 'brevard',
+  '330': 'miami-dade',
+  '331': 'miami-dade',
+  '332': 'miami-dade',
+  '333': 'broward',
+  '334': 'palm-beach',
+  '336': 'hillsborough',
+  '337': 'pinellas',
+  '338': 'polk',
+  '339': 'lee',
+  '341': 'collier',
+  '349': 'st-lucie',
+};
+
+// Monroe County ZIPs inside the 330 prefix (the rest of 330-333 is Miami-Dade / Broward)
+const KEYS_ZIPS = new Set([
+  '33001', '33036', '33037', '33040', '33041', '33042', '33043', '33045', '33050', '33051', '33052', '33070',
+]);
+
+// ============================================
+// REGIONS
+// ============================================
+
+/**
+ * Normalize a county name for lookup ("Miami-Dade County" → "miami-dade")
+ */
+export function normalizeCountyKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\bcounty\b/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-');
+}
+
+function normalizeRegionKey(regionType: RegionType, value: string): string {
+  const trimmed = value.trim();
+  if (regionType === 'county') return normalizeCountyKey(trimmed);
+  if (regionType === 'state') return trimmed.toUpperCase();
+  return trimmed;
+}
+
+/**
+ * County for an OCR city, if known
+ */
+export function getCountyForCity(city: string | null | undefined): string | null {
+  if (!city) return null;
+  const key = city.toLowerCase().replace(/,.*$/, '').replace(/\s+/g, ' ').trim();
+  return CITY_COUNTIES[key] ?? null;
+}
+
+/**
+ * County for a ZIP (or ZIP+4), if its prefix is known
+ */
+export function getCountyForZip(zip: string | null | undefined): string | null {
+  const zip5 = zip?.trim().match(/^(\d{5})(-\d{4})?$/)?.[1];
+  if (!zip5) return null;
+  if (KEYS_ZIPS.has(zip5)) return 'monroe';
+  return ZIP3_COUNTIES[zip5.slice(0, 3)] ?? null;
+}
+
+/**
+ * Regions that could cover a lead, most specific first
+ * The county comes from the ZIP when its prefix is known, else the OCR city.
+ */
+export function getRegionCandidates(zip: string | null | undefined, city: string | null | undefined): BenchmarkRegion[] {
+  const regions: BenchmarkRegion[] = [];
+  const zip5 = zip?.trim().match(/^(\d{5})(-\d{4})?$/)?.[1];
+
+  if (zip5) {
+    regions.push({ regionType: 'zip', regionKey: zip5 });
+    regions.push({ regionType: 'zip3', regionKey: zip5.slice(0, 3) });
+  }
+
+  const county = getCountyForZip(zip5) ?? getCountyForCity(city);
+  if (county) {
+    regions.push({ regionType: 'county', regionKey: county });
+  }
+
+  regions.push({ regionType: 'state', regionKey: 'FL' });
+  return regions;
+}
+
+export function describeRegion(region: BenchmarkRegion): string {
+  switch (region.regionType) {
+    case 'zip':
+      return `ZIP ${region.regionKey}`;
+    case 'zip3':
+      return `ZIP ${region.regionKey}xx`;
+    case 'county':
+      return `${region.regionKey.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join('-')} County`;
+    case 'state':
+      return region.regionKey === 'FL' ? 'Florida' : region.regionKey;
+  }
+}
+
+/**
+ * Pick the most specific band per opening type from a version's rows
+ * Opening types no row covers keep the built-in band.
+ */
+export function resolveBenchmarks(
+  version: string,
+  rows: BenchmarkRow[],
+  candidates: BenchmarkRegion[]
+): RegionalBenchmarks {
+  const bands: BenchmarkBands = { ...DEFAULT_BENCHMARKS.bands };
+  const matched = rows
+    .filter(row => candidates.some(c => c.regionType === row.regionType && c.regionKey === row.regionKey))
+    .sort((a, b) => REGION_PRIORITY[b.regionType] - REGION_PRIORITY[a.regionType]);
+
+  // Least specific first, so more specific rows overwrite
+  for (const row of matched) {
+    bands[row.openingType] = { floor: row.floor, low: row.low, high: row.high, ceiling: row.ceiling };
+  }
+
+  const blended = matched.filter(row => row.openingType === 'all');
+  const region = blended.length > 0
+    ? describeRegion(blended[blended.length - 1])
+    : DEFAULT_BENCHMARKS.region;
+
+  return { version: matched.length > 0 ? version : BUILTIN_BENCHMARK_VERSION, region, bands };
+}
+
+// ============================================
+// CSV IMPORT
+// ============================================
+
+function isOrderedBand(band: PriceBand): boolean {
+  const values = [band.floor, band.low, band.high, band.ceiling];
+  return values.every(n => Number.isFinite(n) && n > 0)
+    && band.floor <= band.low && band.low <= band.high && band.high <= band.ceiling;
+}
+
+function isValidRegionKey(regionType: RegionType, key: string): boolean {
+  switch (regionType) {
+    case 'zip':
+      return /^\d{5}$/.test(key);
+    case 'zip3':
+      return /^\d{3}$/.test(key);
+    case 'county':
+      return /^[a-z.-]+$/.test(key);
+    case 'state':
+      return /^[A-Z]{2}$/.test(key);
+  }
+}
+
+/**
+ * Parse and validate a benchmark CSV
+ * Every problem is reported with its line number; duplicate bands are rejected.
+ */
+export function parseBenchmarkCsv(csv: string): BenchmarkCsvResult {
+  const lines = csv.split(/\r?\n/).map(line => line.trim());
+  const errors: string[] = [];
+  const rows: BenchmarkRow[] = [];
+
+  const header = (lines[0] ?? '').toLowerCase().split(',').map(col => col.trim());
+  const missing = CSV_COLUMNS.filter(col => !header.includes(col));
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const seen = new Set<string>();
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i]) continue;
+
+    const lineNumber = i + 1;
+    const cells = lines[i].split(',').map(cell => cell.trim());
+    const value = (column: typeof CSV_COLUMNS[number]) => cells[header.indexOf(column)] ?? '';
+
+    const regionType = value('region_type').toLowerCase() as RegionType;
+    if (!REGION_TYPES.includes(regionType)) {
+      errors.push(`Line ${lineNumber}: unknown region_type "${value('region_type')}"`);
+      continue;
+    }
+
+    const regionKey = normalizeRegionKey(regionType, value('region'));
+    if (!isValidRegionKey(regionType, regionKey)) {
+      errors.push(`Line ${lineNumber}: invalid ${regionType} "${value('region')}"`);
+      continue;
+    }
+
+    const openingType = value('opening_type').toLowerCase() as BenchmarkOpeningType;
+    if (!BENCHMARK_OPENING_TYPES.includes(openingType)) {
+      errors.push(`Line ${lineNumber}: unknown opening_type "${value('opening_type')}"`);
+      continue;
+    }
+
+    const band: PriceBand = {
+      floor: Number(value('floor')),
+      low: Number(value('low')),
+      high: Number(value('high')),
+      ceiling: Number(value('ceiling')),
+    };
+    if (!isOrderedBand(band)) {
+      errors.push(`Line ${lineNumber}: prices must be positive with floor ≤ low ≤ high ≤ ceiling`);
+      continue;
+    }
+
+    const key = `${regionType}:${regionKey}:${openingType}`;
+    if (seen.has(key)) {
+      errors.push(`Line ${lineNumber}: duplicate band for ${regionType} ${regionKey} / ${openingType}`);
+      continue;
+    }
+    seen.add(key);
+
+    rows.push({ regionType, regionKey, openingType, ...band });
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push('CSV has no benchmark rows');
+  }
+
+  return { rows, errors };
+}
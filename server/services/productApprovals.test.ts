@@ -0,0 +1,178 @@
+/**
+ * Unit tests for product approval imports, wind zones and approval checks
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  checkProductApprovals,
+  lookupApproval,
+  normalizeApprovalNumber,
+  parseApprovalCsv,
+} from './productApprovals';
+import { getWindZone, WIND_ZONES } from './windZones';
+import type { ProductApprovalCitation } from './scannerEngine';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+const APPROVAL_CSV = [
+  'approval_number,product_type,manufacturer,product_line,hvhz,dp_positive,dp_negative,expires_on',
+  'NOA 21-0512.03,single_hung,PGT,"WinGuard SH700, impact",yes,+70,-70,2099-05-01',
+  'NOA 18-0301.05,casement,PGT,WinGuard CA740,yes,80,80,05/01/2023',
+  'FL17445.1,casement,CGI,Sentinel,no,50,55,',
+  'FL17445.2,sliding_door,CGI,Sentinel SGD,no,45,45,',
+].join('\n');
+
+const citation = (overrides: Partial<ProductApprovalCitation> = {}): ProductApprovalCitation => ({
+  approvalNumber: null,
+  openingType: null,
+  productLine: null,
+  designPressurePositive: null,
+  designPressureNegative: null,
+  page: 1,
+  ...overrides,
+});
+
+const admin = () => adminRouter.createCaller({
+  user: { id: 1, openId: 'admin-1', email: 'ops@example.com', role: 'admin' },
+  req: {},
+  res: {},
+} as any);
+
+describe('normalizeApprovalNumber', () => {
+  it('should normalize NOA and FL numbers as printed on quotes', () => {
+    expect(normalizeApprovalNumber('Miami-Dade NOA No. 21-0512.03')).toBe('NOA 21-0512.03');
+    expect(normalizeApprovalNumber('NOA# 21 - 0512.03')).toBe('NOA 21-0512.03');
+    expect(normalizeApprovalNumber('FL# 17445.1-R3')).toBe('FL17445.1');
+    expect(normalizeApprovalNumber('fl 17445')).toBe('FL17445');
+    expect(normalizeApprovalNumber('DP50')).toBeNull();
+    expect(normalizeApprovalNumber(null)).toBeNull();
+  });
+});
+
+describe('parseApprovalCsv', () => {
+  it('should read approvals with optional expiry dates', () => {
+    const { rows, errors } = parseApprovalCsv(APPROVAL_CSV);
+
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toEqual({
+      approvalNumber: 'NOA 21-0512.03',
+      productType: 'single_hung',
+      manufacturer: 'PGT',
+      productLine: 'WinGuard SH700, impact',
+      hvhz: true,
+      dpPositive: 70,
+      dpNegative: 70,
+      expiresOn: '2099-05-01',
+    });
+    expect(rows[1].expiresOn).toBe('2023-05-01');
+    expect(rows[2]).toMatchObject({ hvhz: false, dpNegative: 55, expiresOn: null });
+  });
+
+  it('should report every bad row with its line number', () => {
+    const { rows, errors } = parseApprovalCsv([
+      'approval_number,product_type,hvhz,dp_positive,dp_negative,expires_on',
+      'ABC,casement,yes,50,50,',
+      'FL101.1,skylight,yes,50,50,',
+      'FL101.2,casement,maybe,50,50,',
+      'FL101.3,casement,no,,50,',
+      'FL101.4,casement,no,50,50,2099-13-01',
+      'FL101.5,casement,no,50,50,',
+      'FL# 101.5,casement,no,50,50,',
+    ].join('\n'));
+
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual([
+      'Line 2: invalid approval_number "ABC"',
+      'Line 3: unknown product_type "skylight"',
+      'Line 4: hvhz must be yes or no',
+      'Line 5: dp_positive and dp_negative must be positive numbers',
+      'Line 6: invalid expires_on "2099-13-01" (use YYYY-MM-DD or MM/DD/YYYY)',
+      'Line 8: duplicate approval FL101.5',
+    ]);
+  });
+
+  it('should require the approval columns', () => {
+    expect(parseApprovalCsv('approval_number,product_type\nFL101.1,casement').errors)
+      .toEqual(['Missing column(s): hvhz, dp_positive, dp_negative, expires_on']);
+  });
+});
+
+describe('getWindZone', () => {
+  it('should place a property by ZIP, then by OCR city', () => {
+    expect(getWindZone('33130', null)).toBe(WIND_ZONES.hvhz);
+    expect(getWindZone('33301-1234', null)).toBe(WIND_ZONES.hvhz);
+    expect(getWindZone('33040', null)).toBe(WIND_ZONES.keys);
+    expect(getWindZone('33480', null)).toBe(WIND_ZONES.high_wind);
+    expect(getWindZone('32801', 'Miami')).toBe(WIND_ZONES.standard);
+    expect(getWindZone(null, 'Fort Lauderdale, FL')).toBe(WIND_ZONES.hvhz);
+    expect(getWindZone('10001', null)).toBeNull();
+    expect(getWindZone(null, null)).toBeNull();
+  });
+});
+
+describe('checkProductApprovals', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('leads', [{ id: LEAD_ID, zip: '33186', ocr_city: 'Miami' }]);
+  });
+
+  it('should check DP ratings against the wind zone before any records are loaded', async () => {
+    const [check] = await checkProductApprovals(LEAD_ID, [
+      citation({ approvalNumber: 'NOA 21-0512.03', designPressurePositive: 40, designPressureNegative: 45 }),
+    ]);
+
+    expect(check).toMatchObject({
+      approvalNumber: 'NOA 21-0512.03',
+      approvalStatus: null,
+      designPressure: 40,
+      requiredDesignPressure: 50,
+      requiresHvhzApproval: true,
+    });
+  });
+
+  it('should report valid, expired and unknown approvals from the newest snapshot', async () => {
+    const imported = await admin().approvals.import({ csv: APPROVAL_CSV, source: 'NOA export' });
+    expect(imported).toMatchObject({ success: true, rowCount: 4 });
+
+    const checks = await checkProductApprovals(LEAD_ID, [
+      citation({ approvalNumber: 'Miami-Dade NOA 21-0512.03', openingType: 'single_hung' }),
+      citation({ approvalNumber: 'NOA 18-0301.05', openingType: 'casement' }),
+      citation({ approvalNumber: 'NOA 99-9999.99' }),
+    ]);
+
+    expect(checks.map(c => [c.approvalStatus, c.designPressure, c.hvhzApproved])).toEqual([
+      ['valid', 70, true],
+      ['expired', 80, true],
+      ['not_found', null, null],
+    ]);
+    expect(checks[1].expiresOn).toBe('2023-05-01');
+  });
+
+  it('should match an FL number without its suffix to the cited product', async () => {
+    await admin().approvals.import({ csv: APPROVAL_CSV });
+
+    const [door, casement] = await checkProductApprovals(LEAD_ID, [
+      citation({ approvalNumber: 'FL 17445', openingType: 'sliding_door' }),
+      citation({ approvalNumber: 'FL17445.2', openingType: 'casement' }),
+    ]);
+
+    expect(door).toMatchObject({ approvedProductType: 'sliding_door', hvhzApproved: false, designPressure: 45 });
+    expect(casement).toMatchObject({ citedProductType: 'casement', approvedProductType: 'sliding_door' });
+    expect((await lookupApproval('FL17445'))?.record?.approvalNumber).toBe('FL17445.1');
+    expect(await admin().approvals.lookup({ approvalNumber: 'FL 99999' })).toEqual({ status: 'not_found', record: null });
+  });
+
+  it('should skip the lead lookup when the quote cites nothing', async () => {
+    expect(await checkProductApprovals(LEAD_ID, [])).toEqual([]);
+    expect(await checkProductApprovals(LEAD_ID)).toEqual([]);
+  });
+});
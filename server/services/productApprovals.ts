@@ -0,0 +1,420 @@
+/**
+ * Product Approvals - NOA / Florida Product Approval Records
+ *
+ * Admins import a CSV snapshot of product approvals (Miami-Dade NOAs and
+ * Florida FL# approvals); the newest complete snapshot is used. Each approval
+ * number or DP rating printed on a quote is checked for:
+ * - a valid number (found in the records) that hasn't expired
+ * - a product type matching what the quote cites it for
+ * - HVHZ approval when the property is in the High Velocity Hurricane Zone
+ * - a design pressure at least what the property's wind zone needs (see windZones)
+ *
+ * The results become the approvalChecks signal scoreFromSignals warns on.
+ * Without a snapshot, numbers aren't checked but DP ratings still are.
+ */
+
+import { supabase } from './supabaseClient';
+import { parseCsvDate, splitCsvLine } from './csv';
+import { OPENING_TYPES } from './lineItemPricing';
+import { getWindZone, type WindZone } from './windZones';
+import type {
+  ApprovalStatus,
+  OpeningType,
+  ProductApprovalCheck,
+  ProductApprovalCitation,
+} from './scannerEngine';
+
+const CSV_COLUMNS = ['approval_number', 'product_type', 'hvhz', 'dp_positive', 'dp_negative', 'expires_on'] as const;
+
+const YES_VALUES = ['yes', 'y', 'true', '1'];
+const NO_VALUES = ['no', 'n', 'false', '0'];
+
+// Rows written per insert during an import
+const IMPORT_BATCH_SIZE = 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ProductApprovalRecord {
+  approvalNumber: string;
+  productType: OpeningType;
+  manufacturer: string | null;
+  productLine: string | null;
+  hvhz: boolean;
+  dpPositive: number;
+  dpNegative: number;
+  expiresOn: string | null; // YYYY-MM-DD; null = no expiration
+}
+
+export interface ApprovalCsvResult {
+  rows: ProductApprovalRecord[];
+  errors: string[];
+}
+
+export interface ApprovalImportInput {
+  csv: string;
+  source?: string;
+  importedBy?: string | null;
+}
+
+export interface ApprovalImportResult {
+  success: boolean;
+  snapshotId: string | null;
+  rowCount: number;
+  errors: string[];
+}
+
+export interface ApprovalSnapshot {
+  id: string;
+  source: string | null;
+  rowCount: number;
+  importedBy: string | null;
+  createdAt: string;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * "Miami-Dade NOA No. 21-0512.03" → "NOA 21-0512.03"; "FL# 17445.1-R3" → "FL17445.1"
+ * Returns null for anything that isn't an NOA or FL number.
+ */
+export function normalizeApprovalNumber(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const text = raw.toUpperCase();
+
+  const fl = text.match(/\bFL\s*(?:#|NO\.?)?\s*(\d{3,6})(?:\.(\d{1,3}))?/);
+  if (fl) {
+    return `FL${fl[1]}${fl[2] ? `.${fl[2]}` : ''}`;
+  }
+
+  const noa = text.match(/\b(\d{2})\s*-\s*(\d{4})\s*\.\s*(\d{2})\b/);
+  if (noa) {
+    return `NOA ${noa[1]}-${noa[2]}.${noa[3]}`;
+  }
+
+  return null;
+}
+
+function parseYesNo(value: string): boolean | null {
+  const text = value.toLowerCase();
+  if (YES_VALUES.includes(text)) return true;
+  if (NO_VALUES.includes(text)) return false;
+  return null;
+}
+
+// "+50" / "-60" / "50" → 50, 60, 50
+function parseDesignPressure(value: string): number | null {
+  const dp = Math.abs(Number(value.replace(/^[+±]/, '')));
+  return value && Number.isFinite(dp) && dp > 0 ? dp : null;
+}
+
+/**
+ * Lower of two DP ratings (either may be missing)
+ */
+function lowerRating(positive: number | null, negative: number | null): number | null {
+  const ratings = [positive, negative].filter((dp): dp is number => dp !== null);
+  return ratings.length > 0 ? Math.min(...ratings) : null;
+}
+
+/**
+ * Parse and validate a product approval CSV
+ * Columns: approval_number,product_type,hvhz,dp_positive,dp_negative,expires_on
+ * (manufacturer, product_line optional; a blank expires_on never expires).
+ * Every problem is reported with its line number; repeated approvals are rejected.
+ */
+export function parseApprovalCsv(csv: string): ApprovalCsvResult {
+  const lines = csv.split(/\r?\n/);
+  const errors: string[] = [];
+  const rows: ProductApprovalRecord[] = [];
+
+  const header = splitCsvLine(lines[0] ?? '').map(col => col.toLowerCase());
+  const missing = CSV_COLUMNS.filter(col => !header.includes(col));
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const seen = new Set<string>();
+
+  for (let i = 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+
+    const lineNumber = i + 1;
+    const cells = splitCsvLine(lines[i]);
+    const value = (column: string) => (header.includes(column) ? cells[header.indexOf(column)] ?? '' : '');
+
+    const approvalNumber = normalizeApprovalNumber(value('approval_number'));
+    if (!approvalNumber) {
+      errors.push(`Line ${lineNumber}: invalid approval_number "${value('approval_number')}"`);
+      continue;
+    }
+
+    const productType = value('product_type').toLowerCase() as OpeningType;
+    if (!OPENING_TYPES.includes(productType)) {
+      errors.push(`Line ${lineNumber}: unknown product_type "${value('product_type')}"`);
+      continue;
+    }
+
+    const hvhz = parseYesNo(value('hvhz'));
+    if (hvhz === null) {
+      errors.push(`Line ${lineNumber}: hvhz must be yes or no`);
+      continue;
+    }
+
+    const dpPositive = parseDesignPressure(value('dp_positive'));
+    const dpNegative = parseDesignPressure(value('dp_negative'));
+    if (dpPositive === null || dpNegative === null) {
+      errors.push(`Line ${lineNumber}: dp_positive and dp_negative must be positive numbers`);
+      continue;
+    }
+
+    const expiresOn = value('expires_on') ? parseCsvDate(value('expires_on')) : null;
+    if (value('expires_on') && !expiresOn) {
+      errors.push(`Line ${lineNumber}: invalid expires_on "${value('expires_on')}" (use YYYY-MM-DD or MM/DD/YYYY)`);
+      continue;
+    }
+
+    if (seen.has(approvalNumber)) {
+      errors.push(`Line ${lineNumber}: duplicate approval ${approvalNumber}`);
+      continue;
+    }
+    seen.add(approvalNumber);
+
+    rows.push({
+      approvalNumber,
+      productType,
+      manufacturer: value('manufacturer') || null,
+      productLine: value('product_line') || null,
+      hvhz,
+      dpPositive,
+      dpNegative,
+      expiresOn,
+    });
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push('CSV has no approval rows');
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Check one citation against its record (null: no number or no records) and the wind zone
+ */
+export function buildApprovalCheck(
+  citation: ProductApprovalCitation,
+  lookup: { status: ApprovalStatus; record: ProductApprovalRecord | null } | null,
+  windZone: WindZone | null
+): ProductApprovalCheck {
+  const record = lookup?.record ?? null;
+
+  return {
+    approvalNumber: normalizeApprovalNumber(citation.approvalNumber) ?? citation.approvalNumber,
+    approvalStatus: lookup?.status ?? null,
+    expiresOn: record?.expiresOn ?? null,
+    citedProductType: citation.openingType,
+    approvedProductType: record?.productType ?? null,
+    hvhzApproved: record ? record.hvhz : null,
+    designPressure: lowerRating(citation.designPressurePositive, citation.designPressureNegative)
+      ?? (record ? Math.min(record.dpPositive, record.dpNegative) : null),
+    requiredDesignPressure: windZone?.minDesignPressure ?? null,
+    windZone: windZone?.name ?? null,
+    requiresHvhzApproval: windZone?.requiresHvhzApproval ?? false,
+    page: citation.page ?? null,
+  };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+function mapApprovalRow(row: Record<string, any>): ProductApprovalRecord {
+  return {
+    approvalNumber: row.approval_number,
+    productType: row.product_type,
+    manufacturer: row.manufacturer ?? null,
+    productLine: row.product_line ?? null,
+    hvhz: !!row.hvhz,
+    dpPositive: Number(row.dp_positive),
+    dpNegative: Number(row.dp_negative),
+    expiresOn: row.expires_on ?? null,
+  };
+}
+
+async function getCurrentSnapshotId(): Promise<string | null> {
+  const { data } = await supabase.from('product_approval_snapshots')
+    .select('id')
+    .eq('is_complete', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+/**
+ * Import a product approval CSV as the new snapshot
+ * Nothing is used if any row fails validation or the rows fail to save.
+ */
+export async function importApprovalCsv(input: ApprovalImportInput): Promise<ApprovalImportResult> {
+  const { rows, errors } = parseApprovalCsv(input.csv);
+
+  if (errors.length > 0) {
+    return { success: false, snapshotId: null, rowCount: 0, errors };
+  }
+
+  const { data: snapshot, error: snapshotError } = await supabase.from('product_approval_snapshots')
+    .insert({
+      source: input.source || null,
+      row_count: rows.length,
+      is_complete: false,
+      imported_by: input.importedBy || null,
+      created_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (snapshotError || !snapshot) {
+    console.error('[Approvals] Failed to create snapshot:', snapshotError);
+    return { success: false, snapshotId: null, rowCount: 0, errors: ['Failed to save approval snapshot'] };
+  }
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const { error } = await supabase.from('product_approvals')
+      .insert(rows.slice(start, start + IMPORT_BATCH_SIZE).map(row => ({
+        snapshot_id: snapshot.id,
+        approval_number: row.approvalNumber,
+        product_type: row.productType,
+        manufacturer: row.manufacturer,
+        product_line: row.productLine,
+        hvhz: row.hvhz,
+        dp_positive: row.dpPositive,
+        dp_negative: row.dpNegative,
+        expires_on: row.expiresOn,
+      })));
+
+    if (error) {
+      console.error('[Approvals] Failed to save rows:', error);
+      await supabase.from('product_approval_snapshots').delete().eq('id', snapshot.id);
+      return { success: false, snapshotId: null, rowCount: 0, errors: ['Failed to save approval rows'] };
+    }
+  }
+
+  // Only a fully written snapshot is ever looked up
+  await supabase.from('product_approval_snapshots').update({ is_complete: true }).eq('id', snapshot.id);
+
+  console.log(`[Approvals] Imported snapshot ${snapshot.id} (${rows.length} approvals)`);
+  return { success: true, snapshotId: snapshot.id, rowCount: rows.length, errors: [] };
+}
+
+/**
+ * Imported snapshots, newest first
+ */
+export async function listApprovalSnapshots(): Promise<ApprovalSnapshot[]> {
+  const { data, error } = await supabase.from('product_approval_snapshots')
+    .select('*')
+    .eq('is_complete', true)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) {
+    return [];
+  }
+
+  return data.map(row => ({
+    id: row.id,
+    source: row.source ?? null,
+    rowCount: row.row_count ?? 0,
+    importedBy: row.imported_by ?? null,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Look up an approval number in a snapshot
+ * A number without its product suffix (FL17445) matches any of its products
+ * (FL17445.1, FL17445.2, ...), preferring the cited product type.
+ */
+async function findApproval(
+  snapshotId: string,
+  approvalNumber: string,
+  productType: OpeningType | null
+): Promise<ProductApprovalRecord | null> {
+  const { data: exact } = await supabase.from('product_approvals')
+    .select('*')
+    .eq('snapshot_id', snapshotId)
+    .eq('approval_number', approvalNumber)
+    .limit(1);
+
+  if (exact && exact.length > 0) {
+    return mapApprovalRow(exact[0]);
+  }
+  if (!/^FL\d+$/.test(approvalNumber)) {
+    return null;
+  }
+
+  const { data: products } = await supabase.from('product_approvals')
+    .select('*')
+    .eq('snapshot_id', snapshotId)
+    .ilike('approval_number', `${approvalNumber}.%`)
+    .limit(50);
+
+  const records = (products ?? []).map(mapApprovalRow);
+  return records.find(record => record.productType === productType) ?? records[0] ?? null;
+}
+
+/**
+ * Status of one approval number in the newest snapshot (null when no snapshot is loaded)
+ */
+export async function lookupApproval(
+  raw: string,
+  productType: OpeningType | null = null,
+  today: string = new Date().toISOString().slice(0, 10)
+): Promise<{ status: ApprovalStatus; record: ProductApprovalRecord | null } | null> {
+  const snapshotId = await getCurrentSnapshotId();
+  if (!snapshotId) {
+    return null;
+  }
+
+  const approvalNumber = normalizeApprovalNumber(raw);
+  const record = approvalNumber ? await findApproval(snapshotId, approvalNumber, productType) : null;
+
+  if (!record) {
+    return { status: 'not_found', record: null };
+  }
+  return {
+    status: record.expiresOn && record.expiresOn < today ? 'expired' : 'valid',
+    record,
+  };
+}
+
+/**
+ * Check every approval / DP rating cited on a lead's quote
+ * The wind zone comes from the lead's ZIP (or OCR city).
+ */
+export async function checkProductApprovals(
+  leadId: string,
+  citations: ProductApprovalCitation[] = []
+): Promise<ProductApprovalCheck[]> {
+  if (citations.length === 0) {
+    return [];
+  }
+
+  const { data: lead } = await supabase.from('leads')
+    .select('zip, ocr_city')
+    .eq('id', leadId)
+    .maybeSingle();
+  const windZone = getWindZone(lead?.zip, lead?.ocr_city);
+
+  const checks: ProductApprovalCheck[] = [];
+  for (const citation of citations) {
+    const lookup = citation.approvalNumber
+      ? await lookupApproval(citation.approvalNumber, citation.openingType)
+      : null;
+    checks.push(buildApprovalCheck(citation, lookup, windZone));
+  }
+
+  return checks;
+}
@@ -0,0 +1,258 @@
+/**
+ * Unit tests for the server-side quote analysis building blocks
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSignals, llmResponse } from '../testing/quoteFixtures';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+vi.mock('../storage', () => ({
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://files.example.com/${key}` })),
+}));
+
+vi.mock('../_core/llm', () => ({
+  invokeLLM: vi.fn(),
+  isLLMConfigured: () => true,
+}));
+
+import { invokeLLM } from '../_core/llm';
+import { supabase } from './supabaseClient';
+import { scoreWithRubric } from './scoringRubrics';
+import {
+  extractStoredQuote,
+  getScanResult,
+  parseExtractionResponse,
+  saveScan,
+  type StoredQuoteExtraction,
+} from './quoteAnalysisService';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+describe('parseExtractionResponse', () => {
+  it('should parse JSON text content', () => {
+    const signals = parseExtractionResponse(llmResponse(JSON.stringify(createSignals())));
+    expect(signals.totalPriceValue).toBe(15000);
+  });
+
+  it('should join array text parts', () => {
+    const json = JSON.stringify(createSignals());
+    const result = llmResponse('');
+    result.choices[0].message.content = [
+      { type: 'text', text: json.slice(0, 20) },
+      { type: 'text', text: json.slice(20) },
+    ] as unknown as string;
+    expect(parseExtractionResponse(result).isValidQuote).toBe(true);
+  });
+
+  it('should throw a friendly error on invalid JSON', () => {
+    expect(() => parseExtractionResponse(llmResponse('not json'))).toThrow('Failed to parse AI response');
+  });
+});
+
+describe('extractStoredQuote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.reset();
+    db.seed('leads', [{ id: LEAD_ID, ocr_city: 'Miami' }]);
+  });
+
+  it('should send PDFs as file parts with the OCR city as the area hint', async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+
+    const extraction = await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [{ key: `estimates/${LEAD_ID}/abc.pdf`, mimeType: 'application/pdf' }],
+    });
+
+    expect(extraction.quoteUrls).toEqual([`https://files.example.com/estimates/${LEAD_ID}/abc.pdf`]);
+    expect(extraction.modelVersion).toBe('gemini-2.5-flash');
+    expect(extraction.signals.totalPriceValue).toBe(15000);
+
+    const params = vi.mocked(invokeLLM).mock.calls[0][0];
+    const userContent = params.messages[1].content as unknown[];
+    expect(userContent[0]).toContain('Miami, Florida');
+    expect(userContent[1]).toMatchObject({ type: 'file_url' });
+    expect(params.outputSchema?.name).toBe('extraction_signals');
+  });
+
+  it('should send images as high-detail image parts', async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+
+    await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [{ key: `estimates/${LEAD_ID}/abc.png`, mimeType: 'image/png' }],
+    });
+
+    const userContent = vi.mocked(invokeLLM).mock.calls[0][0].messages[1].content as unknown[];
+    expect(userContent[1]).toMatchObject({ type: 'image_url', image_url: { detail: 'high' } });
+  });
+
+  it('should give the homeowner\'s opening count only to a single-document extraction', async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals({ openingCountEstimate: 10 }))));
+    const prompt = (call: number) => (vi.mocked(invokeLLM).mock.calls[call][0].messages[1].content as string[])[0];
+
+    await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [{ key: `estimates/${LEAD_ID}/abc.pdf`, mimeType: 'application/pdf' }],
+      openingCountHint: 10,
+    });
+    expect(prompt(0)).toContain('The homeowner says there are approximately 10 openings');
+
+    // Both parts still report the whole quote's count
+    const extraction = await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [
+        { key: `estimates/${LEAD_ID}/page-1.jpg`, mimeType: 'image/jpeg' },
+        { key: `estimates/${LEAD_ID}/page-2.jpg`, mimeType: 'image/jpeg' },
+      ],
+      openingCountHint: 10,
+    });
+    expect(prompt(1)).not.toContain('The homeowner says');
+    expect(prompt(2)).not.toContain('The homeowner says');
+    expect(extraction.signals.openingCountEstimate).toBe(10);
+  });
+
+  it('should read each page in order and merge them with page provenance', async () => {
+    vi.mocked(invokeLLM)
+      .mockResolvedValueOnce(llmResponse(JSON.stringify(createSignals({
+        pageCount: 3,
+        totalPriceValue: null,
+        totalPriceFound: false,
+        hasPermitMention: false,
+        evidence: [{ signal: 'hasComplianceKeyword', page: 2, snippet: 'Miami-Dade NOA 21-0101.05' }],
+      }))))
+      .mockResolvedValueOnce(llmResponse(JSON.stringify(createSignals({
+        hasPermitMention: true,
+        evidence: [],
+      }))));
+
+    const extraction = await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [
+        { key: `estimates/${LEAD_ID}/quote.pdf`, mimeType: 'application/pdf' },
+        { key: `estimates/${LEAD_ID}/photo.jpg`, mimeType: 'image/jpeg' },
+      ],
+    });
+
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+    const secondPrompt = (vi.mocked(invokeLLM).mock.calls[1][0].messages[1].content as string[])[0];
+    expect(secondPrompt).toContain('part 2 of 2');
+
+    expect(extraction.pageCount).toBe(4);
+    expect(extraction.quoteUrls).toHaveLength(2);
+    expect(extraction.signals.totalPriceValue).toBe(15000);
+    expect(extraction.signalPages.totalPriceValue).toEqual([4]);
+    expect(extraction.signalPages.hasPermitMention).toEqual([4]);
+    expect(extraction.signalPages.hasComplianceKeyword).toEqual([2, 4]);
+    expect(extraction.signals.evidence).toEqual([
+      { signal: 'hasComplianceKeyword', page: 2, snippet: 'Miami-Dade NOA 21-0101.05', bbox: null },
+    ]);
+  });
+  it('should reuse the signals of an earlier scan of the same file', async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+    db.seed('quote_uploads', [
+      { storage_key: `estimates/${LEAD_ID}/first.pdf`, sha256: 'abc123' },
+      { storage_key: `estimates/${LEAD_ID}/again.pdf`, sha256: 'abc123' },
+    ]);
+
+    const first = await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [{ key: `estimates/${LEAD_ID}/first.pdf`, mimeType: 'application/pdf' }],
+    });
+    expect(first).toMatchObject({ contentHash: 'abc123', cachedFromScanId: null });
+
+    const scanId = await saveScan(LEAD_ID, first, scoreWithRubric(first.signals, null), 900);
+    expect(db.table('scans')[0].content_hash).toBe('abc123');
+
+    const second = await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [{ key: `estimates/${LEAD_ID}/again.pdf`, mimeType: 'application/pdf' }],
+    });
+
+    expect(invokeLLM).toHaveBeenCalledTimes(1);
+    expect(second.cachedFromScanId).toBe(scanId);
+    expect(second.signals).toEqual(first.signals);
+    expect(second.modelVersion).toBe('gemini-2.5-flash');
+    expect(second.quoteUrls).toEqual([`https://files.example.com/estimates/${LEAD_ID}/again.pdf`]);
+  });
+
+  it('should call the model when an upload has no recorded hash', async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+    db.seed('quote_uploads', [{ storage_key: `estimates/${LEAD_ID}/p1.pdf`, sha256: 'abc123' }]);
+    db.seed('scans', [{ id: 'scan-old', content_hash: 'abc123', raw_response: JSON.stringify(createSignals()), audit_details: {}, created_at: '2026-10-01T00:00:00Z' }]);
+
+    const extraction = await extractStoredQuote({
+      leadId: LEAD_ID,
+      pages: [
+        { key: `estimates/${LEAD_ID}/p1.pdf`, mimeType: 'application/pdf' },
+        { key: `estimates/${LEAD_ID}/p2.jpg`, mimeType: 'image/jpeg' },
+      ],
+    });
+
+    expect(invokeLLM).toHaveBeenCalledTimes(2);
+    expect(extraction).toMatchObject({ contentHash: null, cachedFromScanId: null });
+  });
+});
+
+describe('saveScan / getScanResult', () => {
+  const createExtraction = (): StoredQuoteExtraction => ({
+    signals: createSignals(),
+    modelVersion: 'gemini-2.5-flash',
+    quoteUrls: ['https://files.example.com/q.pdf', 'https://files.example.com/p2.jpg'],
+    pageCount: 2,
+    signalPages: { totalPriceValue: [2] },
+    openingCountHint: null,
+    contentHash: 'hash-1',
+    cachedFromScanId: null,
+  });
+
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('should round-trip the client-safe result without raw signals', async () => {
+    const analysis = scoreWithRubric(createSignals(), null);
+    const scanId = await saveScan(LEAD_ID, createExtraction(), analysis, 1200);
+
+    expect(scanId).toBeTruthy();
+    expect(db.table('scans')[0].quote_url).toBe('https://files.example.com/q.pdf');
+    expect(db.table('scans')[0].audit_details.model_version).toBe('gemini-2.5-flash');
+    expect(db.table('scans')[0].audit_details.rubric_version).toBe('v3');
+
+    const result = await getScanResult(scanId!);
+    expect(result).toMatchObject({
+      overallScore: analysis.overallScore,
+      pricePerOpening: '$1,500',
+      warnings: analysis.warnings,
+      pageCount: 2,
+      signalPages: { totalPriceValue: [2] },
+      warningCitations: analysis.warningCitations,
+    });
+    expect(result).not.toHaveProperty('rawSignals');
+  });
+
+  it('should store the per-opening breakdown with the scan', async () => {
+    const analysis = scoreWithRubric(createSignals({
+      lineItems: [
+        { openingType: 'sliding_door', description: '12ft slider', widthInches: 144, heightInches: 96, productLine: null, quantity: 1, unitPrice: 9000, totalPrice: 9000, page: 1 },
+      ],
+    }), null);
+    const scanId = await saveScan(LEAD_ID, createExtraction(), analysis, 0);
+
+    const result = await getScanResult(scanId!);
+    expect(result?.lineItems).toEqual(analysis.lineItems);
+    expect(result?.openingBreakdown).toEqual(analysis.openingBreakdown);
+    expect(result?.priceOutliers).toHaveLength(1);
+  });
+
+  it('should return null when the insert fails', async () => {
+    db.failing.add('scans');
+    const analysis = scoreWithRubric(createSignals(), null);
+
+    expect(await saveScan(LEAD_ID, createExtraction(), analysis, 0)).toBeNull();
+  });
+});
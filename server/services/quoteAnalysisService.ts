@@ -0,0 +1,327 @@
+/**
+ * Quote Analysis Service
+ *
+ * Building blocks for Path Alpha quote audits:
+ * stored upload(s) → LLM signal extraction per document → merge → license / product approval checks → (scoring) → scans row.
+ * Orchestrated by the scan job queue; the browser only sees the finished result.
+ */
+
+import type { InvokeResult } from '../_core/llm';
+import { storageGet } from '../storage';
+import { supabase } from './supabaseClient';
+import {
+  EXTRACTION_RUBRIC,
+  extractionSignalsSchema,
+  buildUserPrompt,
+  type ExtractionSignals,
+  type QuoteLineItem,
+  type WarningCitation,
+} from './scannerEngine';
+import type { LineItemOutlier, OpeningTypeBreakdown } from './lineItemPricing';
+import type { ScoredAnalysis } from './scoringRubrics';
+import {
+  getDocumentPageCount,
+  mergeDocumentSignals,
+  type DocumentExtraction,
+  type SignalPages,
+} from './signalMerge';
+import { extractWithProviders, getResponseText, parseSignalsJson } from './extractionProviders';
+import { findCachedExtraction, getContentHash } from './duplicateDetection';
+import { resolveContractor } from './contractorService';
+import { verifyLicense } from './licenseVerification';
+import { checkProductApprovals } from './productApprovals';
+
+// Most documents (PDFs or photos) one scan will accept
+export const MAX_QUOTE_PAGES = 10;
+
+// ============================================
+// TYPES
+// ============================================
+
+// One uploaded document of a quote, in reading order
+export interface QuotePage {
+  key: string;
+  mimeType: string;
+}
+
+export interface AnalyzeQuoteInput {
+  leadId: string;
+  pages: QuotePage[];
+  eventId?: string;
+  openingCountHint?: number | null;
+}
+
+export interface ExtractionResult {
+  signals: ExtractionSignals;
+  modelVersion: string;
+}
+
+export interface StoredQuoteExtraction extends ExtractionResult {
+  quoteUrls: string[];
+  pageCount: number;
+  signalPages: SignalPages;
+  openingCountHint: number | null;
+  contentHash: string | null;
+  cachedFromScanId: string | null; // Signals reused from an earlier scan of the same files
+}
+
+/**
+ * Client-safe view of a finished scan (no raw signals)
+ */
+export interface ScanResultPayload {
+  overallScore: number;
+  safetyScore: number;
+  scopeScore: number;
+  priceScore: number;
+  finePrintScore: number;
+  warrantyScore: number;
+  pricePerOpening: string;
+  warnings: string[];
+  missingItems: string[];
+  summary: string;
+  pageCount: number;
+  signalPages: SignalPages;
+  warningCitations: WarningCitation[];
+  lineItems: QuoteLineItem[];
+  openingBreakdown: OpeningTypeBreakdown[];
+  priceOutliers: LineItemOutlier[];
+  benchmarkRegion: string;
+}
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+/**
+ * Pull the JSON signals object out of an LLM response
+ */
+export function parseExtractionResponse(result: InvokeResult): ExtractionSignals {
+  return parseSignalsJson(getResponseText(result));
+}
+
+/**
+ * Extract evidence signals from a stored quote with the configured provider(s)
+ */
+export async function extractSignals(
+  url: string,
+  mimeType: string,
+  openingCountHint?: number | null,
+  areaName?: string | null,
+  part?: { index: number; total: number }
+): Promise<ExtractionResult> {
+  const { signals, model } = await extractWithProviders({
+    systemPrompt: EXTRACTION_RUBRIC,
+    userPrompt: buildUserPrompt(openingCountHint, areaName, part),
+    document: { url, mimeType },
+    schema: {
+      name: 'extraction_signals',
+      schema: extractionSignalsSchema,
+    },
+  });
+
+  return {
+    signals,
+    modelVersion: model,
+  };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * Get the OCR city for a lead (used as the area hint)
+ */
+async function getLeadAreaName(leadId: string): Promise<string | null> {
+  const { data } = await supabase.from('leads')
+    .select('ocr_city')
+    .eq('id', leadId)
+    .single();
+
+  return data?.ocr_city || null;
+}
+
+/**
+ * The scored part of audit_details (rewritten when a scan is re-scored)
+ */
+export function buildScoreDetails(analysis: ScoredAnalysis): Record<string, unknown> {
+  return {
+    safety_score: analysis.safetyScore,
+    scope_score: analysis.scopeScore,
+    price_score: analysis.priceScore,
+    fine_print_score: analysis.finePrintScore,
+    warranty_score: analysis.warrantyScore,
+    warnings: analysis.warnings,
+    missing_items: analysis.missingItems,
+    summary: analysis.summary,
+    price_per_opening: analysis.pricePerOpening,
+    warning_citations: analysis.warningCitations,
+    line_items: analysis.lineItems,
+    opening_breakdown: analysis.openingBreakdown,
+    price_outliers: analysis.priceOutliers,
+    benchmark_version: analysis.benchmarkVersion,
+    benchmark_region: analysis.benchmarkRegion,
+    rubric_version: analysis.rubricVersion,
+  };
+}
+
+/**
+ * Write the scored scan to the scans table (linked to the quote's contractor, if named)
+ */
+export async function saveScan(
+  leadId: string,
+  extraction: StoredQuoteExtraction,
+  analysis: ScoredAnalysis,
+  processingMs: number
+): Promise<string | null> {
+  const now = new Date().toISOString();
+  const contractorId = await resolveContractor(extraction.signals.contractor);
+
+  const { data, error } = await supabase.from('scans')
+    .insert({
+      lead_id: leadId,
+      quote_url: extraction.quoteUrls[0],
+      content_hash: extraction.contentHash,
+      contractor_id: contractorId,
+      overall_score: analysis.overallScore,
+      audit_details: {
+        ...buildScoreDetails(analysis),
+        model_version: extraction.modelVersion,
+        processing_ms: processingMs,
+        quote_urls: extraction.quoteUrls,
+        page_count: extraction.pageCount,
+        signal_pages: extraction.signalPages,
+        opening_count_hint: extraction.openingCountHint,
+        cached_from_scan_id: extraction.cachedFromScanId,
+      },
+      raw_response: analysis.rawSignals ? JSON.stringify(analysis.rawSignals) : null,
+      created_at: now,
+      updated_at: now,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[QuoteAnalysis] Failed to save scan:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+// ============================================
+// PIPELINE STEPS
+// ============================================
+
+// Records are checked on every scan (reused signals included): licenses lapse,
+// approvals expire, and the same quote can be for a property in another wind zone
+async function withRecordChecks(signals: ExtractionSignals, leadId: string): Promise<ExtractionSignals> {
+  const verification = await verifyLicense(signals.contractor?.licenseNumber);
+  const approvalChecks = await checkProductApprovals(leadId, signals.productApprovals);
+  return { ...signals, licenseStatus: verification?.status ?? null, approvalChecks };
+}
+
+/**
+ * Resolve the stored uploads and extract one merged set of signals
+ * Files already analyzed (same content hash) reuse the earlier scan's signals;
+ * otherwise documents are read one at a time (in order) to stay under LLM rate limits.
+ */
+export async function extractStoredQuote(input: AnalyzeQuoteInput): Promise<StoredQuoteExtraction> {
+  const { leadId, pages, openingCountHint } = input;
+
+  if (pages.length === 0) {
+    throw new Error('No quote pages to analyze');
+  }
+
+  const contentHash = await getContentHash(pages.map(page => page.key));
+  const cached = contentHash ? await findCachedExtraction(contentHash) : null;
+
+  if (cached) {
+    console.log(`[QuoteAnalysis] Reusing signals of scan ${cached.scanId} (same files)`);
+    const quoteUrls: string[] = [];
+    for (const page of pages) {
+      quoteUrls.push((await storageGet(page.key)).url);
+    }
+
+    return {
+      signals: await withRecordChecks(cached.signals, leadId),
+      signalPages: cached.signalPages,
+      pageCount: cached.pageCount,
+      modelVersion: cached.modelVersion,
+      quoteUrls,
+      openingCountHint: openingCountHint ?? null,
+      contentHash,
+      cachedFromScanId: cached.scanId,
+    };
+  }
+
+  const areaName = await getLeadAreaName(leadId);
+  const documents: DocumentExtraction[] = [];
+  const quoteUrls: string[] = [];
+  let modelVersion = '';
+
+  for (let index = 0; index < pages.length; index++) {
+    const page = pages[index];
+    const { url } = await storageGet(page.key);
+    const extraction = await extractSignals(url, page.mimeType, openingCountHint, areaName, {
+      index,
+      total: pages.length,
+    });
+
+    documents.push({
+      signals: extraction.signals,
+      pageCount: getDocumentPageCount(extraction.signals, page.mimeType),
+    });
+    quoteUrls.push(url);
+    modelVersion = extraction.modelVersion;
+  }
+
+  const merged = mergeDocumentSignals(documents);
+
+  return {
+    signals: await withRecordChecks(merged.signals, leadId),
+    signalPages: merged.signalPages,
+    pageCount: merged.pageCount,
+    modelVersion,
+    quoteUrls,
+    openingCountHint: openingCountHint ?? null,
+    contentHash,
+    cachedFromScanId: null,
+  };
+}
+
+/**
+ * Load a saved scan as the client-safe payload
+ */
+export async function getScanResult(scanId: string): Promise<ScanResultPayload | null> {
+  const { data: scan, error } = await supabase.from('scans')
+    .select('overall_score, audit_details')
+    .eq('id', scanId)
+    .single();
+
+  if (error || !scan) {
+    return null;
+  }
+
+  const details = scan.audit_details || {};
+
+  return {
+    overallScore: scan.overall_score,
+    safetyScore: details.safety_score,
+    scopeScore: details.scope_score,
+    priceScore: details.price_score,
+    finePrintScore: details.fine_print_score,
+    warrantyScore: details.warranty_score,
+    pricePerOpening: details.price_per_opening || 'N/A',
+    warnings: details.warnings || [],
+    missingItems: details.missing_items || [],
+    summary: details.summary || '',
+    pageCount: details.page_count || 1,
+    signalPages: details.signal_pages || {},
+    warningCitations: details.warning_citations || [],
+    lineItems: details.line_items || [],
+    openingBreakdown: details.opening_breakdown || [],
+    priceOutliers: details.price_outliers || [],
+    benchmarkRegion: details.benchmark_region || 'Florida',
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for side-by-side quote comparison
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import { compareScans, getQuoteComparison, listLeadScans, type ComparableScan } from './quoteComparison';
+import { createSignals } from '../testing/quoteFixtures';
+import type { ExtractionSignals } from './scannerEngine';
+import { alphaRouter } from '../routes/alpha';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+const scan = (
+  id: string,
+  score: number,
+  details: Record<string, unknown>,
+  signals: Partial<ExtractionSignals>,
+  extra: Record<string, unknown> = {}
+): ComparableScan & Record<string, unknown> => ({
+  id,
+  lead_id: LEAD_ID,
+  overall_score: score,
+  audit_details: {
+    safety_score: score,
+    scope_score: score,
+    price_score: score,
+    fine_print_score: score,
+    warranty_score: score,
+    warnings: [],
+    missing_items: [],
+    ...details,
+  },
+  raw_response: JSON.stringify(createSignals(signals)),
+  content_hash: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+  ...extra,
+});
+
+const WALL_REPAIR = 'Wall repair scope unclear (stucco/drywall/paint after install).';
+
+const premium = () => scan(
+  'scan-a',
+  82,
+  { safety_score: 90, warranty_score: 85, price_per_opening: '$1,450', missing_items: [WALL_REPAIR] },
+  {
+    contractor: { name: 'Storm Shield LLC', licenseNumber: 'CGC1523456', phone: null, address: null },
+    licenseStatus: 'active',
+    depositPercentage: 30,
+    warrantyDurationYears: 10,
+    hasTransferableWarranty: true,
+  }
+);
+
+const budget = () => scan(
+  'scan-b',
+  64,
+  {
+    safety_score: 60,
+    price_score: 88,
+    price_per_opening: '$1,100',
+    missing_items: [WALL_REPAIR, 'No warranty terms stated (labor/workmanship + manufacturer coverage).'],
+  },
+  {
+    contractor: { name: 'Budget Windows', licenseNumber: null, phone: null, address: null },
+    depositPercentage: 60,
+    hasLaborWarranty: false,
+    hasFinalPaymentTrap: true,
+    hasSubjectToChange: true,
+  }
+);
+
+describe('compareScans', () => {
+  it('should align the quotes and recommend the strongest one', () => {
+    const comparison = compareScans([premium(), budget()])!;
+
+    expect(comparison.quotes.map(quote => [quote.label, quote.pricePerOpeningValue, quote.depositPercentage])).toEqual([
+      ['Storm Shield LLC', 1450, 30],
+      ['Budget Windows', 1100, 60],
+    ]);
+    expect(comparison.quotes[0].warranty).toEqual({
+      mentioned: true,
+      labor: true,
+      durationYears: 10,
+      lifetime: false,
+      transferable: true,
+    });
+    expect(comparison.bestByPillar).toEqual({
+      safety: 'scan-a',
+      scope: 'scan-a',
+      price: 'scan-b',
+      fine_print: 'scan-a',
+      warranty: 'scan-a',
+    });
+    expect(comparison.missingFromAll).toEqual([WALL_REPAIR]);
+    expect(comparison.recommendation).toEqual({
+      scanId: 'scan-a',
+      label: 'Storm Shield LLC',
+      reasons: [
+        'Highest overall score (82 vs 64 for Budget Windows).',
+        'Strongest on safety, scope, fine print and warranty.',
+        'Contractor license is active in the state records.',
+      ],
+    });
+  });
+
+  it('should use each quote as leverage against the others', () => {
+    const [premiumQuote, budgetQuote] = compareScans([premium(), budget()])!.quotes;
+
+    expect(premiumQuote.negotiationPoints).toEqual([
+      'Price is $350 more per opening than Budget Windows ($1,100) — ask them to close the gap.',
+      'Get this added in writing: Wall repair scope unclear (stucco/drywall/paint after install).',
+    ]);
+    expect(budgetQuote.negotiationPoints).toEqual([
+      'Lower the 60% deposit to 40% or less.',
+      'Tie the final payment to the passed final inspection, not to install day.',
+      "Get the price locked in writing — strike the 'subject to change/remeasure' language.",
+      'Ask for a written labor warranty — Storm Shield LLC includes one.',
+      'Get this added in writing: Wall repair scope unclear (stucco/drywall/paint after install).',
+    ]);
+  });
+
+  it('should break score ties on safety, then price, and label unnamed quotes by upload order', () => {
+    const comparison = compareScans([
+      scan('scan-1', 70, { price_per_opening: '$1,400' }, {}),
+      scan('scan-2', 70, { price_per_opening: '$1,200' }, {}),
+    ])!;
+
+    expect(comparison.quotes.map(quote => quote.label)).toEqual(['Quote 1', 'Quote 2']);
+    expect(comparison.bestByPillar.safety).toBeNull();
+    expect(comparison.recommendation.scanId).toBe('scan-2');
+    expect(comparison.recommendation.reasons).toEqual([
+      'Ties Quote 1 on overall score (70) at a lower price per opening.',
+      'Also the lowest price per opening ($1,200).',
+    ]);
+  });
+
+  it('should flag an unverified license and need at least two quotes', () => {
+    const comparison = compareScans([
+      premium(),
+      scan('scan-c', 75, {}, { licenseStatus: 'expired', warrantyDurationYears: 1 }),
+    ])!;
+
+    expect(comparison.quotes[1].negotiationPoints.slice(0, 2)).toEqual([
+      'Ask for a current Florida contractor license before anything else — the license on this quote is expired.',
+      'Lower the 50% deposit to 40% or less.',
+    ]);
+    expect(comparison.quotes[1].negotiationPoints).toContain("Ask them to match Storm Shield LLC's warranty (a 10-year warranty).");
+    expect(compareScans([premium()])).toBeNull();
+  });
+});
+
+describe('getQuoteComparison', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('leads', [{ id: LEAD_ID, sms_verified: true }]);
+    db.seed('scans', [
+      { ...premium(), content_hash: 'hash-a', created_at: '2026-10-01T00:00:00.000Z' },
+      { ...budget(), created_at: '2026-10-02T00:00:00.000Z' },
+      { ...premium(), id: 'scan-a2', content_hash: 'hash-a', created_at: '2026-10-03T00:00:00.000Z' },
+      { ...budget(), id: 'other-lead', lead_id: '22222222-2222-4222-8222-222222222222' },
+    ]);
+  });
+
+  it('should count a re-scan of the same files once, as the newest', async () => {
+    expect((await listLeadScans(LEAD_ID)).map(entry => [entry.scanId, entry.contractorName])).toEqual([
+      ['scan-b', 'Budget Windows'],
+      ['scan-a2', 'Storm Shield LLC'],
+    ]);
+
+    const comparison = await getQuoteComparison(LEAD_ID);
+    expect(comparison?.quotes.map(quote => quote.scanId)).toEqual(['scan-b', 'scan-a2']);
+    expect(comparison?.recommendation.scanId).toBe('scan-a2');
+  });
+
+  it("should only compare the lead's own scans", async () => {
+    expect(await getQuoteComparison(LEAD_ID, ['scan-b', 'other-lead'])).toBeNull();
+  });
+
+  it('should require phone verification on the alpha.compare route', async () => {
+    const caller = alphaRouter.createCaller({ req: {}, res: {} } as any);
+
+    const verified = await caller.compare({ leadId: LEAD_ID });
+    expect(verified.success).toBe(true);
+    expect(verified.comparison?.quotes).toHaveLength(2);
+
+    db.table('leads')[0].sms_verified = false;
+    expect(await caller.compare({ leadId: LEAD_ID })).toMatchObject({ success: false, comparison: null });
+    expect(await caller.scans({ leadId: LEAD_ID })).toMatchObject({ success: false, scans: [] });
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Quote Comparison - Side-by-Side View of a Lead's Quotes
+ *
+ * Homeowners usually collect 2-3 competing quotes. This lines up the lead's
+ * scans (pillar scores, price per opening, deposit, warranty terms, missing
+ * items), recommends the strongest one and lists what to negotiate on each,
+ * using the other quotes as leverage.
+ *
+ * Everything is read from saved scans; nothing is re-extracted or re-scored.
+ */
+
+import { supabase } from './supabaseClient';
+import { SCAN_PILLARS, type ScanPillar } from './scanJobQueue';
+import {
+  MAX_FAIR_DEPOSIT,
+  parseDollars,
+  parseRawSignals,
+  parseScoreDetails,
+  type ExtractionSignals,
+  type LicenseStatus,
+} from './scannerEngine';
+
+// Most quotes shown side by side
+export const MAX_COMPARED_QUOTES = 4;
+
+// Price per opening gap worth negotiating over (fraction of the cheaper quote)
+const PRICE_GAP_THRESHOLD = 0.1;
+
+const MAX_NEGOTIATION_POINTS = 5;
+const MAX_MISSING_ITEM_POINTS = 2;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WarrantyTerms {
+  mentioned: boolean;
+  labor: boolean;
+  durationYears: number | null;
+  lifetime: boolean;
+  transferable: boolean;
+}
+
+export interface ComparableScan {
+  id: string;
+  overall_score: number | null;
+  audit_details: unknown;
+  raw_response: unknown;
+  created_at: string;
+}
+
+export interface ComparedQuote {
+  scanId: string;
+  label: string; // Contractor name, or "Quote 1", "Quote 2"... in upload order
+  createdAt: string;
+  contractorName: string | null;
+  licenseStatus: LicenseStatus | null;
+  overallScore: number;
+  pillars: Record<ScanPillar, number>;
+  pricePerOpening: string;
+  pricePerOpeningValue: number | null;
+  totalPrice: number | null;
+  depositPercentage: number | null;
+  warranty: WarrantyTerms;
+  missingItems: string[];
+  warnings: string[];
+  negotiationPoints: string[];
+}
+
+export interface QuoteRecommendation {
+  scanId: string;
+  label: string;
+  reasons: string[];
+}
+
+export interface QuoteComparison {
+  quotes: ComparedQuote[];
+  bestByPillar: Record<ScanPillar, string | null>; // Scan id, null on a tie for first
+  missingFromAll: string[];
+  recommendation: QuoteRecommendation;
+}
+
+export interface LeadScanSummary {
+  scanId: string;
+  createdAt: string;
+  overallScore: number;
+  contractorName: string | null;
+  pricePerOpening: string;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+function joinLabels(labels: string[]): string {
+  return labels.length <= 2 ? labels.join(' and ') : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+const PILLAR_LABELS: Record<ScanPillar, string> = {
+  safety: 'safety',
+  scope: 'scope',
+  price: 'price',
+  fine_print: 'fine print',
+  warranty: 'warranty',
+};
+
+// Effective warranty length for comparison (lifetime beats any term)
+function warrantyYears(warranty: WarrantyTerms): number {
+  return warranty.lifetime ? Infinity : warranty.durationYears ?? 0;
+}
+
+function toComparedQuote(scan: ComparableScan, index: number): ComparedQuote {
+  const details = parseScoreDetails(scan.audit_details);
+  const signals = parseRawSignals(scan.raw_response);
+  const contractorName = signals?.contractor?.name?.trim() || null;
+
+  return {
+    scanId: scan.id,
+    label: contractorName ?? `Quote ${index + 1}`,
+    createdAt: scan.created_at,
+    contractorName,
+    licenseStatus: signals?.licenseStatus ?? null,
+    overallScore: scan.overall_score ?? 0,
+    pillars: Object.fromEntries(
+      SCAN_PILLARS.map(pillar => [pillar, details[`${pillar}_score` as const] ?? 0])
+    ) as Record<ScanPillar, number>,
+    pricePerOpening: details.price_per_opening || 'N/A',
+    pricePerOpeningValue: parseDollars(details.price_per_opening),
+    totalPrice: signals?.totalPriceValue ?? null,
+    depositPercentage: signals?.depositPercentage ?? null,
+    warranty: {
+      mentioned: signals?.hasWarrantyMention ?? false,
+      labor: signals?.hasLaborWarranty ?? false,
+      durationYears: signals?.warrantyDurationYears ?? null,
+      lifetime: signals?.hasLifetimeWarranty ?? false,
+      transferable: signals?.hasTransferableWarranty ?? false,
+    },
+    missingItems: details.missing_items || [],
+    warnings: details.warnings || [],
+    negotiationPoints: [],
+  };
+}
+
+/**
+ * Best quote first: overall score, then safety, then the lower price per opening
+ */
+function rankQuotes(quotes: ComparedQuote[]): ComparedQuote[] {
+  return [...quotes].sort((a, b) =>
+    b.overallScore - a.overallScore
+    || b.pillars.safety - a.pillars.safety
+    || (a.pricePerOpeningValue ?? Infinity) - (b.pricePerOpeningValue ?? Infinity)
+  );
+}
+
+/**
+ * What to push back on in one quote, with the other quotes as leverage
+ */
+function buildNegotiationPoints(
+  quote: ComparedQuote,
+  others: ComparedQuote[],
+  signals: ExtractionSignals | null
+): string[] {
+  const points: string[] = [];
+
+  if (quote.licenseStatus === 'expired' || quote.licenseStatus === 'not_found') {
+    const problem = quote.licenseStatus === 'expired' ? 'is expired' : "isn't in the state records";
+    points.push(`Ask for a current Florida contractor license before anything else — the license on this quote ${problem}.`);
+  }
+
+  const cheaper = others
+    .filter(other => other.pricePerOpeningValue !== null)
+    .sort((a, b) => a.pricePerOpeningValue! - b.pricePerOpeningValue!)[0];
+  if (
+    cheaper
+    && quote.pricePerOpeningValue !== null
+    && quote.pricePerOpeningValue > cheaper.pricePerOpeningValue! * (1 + PRICE_GAP_THRESHOLD)
+  ) {
+    const gap = quote.pricePerOpeningValue - cheaper.pricePerOpeningValue!;
+    points.push(`Price is ${formatDollars(gap)} more per opening than ${cheaper.label} (${cheaper.pricePerOpening}) — ask them to close the gap.`);
+  }
+
+  if (quote.depositPercentage !== null && quote.depositPercentage > MAX_FAIR_DEPOSIT) {
+    points.push(`Lower the ${quote.depositPercentage}% deposit to ${MAX_FAIR_DEPOSIT}% or less.`);
+  }
+
+  if (signals?.hasFinalPaymentTrap) {
+    points.push('Tie the final payment to the passed final inspection, not to install day.');
+  }
+
+  if (signals?.hasSubjectToChange) {
+    points.push("Get the price locked in writing — strike the 'subject to change/remeasure' language.");
+  }
+
+  const laborPeer = others.find(other => other.warranty.labor);
+  const longerPeer = [...others].sort((a, b) => warrantyYears(b.warranty) - warrantyYears(a.warranty))[0];
+  if (!quote.warranty.labor && laborPeer) {
+    points.push(`Ask for a written labor warranty — ${laborPeer.label} includes one.`);
+  } else if (longerPeer && warrantyYears(longerPeer.warranty) > warrantyYears(quote.warranty)) {
+    const term = longerPeer.warranty.lifetime ? 'a lifetime' : `a ${longerPeer.warranty.durationYears}-year`;
+    points.push(`Ask them to match ${longerPeer.label}'s warranty (${term} warranty).`);
+  }
+
+  for (const item of quote.missingItems.slice(0, MAX_MISSING_ITEM_POINTS)) {
+    points.push(`Get this added in writing: ${item.replace(/\.$/, '')}.`);
+  }
+
+  return points.slice(0, MAX_NEGOTIATION_POINTS);
+}
+
+function buildRecommendation(ranked: ComparedQuote[], bestByPillar: Record<ScanPillar, string | null>): QuoteRecommendation {
+  const [best, runnerUp] = ranked;
+  const reasons: string[] = [];
+
+  if (best.overallScore > runnerUp.overallScore) {
+    reasons.push(`Highest overall score (${best.overallScore} vs ${runnerUp.overallScore} for ${runnerUp.label}).`);
+  } else if (best.pillars.safety > runnerUp.pillars.safety) {
+    reasons.push(`Ties ${runnerUp.label} on overall score (${best.overallScore}) with a stronger safety score.`);
+  } else if ((best.pricePerOpeningValue ?? Infinity) < (runnerUp.pricePerOpeningValue ?? Infinity)) {
+    reasons.push(`Ties ${runnerUp.label} on overall score (${best.overallScore}) at a lower price per opening.`);
+  } else {
+    reasons.push(`Scores the same as ${runnerUp.label} (${best.overallScore}) — compare the negotiation points before choosing.`);
+  }
+
+  const leads = SCAN_PILLARS.filter(pillar => bestByPillar[pillar] === best.scanId).map(pillar => PILLAR_LABELS[pillar]);
+  if (leads.length > 0) {
+    reasons.push(`Strongest on ${joinLabels(leads)}.`);
+  }
+
+  const prices = ranked.map(quote => quote.pricePerOpeningValue).filter((price): price is number => price !== null);
+  if (best.pricePerOpeningValue !== null && prices.length > 1 && best.pricePerOpeningValue === Math.min(...prices)) {
+    reasons.push(`Also the lowest price per opening (${best.pricePerOpening}).`);
+  }
+
+  if (best.licenseStatus === 'active') {
+    reasons.push('Contractor license is active in the state records.');
+  }
+
+  return { scanId: best.scanId, label: best.label, reasons };
+}
+
+/**
+ * Line up two or more scans of one lead and recommend the strongest
+ * Scans are expected oldest first (quote labels follow upload order).
+ */
+export function compareScans(scans: ComparableScan[]): QuoteComparison | null {
+  if (scans.length < 2) {
+    return null;
+  }
+
+  const quotes = scans.map(toComparedQuote);
+
+  // Two quotes from unnamed contractors (or the same one) need distinct labels
+  const labelCounts = new Map<string, number>();
+  quotes.forEach(quote => labelCounts.set(quote.label, (labelCounts.get(quote.label) ?? 0) + 1));
+  quotes.forEach((quote, index) => {
+    if (labelCounts.get(quote.label)! > 1) quote.label = `${quote.label} (quote ${index + 1})`;
+  });
+
+  quotes.forEach((quote, index) => {
+    const others = quotes.filter(other => other !== quote);
+    quote.negotiationPoints = buildNegotiationPoints(quote, others, parseRawSignals(scans[index].raw_response));
+  });
+
+  const bestByPillar = Object.fromEntries(SCAN_PILLARS.map(pillar => {
+    const top = Math.max(...quotes.map(quote => quote.pillars[pillar]));
+    const leaders = quotes.filter(quote => quote.pillars[pillar] === top);
+    return [pillar, leaders.length === 1 ? leaders[0].scanId : null];
+  })) as Record<ScanPillar, string | null>;
+
+  const missingFromAll = quotes[0].missingItems.filter(item =>
+    quotes.every(quote => quote.missingItems.includes(item))
+  );
+
+  return {
+    quotes,
+    bestByPillar,
+    missingFromAll,
+    recommendation: buildRecommendation(rankQuotes(quotes), bestByPillar),
+  };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * A lead's distinct scans, oldest first
+ * Re-scans of the same files (same content hash) count once, as the newest.
+ */
+async function getLeadScans(leadId: string): Promise<ComparableScan[]> {
+  const { data, error } = await supabase.from('scans')
+    .select('id, overall_score, audit_details, raw_response, content_hash, created_at')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) {
+    if (error) console.error('[QuoteComparison] Failed to load scans:', error);
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const scans = data.filter(scan => {
+    if (!scan.content_hash) return true;
+    if (seen.has(scan.content_hash)) return false;
+    seen.add(scan.content_hash);
+    return true;
+  });
+
+  return scans.reverse();
+}
+
+/**
+ * Scans a lead can pick from for a comparison, oldest first
+ */
+export async function listLeadScans(leadId: string): Promise<LeadScanSummary[]> {
+  const scans = await getLeadScans(leadId);
+
+  return scans.map(scan => ({
+    scanId: scan.id,
+    createdAt: scan.created_at,
+    overallScore: scan.overall_score ?? 0,
+    contractorName: parseRawSignals(scan.raw_response)?.contractor?.name?.trim() || null,
+    pricePerOpening: parseScoreDetails(scan.audit_details).price_per_opening || 'N/A',
+  }));
+}
+
+/**
+ * Compare a lead's quotes: the chosen scans, or the newest ones when none are given
+ * Returns null when fewer than two of the lead's scans are available.
+ */
+export async function getQuoteComparison(leadId: string, scanIds?: string[]): Promise<QuoteComparison | null> {
+  const scans = await getLeadScans(leadId);
+  const chosen = scanIds ? scans.filter(scan => scanIds.includes(scan.id)) : scans;
+
+  return compareScans(chosen.slice(-MAX_COMPARED_QUOTES));
+}
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for signed, expiring report share links
+ */
+
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import { ENV } from '../_core/env';
+import {
+  createReportShareLink,
+  createShareToken,
+  getSharedReport,
+  listReportShareLinks,
+  recordSharedReportView,
+  redactPii,
+  revokeReportShareLink,
+  verifyShareToken,
+} from './reportShares';
+import { alphaRouter } from '../routes/alpha';
+import { shareRouter } from '../routes/share';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_LEAD_ID = '22222222-2222-4222-8222-222222222222';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+const OLD_SCAN_ID = '44444444-4444-4444-8444-444444444444';
+
+const LEAD = { first_name: 'Maria', last_name: 'Gonzalez', email: 'maria@example.com', phone: '3055550142' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const previousSecret = ENV.shareLinkSecret;
+
+beforeEach(() => {
+  ENV.shareLinkSecret = 'test-share-secret';
+  db.reset();
+  db.seed('leads', [
+    { id: LEAD_ID, sms_verified: true, ...LEAD },
+    { id: OTHER_LEAD_ID, sms_verified: true },
+  ]);
+  db.seed('scans', [
+    {
+      id: OLD_SCAN_ID,
+      lead_id: LEAD_ID,
+      overall_score: 40,
+      audit_details: { warnings: [], missing_items: [] },
+      created_at: '2026-09-01T00:00:00.000Z',
+    },
+    {
+      id: SCAN_ID,
+      lead_id: LEAD_ID,
+      overall_score: 58,
+      raw_response: { contractor: { name: 'Sunshine Impact Windows LLC' } },
+      audit_details: {
+        safety_score: 85,
+        summary: 'Quote for Maria Gonzalez at 1420 NW 7th Street.',
+        price_per_opening: '$1,450',
+        benchmark_version: 'builtin',
+        warnings: ['High risk: deposit exceeds 40%.'],
+        warning_citations: [{
+          warning: 'High risk: deposit exceeds 40%.',
+          signals: ['depositPercentage'],
+          evidence: [{ signal: 'depositPercentage', page: 1, snippet: 'Customer: MARIA GONZALEZ (305) 555-0142, 60% deposit' }],
+        }],
+        missing_items: ['Permit fees not mentioned.'],
+      },
+      created_at: '2026-10-01T00:00:00.000Z',
+    },
+  ]);
+});
+
+afterAll(() => {
+  ENV.shareLinkSecret = previousSecret;
+});
+
+describe('share tokens', () => {
+  it('should only accept tokens signed with the current secret', () => {
+    const token = createShareToken(SCAN_ID);
+
+    expect(verifyShareToken(token)).toBe(SCAN_ID);
+    expect(verifyShareToken(`${OLD_SCAN_ID}.${token.split('.')[1]}`)).toBeNull();
+    expect(verifyShareToken(`${token}x`)).toBeNull();
+    expect(verifyShareToken(SCAN_ID)).toBeNull();
+
+    ENV.shareLinkSecret = 'rotated-secret';
+    expect(verifyShareToken(token)).toBeNull();
+  });
+});
+
+describe('redactPii', () => {
+  it('should blank out the homeowner and any contact details', () => {
+    expect(redactPii('Customer: MARIA GONZALEZ, maria.g+quotes@example.com, (305) 555-0142', LEAD))
+      .toBe('Customer: [name removed], [email removed], [phone removed]');
+    expect(redactPii('Install at 1420 NW 7th Street, Miami. Ask for Maria.', LEAD))
+      .toBe('Install at [address removed], Miami. Ask for [name removed].');
+    expect(redactPii('8 single hung windows, 60% deposit', LEAD)).toBe('8 single hung windows, 60% deposit');
+  });
+});
+
+describe('report share links', () => {
+  it('should link the newest scan of a verified lead for the requested number of days', async () => {
+    const before = Date.now();
+    const link = await createReportShareLink({ leadId: LEAD_ID, expiresInDays: 3 });
+
+    expect(link).toMatchObject({ scanId: SCAN_ID, viewCount: 0, token: createShareToken(link!.id) });
+    expect(new Date(link!.expiresAt).getTime()).toBeGreaterThanOrEqual(before + 3 * DAY_MS);
+    expect(new Date(link!.expiresAt).getTime()).toBeLessThan(before + 4 * DAY_MS);
+
+    expect(await createReportShareLink({ leadId: OTHER_LEAD_ID, scanId: SCAN_ID })).toBeNull();
+    db.table('leads')[0].sms_verified = false;
+    expect(await createReportShareLink({ leadId: LEAD_ID })).toBeNull();
+  });
+
+  it('should not sign links without a secret', async () => {
+    ENV.shareLinkSecret = '';
+    expect(await createReportShareLink({ leadId: LEAD_ID })).toBeNull();
+    expect(db.table('report_share_links')).toHaveLength(0);
+  });
+
+  it('should show the report without PII and count only recorded views', async () => {
+    const link = await createReportShareLink({ leadId: LEAD_ID });
+
+    const first = await getSharedReport(link!.token);
+    await getSharedReport(link!.token);
+    expect((await listReportShareLinks(LEAD_ID))[0].viewCount).toBe(0);
+
+    expect(await recordSharedReportView(link!.token)).toBe(true);
+    expect(await recordSharedReportView(link!.token)).toBe(true);
+
+    expect(first.status).toBe('ok');
+    if (first.status !== 'ok') return;
+    expect(first.report).not.toHaveProperty('scanId');
+    expect(first.report).toMatchObject({
+      overallScore: 58,
+      contractorName: 'Sunshine Impact Windows LLC',
+      summary: 'Quote for [name removed] at [address removed].',
+      expiresAt: link!.expiresAt,
+    });
+    expect(first.report.warnings[0].evidence[0].snippet).toBe('Customer: [name removed] [phone removed], 60% deposit');
+    expect(first.report.warnings[0].snippet).toBe('Customer: [name removed] [phone removed], 60% deposit');
+    expect(JSON.stringify(first.report)).not.toMatch(/maria|gonzalez|555/i);
+
+    expect((await listReportShareLinks(LEAD_ID))[0]).toMatchObject({ id: link!.id, viewCount: 2 });
+  });
+
+  it('should turn away forged, revoked and expired links', async () => {
+    const link = await createReportShareLink({ leadId: LEAD_ID });
+    const expired = await createReportShareLink({ leadId: LEAD_ID, scanId: OLD_SCAN_ID });
+    db.table('report_share_links').find(row => row.id === expired!.id)!.expires_at = new Date(Date.now() - 1000).toISOString();
+
+    expect(await getSharedReport(`${link!.id}.forged`)).toEqual({ status: 'invalid' });
+    expect(await getSharedReport(createShareToken('55555555-5555-4555-8555-555555555555'))).toEqual({ status: 'invalid' });
+    expect(await getSharedReport(expired!.token)).toEqual({ status: 'expired' });
+
+    expect(await revokeReportShareLink(OTHER_LEAD_ID, link!.id)).toBe(false);
+    expect(await revokeReportShareLink(LEAD_ID, link!.id)).toBe(true);
+    expect(await revokeReportShareLink(LEAD_ID, link!.id)).toBe(false);
+    expect(await getSharedReport(link!.token)).toEqual({ status: 'revoked' });
+    expect(await recordSharedReportView(link!.token)).toBe(false);
+
+    expect(await listReportShareLinks(LEAD_ID)).toEqual([]);
+    expect(db.table('report_share_links').every(row => row.view_count === 0)).toBe(true);
+  });
+
+  it('should let the lead manage links and anyone open them through the routers', async () => {
+    const alpha = alphaRouter.createCaller({ req: {}, res: {} } as any);
+    const share = shareRouter.createCaller({ req: {}, res: {} } as any);
+
+    const created = await alpha.createShareLink({ leadId: LEAD_ID, expiresInDays: 30 });
+    expect(created.success).toBe(true);
+
+    const viewed = await share.view({ token: created.link!.token });
+    await share.view({ token: created.link!.token }); // a refetch
+    expect(viewed).toMatchObject({ success: true, status: 'ok', report: { overallScore: 58 } });
+    expect(await share.recordView({ token: created.link!.token })).toEqual({ success: true });
+
+    expect((await alpha.shareLinks({ leadId: LEAD_ID })).links.map(link => link.viewCount)).toEqual([1]);
+
+    db.table('leads')[0].sms_verified = false;
+    expect(await alpha.revokeShareLink({ leadId: LEAD_ID, shareId: created.link!.id })).toMatchObject({ success: false });
+    expect(db.table('report_share_links')[0].revoked_at).toBeFalsy();
+
+    db.table('leads')[0].sms_verified = true;
+    expect(await alpha.revokeShareLink({ leadId: LEAD_ID, shareId: created.link!.id })).toMatchObject({ success: true });
+    expect(await share.view({ token: created.link!.token })).toMatchObject({ success: false, status: 'revoked', report: null });
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Report Shares - Signed, Expiring Links to One Scan's Audit
+ *
+ * A verified homeowner can send their audit to a spouse or a second
+ * contractor. Each link is a report_share_links row; the token in the URL is
+ * the row id plus an HMAC signature, so forged or mistyped tokens are turned
+ * away before the database is touched. Links expire, can be revoked, and
+ * count their views.
+ *
+ * The shared report is read-only and carries no PII: the homeowner's name,
+ * email and phone, and any email address, phone number or street address in
+ * the quote text, are blanked out.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { ENV } from '../_core/env';
+import { supabase } from './supabaseClient';
+import { getBenchmarksForLead } from './benchmarkService';
+import { buildAuditReport, type AuditReport } from './auditReport';
+import type { ScanFinding } from './scanChat';
+
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 30;
+export const MAX_ACTIVE_SHARE_LINKS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ShareLinkInput {
+  leadId: string;
+  scanId?: string; // Defaults to the lead's newest scan
+  expiresInDays?: number;
+}
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  scanId: string;
+  createdAt: string;
+  expiresAt: string;
+  viewCount: number;
+  lastViewedAt: string | null;
+}
+
+// The audit as a share link's viewer sees it
+export type SharedReport = Omit<AuditReport, 'scanId'> & {
+  expiresAt: string;
+};
+
+export type SharedReportResult =
+  | { status: 'ok'; report: SharedReport }
+  | { status: 'invalid' | 'expired' | 'revoked' };
+
+// ============================================
+// TOKENS
+// ============================================
+
+function sign(shareId: string): string {
+  return createHmac('sha256', ENV.shareLinkSecret).update(`report-share:${shareId}`).digest('base64url');
+}
+
+/**
+ * URL token for a share id: "<id>.<signature>"
+ */
+export function createShareToken(shareId: string): string {
+  return `${shareId}.${sign(shareId)}`;
+}
+
+/**
+ * The share id a token was signed for, or null if the signature doesn't match
+ */
+export function verifyShareToken(token: string): string | null {
+  const [shareId, signature, ...rest] = token.split('.');
+  if (!shareId || !signature || rest.length > 0 || !ENV.shareLinkSecret) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(shareId));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? shareId : null;
+}
+
+// ============================================
+// PII REDACTION
+// ============================================
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const PHONE_PATTERN = /(\+?1[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g;
+const STREET_PATTERN = /\b\d{1,6}\s+(?:[NSEW]\.?\s+)?(?:[A-Za-z0-9]+\s+){0,3}(?:St|Street|Ave|Avenue|Rd|Road|Blvd|Boulevard|Dr|Drive|Ln|Lane|Ct|Court|Ter|Terrace|Way|Pl|Place|Cir|Circle|Hwy|Highway|Pkwy|Parkway)\b/gi;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Blank out the homeowner's details and any contact details in quote text
+ */
+export function redactPii(text: string, lead: Record<string, any> | null): string {
+  let redacted = text
+    .replace(EMAIL_PATTERN, '[email removed]')
+    .replace(PHONE_PATTERN, '[phone removed]')
+    .replace(STREET_PATTERN, '[address removed]');
+
+  // Full name first, then each part (short parts would hit ordinary words)
+  const fullName = [lead?.first_name, lead?.last_name].filter(Boolean).join(' ').trim();
+  const names = [fullName, lead?.first_name, lead?.last_name]
+    .filter((name): name is string => typeof name === 'string' && name.trim().length >= 3);
+  for (const name of names) {
+    redacted = redacted.replace(new RegExp(`\\b${escapeRegExp(name.trim())}\\b`, 'gi'), '[name removed]');
+  }
+
+  return redacted;
+}
+
+function redactFinding<T extends ScanFinding>(finding: T, lead: Record<string, any> | null): T {
+  return {
+    ...finding,
+    text: redactPii(finding.text, lead),
+    snippet: finding.snippet === null ? null : redactPii(finding.snippet, lead),
+  };
+}
+
+/**
+ * The audit without its scan id or anything that identifies the homeowner
+ */
+export function toSharedReport(report: AuditReport, lead: Record<string, any> | null, expiresAt: string): SharedReport {
+  const { scanId: _scanId, ...rest } = report;
+
+  return {
+    ...rest,
+    summary: rest.summary === null ? null : redactPii(rest.summary, lead),
+    warnings: rest.warnings.map(warning => ({
+      ...redactFinding(warning, lead),
+      evidence: warning.evidence.map(evidence => ({ ...evidence, snippet: redactPii(evidence.snippet, lead) })),
+    })),
+    missingItems: rest.missingItems.map(item => redactFinding(item, lead)),
+    priceOutliers: rest.priceOutliers.map(outlier => redactFinding(outlier, lead)),
+    expiresAt,
+  };
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+function mapShareLink(row: Record<string, any>): ShareLink {
+  return {
+    id: row.id,
+    token: createShareToken(row.id),
+    scanId: row.scan_id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    viewCount: row.view_count ?? 0,
+    lastViewedAt: row.last_viewed_at ?? null,
+  };
+}
+
+/**
+ * A lead's links that still work (not revoked, not expired), newest first
+ */
+export async function listReportShareLinks(leadId: string): Promise<ShareLink[]> {
+  const { data, error } = await supabase.from('report_share_links')
+    .select('*')
+    .eq('lead_id', leadId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error || !data) {
+    if (error) console.error('[ReportShares] Failed to list share links:', error);
+    return [];
+  }
+
+  return data.map(mapShareLink);
+}
+
+/**
+ * Create a share link for a verified lead's scan
+ * Returns null when the lead isn't verified, the scan isn't theirs, too many
+ * links are active, or links can't be signed (no secret configured).
+ */
+export async function createReportShareLink(input: ShareLinkInput): Promise<ShareLink | null> {
+  if (!ENV.shareLinkSecret) {
+    console.error('[ReportShares] SHARE_LINK_SECRET (or JWT_SECRET) is not set; cannot sign share links');
+    return null;
+  }
+
+  const { data: lead } = await supabase.from('leads')
+    .select('sms_verified')
+    .eq('id', input.leadId)
+    .single();
+
+  if (!lead?.sms_verified) {
+    return null;
+  }
+
+  let query = supabase.from('scans')
+    .select('id')
+    .eq('lead_id', input.leadId);
+  if (input.scanId) {
+    query = query.eq('id', input.scanId);
+  }
+
+  const { data: scan } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!scan) {
+    return null;
+  }
+
+  if ((await listReportShareLinks(input.leadId)).length >= MAX_ACTIVE_SHARE_LINKS) {
+    console.warn('[ReportShares] Too many active share links for lead:', input.leadId);
+    return null;
+  }
+
+  const days = Math.min(Math.max(input.expiresInDays ?? DEFAULT_SHARE_DAYS, 1), MAX_SHARE_DAYS);
+  const now = Date.now();
+
+  const { data, error } = await supabase.from('report_share_links')
+    .insert({
+      id: randomUUID(),
+      lead_id: input.leadId,
+      scan_id: scan.id,
+      expires_at: new Date(now + days * DAY_MS).toISOString(),
+      view_count: 0,
+      created_at: new Date(now).toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('[ReportShares] Failed to create share link:', error);
+    return null;
+  }
+
+  return mapShareLink(data);
+}
+
+/**
+ * Turn off one of the lead's links (false if it isn't theirs or is already off)
+ */
+export async function revokeReportShareLink(leadId: string, shareId: string): Promise<boolean> {
+  const { data, error } = await supabase.from('report_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId)
+    .eq('lead_id', leadId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('[ReportShares] Failed to revoke share link:', error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * The link row behind a token, if it can still be opened
+ */
+async function openShareLink(token: string): Promise<
+  { status: 'ok'; link: Record<string, any> } | { status: 'invalid' | 'expired' | 'revoked' }
+> {
+  const shareId = verifyShareToken(token);
+  if (!shareId) {
+    return { status: 'invalid' };
+  }
+
+  const { data: link } = await supabase.from('report_share_links')
+    .select('*')
+    .eq('id', shareId)
+    .maybeSingle();
+
+  if (!link) {
+    return { status: 'invalid' };
+  }
+  if (link.revoked_at) {
+    return { status: 'revoked' };
+  }
+  if (new Date(link.expires_at).getTime() <= Date.now()) {
+    return { status: 'expired' };
+  }
+
+  return { status: 'ok', link };
+}
+
+/**
+ * Open a shared report by its token (reading it doesn't count a view)
+ */
+export async function getSharedReport(token: string): Promise<SharedReportResult> {
+  const opened = await openShareLink(token);
+  if (opened.status !== 'ok') {
+    return { status: opened.status };
+  }
+  const { link } = opened;
+
+  const { data: scan, error } = await supabase.from('scans')
+    .select('id, overall_score, audit_details, raw_response, created_at')
+    .eq('id', link.scan_id)
+    .maybeSingle();
+
+  if (error || !scan) {
+    if (error) console.error('[ReportShares] Failed to load shared scan:', error);
+    return { status: 'invalid' };
+  }
+
+  const { data: lead } = await supabase.from('leads')
+    .select('*')
+    .eq('id', link.lead_id)
+    .maybeSingle();
+
+  const benchmarks = await getBenchmarksForLead(link.lead_id, scan.audit_details?.benchmark_version);
+  return {
+    status: 'ok',
+    report: toSharedReport(buildAuditReport(scan, benchmarks), lead, link.expires_at),
+  };
+}
+
+/**
+ * Count one view of a link that can still be opened
+ * The shared report page records this once per page load, so refetches and
+ * PDF downloads aren't counted again.
+ */
+export async function recordSharedReportView(token: string): Promise<boolean> {
+  const opened = await openShareLink(token);
+  if (opened.status !== 'ok') {
+    return false;
+  }
+
+  const { error } = await supabase.from('report_share_links')
+    .update({
+      view_count: (opened.link.view_count ?? 0) + 1,
+      last_viewed_at: new Date().toISOString(),
+    })
+    .eq('id', opened.link.id);
+
+  if (error) {
+    console.error('[ReportShares] Failed to count view:', error);
+    return false;
+  }
+
+  return true;
+}
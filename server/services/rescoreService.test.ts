@@ -0,0 +1,186 @@
+/**
+ * Unit tests for the scoring rubric registry and re-score jobs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSignals } from '../testing/quoteFixtures';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+import { supabase } from './supabaseClient';
+import {
+  CURRENT_RUBRIC_VERSION,
+  getScoreTier,
+  listScoringRubrics,
+  scoreWithRubric,
+} from './scoringRubrics';
+import {
+  createRescoreReport,
+  getRescoreJob,
+  recordRescore,
+  runRescoreJob,
+  startRescoreJob,
+} from './rescoreService';
+import { adminRouter } from '../routes/admin';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+
+const current = scoreWithRubric(createSignals(), null);
+
+const seedScan = (overrides: Record<string, unknown> = {}) => {
+  db.seed('scans', [{
+    lead_id: LEAD_ID,
+    overall_score: current.overallScore,
+    audit_details: { rubric_version: 'v1', safety_score: current.safetyScore },
+    raw_response: JSON.stringify(createSignals()),
+    ...overrides,
+  }]);
+};
+
+describe('scoring rubric registry', () => {
+  it('should record the rubric version with the analysis', () => {
+    expect(current.rubricVersion).toBe(CURRENT_RUBRIC_VERSION);
+    expect(listScoringRubrics()).toContainEqual(expect.objectContaining({ version: CURRENT_RUBRIC_VERSION, current: true }));
+  });
+
+  it('should only apply license verification from v2', () => {
+    const signals = createSignals({ licenseStatus: 'not_found' });
+
+    expect(scoreWithRubric(signals, null, undefined, 'v1').overallScore).toBe(current.overallScore);
+    expect(scoreWithRubric(signals, null, undefined, 'v1').rawSignals?.licenseStatus).toBe('not_found');
+    expect(scoreWithRubric(signals, null, undefined, 'v2').overallScore).toBeLessThanOrEqual(35);
+  });
+
+  it('should only apply product approval checks from v3', () => {
+    const signals = createSignals({
+      approvalChecks: [{
+        approvalNumber: 'NOA 21-0512.03', approvalStatus: 'expired', expiresOn: '2024-05-01',
+        citedProductType: null, approvedProductType: 'single_hung', hvhzApproved: true,
+        designPressure: 60, requiredDesignPressure: 50, windZone: null, requiresHvhzApproval: true, page: 1,
+      }],
+    });
+
+    expect(scoreWithRubric(signals, null, undefined, 'v2').warnings).toEqual(current.warnings);
+    expect(scoreWithRubric(signals, null, undefined, 'v3').warnings[0]).toContain('NOA 21-0512.03 expired');
+  });
+
+  it('should refuse unknown versions', () => {
+    expect(() => scoreWithRubric(createSignals(), null, undefined, 'v0')).toThrow('Unknown scoring rubric: v0');
+  });
+
+  it('should band scores into tiers', () => {
+    expect(getScoreTier(80)).toBe('good');
+    expect(getScoreTier(79)).toBe('fair');
+    expect(getScoreTier(59)).toBe('concern');
+  });
+});
+
+describe('recordRescore', () => {
+  it('should count score and tier changes', () => {
+    const report = createRescoreReport('v1', false);
+    const change = { scanId: 's', leadId: null, fromVersion: 'unversioned', previousTier: 'fair' as const };
+
+    recordRescore(report, { ...change, previousScore: 70, newScore: 70, newTier: 'fair' });
+    recordRescore(report, { ...change, previousScore: 70, newScore: 74, newTier: 'fair' });
+    recordRescore(report, { ...change, previousScore: 70, newScore: 82, newTier: 'good', scanId: 'big' });
+
+    expect(report).toMatchObject({
+      rescored: 3,
+      scoreChanged: 2,
+      tierChanged: 1,
+      fromVersions: { unversioned: 3 },
+      tierTransitions: { 'fair→good': 1 },
+    });
+    expect(report.averageScoreDelta).toBeCloseTo(16 / 3);
+    expect(report.largestChanges.map(c => c.scanId)).toEqual(['big', 's']);
+  });
+});
+
+describe('re-score jobs', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('leads', [{ id: LEAD_ID, zip: '33156', ocr_city: 'Miami' }]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  const queueJob = (apply = false) => {
+    db.seed('rescore_jobs', [{ id: 'job-1', target_version: 'v1', apply, status: 'queued', processed: 0 }]);
+  };
+
+  it('should report changed scans without touching them on a dry run', async () => {
+    seedScan();
+    seedScan({ overall_score: 50, audit_details: {} });
+    seedScan({ raw_response: null });
+    queueJob();
+
+    await runRescoreJob('job-1');
+
+    const job = await getRescoreJob('job-1');
+    expect(job?.status).toBe('completed');
+    expect(job?.report).toMatchObject({
+      targetVersion: 'v1',
+      applied: false,
+      scanned: 3,
+      rescored: 2,
+      skipped: 1,
+      scoreChanged: 1,
+      tierChanged: 1,
+      tierTransitions: { 'concern→fair': 1 },
+      fromVersions: { v1: 1, unversioned: 1 },
+    });
+    expect(job?.report?.largestChanges[0]).toMatchObject({ previousScore: 50, newScore: current.overallScore });
+    expect(db.table('scans')[1].overall_score).toBe(50);
+  });
+
+  it('should rewrite scores and rubric version when applied', async () => {
+    seedScan({ overall_score: 40, audit_details: { model_version: 'gemini-2.5-flash' } });
+    queueJob(true);
+
+    await runRescoreJob('job-1');
+
+    const scan = db.table('scans')[0];
+    expect(scan.overall_score).toBe(current.overallScore);
+    expect(scan.audit_details).toMatchObject({
+      model_version: 'gemini-2.5-flash',
+      rubric_version: 'v1',
+      previous_rubric_version: 'unversioned',
+      safety_score: current.safetyScore,
+    });
+  });
+
+  it('should mark the job failed when scans cannot be read', async () => {
+    db.failing.add('scans');
+    queueJob();
+
+    await runRescoreJob('job-1');
+
+    expect(await getRescoreJob('job-1')).toMatchObject({ status: 'failed', report: null });
+  });
+
+  it('should not start a job for an unregistered rubric', async () => {
+    expect(await startRescoreJob({ targetVersion: 'v0' })).toEqual({ jobId: null, error: 'Unknown scoring rubric: v0' });
+    expect(db.table('rescore_jobs')).toHaveLength(0);
+  });
+
+  it('should run a job started through the admin router', async () => {
+    seedScan({ overall_score: 50 });
+    const caller = adminRouter.createCaller({
+      user: { id: 1, openId: 'admin-1', email: 'ops@example.com', role: 'admin' },
+      req: {},
+      res: {},
+    } as any);
+
+    const started = await caller.rubrics.rescore({ targetVersion: 'v1' });
+    expect(started.success).toBe(true);
+
+    await vi.waitFor(async () => {
+      expect((await caller.rubrics.rescoreJob({ jobId: started.jobId! }))?.status).toBe('completed');
+    });
+    const [job] = await caller.rubrics.rescoreJobs();
+    expect(job).toMatchObject({ requestedBy: 'ops@example.com', report: { scoreChanged: 1 } });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Rescore Service - Re-score Historical Scans Under a Rubric Version
+ *
+ * Admin job: re-runs the stored raw signals of every scan through a registered
+ * scoring rubric and reports how many scans change overall score or tier.
+ * Runs as a dry run unless `apply` is set, in which case the scans are
+ * updated to the new scores and rubric version.
+ *
+ * Each scan is re-scored against the benchmark version it was originally
+ * scored with, so the report isolates the rubric change.
+ */
+
+import { supabase } from './supabaseClient';
+import { getBenchmarksForLead } from './benchmarkService';
+import { BUILTIN_BENCHMARK_VERSION } from './priceBenchmarks';
+import { buildScoreDetails } from './quoteAnalysisService';
+import {
+  UNVERSIONED_RUBRIC,
+  getScoreTier,
+  getScoringRubric,
+  scoreWithRubric,
+  type ScoreTier,
+} from './scoringRubrics';
+import { parseRawSignals } from './scannerEngine';
+
+// Scans read per batch
+const BATCH_SIZE = 100;
+
+// Largest individual changes kept in the report
+const MAX_REPORTED_CHANGES = 25;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RescoreJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface RescoreChange {
+  scanId: string;
+  leadId: string | null;
+  fromVersion: string;
+  previousScore: number;
+  newScore: number;
+  previousTier: ScoreTier;
+  newTier: ScoreTier;
+}
+
+export interface RescoreReport {
+  targetVersion: string;
+  applied: boolean;
+  scanned: number;
+  rescored: number;
+  skipped: number;
+  scoreChanged: number;
+  tierChanged: number;
+  averageScoreDelta: number;
+  fromVersions: Record<string, number>;
+  tierTransitions: Record<string, number>;
+  largestChanges: RescoreChange[];
+}
+
+export interface RescoreJob {
+  id: string;
+  targetVersion: string;
+  apply: boolean;
+  status: RescoreJobStatus;
+  processed: number;
+  report: RescoreReport | null;
+  errorMessage: string | null;
+  requestedBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface StartRescoreInput {
+  targetVersion: string;
+  apply?: boolean;
+  requestedBy?: string | null;
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+export function createRescoreReport(targetVersion: string, applied: boolean): RescoreReport {
+  return {
+    targetVersion,
+    applied,
+    scanned: 0,
+    rescored: 0,
+    skipped: 0,
+    scoreChanged: 0,
+    tierChanged: 0,
+    averageScoreDelta: 0,
+    fromVersions: {},
+    tierTransitions: {},
+    largestChanges: [],
+  };
+}
+
+/**
+ * Fold one re-scored scan into the report
+ */
+export function recordRescore(report: RescoreReport, change: RescoreChange): void {
+  const delta = change.newScore - change.previousScore;
+
+  // Running mean of (new - previous) over re-scored scans
+  report.rescored += 1;
+  report.averageScoreDelta += (delta - report.averageScoreDelta) / report.rescored;
+  report.fromVersions[change.fromVersion] = (report.fromVersions[change.fromVersion] ?? 0) + 1;
+
+  if (delta === 0) return;
+  report.scoreChanged += 1;
+
+  if (change.previousTier !== change.newTier) {
+    report.tierChanged += 1;
+    const transition = `${change.previousTier}→${change.newTier}`;
+    report.tierTransitions[transition] = (report.tierTransitions[transition] ?? 0) + 1;
+  }
+
+  report.largestChanges.push(change);
+  report.largestChanges.sort((a, b) =>
+    Math.abs(b.newScore - b.previousScore) - Math.abs(a.newScore - a.previousScore)
+  );
+  report.largestChanges.length = Math.min(report.largestChanges.length, MAX_REPORTED_CHANGES);
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+async function updateRescoreJob(jobId: string, updates: Record<string, unknown>): Promise<void> {
+  await supabase.from('rescore_jobs').update({
+    ...updates,
+    updated_at: new Date().toISOString(),
+  }).eq('id', jobId);
+}
+
+function mapRescoreJob(row: Record<string, any>): RescoreJob {
+  return {
+    id: row.id,
+    targetVersion: row.target_version,
+    apply: !!row.apply,
+    status: row.status,
+    processed: row.processed ?? 0,
+    report: row.report ?? null,
+    errorMessage: row.error_message ?? null,
+    requestedBy: row.requested_by ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+// ============================================
+// CORE FUNCTIONS
+// ============================================
+
+/**
+ * Queue a re-score run and start it in the background
+ */
+export async function startRescoreJob(input: StartRescoreInput): Promise<{ jobId: string | null; error: string | null }> {
+  if (!getScoringRubric(input.targetVersion)) {
+    return { jobId: null, error: `Unknown scoring rubric: ${input.targetVersion}` };
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase.from('rescore_jobs')
+    .insert({
+      target_version: input.targetVersion,
+      apply: !!input.apply,
+      status: 'queued',
+      processed: 0,
+      requested_by: input.requestedBy || null,
+      created_at: now,
+      updated_at: now,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[Rescore] Failed to queue job:', error);
+    return { jobId: null, error: 'Failed to queue re-score job' };
+  }
+
+  setTimeout(() => {
+    runRescoreJob(data.id).catch(err => {
+      console.error('[Rescore] Unhandled job error:', data.id, err);
+    });
+  }, 0);
+
+  return { jobId: data.id, error: null };
+}
+
+/**
+ * Re-score every stored scan in batches, then save the report
+ */
+export async function runRescoreJob(jobId: string): Promise<void> {
+  const { data: claimed } = await supabase.from('rescore_jobs')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select('*');
+
+  const job = claimed?.[0];
+  if (!job) {
+    return;
+  }
+
+  const report = createRescoreReport(job.target_version, !!job.apply);
+
+  try {
+    let cursor: string | null = null;
+
+    while (true) {
+      let query = supabase.from('scans')
+        .select('id, lead_id, overall_score, audit_details, raw_response, created_at')
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+      if (cursor) {
+        query = query.gt('created_at', cursor);
+      }
+
+      const { data: scans, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load scans: ${error.message}`);
+      }
+      if (!scans || scans.length === 0) {
+        break;
+      }
+
+      for (const scan of scans) {
+        report.scanned += 1;
+
+        // Only full extractions can be scored again
+        const signals = parseRawSignals(scan.raw_response);
+        if (!signals || !('isValidQuote' in signals) || typeof scan.overall_score !== 'number') {
+          report.skipped += 1;
+          continue;
+        }
+
+        const details = scan.audit_details || {};
+        const benchmarks = await getBenchmarksForLead(scan.lead_id, details.benchmark_version || BUILTIN_BENCHMARK_VERSION);
+        const analysis = scoreWithRubric(signals, details.opening_count_hint ?? null, benchmarks, job.target_version);
+        const fromVersion = details.rubric_version || UNVERSIONED_RUBRIC;
+
+        recordRescore(report, {
+          scanId: scan.id,
+          leadId: scan.lead_id ?? null,
+          fromVersion,
+          previousScore: scan.overall_score,
+          newScore: analysis.overallScore,
+          previousTier: getScoreTier(scan.overall_score),
+          newTier: getScoreTier(analysis.overallScore),
+        });
+
+        if (job.apply) {
+          await supabase.from('scans').update({
+            overall_score: analysis.overallScore,
+            audit_details: {
+              ...details,
+              ...buildScoreDetails(analysis),
+              previous_rubric_version: fromVersion,
+              rescored_at: new Date().toISOString(),
+            },
+            updated_at: new Date().toISOString(),
+          }).eq('id', scan.id);
+        }
+      }
+
+      cursor = scans[scans.length - 1].created_at;
+      await updateRescoreJob(jobId, { processed: report.scanned });
+
+      if (scans.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    report.averageScoreDelta = Math.round(report.averageScoreDelta * 100) / 100;
+
+    await updateRescoreJob(jobId, {
+      status: 'completed',
+      processed: report.scanned,
+      report,
+      completed_at: new Date().toISOString(),
+    });
+
+    console.log(`[Rescore] Job ${jobId} (${job.target_version}): ${report.rescored} re-scored, ${report.scoreChanged} changed, ${report.tierChanged} changed tier`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Rescore] Job ${jobId} failed:`, message);
+
+    await updateRescoreJob(jobId, {
+      status: 'failed',
+      processed: report.scanned,
+      error_message: message,
+      completed_at: new Date().toISOString(),
+    });
+  }
+}
+
+// ============================================
+// STATUS QUERIES
+// ============================================
+
+export async function getRescoreJob(jobId: string): Promise<RescoreJob | null> {
+  const { data, error } = await supabase.from('rescore_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return mapRescoreJob(data);
+}
+
+export async function listRescoreJobs(limit = 20): Promise<RescoreJob[]> {
+  const { data, error } = await supabase.from('rescore_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error || !data) {
+    return [];
+  }
+
+  return data.map(mapRescoreJob);
+}
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for the scan-grounded expert chat
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+import { createSignals, llmResponse } from '../testing/quoteFixtures';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+const llmState = vi.hoisted(() => ({ configured: true }));
+
+vi.mock('../_core/llm', () => ({
+  invokeLLM: vi.fn(),
+  isLLMConfigured: () => llmState.configured,
+}));
+
+import { supabase } from './supabaseClient';
+import { invokeLLM, type InvokeParams } from '../_core/llm';
+import {
+  buildChatSystemPrompt,
+  buildScanFindings,
+  CHAT_REFUSAL,
+  extractCitations,
+  loadScanChatContext,
+  streamScanChat,
+  type ScanChatChunk,
+} from './scanChat';
+import { alphaRouter } from '../routes/alpha';
+
+const db = supabase as unknown as FakeSupabase;
+const mockInvokeLLM = vi.mocked(invokeLLM);
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+
+const DEPOSIT_WARNING = 'High risk: deposit exceeds 40%.';
+
+const AUDIT_DETAILS = {
+  safety_score: 80,
+  scope_score: 55,
+  price_score: 70,
+  fine_print_score: 40,
+  warranty_score: 65,
+  warnings: [DEPOSIT_WARNING, "RED FLAG: 'Subject to remeasure/change' allows price hikes after signing."],
+  missing_items: ['Wall repair scope unclear (stucco/drywall/paint after install).'],
+  price_per_opening: '$1,450',
+  benchmark_region: 'Miami-Dade County',
+  warning_citations: [
+    {
+      warning: DEPOSIT_WARNING,
+      signals: ['depositPercentage'],
+      evidence: [{ signal: 'depositPercentage', page: 2, snippet: '60% deposit due at signing' }],
+    },
+  ],
+  price_outliers: [{
+    itemIndex: 3,
+    openingType: 'sliding_door',
+    label: 'Sliding door',
+    description: '12ft slider',
+    unitPrice: 9800,
+    expectedRange: { low: 3500, high: 6500 },
+    direction: 'high',
+    page: 3,
+  }],
+};
+
+// Streams the reply in pieces the way invokeLLM does with onDelta
+const streamReply = (...pieces: string[]) => async (params: InvokeParams) => {
+  for (const piece of pieces) {
+    await Promise.resolve();
+    params.onDelta?.(piece);
+  }
+  return llmResponse(pieces.join(''));
+};
+
+async function collect(stream: AsyncIterable<ScanChatChunk>): Promise<ScanChatChunk[]> {
+  const chunks: ScanChatChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('scan findings', () => {
+  it('should number warnings, missing items and price outliers with the quote text behind them', () => {
+    const findings = buildScanFindings(AUDIT_DETAILS);
+
+    expect(findings.map(finding => finding.id)).toEqual(['W1', 'W2', 'M1', 'P1']);
+    expect(findings[0]).toEqual({
+      id: 'W1',
+      kind: 'warning',
+      text: DEPOSIT_WARNING,
+      page: 2,
+      snippet: '60% deposit due at signing',
+    });
+    expect(findings[3].text).toBe('12ft slider: $9,800 each, far above the typical $3,500-$6,500');
+  });
+
+  it('should return cited findings once, in citation order, ignoring unknown ids', () => {
+    const findings = buildScanFindings(AUDIT_DETAILS);
+
+    expect(extractCitations('Fix [M1] first, then [W1] and [W9]. Again [M1].', findings).map(f => f.id))
+      .toEqual(['M1', 'W1']);
+  });
+});
+
+describe('streamScanChat', () => {
+  beforeEach(() => {
+    db.reset();
+    mockInvokeLLM.mockReset();
+    llmState.configured = true;
+    db.seed('leads', [{ id: LEAD_ID, sms_verified: true }]);
+    db.seed('scans', [{
+      id: SCAN_ID,
+      lead_id: LEAD_ID,
+      overall_score: 58,
+      audit_details: AUDIT_DETAILS,
+      raw_response: JSON.stringify(createSignals({ depositPercentage: 60 })),
+      created_at: '2026-10-01T00:00:00.000Z',
+    }]);
+  });
+
+  it('should ground the prompt in the scan and stream the reply with its citations', async () => {
+    mockInvokeLLM.mockImplementation(streamReply('Your 60% deposit ', 'is the biggest risk [W1].'));
+
+    const chunks = await collect(streamScanChat({
+      leadId: LEAD_ID,
+      question: 'What should I worry about?',
+      history: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello!' }],
+    }));
+
+    expect(chunks.slice(0, 2)).toEqual([
+      { type: 'delta', text: 'Your 60% deposit ' },
+      { type: 'delta', text: 'is the biggest risk [W1].' },
+    ]);
+    expect(chunks[2]).toMatchObject({
+      type: 'done',
+      reply: 'Your 60% deposit is the biggest risk [W1].',
+      refused: false,
+      citations: [{ id: 'W1', page: 2, snippet: '60% deposit due at signing' }],
+    });
+
+    const { messages, onDelta } = mockInvokeLLM.mock.calls[0][0];
+    expect(onDelta).toBeTypeOf('function');
+    expect(messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    const system = messages[0].content as string;
+    expect(system).toContain('[W1] High risk: deposit exceeds 40%. (quote text, page 2: "60% deposit due at signing")');
+    expect(system).toContain('[M1] Wall repair scope unclear');
+    expect(system).toContain('"depositPercentage":60');
+    expect(system).toContain(CHAT_REFUSAL);
+  });
+
+  it('should flag the fixed refusal for off-topic questions', async () => {
+    mockInvokeLLM.mockImplementation(streamReply(CHAT_REFUSAL));
+
+    const chunks = await collect(streamScanChat({ leadId: LEAD_ID, question: 'Write me a poem about cats' }));
+
+    expect(chunks[chunks.length - 1]).toEqual({ type: 'done', reply: CHAT_REFUSAL, citations: [], refused: true });
+  });
+
+  it('should send a reply that arrived in one piece as a single delta', async () => {
+    mockInvokeLLM.mockResolvedValue(llmResponse('Ask them to add wall repair [M1].'));
+
+    const chunks = await collect(streamScanChat({ leadId: LEAD_ID, question: 'What is missing?' }));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['delta', 'done']);
+  });
+
+  it('should not answer for unverified leads, without an LLM, or when the request fails', async () => {
+    mockInvokeLLM.mockRejectedValue(new Error('LLM invoke failed: 503'));
+    expect(await collect(streamScanChat({ leadId: LEAD_ID, question: 'Is this fair?' })))
+      .toEqual([{ type: 'error', message: 'Something went wrong answering that. Please try again.' }]);
+
+    llmState.configured = false;
+    expect((await collect(streamScanChat({ leadId: LEAD_ID, question: 'Is this fair?' })))[0].type).toBe('error');
+
+    db.table('leads')[0].sms_verified = false;
+    expect(await loadScanChatContext(LEAD_ID)).toBeNull();
+    expect(mockInvokeLLM).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream through the alpha.chat mutation', async () => {
+    mockInvokeLLM.mockImplementation(streamReply('Price per opening is ', '$1,450 [P1].'));
+
+    const caller = alphaRouter.createCaller({ req: {}, res: {} } as any);
+    const chunks = await collect(await caller.chat({ leadId: LEAD_ID, scanId: SCAN_ID, question: 'Is the price fair?' }));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['delta', 'delta', 'done']);
+    expect(buildChatSystemPrompt((await loadScanChatContext(LEAD_ID, SCAN_ID))!))
+      .toContain('Price per opening: $1,450 (benchmarks for Miami-Dade County)');
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Scan Chat - Expert Q&A Grounded in One Scan
+ *
+ * Answers a homeowner's questions about their audited quote with invokeLLM,
+ * streaming the reply. The model only sees this scan: its extracted signals,
+ * scores, warnings (with the quote text behind them), missing items and
+ * price outliers. Every finding gets a short id ([W1], [M2], [P1]) the model
+ * must cite; cited findings are returned with the finished reply.
+ *
+ * Questions unrelated to the quote or the project get a fixed refusal.
+ * Both sides of the conversation are stored (chatTranscripts) and the lead's
+ * engagement is re-scored after each answer.
+ */
+
+import { invokeLLM, isLLMConfigured, type Message } from '../_core/llm';
+import { supabase } from './supabaseClient';
+import { parseRawSignals, type ExtractionSignals, type WarningCitation } from './scannerEngine';
+import type { LineItemOutlier } from './lineItemPricing';
+import {
+  classifyChatTopic,
+  getChatTranscript,
+  saveChatMessage,
+  updateChatEngagement,
+  type ChatInputMode,
+} from './chatTranscripts';
+
+export const MAX_CHAT_QUESTION_LENGTH = 1000;
+export const MAX_CHAT_HISTORY = 12;
+
+export const CHAT_REFUSAL =
+  "I can only help with questions about your quote, the contractor and your window or door project.";
+
+const CITATION_PATTERN = /\[([WMP]\d+)\]/g;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FindingKind = 'warning' | 'missing_item' | 'price_outlier';
+
+// A report finding the assistant can cite
+export interface ScanFinding {
+  id: string;
+  kind: FindingKind;
+  text: string;
+  page: number | null;
+  snippet: string | null; // Quote text behind the finding
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ScanChatInput {
+  leadId: string;
+  scanId?: string;
+  question: string;
+  history?: ChatTurn[]; // Defaults to the stored transcript for the scan
+  inputMode?: ChatInputMode;
+  audioKey?: string | null; // Recording a voice question was transcribed from
+}
+
+export type ScanChatChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; reply: string; citations: ScanFinding[]; refused: boolean }
+  | { type: 'error'; message: string };
+
+export interface ScanChatContext {
+  scanId: string;
+  overallScore: number;
+  details: Record<string, any>;
+  rawSignals: ExtractionSignals | null;
+  findings: ScanFinding[];
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Number the scan's warnings, missing items and price outliers for citation
+ */
+export function buildScanFindings(details: Record<string, any>): ScanFinding[] {
+  const citations = (details.warning_citations ?? []) as WarningCitation[];
+
+  const warnings = ((details.warnings ?? []) as string[]).map((warning, index): ScanFinding => {
+    const evidence = citations.find(citation => citation.warning === warning)?.evidence[0];
+    return {
+      id: `W${index + 1}`,
+      kind: 'warning',
+      text: warning,
+      page: evidence?.page ?? null,
+      snippet: evidence?.snippet ?? null,
+    };
+  });
+
+  const missing = ((details.missing_items ?? []) as string[]).map((item, index): ScanFinding => ({
+    id: `M${index + 1}`,
+    kind: 'missing_item',
+    text: item,
+    page: null,
+    snippet: null,
+  }));
+
+  const outliers = ((details.price_outliers ?? []) as LineItemOutlier[]).map((outlier, index): ScanFinding => ({
+    id: `P${index + 1}`,
+    kind: 'price_outlier',
+    text: `${outlier.description}: $${outlier.unitPrice.toLocaleString()} each, far ${outlier.direction === 'high' ? 'above' : 'below'} the typical $${outlier.expectedRange.low.toLocaleString()}-$${outlier.expectedRange.high.toLocaleString()}`,
+    page: outlier.page,
+    snippet: null,
+  }));
+
+  return [...warnings, ...missing, ...outliers];
+}
+
+function describeFinding(finding: ScanFinding): string {
+  const source = finding.snippet
+    ? ` (quote text${finding.page ? `, page ${finding.page}` : ''}: "${finding.snippet}")`
+    : finding.page ? ` (page ${finding.page})` : '';
+  return `[${finding.id}] ${finding.text}${source}`;
+}
+
+/**
+ * System prompt: the assistant's rules plus everything known about this scan
+ */
+export function buildChatSystemPrompt(context: ScanChatContext): string {
+  const { details, findings } = context;
+  const section = (kind: FindingKind) => {
+    const lines = findings.filter(finding => finding.kind === kind).map(describeFinding);
+    return lines.length > 0 ? lines.join('\n') : 'None';
+  };
+
+  return `You are a Florida impact window and door quote expert helping a homeowner understand the audit of THEIR quote.
+
+RULES
+- Answer only from the scan data below. If the data doesn't say, say you can't tell from the quote and suggest asking the contractor in writing.
+- Cite the finding(s) each point is based on with its id in square brackets, e.g. "The deposit is too high [W2]." Never invent ids.
+- Never promise a dollar amount of savings; the report does not estimate one.
+- Keep answers short (under 150 words), plain and practical. No legal advice.
+- If the question is not about this quote, the contractor, pricing, the homeowner's window/door/hurricane protection project or next steps, reply with exactly: ${CHAT_REFUSAL}
+
+SCORES (0-100)
+Overall ${context.overallScore}; safety ${details.safety_score ?? 'n/a'}, scope ${details.scope_score ?? 'n/a'}, price ${details.price_score ?? 'n/a'}, fine print ${details.fine_print_score ?? 'n/a'}, warranty ${details.warranty_score ?? 'n/a'}
+Price per opening: ${details.price_per_opening || 'N/A'} (benchmarks for ${details.benchmark_region || 'Florida'})
+Summary: ${details.summary || 'n/a'}
+
+WARNINGS
+${section('warning')}
+
+MISSING ITEMS
+${section('missing_item')}
+
+PRICE OUTLIERS
+${section('price_outlier')}
+
+EXTRACTED SIGNALS (JSON)
+${JSON.stringify(context.rawSignals ?? {})}`;
+}
+
+/**
+ * Findings a reply cites, in the order first cited (unknown ids are dropped)
+ */
+export function extractCitations(reply: string, findings: ScanFinding[]): ScanFinding[] {
+  const ids = new Set(Array.from(reply.matchAll(CITATION_PATTERN), match => match[1]));
+  return Array.from(ids)
+    .map(id => findings.find(finding => finding.id === id))
+    .filter((finding): finding is ScanFinding => finding !== undefined);
+}
+
+function isRefusal(reply: string): boolean {
+  return reply.trim().replace(/\s+/g, ' ') === CHAT_REFUSAL;
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * The scan a verified lead is asking about (the newest one unless scanId is given)
+ * Returns null when the lead hasn't verified their phone or has no such scan.
+ */
+export async function loadScanChatContext(leadId: string, scanId?: string): Promise<ScanChatContext | null> {
+  const { data: lead } = await supabase.from('leads')
+    .select('sms_verified')
+    .eq('id', leadId)
+    .single();
+
+  if (!lead?.sms_verified) {
+    return null;
+  }
+
+  let query = supabase.from('scans')
+    .select('id, overall_score, audit_details, raw_response')
+    .eq('lead_id', leadId);
+  if (scanId) {
+    query = query.eq('id', scanId);
+  }
+
+  const { data: scan, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !scan) {
+    if (error) console.error('[ScanChat] Failed to load scan:', error);
+    return null;
+  }
+
+  const details = scan.audit_details || {};
+
+  return {
+    scanId: scan.id,
+    overallScore: scan.overall_score ?? 0,
+    details,
+    rawSignals: parseRawSignals(scan.raw_response),
+    findings: buildScanFindings(details),
+  };
+}
+
+// ============================================
+// CHAT
+// ============================================
+
+/**
+ * Store the question (and the answer, if there is one), then re-score engagement
+ */
+async function recordExchange(
+  input: ScanChatInput,
+  scanId: string,
+  answer: { reply: string; citations: ScanFinding[]; refused: boolean } | null
+): Promise<void> {
+  const topic = answer?.refused ? 'off_topic' : classifyChatTopic(input.question);
+
+  await saveChatMessage({
+    leadId: input.leadId,
+    scanId,
+    role: 'user',
+    content: input.question,
+    topic,
+    inputMode: input.inputMode,
+    audioKey: input.audioKey,
+  });
+  if (answer) {
+    await saveChatMessage({ leadId: input.leadId, scanId, role: 'assistant', content: answer.reply, topic, ...answer });
+  }
+  await updateChatEngagement(input.leadId);
+}
+
+/**
+ * Answer a question about a scan, streaming the reply as it is generated
+ * Ends with a 'done' chunk (full reply, cited findings) or an 'error' chunk.
+ */
+export async function* streamScanChat(input: ScanChatInput): AsyncGenerator<ScanChatChunk> {
+  const context = await loadScanChatContext(input.leadId, input.scanId);
+
+  if (!context) {
+    yield { type: 'error', message: 'Report not found. Verify your phone to chat about your quote.' };
+    return;
+  }
+
+  if (!isLLMConfigured()) {
+    await recordExchange(input, context.scanId, null);
+    yield { type: 'error', message: 'The quote expert is unavailable right now. Please try again later.' };
+    return;
+  }
+
+  const history: ChatTurn[] = input.history
+    ?? (await getChatTranscript(input.leadId, context.scanId)).map(message => ({ role: message.role, content: message.content }));
+
+  const messages: Message[] = [
+    { role: 'system', content: buildChatSystemPrompt(context) },
+    ...history.slice(-MAX_CHAT_HISTORY).map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user', content: input.question },
+  ];
+
+  // invokeLLM reports deltas through a callback; queue them for the generator
+  const pending: string[] = [];
+  let finished = false;
+  let wake: (() => void) | null = null;
+  let streamed = '';
+
+  const request = invokeLLM({
+    messages,
+    onDelta: text => {
+      pending.push(text);
+      wake?.();
+    },
+  });
+  const settle = () => {
+    finished = true;
+    wake?.();
+  };
+  request.then(settle, settle);
+
+  while (true) {
+    if (pending.length > 0) {
+      const text = pending.shift()!;
+      streamed += text;
+      yield { type: 'delta', text };
+      continue;
+    }
+    if (finished) break;
+    await new Promise<void>(resolve => {
+      wake = resolve;
+    });
+    wake = null;
+  }
+
+  let reply: string;
+  try {
+    const result = await request;
+    const content = result.choices[0]?.message.content;
+    reply = typeof content === 'string' ? content : streamed;
+  } catch (error) {
+    console.error('[ScanChat] LLM request failed:', error);
+    await recordExchange(input, context.scanId, null);
+    yield { type: 'error', message: 'Something went wrong answering that. Please try again.' };
+    return;
+  }
+
+  // Nothing streamed (provider answered in one piece): send it whole
+  if (!streamed && reply) {
+    yield { type: 'delta', text: reply };
+  }
+
+  const refused = isRefusal(reply);
+  const citations = refused ? [] : extractCitations(reply, context.findings);
+
+  await recordExchange(input, context.scanId, { reply, citations, refused });
+
+  yield { type: 'done', reply, citations, refused };
+}
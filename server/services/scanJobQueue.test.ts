@@ -0,0 +1,277 @@
+/**
+ * Unit tests for the scan job queue (alpha.analyze → alpha.status)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSignals, llmResponse } from '../testing/quoteFixtures';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+vi.mock('../storage', () => ({
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://files.example.com/${key}` })),
+}));
+
+vi.mock('../_core/llm', () => ({
+  invokeLLM: vi.fn(),
+  isLLMConfigured: () => true,
+}));
+
+import { invokeLLM } from '../_core/llm';
+import { supabase } from './supabaseClient';
+import {
+  SCAN_PILLARS,
+  enqueueScanJob,
+  getRetryDelayMs,
+  getScanJobStatus,
+  isRetryableError,
+  processScanJob,
+  resumePendingScanJobs,
+} from './scanJobQueue';
+import { alphaRouter } from '../routes/alpha';
+
+const db = supabase as unknown as FakeSupabase;
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const JOB_ID = '22222222-2222-4222-8222-222222222222';
+
+const input = {
+  leadId: LEAD_ID,
+  pages: [{ key: `estimates/${LEAD_ID}/abc.pdf`, mimeType: 'application/pdf' }],
+};
+
+const job = (id: string) => db.table('scan_jobs').find(row => row.id === id)!;
+
+const seedJob = (overrides: Record<string, unknown> = {}) => {
+  db.seed('scan_jobs', [{
+    id: JOB_ID,
+    lead_id: LEAD_ID,
+    storage_key: input.pages[0].key,
+    mime_type: input.pages[0].mimeType,
+    pages: input.pages,
+    opening_count_hint: null,
+    status: 'queued',
+    attempts: 0,
+    completed_pillars: [],
+    next_attempt_at: new Date().toISOString(),
+    ...overrides,
+  }]);
+};
+
+describe('scan job queue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    db.reset();
+    db.seed('leads', [{ id: LEAD_ID, ocr_city: 'Miami' }]);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('retry policy', () => {
+    it('should retry only transient error classes', () => {
+      expect(isRetryableError(new Error('LLM invoke failed: 429 Too Many Requests'))).toBe(true);
+      expect(isRetryableError(new Error('LLM invoke failed: 503 Service Unavailable'))).toBe(true);
+      expect(isRetryableError(new Error('request timeout'))).toBe(true);
+      expect(isRetryableError(new Error('LLM invoke failed: 403 Forbidden'))).toBe(false);
+      expect(isRetryableError(new Error('Failed to parse AI response. Please try again.'))).toBe(false);
+    });
+
+    it('should back off exponentially with a cap', () => {
+      expect(getRetryDelayMs(1)).toBe(2000);
+      expect(getRetryDelayMs(2)).toBe(4000);
+      expect(getRetryDelayMs(3)).toBe(8000);
+      expect(getRetryDelayMs(10)).toBe(60000);
+    });
+  });
+
+  describe('processing', () => {
+    it('should run a queued job through to a saved scan', async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+
+      const jobId = await enqueueScanJob(input);
+      expect(jobId).toBeTruthy();
+      expect(job(jobId!).status).toBe('queued');
+
+      await vi.waitFor(() => expect(job(jobId!).status).toBe('completed'));
+
+      const done = job(jobId!);
+      expect(done.attempts).toBe(1);
+      expect(done.completed_pillars).toEqual([...SCAN_PILLARS]);
+      expect(done.scan_id).toBe(db.table('scans')[0].id);
+      expect(db.table('scans')[0].lead_id).toBe(LEAD_ID);
+    });
+
+    it('should re-queue with backoff on a rate limit, then succeed', async () => {
+      vi.mocked(invokeLLM)
+        .mockRejectedValueOnce(new Error('LLM invoke failed: 429 Too Many Requests'))
+        .mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+      seedJob();
+
+      await processScanJob(JOB_ID);
+
+      expect(job(JOB_ID)).toMatchObject({
+        status: 'queued',
+        attempts: 1,
+        error_class: 'QUOTA_EXCEEDED',
+        completed_pillars: [],
+      });
+      expect(new Date(job(JOB_ID).next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+
+      await vi.advanceTimersByTimeAsync(getRetryDelayMs(1));
+      await vi.waitFor(() => expect(job(JOB_ID).status).toBe('completed'));
+
+      expect(job(JOB_ID).attempts).toBe(2);
+      expect(job(JOB_ID).error_class).toBeNull();
+    });
+
+    it('should fail immediately on a permanent error', async () => {
+      vi.mocked(invokeLLM).mockRejectedValue(new Error('LLM invoke failed: 403 Forbidden'));
+      seedJob();
+
+      await processScanJob(JOB_ID);
+
+      expect(job(JOB_ID)).toMatchObject({ status: 'failed', attempts: 1, error_class: 'PERMISSION_DENIED' });
+      expect(db.table('scans')).toHaveLength(0);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should give up after the last attempt', async () => {
+      vi.mocked(invokeLLM).mockRejectedValue(new Error('LLM invoke failed: 503 Service Unavailable'));
+      seedJob();
+
+      await processScanJob(JOB_ID);
+      await vi.advanceTimersByTimeAsync(getRetryDelayMs(1));
+      await vi.waitFor(() => expect(job(JOB_ID).attempts).toBe(2));
+      await vi.advanceTimersByTimeAsync(getRetryDelayMs(2));
+      await vi.waitFor(() => expect(job(JOB_ID).status).toBe('failed'));
+
+      expect(job(JOB_ID)).toMatchObject({ attempts: 3, error_class: 'SERVER_ERROR' });
+      expect(invokeLLM).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep a saved scan completed when the lead value update throws', async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+      seedJob();
+      const from = db.from.bind(db);
+      vi.spyOn(db, 'from').mockImplementation((table: string) => {
+        if (table === 'lead_value_matrices') throw new Error('connection reset');
+        return from(table);
+      });
+
+      await processScanJob(JOB_ID);
+
+      expect(job(JOB_ID)).toMatchObject({ status: 'completed', attempts: 1, error_class: null });
+      expect(db.table('scans')).toHaveLength(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should fall back to the single storage key for older jobs', async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+      seedJob({ pages: undefined });
+
+      await processScanJob(JOB_ID);
+
+      expect(job(JOB_ID).status).toBe('completed');
+      expect(db.table('scans')[0].quote_url).toBe(`https://files.example.com/${input.pages[0].key}`);
+    });
+
+    it('should not pick up a job that is already running', async () => {
+      seedJob({ status: 'extracting' });
+
+      await processScanJob(JOB_ID);
+
+      expect(invokeLLM).not.toHaveBeenCalled();
+      expect(job(JOB_ID).attempts).toBe(0);
+    });
+  });
+
+  describe('resumePendingScanJobs', () => {
+    it('should re-queue interrupted jobs and leave finished ones alone', async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+      seedJob({ status: 'scoring', attempts: 1, completed_pillars: ['safety', 'scope'] });
+      db.seed('scan_jobs', [{ id: 'done-job', lead_id: LEAD_ID, status: 'completed' }]);
+
+      const resumed = await resumePendingScanJobs();
+
+      expect(resumed).toBe(1);
+      expect(job(JOB_ID)).toMatchObject({ status: 'queued', completed_pillars: [] });
+
+      await vi.waitFor(() => expect(job(JOB_ID).status).toBe('completed'));
+      expect(job(JOB_ID).attempts).toBe(2);
+      expect(job('done-job').status).toBe('completed');
+    });
+  });
+
+  describe('getScanJobStatus', () => {
+    it('should return null when the lead has no jobs', async () => {
+      expect(await getScanJobStatus(LEAD_ID)).toBeNull();
+    });
+
+    it('should report completed pillars while scoring', async () => {
+      seedJob({ status: 'scoring', attempts: 1, completed_pillars: ['safety', 'scope', 'price'] });
+
+      const status = await getScanJobStatus(LEAD_ID, JOB_ID);
+
+      expect(status).toMatchObject({
+        jobId: JOB_ID,
+        status: 'scoring',
+        completedPillars: ['safety', 'scope', 'price'],
+        result: null,
+        errorMessage: null,
+      });
+    });
+
+    it('should hide internal error details from failed jobs', async () => {
+      seedJob({ status: 'failed', last_error: 'LLM invoke failed: 403 Forbidden' });
+
+      const status = await getScanJobStatus(LEAD_ID);
+
+      expect(status?.errorMessage).toBe('Analysis failed. Please try again.');
+    });
+  });
+
+  describe('alpha router', () => {
+    const caller = alphaRouter.createCaller({ user: null, req: {}, res: {} } as any);
+
+    it('should reject storage keys that belong to another lead', async () => {
+      const result = await caller.analyze({
+        ...input,
+        pages: [...input.pages, { key: 'estimates/someone-else/abc.pdf', mimeType: 'application/pdf' }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(db.table('scan_jobs')).toHaveLength(0);
+    });
+
+    it('should queue a job and report its result through alpha.status', async () => {
+      vi.mocked(invokeLLM).mockResolvedValue(llmResponse(JSON.stringify(createSignals())));
+
+      const queued = await caller.analyze(input);
+      expect(queued.success).toBe(true);
+      expect(queued.jobId).toBeTruthy();
+
+      await vi.waitFor(() => expect(job(queued.jobId!).status).toBe('completed'));
+
+      const status = await caller.status({ leadId: LEAD_ID });
+      expect(status.status).toBe('completed');
+      expect(status.hasResults).toBe(true);
+      expect('result' in status && status.result?.pricePerOpening).toBe('$1,500');
+      expect('result' in status && status.result).not.toHaveProperty('rawSignals');
+    });
+
+    it('should fall back to the scans table for leads without jobs', async () => {
+      db.seed('scans', [{ lead_id: LEAD_ID, overall_score: 72 }]);
+
+      const status = await caller.status({ leadId: LEAD_ID });
+
+      expect(status).toMatchObject({ status: 'completed', hasResults: true, overallScore: 72 });
+    });
+  });
+});
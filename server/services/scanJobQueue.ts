@@ -0,0 +1,310 @@
+/**
+ * Scan Job Queue
+ *
+ * Persisted queue for server-side quote analysis.
+ * Jobs move queued → extracting → scoring → completed (or failed). The
+ * rubric scores all five pillars in one pass, so completed_pillars is filled
+ * once scoring returns; the Analysis Theater follows the job's stage and can
+ * resume after a refresh.
+ */
+
+import { supabase } from './supabaseClient';
+import { classifyGeminiError } from './scannerEngine';
+import { scoreWithRubric } from './scoringRubrics';
+import { getBenchmarksForLead } from './benchmarkService';
+import { recalculateLeadValue } from './leadValueService';
+import {
+  extractStoredQuote,
+  saveScan,
+  getScanResult,
+  type AnalyzeQuoteInput,
+  type ScanResultPayload,
+} from './quoteAnalysisService';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Total attempts per job (first run + retries)
+const MAX_ATTEMPTS = 3;
+
+// Exponential backoff: 2s, 4s, 8s ... capped at 60s
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+// Transient classes from classifyGeminiError worth retrying.
+// MODEL_NOT_FOUND, PERMISSION_DENIED and LOCATION_NOT_SUPPORTED will not fix themselves.
+const RETRYABLE_ERROR_CLASSES = ['QUOTA_EXCEEDED', 'TIMEOUT', 'SERVER_ERROR'];
+
+// Order matches THEATER_STAGES on the client
+export const SCAN_PILLARS = ['safety', 'scope', 'price', 'fine_print', 'warranty'] as const;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScanJobStatus = 'queued' | 'extracting' | 'scoring' | 'completed' | 'failed';
+export type ScanPillar = typeof SCAN_PILLARS[number];
+
+export interface ScanJobStatusResult {
+  jobId: string;
+  status: ScanJobStatus;
+  attempts: number;
+  completedPillars: ScanPillar[];
+  scanId: string | null;
+  errorMessage: string | null;
+  result: ScanResultPayload | null;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Get the error class prefix (e.g. 'QUOTA_EXCEEDED') for a failure
+ */
+export function getErrorClass(error: unknown): string {
+  return classifyGeminiError(error).split(':')[0];
+}
+
+/**
+ * Check if a failure is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  return RETRYABLE_ERROR_CLASSES.includes(getErrorClass(error));
+}
+
+/**
+ * Backoff before the next attempt (attempt is 1-based)
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Run a job after a delay without blocking the caller
+ */
+function scheduleScanJob(jobId: string, delayMs: number): void {
+  setTimeout(() => {
+    processScanJob(jobId).catch(err => {
+      console.error('[ScanJobs] Unhandled job error:', jobId, err);
+    });
+  }, delayMs);
+}
+
+async function updateJob(jobId: string, updates: Record<string, unknown>): Promise<void> {
+  await supabase.from('scan_jobs').update({
+    ...updates,
+    updated_at: new Date().toISOString(),
+  }).eq('id', jobId);
+}
+
+// ============================================
+// CORE FUNCTIONS
+// ============================================
+
+/**
+ * Queue a stored quote for analysis and start processing it
+ */
+export async function enqueueScanJob(input: AnalyzeQuoteInput): Promise<string | null> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase.from('scan_jobs')
+    .insert({
+      lead_id: input.leadId,
+      event_id: input.eventId || null,
+      storage_key: input.pages[0].key,
+      mime_type: input.pages[0].mimeType,
+      pages: input.pages,
+      opening_count_hint: input.openingCountHint ?? null,
+      status: 'queued',
+      attempts: 0,
+      completed_pillars: [],
+      next_attempt_at: now,
+      created_at: now,
+      updated_at: now,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('[ScanJobs] Failed to enqueue job:', error);
+    return null;
+  }
+
+  console.log('[ScanJobs] Queued job:', data.id);
+  scheduleScanJob(data.id, 0);
+
+  return data.id;
+}
+
+/**
+ * Process one job: extract → score → save scan → update the lead's value
+ */
+export async function processScanJob(jobId: string): Promise<void> {
+  // Claim the job (only queued jobs can be picked up)
+  const { data: claimed } = await supabase.from('scan_jobs')
+    .update({
+      status: 'extracting',
+      started_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select('*');
+
+  const job = claimed?.[0];
+  if (!job) {
+    return;
+  }
+
+  const attempt = (job.attempts || 0) + 1;
+  await updateJob(jobId, { attempts: attempt });
+
+  const input: AnalyzeQuoteInput = {
+    leadId: job.lead_id,
+    // Jobs queued before multi-page support only have the single storage key
+    pages: job.pages?.length ? job.pages : [{ key: job.storage_key, mimeType: job.mime_type }],
+    eventId: job.event_id || undefined,
+    openingCountHint: job.opening_count_hint,
+  };
+
+  try {
+    // STAGE 1: Extraction (the slow LLM call)
+    const extraction = await extractStoredQuote(input);
+
+    // STAGE 2: Scoring (current rubric, lead's regional price bands); every pillar comes out of one call
+    await updateJob(jobId, { status: 'scoring', completed_pillars: [] });
+    const benchmarks = await getBenchmarksForLead(input.leadId);
+    const analysis = scoreWithRubric(extraction.signals, input.openingCountHint ?? null, benchmarks);
+    await updateJob(jobId, { completed_pillars: [...SCAN_PILLARS] });
+
+    // STAGE 3: Persist the scan
+    const processingMs = Date.now() - new Date(job.started_at || Date.now()).getTime();
+    const scanId = await saveScan(input.leadId, extraction, analysis, processingMs);
+
+    if (!scanId) {
+      throw new Error('Failed to save scan results');
+    }
+
+    await updateJob(jobId, {
+      status: 'completed',
+      scan_id: scanId,
+      completed_at: new Date().toISOString(),
+      last_error: null,
+      error_class: null,
+    });
+
+    console.log(`[ScanJobs] Job ${jobId} completed (scan ${scanId}, attempt ${attempt})`);
+  } catch (error) {
+    const errorClass = getErrorClass(error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (attempt < MAX_ATTEMPTS && isRetryableError(error)) {
+      const delayMs = getRetryDelayMs(attempt);
+
+      console.warn(`[ScanJobs] Job ${jobId} attempt ${attempt} failed (${errorClass}), retrying in ${delayMs}ms`);
+
+      await updateJob(jobId, {
+        status: 'queued',
+        completed_pillars: [],
+        error_class: errorClass,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+      });
+
+      scheduleScanJob(jobId, delayMs);
+      return;
+    }
+
+    console.error(`[ScanJobs] Job ${jobId} failed permanently (${errorClass}):`, message);
+
+    await updateJob(jobId, {
+      status: 'failed',
+      error_class: errorClass,
+      last_error: message,
+      completed_at: new Date().toISOString(),
+    });
+    return;
+  }
+
+  // The quote total, score and red flags feed the lead's value. The scan is
+  // already saved, so a failure here must not fail or re-run the job.
+  try {
+    await recalculateLeadValue(input.leadId, 'scan.completed');
+  } catch (error) {
+    console.error(`[ScanJobs] Lead value update failed after job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Re-schedule unfinished jobs (call on server start)
+ * Jobs interrupted mid-run are put back in the queue.
+ */
+export async function resumePendingScanJobs(): Promise<number> {
+  const { data: jobs, error } = await supabase.from('scan_jobs')
+    .select('id, status, next_attempt_at')
+    .in('status', ['queued', 'extracting', 'scoring']);
+
+  if (error || !jobs) {
+    console.error('[ScanJobs] Failed to load pending jobs:', error);
+    return 0;
+  }
+
+  for (const job of jobs) {
+    if (job.status !== 'queued') {
+      await updateJob(job.id, { status: 'queued', completed_pillars: [] });
+    }
+
+    const dueIn = job.next_attempt_at ? new Date(job.next_attempt_at).getTime() - Date.now() : 0;
+    scheduleScanJob(job.id, Math.max(0, dueIn));
+  }
+
+  if (jobs.length > 0) {
+    console.log(`[ScanJobs] Resumed ${jobs.length} pending job(s)`);
+  }
+
+  return jobs.length;
+}
+
+// ============================================
+// STATUS QUERIES
+// ============================================
+
+/**
+ * Get job progress (and the finished result once completed)
+ * Looks up a specific job, or the lead's most recent one.
+ */
+export async function getScanJobStatus(
+  leadId: string,
+  jobId?: string
+): Promise<ScanJobStatusResult | null> {
+  let query = supabase.from('scan_jobs')
+    .select('id, status, attempts, completed_pillars, scan_id, last_error')
+    .eq('lead_id', leadId);
+
+  if (jobId) {
+    query = query.eq('id', jobId);
+  }
+
+  const { data: job, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (error || !job) {
+    return null;
+  }
+
+  const status = job.status as ScanJobStatus;
+
+  return {
+    jobId: job.id,
+    status,
+    attempts: job.attempts || 0,
+    completedPillars: (job.completed_pillars || []) as ScanPillar[],
+    scanId: job.scan_id,
+    errorMessage: status === 'failed' ? 'Analysis failed. Please try again.' : null,
+    result: status === 'completed' && job.scan_id ? await getScanResult(job.scan_id) : null,
+  };
+}
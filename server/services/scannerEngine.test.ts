@@ -0,0 +1,263 @@
+/**
+ * Unit tests for warning evidence citations in scoreFromSignals
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSignals } from '../testing/quoteFixtures';
+import { scoreFromSignals, type ProductApprovalCheck } from './scannerEngine';
+import { DEFAULT_BENCHMARKS } from './priceBenchmarks';
+
+describe('scoreFromSignals warning citations', () => {
+  it('should attach the evidence behind each warning', () => {
+    const analysis = scoreFromSignals(createSignals({
+      hasFinalPaymentTrap: true,
+      evidence: [
+        { signal: 'depositPercentage', page: 1, snippet: '50% deposit upon signing' },
+        { signal: 'hasFinalPaymentTrap', page: 3, snippet: 'Balance due upon delivery of materials', bbox: null },
+        { signal: 'hasPermitMention', page: 2, snippet: 'Permit fees included' },
+      ],
+    }), null);
+
+    expect(analysis.warningCitations.map(c => c.warning)).toEqual(analysis.warnings);
+
+    const deposit = analysis.warningCitations.find(c => c.warning === 'High risk: deposit exceeds 40%.');
+    expect(deposit?.signals).toEqual(['depositPercentage']);
+    expect(deposit?.evidence.map(e => e.snippet)).toEqual(['50% deposit upon signing']);
+
+    const finalPayment = analysis.warningCitations.find(c => c.signals.includes('hasFinalPaymentTrap'));
+    expect(finalPayment?.evidence).toEqual([
+      { signal: 'hasFinalPaymentTrap', page: 3, snippet: 'Balance due upon delivery of materials', bbox: null },
+    ]);
+  });
+
+  it('should cite every contract trap signal', () => {
+    const analysis = scoreFromSignals(createSignals({
+      hasContractTraps: true,
+      contractTrapsList: ['arbitration'],
+      evidence: [{ signal: 'contractTrapsList', page: 4, snippet: 'disputes settled by binding arbitration' }],
+    }), null);
+
+    const traps = analysis.warningCitations.find(c => c.warning.startsWith('Contract contains'));
+    expect(traps?.evidence).toHaveLength(1);
+  });
+
+  it('should return empty evidence when the model cited nothing', () => {
+    const analysis = scoreFromSignals(createSignals({ hasSubjectToChange: true }), null);
+
+    expect(analysis.warningCitations.length).toBe(analysis.warnings.length);
+    expect(analysis.warningCitations.every(c => c.evidence.length === 0)).toBe(true);
+  });
+
+  it('should cite the validity gate for non-quotes', () => {
+    const analysis = scoreFromSignals(createSignals({
+      isValidQuote: false,
+      evidence: [{ signal: 'isValidQuote', page: 1, snippet: 'RECEIPT #4411' }],
+    }), null);
+
+    expect(analysis.warningCitations).toEqual([{
+      warning: analysis.warnings[0],
+      signals: ['isValidQuote'],
+      evidence: [{ signal: 'isValidQuote', page: 1, snippet: 'RECEIPT #4411' }],
+    }]);
+  });
+});
+
+describe('scoreFromSignals line items', () => {
+  const slider = {
+    openingType: 'sliding_door' as const,
+    description: '12ft 3-panel slider',
+    widthInches: 144,
+    heightInches: 96,
+    productLine: null,
+    quantity: 1,
+    unitPrice: 9000,
+    totalPrice: 9000,
+    page: 2,
+  };
+
+  it('should price per itemized opening and warn when the estimate disagrees', () => {
+    const analysis = scoreFromSignals(createSignals({
+      totalPriceValue: 8000,
+      openingCountEstimate: 4,
+      lineItems: [
+        { ...slider, openingType: 'single_hung', description: 'SH 37x63', quantity: 8, unitPrice: 1000, totalPrice: 8000, page: 1 },
+      ],
+    }), null);
+
+    expect(analysis.pricePerOpening).toBe('$1,000');
+    expect(analysis.warnings).toContain(
+      'The line items list 8 openings but the quote appears to cover 4—confirm the opening count; price per opening uses the itemized 8.'
+    );
+  });
+
+  it('should flag an overpriced item hidden by a normal blended price', () => {
+    const analysis = scoreFromSignals(createSignals({
+      totalPriceValue: 20000,
+      openingCountEstimate: 10,
+      lineItems: [
+        { ...slider },
+        { ...slider, openingType: 'single_hung', description: 'SH 37x63', quantity: 9, unitPrice: 1200, totalPrice: 10800, page: 1 },
+      ],
+    }), null);
+
+    expect(analysis.pricePerOpening).toBe('$2,000');
+    expect(analysis.openingBreakdown.map(row => [row.openingType, row.quantity])).toEqual([
+      ['single_hung', 9],
+      ['sliding_door', 1],
+    ]);
+    expect(analysis.priceOutliers).toHaveLength(1);
+
+    const warning = analysis.warnings.find(w => w.startsWith('Line item priced far above typical'));
+    expect(warning).toBe('Line item priced far above typical: 12ft 3-panel slider at $9,000 each (typical $2,800–$6,500).');
+    expect(analysis.warningCitations.find(c => c.warning === warning)?.evidence).toEqual([
+      { signal: 'lineItems', page: 2, snippet: '12ft 3-panel slider' },
+    ]);
+  });
+
+  it('should count openings from line items when the estimate is missing', () => {
+    const analysis = scoreFromSignals(createSignals({
+      totalPriceValue: 12000,
+      openingCountEstimate: null,
+      lineItems: [{ ...slider, openingType: 'casement', quantity: 8, unitPrice: 1500, totalPrice: 12000 }],
+    }), 20);
+
+    expect(analysis.pricePerOpening).toBe('$1,500');
+  });
+
+  it('should return an empty breakdown without line items', () => {
+    const analysis = scoreFromSignals(createSignals(), null);
+
+    expect(analysis.lineItems).toEqual([]);
+    expect(analysis.openingBreakdown).toEqual([]);
+    expect(analysis.priceOutliers).toEqual([]);
+  });
+});
+
+describe('scoreFromSignals regional benchmarks', () => {
+  const miamiDade = {
+    version: '2026-q4',
+    region: 'Miami-Dade County',
+    bands: { ...DEFAULT_BENCHMARKS.bands, all: { floor: 1300, low: 1600, high: 2400, ceiling: 3200 } },
+  };
+
+  it('should score the same price per opening against the regional band', () => {
+    const signals = createSignals({ totalPriceValue: 21000, openingCountEstimate: 10 });
+
+    const statewide = scoreFromSignals(signals, null);
+    const regional = scoreFromSignals(signals, null, miamiDade);
+
+    expect(statewide.priceScore).toBe(75);
+    expect(regional.priceScore).toBe(95);
+    expect(regional.benchmarkVersion).toBe('2026-q4');
+    expect(regional.benchmarkRegion).toBe('Miami-Dade County');
+  });
+
+  it('should default to the built-in statewide bands', () => {
+    const analysis = scoreFromSignals(createSignals(), null);
+
+    expect(analysis.benchmarkVersion).toBe('builtin');
+    expect(analysis.benchmarkRegion).toBe('Florida');
+  });
+});
+
+describe('scoreFromSignals license status', () => {
+  const contractor = { name: 'Sunshine Impact Windows', licenseNumber: 'CGC1523456', phone: null, address: null };
+
+  it('should leave scores alone for an active or unchecked license', () => {
+    const unchecked = scoreFromSignals(createSignals({ contractor }), null);
+    const active = scoreFromSignals(createSignals({ contractor, licenseStatus: 'active' }), null);
+
+    expect(active.overallScore).toBe(unchecked.overallScore);
+    expect(active.warnings).toEqual(unchecked.warnings);
+  });
+
+  it('should cap every score and lead with the warning when the license is not found', () => {
+    const signals = createSignals({
+      contractor,
+      licenseStatus: 'not_found',
+      hasComplianceKeyword: true,
+      hasComplianceIdentifier: true,
+      hasLaminatedMention: true,
+      depositPercentage: 10,
+    });
+    const analysis = scoreFromSignals(signals, null);
+
+    expect(analysis.safetyScore).toBe(20);
+    expect(analysis.finePrintScore).toBeLessThanOrEqual(20);
+    expect(analysis.overallScore).toBeLessThanOrEqual(35);
+    expect(analysis.warnings[0]).toContain('License CGC1523456 was not found');
+    expect(analysis.warningCitations[0].signals).toEqual(['licenseStatus']);
+    expect(analysis.summary).toContain("license could not be verified");
+  });
+
+  it('should cap an expired license less severely than a missing one', () => {
+    const expired = scoreFromSignals(createSignals({ contractor, licenseStatus: 'expired' }), null);
+    const missing = scoreFromSignals(createSignals({ contractor, licenseStatus: 'not_found' }), null);
+
+    expect(expired.overallScore).toBeLessThanOrEqual(45);
+    expect(expired.overallScore).toBeGreaterThanOrEqual(missing.overallScore);
+    expect(expired.warnings[0]).toContain('is not active');
+  });
+});
+
+describe('scoreFromSignals product approvals', () => {
+  const check = (overrides: Partial<ProductApprovalCheck> = {}): ProductApprovalCheck => ({
+    approvalNumber: 'NOA 21-0512.03',
+    approvalStatus: 'valid',
+    expiresOn: '2027-05-01',
+    citedProductType: 'single_hung',
+    approvedProductType: 'single_hung',
+    hvhzApproved: true,
+    designPressure: 60,
+    requiredDesignPressure: 50,
+    windZone: 'the High Velocity Hurricane Zone (Miami-Dade / Broward)',
+    requiresHvhzApproval: true,
+    page: 2,
+    ...overrides,
+  });
+  const compliant = createSignals({ hasComplianceKeyword: true, hasComplianceIdentifier: true, hasLaminatedMention: true });
+
+  it('should not warn about a valid approval rated for the wind zone', () => {
+    const analysis = scoreFromSignals({ ...compliant, approvalChecks: [check()] }, null);
+
+    expect(analysis.safetyScore).toBe(75);
+    expect(analysis.warnings.some(w => w.includes('NOA'))).toBe(false);
+  });
+
+  it('should warn about an expired NOA and cite where it was printed', () => {
+    const analysis = scoreFromSignals({ ...compliant, approvalChecks: [check({ approvalStatus: 'expired', expiresOn: '2024-05-01' })] }, null);
+
+    expect(analysis.safetyScore).toBe(35);
+    expect(analysis.warnings[0]).toBe('Product approval NOA 21-0512.03 expired on 2024-05-01—ask for a current NOA/FL# before signing.');
+    expect(analysis.warningCitations[0].evidence).toEqual([{ signal: 'productApprovals', page: 2, snippet: 'NOA 21-0512.03' }]);
+  });
+
+  it('should warn when the DP is too low for HVHZ or the approval is not HVHZ-rated', () => {
+    const analysis = scoreFromSignals({
+      ...compliant,
+      approvalChecks: [check({ approvalNumber: 'FL17445.1', hvhzApproved: false, designPressure: 40 })],
+    }, null);
+
+    expect(analysis.warnings).toContain('Product approval FL17445.1 is not rated for the High Velocity Hurricane Zone this property is in.');
+    expect(analysis.warnings).toContain('FL17445.1: design pressure DP40 is below the DP50 openings typically need in the High Velocity Hurricane Zone (Miami-Dade / Broward).');
+    expect(analysis.safetyScore).toBe(35);
+  });
+
+  it('should flag unknown numbers and approvals cited for the wrong product', () => {
+    const analysis = scoreFromSignals({
+      ...compliant,
+      approvalChecks: [
+        check({ approvalStatus: 'not_found', approvedProductType: null, hvhzApproved: null, designPressure: null }),
+        check({ approvalNumber: 'FL17445.2', citedProductType: 'sliding_door', approvedProductType: 'casement' }),
+        check({ approvalNumber: null, approvalStatus: null, designPressure: 45, page: null }),
+      ],
+    }, null);
+
+    expect(analysis.warnings.slice(0, 3)).toEqual([
+      'Product approval NOA 21-0512.03 was not found in the product approval records—ask for the NOA/FL# document.',
+      'Product approval FL17445.2 covers casement products, not the sliding glass door it is cited for.',
+      'Design pressure DP45 is below the DP50 openings typically need in the High Velocity Hurricane Zone (Miami-Dade / Broward).',
+    ]);
+    expect(analysis.safetyScore).toBe(35);
+  });
+});
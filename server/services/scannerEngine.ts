@@ -0,0 +1,1026 @@
+/**
+ * SCANNER ENGINE - Server-Side Quote Signal Rubric & Scoring
+ * 
+ * This module contains the "brain" of the WindowMan Vault quote scanner.
+ * Moved from the browser so the model key and the scoring never leave the server.
+ * 
+ * Components:
+ * 1. EXTRACTION_RUBRIC - System prompt for AI signal extraction
+ * 2. ExtractionSignals - TypeScript interface for extracted data
+ * 3. scoreFromSignals() - Deterministic scoring function (warnings cite their evidence)
+ *    Line items are broken down per opening type (see lineItemPricing);
+ *    price bands are regional (see priceBenchmarks); a contractor license
+ *    that isn't active in state records caps the scores (see licenseVerification),
+ *    as do expired, unknown or under-rated product approvals (see productApprovals)
+ * 4. buildUserPrompt() / classifyGeminiError() - Extraction helpers
+ */
+
+import {
+  OPENING_TYPE_LABELS,
+  buildOpeningBreakdown,
+  countLineItemOpenings,
+  findPriceOutliers,
+  normalizeLineItem,
+  type LineItemOutlier,
+  type OpeningTypeBreakdown,
+} from './lineItemPricing';
+import { DEFAULT_BENCHMARKS, type RegionalBenchmarks } from './priceBenchmarks';
+
+// ============================================
+// EXTRACTION RUBRIC (AI Extracts Signals Only)
+// ============================================
+
+export const EXTRACTION_RUBRIC = `
+You are **WINDOW QUOTE SIGNAL EXTRACTOR**, an evidence-based reader for Florida impact-window/door quotes.
+
+Your ONLY job is to EXTRACT what you see in the document. You do NOT score or judge.
+
+Return ONLY a JSON object with boolean flags and extracted values based on what you observe.
+
+==================================================
+PHASE 0 — DOCUMENT VALIDITY CHECK
+==================================================
+
+Determine if this is a real window/door quote/proposal/contract.
+
+VALID if you see ANY TWO OR MORE:
+- Terms: window, door, slider, glazing, impact, hurricane, laminated, vinyl, aluminum, frame
+- Line items with qty/dimensions/opening descriptions
+- A total price / estimate amount
+- Contractor company info / license / address
+- "proposal", "estimate", "contract", "quote", "scope of work"
+
+Set isValidQuote = true/false based on this check.
+If not valid, set validityReason explaining why (e.g., "This appears to be a receipt, not a quote").
+
+==================================================
+PHASE 1 — EXTRACT PRICE & OPENINGS
+==================================================
+
+A) TOTAL PRICE:
+- Look for "Total", "Grand Total", "Contract Price", "Total Due", "$"
+- Set totalPriceFound = true if you find a clear total
+- Set totalPriceValue = the numeric value (no currency symbols)
+
+B) OPENING COUNT:
+- Count line items for windows/doors/openings
+- Set openingCountEstimate = your best estimate (integer)
+- If unclear, set to null
+
+C) LINE ITEMS:
+- lineItems = one entry per priced window/door line on the quote:
+  { "openingType", "description", "widthInches", "heightInches", "productLine", "quantity", "unitPrice", "totalPrice", "page" }
+- openingType = one of: single_hung, double_hung, horizontal_roller, casement, awning, fixed,
+  sliding_door, french_door, entry_door, other
+- description = the line text VERBATIM (max ~100 characters)
+- widthInches / heightInches = size in inches if shown (convert feet), else null
+- productLine = brand/series if shown (e.g., "PGT WinGuard SH700"), else null
+- unitPrice = price per unit; totalPrice = line total. Use null for any price not shown.
+- page = 1-based page of THIS document where the line appears
+- Skip non-opening lines (permits, labor-only, disposal). Use [] if there are no itemized openings.
+
+D) CONTRACTOR:
+- contractor = the company issuing the quote (letterhead, header, footer or signature block):
+  { "name", "licenseNumber", "phone", "address" }
+- name = company name as printed (not the salesperson or the homeowner)
+- licenseNumber = state contractor license if printed (e.g., "CGC1523456", "CBC058221"), else null
+- phone / address = the company's, as printed, else null
+- Set contractor = null if no company is identified.
+
+E) PRODUCT APPROVALS:
+- productApprovals = one entry per NOA / Florida product approval number or DP rating printed:
+  { "approvalNumber", "openingType", "productLine", "designPressurePositive", "designPressureNegative", "page" }
+- approvalNumber = as printed (e.g., "NOA 21-0512.03", "FL17445.1"), or null for a DP rating with no number
+- openingType = the opening type it is cited for (same values as line items), else null
+- designPressurePositive / designPressureNegative = DP in psf without signs (e.g., "+50/-60" → 50 and 60;
+  "DP50" → 50 and 50), else null
+- page = 1-based page of THIS document. Use [] if none are printed.
+
+==================================================
+PHASE 2 — SAFETY SIGNALS
+==================================================
+
+Set boolean flags based on what you SEE:
+
+A) COMPLIANCE KEYWORDS (hasComplianceKeyword = true if ANY):
+- NOA, Notice of Acceptance, Miami-Dade, Miami Dade, MDCA
+- FL#, FL #, Florida Product Approval, Product Approval
+- HVHZ, High Velocity Hurricane Zone, High Velocity
+- TAS 201/202/203, ASTM E1886/E1996
+- DP, Design Pressure, +/-, ±
+
+B) COMPLIANCE IDENTIFIERS (hasComplianceIdentifier = true if ANY):
+- A number after NOA/FL (ex: "NOA 20-1234", "FL 16824")
+- DP value or +/- value (ex: "DP50", "+55/-65")
+
+C) LAMINATED GLASS (hasLaminatedMention = true if ANY):
+- laminated, laminated glass, impact laminated, hurricane laminated
+- PVB, interlayer, SGP, SentryGlas, ionoplast
+
+D) GLASS BUILD DETAIL (hasGlassBuildDetail = true if ANY):
+- thickness (5/16, 7/16, 9/16)
+- "laminated insulated", "IGU", "insulated laminated", "argon", "Low-E"
+- "heat strengthened" (only if paired with laminated/impact context)
+
+E) NEGATIVE TRIGGERS:
+- hasTemperedOnlyRisk = true if "tempered" appears AND NO "laminated/impact" language
+- hasNonImpactLanguage = true if "non-impact", "not impact", "annealed", or "glass-only replacement"
+
+==================================================
+PHASE 3 — SCOPE SIGNALS
+==================================================
+
+A) PERMITS (hasPermitMention = true if ANY):
+- permit, permitting, pulled by contractor
+- engineering, engineer letter, drawings
+- notice of commencement, NOC, inspections
+
+B) DEMO/INSTALL (hasDemoInstallDetail = true if ANY):
+- remove existing, demo, dispose old windows
+- install new, set, anchor, fasten, bucking
+- shimming, waterproofing, flashing
+
+C) SPECIFIC MATERIALS (hasSpecificMaterials = true if ANY):
+- sealant, caulk, silicone, polyurethane, Sika, Dow 795
+- flashing tape, peel & stick, sill pan
+- tapcons, ultracons, stainless fasteners
+
+D) WALL REPAIR (hasWallRepairMention = true if ANY):
+- stucco, drywall, plaster, patch, texture
+- paint, repaint, ready for paint, match existing
+
+E) FINISH DETAIL (hasFinishDetail = true if ANY):
+- trim, casing, wrap, interior trim, exterior trim
+
+F) CLEANUP (hasCleanupMention = true if ANY):
+- debris, haul away, dumpster, trash, cleanup
+- floor protection, drop cloth, ram board, dust barrier
+
+G) BRAND CLARITY (hasBrandClarity = true if ANY):
+- Brand names (PGT, CGI, ES, WinDoor, Andersen, Marvin, Euro-Wall, etc.)
+- Window types: SH/DH/casement/awning/fixed/slider/French door
+
+H) RED FLAGS:
+- hasSubjectToChange = true if "subject to remeasure", "subject to change", or "price may change"
+- hasRepairsExcluded = true if "stucco by owner", "drywall not included", or repairs explicitly excluded
+
+==================================================
+PHASE 4 — FINE PRINT SIGNALS
+==================================================
+
+A) DEPOSIT:
+- depositPercentage = numeric value if you can determine it (e.g., 50 for 50%), else null
+- If you see a deposit amount but not percentage, try to calculate from total
+
+B) PAYMENT TRAPS:
+- hasFinalPaymentTrap = true if final payment due BEFORE inspection/permit close/completion
+- hasSafePaymentTerms = true if final payment due AFTER inspection/permit close/walkthrough
+
+C) CONTRACT TRAPS:
+- hasContractTraps = true if ANY: cancellation fee, restocking, "non-refundable", arbitration, venue, attorney fees
+- contractTrapsList = array of specific traps found (strings)
+
+==================================================
+PHASE 5 — WARRANTY SIGNALS
+==================================================
+
+- hasWarrantyMention = true if ANY: warranty, guaranteed, workmanship, labor, installation, manufacturer warranty
+- hasLaborWarranty = true if labor/workmanship explicitly mentioned
+- warrantyDurationYears = numeric value if stated (e.g., 2 for "2-year warranty"), else null
+- hasLifetimeWarranty = true if "lifetime" appears in warranty context
+- hasTransferableWarranty = true if "transferable" mentioned
+
+==================================================
+PHASE 6 — PREMIUM INDICATORS
+==================================================
+
+- hasPremiumIndicators = true if ANY: Euro-Wall, Marvin, large sliders, custom colors, SGP, very high DP (>50), coastal stainless package
+
+==================================================
+PHASE 7 — EVIDENCE CITATIONS
+==================================================
+
+- pageCount = number of pages in this document (1 for a single photo)
+- evidence = for every flag you set to true and every value you extracted, add:
+  { "signal": "<field name>", "page": <1-based page of THIS document>, "snippet": "<exact quote text>", "bbox": <box or null> }
+- snippet: copy the words VERBATIM from the quote (max ~200 characters). Never paraphrase.
+- bbox: { "x", "y", "width", "height" } as fractions (0-1) of the page, measured from the top-left corner.
+  Use null if you cannot locate the text precisely.
+- Add one entry per place the evidence appears (e.g. the deposit on page 1 and again on page 4).
+
+==================================================
+OUTPUT
+==================================================
+
+Return ONLY the JSON object with all the boolean flags and extracted values. Do NOT include scores or judgments.
+`;
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export interface ExtractionSignals {
+  isValidQuote: boolean;
+  validityReason: string;
+  totalPriceFound: boolean;
+  totalPriceValue: number | null;
+  openingCountEstimate: number | null;
+  hasComplianceKeyword: boolean;
+  hasComplianceIdentifier: boolean;
+  hasLaminatedMention: boolean;
+  hasGlassBuildDetail: boolean;
+  hasTemperedOnlyRisk: boolean;
+  hasNonImpactLanguage: boolean;
+  hasPermitMention: boolean;
+  hasDemoInstallDetail: boolean;
+  hasSpecificMaterials: boolean;
+  hasWallRepairMention: boolean;
+  hasFinishDetail: boolean;
+  hasCleanupMention: boolean;
+  hasBrandClarity: boolean;
+  hasSubjectToChange: boolean;
+  hasRepairsExcluded: boolean;
+  depositPercentage: number | null;
+  hasFinalPaymentTrap: boolean;
+  hasSafePaymentTerms: boolean;
+  hasContractTraps: boolean;
+  contractTrapsList: string[];
+  hasWarrantyMention: boolean;
+  hasLaborWarranty: boolean;
+  warrantyDurationYears: number | null;
+  hasLifetimeWarranty: boolean;
+  hasTransferableWarranty: boolean;
+  hasPremiumIndicators: boolean;
+  pageCount?: number | null;
+  evidence?: SignalEvidence[];
+  lineItems?: QuoteLineItem[];
+  contractor?: ContractorIdentity | null;
+  productApprovals?: ProductApprovalCitation[];
+  licenseStatus?: LicenseStatus | null; // From state licensing records, not the model (null = not checked)
+  approvalChecks?: ProductApprovalCheck[] | null; // From product approval records and the lead's wind zone, not the model
+}
+
+export type SignalName = Exclude<
+  keyof ExtractionSignals,
+  'pageCount' | 'evidence' | 'lineItems' | 'contractor' | 'productApprovals' | 'approvalChecks'
+>;
+
+// Contractor license as found in the state licensing records
+export type LicenseStatus = 'active' | 'expired' | 'not_found';
+
+// The company that issued the quote, as printed
+export interface ContractorIdentity {
+  name: string | null;
+  licenseNumber: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export type OpeningType =
+  | 'single_hung'
+  | 'double_hung'
+  | 'horizontal_roller'
+  | 'casement'
+  | 'awning'
+  | 'fixed'
+  | 'sliding_door'
+  | 'french_door'
+  | 'entry_door'
+  | 'other';
+
+// An NOA / Florida product approval number or DP rating printed on the quote
+export interface ProductApprovalCitation {
+  approvalNumber: string | null;
+  openingType: OpeningType | null;
+  productLine: string | null;
+  designPressurePositive: number | null; // psf
+  designPressureNegative: number | null; // psf, as a positive number
+  page?: number | null;
+}
+
+export type ApprovalStatus = 'valid' | 'expired' | 'not_found';
+
+// A cited approval checked against the product approval records and the property's wind zone
+export interface ProductApprovalCheck {
+  approvalNumber: string | null;
+  approvalStatus: ApprovalStatus | null; // null = no number cited, or no records loaded
+  expiresOn: string | null;
+  citedProductType: OpeningType | null;
+  approvedProductType: OpeningType | null;
+  hvhzApproved: boolean | null;
+  designPressure: number | null; // Lower of the +/- ratings (as printed, else as approved)
+  requiredDesignPressure: number | null;
+  windZone: string | null;
+  requiresHvhzApproval: boolean;
+  page: number | null;
+}
+
+// One priced window/door line on the quote
+export interface QuoteLineItem {
+  openingType: OpeningType;
+  description: string;
+  widthInches: number | null;
+  heightInches: number | null;
+  productLine: string | null;
+  quantity: number;
+  unitPrice: number | null;
+  totalPrice: number | null;
+  page?: number | null;
+}
+
+// Text region on a page, as 0-1 fractions from the top-left corner
+export interface EvidenceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where a signal was seen: the quoted text, its page and (if located) its box
+export interface SignalEvidence {
+  signal: string;
+  page: number;
+  snippet: string;
+  bbox?: EvidenceBox | null;
+}
+
+// A scoring warning and the quote text behind it
+export interface WarningCitation {
+  warning: string;
+  signals: SignalName[];
+  evidence: SignalEvidence[];
+}
+
+export interface AnalysisData {
+  overallScore: number;
+  safetyScore: number;
+  scopeScore: number;
+  priceScore: number;
+  finePrintScore: number;
+  warrantyScore: number;
+  pricePerOpening: string;
+  warnings: string[];
+  missingItems: string[];
+  summary: string;
+  warningCitations: WarningCitation[];
+  lineItems: QuoteLineItem[];
+  openingBreakdown: OpeningTypeBreakdown[];
+  priceOutliers: LineItemOutlier[];
+  benchmarkVersion: string;
+  benchmarkRegion: string;
+  rawSignals?: ExtractionSignals;
+}
+
+// The scored fields of a scan's stored audit_details (older scans may lack some)
+export interface StoredScoreDetails {
+  safety_score?: number;
+  scope_score?: number;
+  price_score?: number;
+  fine_print_score?: number;
+  warranty_score?: number;
+  price_per_opening?: string;
+  warnings?: string[];
+  missing_items?: string[];
+  summary?: string;
+}
+
+// ============================================
+// EXTRACTION SIGNALS JSON SCHEMA
+// ============================================
+
+export const extractionSignalsSchema = {
+  type: "object" as const,
+  properties: {
+    isValidQuote: { type: "boolean" as const },
+    validityReason: { type: "string" as const },
+    totalPriceFound: { type: "boolean" as const },
+    totalPriceValue: { type: "number" as const, nullable: true },
+    openingCountEstimate: { type: "number" as const, nullable: true },
+    hasComplianceKeyword: { type: "boolean" as const },
+    hasComplianceIdentifier: { type: "boolean" as const },
+    hasLaminatedMention: { type: "boolean" as const },
+    hasGlassBuildDetail: { type: "boolean" as const },
+    hasTemperedOnlyRisk: { type: "boolean" as const },
+    hasNonImpactLanguage: { type: "boolean" as const },
+    hasPermitMention: { type: "boolean" as const },
+    hasDemoInstallDetail: { type: "boolean" as const },
+    hasSpecificMaterials: { type: "boolean" as const },
+    hasWallRepairMention: { type: "boolean" as const },
+    hasFinishDetail: { type: "boolean" as const },
+    hasCleanupMention: { type: "boolean" as const },
+    hasBrandClarity: { type: "boolean" as const },
+    hasSubjectToChange: { type: "boolean" as const },
+    hasRepairsExcluded: { type: "boolean" as const },
+    depositPercentage: { type: "number" as const, nullable: true },
+    hasFinalPaymentTrap: { type: "boolean" as const },
+    hasSafePaymentTerms: { type: "boolean" as const },
+    hasContractTraps: { type: "boolean" as const },
+    contractTrapsList: { 
+      type: "array" as const, 
+      items: { type: "string" as const } 
+    },
+    hasWarrantyMention: { type: "boolean" as const },
+    hasLaborWarranty: { type: "boolean" as const },
+    warrantyDurationYears: { type: "number" as const, nullable: true },
+    hasLifetimeWarranty: { type: "boolean" as const },
+    hasTransferableWarranty: { type: "boolean" as const },
+    hasPremiumIndicators: { type: "boolean" as const },
+    pageCount: { type: "number" as const, nullable: true },
+    evidence: {
+      type: "array" as const,
+      items: {
+        type: "object" as const,
+        properties: {
+          signal: { type: "string" as const },
+          page: { type: "number" as const },
+          snippet: { type: "string" as const },
+          bbox: {
+            type: "object" as const,
+            nullable: true,
+            properties: {
+              x: { type: "number" as const },
+              y: { type: "number" as const },
+              width: { type: "number" as const },
+              height: { type: "number" as const },
+            },
+            required: ["x", "y", "width", "height"],
+          },
+        },
+        required: ["signal", "page", "snippet"],
+      },
+    },
+    lineItems: {
+      type: "array" as const,
+      items: {
+        type: "object" as const,
+        properties: {
+          openingType: { type: "string" as const },
+          description: { type: "string" as const },
+          widthInches: { type: "number" as const, nullable: true },
+          heightInches: { type: "number" as const, nullable: true },
+          productLine: { type: "string" as const, nullable: true },
+          quantity: { type: "number" as const },
+          unitPrice: { type: "number" as const, nullable: true },
+          totalPrice: { type: "number" as const, nullable: true },
+          page: { type: "number" as const, nullable: true },
+        },
+        required: ["openingType", "description", "quantity"],
+      },
+    },
+    productApprovals: {
+      type: "array" as const,
+      items: {
+        type: "object" as const,
+        properties: {
+          approvalNumber: { type: "string" as const, nullable: true },
+          openingType: { type: "string" as const, nullable: true },
+          productLine: { type: "string" as const, nullable: true },
+          designPressurePositive: { type: "number" as const, nullable: true },
+          designPressureNegative: { type: "number" as const, nullable: true },
+          page: { type: "number" as const, nullable: true },
+        },
+      },
+    },
+    contractor: {
+      type: "object" as const,
+      nullable: true,
+      properties: {
+        name: { type: "string" as const, nullable: true },
+        licenseNumber: { type: "string" as const, nullable: true },
+        phone: { type: "string" as const, nullable: true },
+        address: { type: "string" as const, nullable: true },
+      },
+    },
+  },
+  required: [
+    "isValidQuote",
+    "validityReason",
+    "totalPriceFound",
+    "hasComplianceKeyword",
+    "hasComplianceIdentifier",
+    "hasLaminatedMention",
+    "hasGlassBuildDetail",
+    "hasTemperedOnlyRisk",
+    "hasNonImpactLanguage",
+    "hasPermitMention",
+    "hasDemoInstallDetail",
+    "hasSpecificMaterials",
+    "hasWallRepairMention",
+    "hasFinishDetail",
+    "hasCleanupMention",
+    "hasBrandClarity",
+    "hasSubjectToChange",
+    "hasRepairsExcluded",
+    "hasFinalPaymentTrap",
+    "hasSafePaymentTerms",
+    "hasContractTraps",
+    "contractTrapsList",
+    "hasWarrantyMention",
+    "hasLaborWarranty",
+    "hasLifetimeWarranty",
+    "hasTransferableWarranty",
+    "hasPremiumIndicators",
+  ],
+};
+
+// ============================================
+// DETERMINISTIC SCORING FUNCTION
+// ============================================
+
+// Highest safety / fine print (pillar) and overall scores without an active license
+const LICENSE_SCORE_CAPS: Record<Exclude<LicenseStatus, 'active'>, { pillar: number; overall: number }> = {
+  not_found: { pillar: 20, overall: 35 },
+  expired: { pillar: 30, overall: 45 },
+};
+
+// Highest safety score with a problem in a cited product approval
+const APPROVAL_SAFETY_CAPS = {
+  expired: 35,
+  notHvhz: 35,
+  underRated: 35,
+  notFound: 50,
+  wrongProduct: 50,
+};
+
+// Product approval warnings raised per quote
+const MAX_APPROVAL_WARNINGS = 3;
+
+// Largest deposit (percent) the fine print pillar doesn't flag
+export const MAX_FAIR_DEPOSIT = 40;
+
+export function scoreFromSignals(
+  signals: ExtractionSignals,
+  openingCountHint: number | null,
+  benchmarks: RegionalBenchmarks = DEFAULT_BENCHMARKS
+): AnalysisData {
+  const warnings: string[] = [];
+  const warningSignals: SignalName[][] = [];
+  const warningEvidence: (SignalEvidence[] | undefined)[] = [];
+  const missingItems: string[] = [];
+
+  // Every warning remembers which signals raised it, for evidence citations
+  const warn = (message: string, sourceSignals: SignalName[], evidence?: SignalEvidence[]) => {
+    warnings.push(message);
+    warningSignals.push(sourceSignals);
+    warningEvidence.push(evidence);
+  };
+
+  // PHASE 0: Document Validity Gate
+  if (!signals.isValidQuote) {
+    const warning = "Not a window/door quote. Upload a contractor proposal/estimate for windows/doors.";
+    return {
+      overallScore: 0,
+      safetyScore: 0,
+      scopeScore: 0,
+      priceScore: 0,
+      finePrintScore: 0,
+      warrantyScore: 0,
+      pricePerOpening: "N/A",
+      warnings: [warning],
+      missingItems: [],
+      summary: "No grading performed because this is not a window/door quote.",
+      warningCitations: buildWarningCitations([warning], [['isValidQuote']], [], signals.evidence),
+      lineItems: [],
+      openingBreakdown: [],
+      priceOutliers: [],
+      benchmarkVersion: benchmarks.version,
+      benchmarkRegion: benchmarks.region,
+      rawSignals: signals,
+    };
+  }
+
+  // PHASE 1: Compute Price Per Opening (+ per-type line item breakdown)
+  let pricePerOpening = "N/A";
+  let pricePerOpeningValue: number | null = null;
+
+  const lineItems = (signals.lineItems ?? []).map(normalizeLineItem);
+  const openingBreakdown = buildOpeningBreakdown(lineItems, benchmarks.bands);
+  const priceOutliers = findPriceOutliers(lineItems, benchmarks.bands);
+  
+  // Itemized openings are what the per-type breakdown uses, so they outrank the model's estimate
+  const listedOpeningCount = countLineItemOpenings(lineItems);
+  const effectiveOpeningCount = listedOpeningCount ?? signals.openingCountEstimate ?? openingCountHint;
+  const openingCountMismatch = listedOpeningCount !== null
+    && signals.openingCountEstimate !== null
+    && signals.openingCountEstimate > 0
+    && listedOpeningCount !== signals.openingCountEstimate;
+  
+  if (signals.totalPriceFound && signals.totalPriceValue && effectiveOpeningCount && effectiveOpeningCount > 0) {
+    const rawPPO = signals.totalPriceValue / effectiveOpeningCount;
+    pricePerOpeningValue = Math.round(rawPPO / 50) * 50;
+    pricePerOpening = `$${pricePerOpeningValue.toLocaleString()}`;
+  }
+
+  // PHASE 2: Safety Score (0-100) [Weight 30%]
+  let safetyScore = 0;
+
+  if (signals.hasComplianceKeyword) {
+    safetyScore += 25;
+  }
+  if (signals.hasComplianceIdentifier) {
+    safetyScore += 25;
+  }
+  if (signals.hasLaminatedMention) {
+    safetyScore += 25;
+  }
+  if (signals.hasGlassBuildDetail) {
+    safetyScore += 10;
+  }
+
+  // Licensing outranks everything the quote itself says
+  const licenseCap = signals.licenseStatus && signals.licenseStatus !== 'active'
+    ? LICENSE_SCORE_CAPS[signals.licenseStatus]
+    : null;
+  const licenseNumber = signals.contractor?.licenseNumber ?? 'on this quote';
+
+  if (signals.licenseStatus === 'not_found') {
+    warn(`RED FLAG: License ${licenseNumber} was not found in Florida licensing records—do not sign until the contractor is verified.`, ['licenseStatus']);
+  } else if (signals.licenseStatus === 'expired') {
+    warn(`RED FLAG: License ${licenseNumber} is not active in Florida licensing records—an unlicensed contractor cannot pull your permit.`, ['licenseStatus']);
+  }
+
+  if (licenseCap) {
+    safetyScore = Math.min(safetyScore, licenseCap.pillar);
+  }
+
+  // Cited NOA / FL# approvals and DP ratings, checked against the records and the property's wind zone
+  const approvalIssues = (signals.approvalChecks ?? []).flatMap(describeApprovalIssues);
+  for (const issue of approvalIssues.slice(0, MAX_APPROVAL_WARNINGS)) {
+    warn(issue.message, [], issue.evidence);
+  }
+  if (approvalIssues.length > 0) {
+    safetyScore = Math.min(safetyScore, ...approvalIssues.map(issue => issue.safetyCap));
+  }
+
+  if (signals.hasTemperedOnlyRisk) {
+    safetyScore = Math.min(safetyScore, 30);
+    warn("Tempered alone isn't impact glass—verify laminated impact rating.", ['hasTemperedOnlyRisk']);
+  }
+
+  if (signals.hasNonImpactLanguage) {
+    safetyScore = Math.min(safetyScore, 25);
+    warn("Non-impact or glass-only language found—high hurricane compliance risk.", ['hasNonImpactLanguage']);
+  }
+
+  if (!signals.hasComplianceKeyword && !signals.hasComplianceIdentifier && !signals.hasLaminatedMention) {
+    safetyScore = Math.min(safetyScore, 40);
+    missingItems.push("No proof of impact compliance (NOA/FL#, DP, HVHZ, or laminated impact glass).");
+  }
+
+  safetyScore = Math.max(0, Math.min(100, safetyScore));
+
+  // PHASE 3: Scope Score (0-100) [Weight 25%]
+  let scopeScore = 0;
+
+  if (signals.hasPermitMention) {
+    scopeScore += 20;
+  }
+  if (signals.hasDemoInstallDetail) {
+    scopeScore += 15;
+  }
+  if (signals.hasSpecificMaterials) {
+    scopeScore += 10;
+  }
+  if (signals.hasWallRepairMention) {
+    scopeScore += 15;
+  }
+  if (signals.hasFinishDetail) {
+    scopeScore += 10;
+  }
+  if (signals.hasCleanupMention) {
+    scopeScore += 15;
+  }
+  if (signals.hasBrandClarity) {
+    scopeScore += 15;
+  }
+
+  if (signals.hasSubjectToChange) {
+    scopeScore = Math.max(scopeScore - 30, 0);
+    warn("RED FLAG: 'Subject to remeasure/change' allows price hikes after signing.", ['hasSubjectToChange']);
+  }
+
+  if (signals.hasRepairsExcluded || !signals.hasWallRepairMention) {
+    missingItems.push("Wall repair scope unclear (stucco/drywall/paint after install).");
+  }
+
+  scopeScore = Math.max(0, Math.min(100, scopeScore));
+
+  // PHASE 4: Fine Print Score (0-100) [Weight 15%]
+  let finePrintScore = 60;
+
+  if (signals.depositPercentage !== null) {
+    if (signals.depositPercentage > MAX_FAIR_DEPOSIT) {
+      finePrintScore = 0;
+      warn(`High risk: deposit exceeds ${MAX_FAIR_DEPOSIT}%.`, ['depositPercentage']);
+    } else if (signals.depositPercentage >= 10) {
+      finePrintScore = Math.min(finePrintScore + 20, 80);
+    } else {
+      finePrintScore = Math.min(finePrintScore + 40, 100);
+    }
+  } else {
+    missingItems.push("Payment schedule/deposit terms not clearly stated.");
+  }
+
+  if (signals.hasFinalPaymentTrap) {
+    finePrintScore = Math.min(finePrintScore, 25);
+    warn("Risky: final payment due before inspection/permit close.", ['hasFinalPaymentTrap']);
+  } else if (signals.hasSafePaymentTerms) {
+    finePrintScore = Math.min(finePrintScore + 10, 100);
+  }
+
+  if (signals.hasContractTraps && signals.contractTrapsList.length > 0) {
+    const deduction = Math.min(signals.contractTrapsList.length * 10, 30);
+    finePrintScore = Math.max(finePrintScore - deduction, 0);
+    if (signals.contractTrapsList.length > 0) {
+      warn(`Contract contains: ${signals.contractTrapsList.slice(0, 3).join(", ")}.`, ['hasContractTraps', 'contractTrapsList']);
+    }
+  }
+
+  if (licenseCap) {
+    finePrintScore = Math.min(finePrintScore, licenseCap.pillar);
+  }
+
+  finePrintScore = Math.max(0, Math.min(100, finePrintScore));
+
+  // PHASE 5: Warranty Score (0-100) [Weight 10%]
+  let warrantyScore = 0;
+
+  if (signals.hasWarrantyMention) {
+    warrantyScore += 30;
+  }
+  if (signals.hasLaborWarranty) {
+    warrantyScore += 40;
+  }
+  if (signals.warrantyDurationYears !== null && signals.warrantyDurationYears > 1) {
+    warrantyScore += 15;
+  }
+  if (signals.hasLifetimeWarranty) {
+    warrantyScore += 15;
+  }
+  if (signals.hasTransferableWarranty) {
+    warrantyScore += 10;
+  }
+
+  if (!signals.hasWarrantyMention) {
+    missingItems.push("No warranty terms stated (labor/workmanship + manufacturer coverage).");
+  }
+
+  warrantyScore = Math.max(0, Math.min(100, warrantyScore));
+
+  // PHASE 6: Price Score (0-100) [Weight 20%] against the regional band
+  let priceScore = 40;
+  const priceBand = benchmarks.bands.all ?? DEFAULT_BENCHMARKS.bands.all!;
+
+  if (pricePerOpeningValue !== null) {
+    if (pricePerOpeningValue < priceBand.floor) {
+      priceScore = 40;
+    } else if (pricePerOpeningValue < priceBand.low) {
+      priceScore = 65;
+    } else if (pricePerOpeningValue <= priceBand.high) {
+      priceScore = 95;
+    } else if (pricePerOpeningValue <= priceBand.ceiling) {
+      priceScore = 75;
+    } else {
+      priceScore = 55;
+      if (signals.hasPremiumIndicators) {
+        priceScore = Math.min(priceScore + 10, 75);
+      }
+    }
+  } else {
+    missingItems.push("Could not compute price per opening (missing total price or opening count).");
+  }
+
+  // A blended average can hide one badly priced opening
+  for (const outlier of priceOutliers.filter(o => o.direction === 'high').slice(0, 2)) {
+    const item = lineItems[outlier.itemIndex];
+    warn(
+      `Line item priced far above typical: ${outlier.description} at ${formatDollars(outlier.unitPrice)} each (typical ${formatDollars(outlier.expectedRange.low)}–${formatDollars(outlier.expectedRange.high)}).`,
+      [],
+      item.page ? [{ signal: 'lineItems', page: item.page, snippet: item.description }] : []
+    );
+  }
+
+  if (openingCountMismatch) {
+    warn(
+      `The line items list ${listedOpeningCount} openings but the quote appears to cover ${signals.openingCountEstimate}—confirm the opening count; price per opening uses the itemized ${listedOpeningCount}.`,
+      ['openingCountEstimate'],
+      lineItems.filter(item => item.page).map(item => ({ signal: 'lineItems', page: item.page as number, snippet: item.description }))
+    );
+  }
+
+  priceScore = Math.max(0, Math.min(100, priceScore));
+
+  // PHASE 7: Overall Score + Summary
+  let overallScore = Math.round(
+    safetyScore * 0.30 +
+    scopeScore * 0.25 +
+    priceScore * 0.20 +
+    finePrintScore * 0.15 +
+    warrantyScore * 0.10
+  );
+
+  if (licenseCap) {
+    overallScore = Math.min(overallScore, licenseCap.overall);
+  }
+
+  let summary = "";
+  const lowestScore = Math.min(safetyScore, scopeScore, priceScore, finePrintScore, warrantyScore);
+  
+  if (licenseCap) {
+    summary = "The contractor's license could not be verified as active—confirm it with the state before signing anything.";
+  } else if (safetyScore === lowestScore && safetyScore < 50) {
+    summary = "Quote lacks impact compliance proof—verify NOA/FL approval and laminated glass before signing.";
+  } else if (finePrintScore === lowestScore && finePrintScore < 50) {
+    summary = "Risky payment terms or contract traps detected—review deposit and final payment conditions.";
+  } else if (scopeScore === lowestScore && scopeScore < 50) {
+    summary = "Scope is vague—get written clarification on permits, installation details, and wall repairs.";
+  } else if (warrantyScore === lowestScore && warrantyScore < 50) {
+    summary = "Warranty terms unclear or missing—request written labor and manufacturer warranty details.";
+  } else if (priceScore === lowestScore && priceScore < 60) {
+    summary = "Price may be outside typical market range—compare with other quotes and verify scope.";
+  } else if (overallScore >= 80) {
+    summary = "Quote appears comprehensive with good compliance documentation and fair terms.";
+  } else if (overallScore >= 60) {
+    summary = "Quote is acceptable but has some gaps—review warnings and missing items before signing.";
+  } else {
+    summary = "Quote has significant concerns—address warnings and missing items before proceeding.";
+  }
+
+  return {
+    overallScore,
+    safetyScore,
+    scopeScore,
+    priceScore,
+    finePrintScore,
+    warrantyScore,
+    pricePerOpening,
+    warnings: warnings.slice(0, 6),
+    missingItems: missingItems.slice(0, 6),
+    summary,
+    warningCitations: buildWarningCitations(warnings.slice(0, 6), warningSignals, warningEvidence, signals.evidence),
+    lineItems,
+    openingBreakdown,
+    priceOutliers,
+    benchmarkVersion: benchmarks.version,
+    benchmarkRegion: benchmarks.region,
+    rawSignals: signals,
+  };
+}
+
+/**
+ * Pair each warning with the extracted evidence for the signals that raised it
+ * (or with the evidence it was raised with, e.g. a line item)
+ */
+function buildWarningCitations(
+  warnings: string[],
+  warningSignals: SignalName[][],
+  warningEvidence: (SignalEvidence[] | undefined)[],
+  evidence: SignalEvidence[] = []
+): WarningCitation[] {
+  return warnings.map((warning, index) => {
+    const sourceSignals = warningSignals[index] ?? [];
+    return {
+      warning,
+      signals: sourceSignals,
+      evidence: warningEvidence[index]
+        ?? evidence.filter(item => (sourceSignals as string[]).includes(item.signal)),
+    };
+  });
+}
+
+/**
+ * Problems with one checked product approval, most serious first
+ */
+function describeApprovalIssues(check: ProductApprovalCheck): Array<{ message: string; safetyCap: number; evidence: SignalEvidence[] }> {
+  const name = check.approvalNumber;
+  const evidence: SignalEvidence[] = check.page
+    ? [{ signal: 'productApprovals', page: check.page, snippet: name ?? `DP${check.designPressure}` }]
+    : [];
+  const issues: Array<{ message: string; safetyCap: number }> = [];
+
+  if (check.approvalStatus === 'expired') {
+    issues.push({
+      message: `Product approval ${name} expired${check.expiresOn ? ` on ${check.expiresOn}` : ''}—ask for a current NOA/FL# before signing.`,
+      safetyCap: APPROVAL_SAFETY_CAPS.expired,
+    });
+  } else if (check.approvalStatus === 'not_found') {
+    issues.push({
+      message: `Product approval ${name} was not found in the product approval records—ask for the NOA/FL# document.`,
+      safetyCap: APPROVAL_SAFETY_CAPS.notFound,
+    });
+  }
+
+  if (check.requiresHvhzApproval && check.hvhzApproved === false) {
+    issues.push({
+      message: `Product approval ${name} is not rated for the High Velocity Hurricane Zone this property is in.`,
+      safetyCap: APPROVAL_SAFETY_CAPS.notHvhz,
+    });
+  }
+
+  if (check.designPressure !== null && check.requiredDesignPressure !== null && check.designPressure < check.requiredDesignPressure) {
+    issues.push({
+      message: `${name ? `${name}: design` : 'Design'} pressure DP${check.designPressure} is below the DP${check.requiredDesignPressure} openings typically need in ${check.windZone}.`,
+      safetyCap: APPROVAL_SAFETY_CAPS.underRated,
+    });
+  }
+
+  if (check.citedProductType && check.approvedProductType && check.citedProductType !== check.approvedProductType) {
+    issues.push({
+      message: `Product approval ${name} covers ${OPENING_TYPE_LABELS[check.approvedProductType].toLowerCase()} products, not the ${OPENING_TYPE_LABELS[check.citedProductType].toLowerCase()} it is cited for.`,
+      safetyCap: APPROVAL_SAFETY_CAPS.wrongProduct,
+    });
+  }
+
+  return issues.map(issue => ({ ...issue, evidence }));
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * A scan's stored raw_response as signals (null when missing or unreadable)
+ */
+export function parseRawSignals(raw: unknown): ExtractionSignals | null {
+  try {
+    const signals = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return signals && typeof signals === 'object' ? signals as ExtractionSignals : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A scan's stored audit_details as its scored fields (empty when missing)
+ */
+export function parseScoreDetails(raw: unknown): StoredScoreDetails {
+  return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as StoredScoreDetails : {};
+}
+
+// A stored display price back to a number: "$4,100" → 4100
+export function parseDollars(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const amount = Number(value.replace(/[^0-9.]/g, ''));
+  return value.includes('$') && Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+// Error classification for debugging
+export function classifyGeminiError(error: unknown): string {
+  const errorStr = String(error);
+  const errorMessage = error instanceof Error ? error.message : errorStr;
+  
+  if (errorStr.includes('404') || errorMessage.includes('not found')) {
+    return 'MODEL_NOT_FOUND: Model ID may be retired or unavailable in your region';
+  }
+  if (errorStr.includes('403') || errorMessage.includes('permission')) {
+    return 'PERMISSION_DENIED: API key may lack access to this model tier';
+  }
+  if (errorStr.includes('429') || errorMessage.includes('quota') || errorMessage.includes('rate')) {
+    return 'QUOTA_EXCEEDED: Rate limit or quota exceeded - consider upgrading API tier';
+  }
+  if (errorStr.includes('location') || errorMessage.includes('region') || errorMessage.includes('geo')) {
+    return 'LOCATION_NOT_SUPPORTED: Model not available in your geographic region';
+  }
+  if (errorStr.includes('timeout') || errorMessage.includes('deadline')) {
+    return 'TIMEOUT: Request took too long - model may be overloaded';
+  }
+  if (errorStr.includes('500') || errorStr.includes('503')) {
+    return 'SERVER_ERROR: Gemini service temporarily unavailable';
+  }
+  
+  return `UNKNOWN_ERROR: ${errorMessage}`;
+}
+
+export function buildUserPrompt(
+  openingCountHint?: number | null,
+  areaName?: string | null,
+  part?: { index: number; total: number }
+): string {
+  let userPrompt = `Extract evidence signals from the following window/door quote image.
+
+If the image is not a window/door quote, set isValidQuote to false and explain why in validityReason.
+
+---
+`;
+
+  if (part && part.total > 1) {
+    userPrompt += `\nNOTE: This is part ${part.index + 1} of ${part.total} of the same quote. Extract only what appears in this part; the other parts are read separately.`;
+  }
+
+  // Only for a single document: every part would restate the whole quote's count
+  if (openingCountHint && !(part && part.total > 1)) {
+    userPrompt += `\nHINT: The homeowner says there are approximately ${openingCountHint} openings.`;
+  }
+
+  if (areaName) {
+    userPrompt += `\nHINT: The project is in ${areaName}, Florida.`;
+  }
+
+  userPrompt += `\n\nExtract all evidence signals from the quote according to the extraction rubric and return your findings as a JSON object.`;
+  
+  return userPrompt;
+}
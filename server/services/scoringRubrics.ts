@@ -0,0 +1,115 @@
+/**
+ * Scoring Rubrics - Versioned Scoring Registry
+ *
+ * Every scoring function that has produced stored scans is registered here
+ * under a name. Scans record the rubric version they were scored with, so a
+ * change to weights or thresholds ships as a NEW version: register it, move
+ * CURRENT_RUBRIC_VERSION, and use the admin re-score job to see (and
+ * optionally apply) what it changes for historical scans.
+ *
+ * Never edit a registered version's scoring in place.
+ */
+
+import { scoreFromSignals, type AnalysisData, type ExtractionSignals } from './scannerEngine';
+import { DEFAULT_BENCHMARKS, type RegionalBenchmarks } from './priceBenchmarks';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScoreFunction = (
+  signals: ExtractionSignals,
+  openingCountHint: number | null,
+  benchmarks: RegionalBenchmarks
+) => AnalysisData;
+
+export interface ScoringRubric {
+  version: string;
+  description: string;
+  score: ScoreFunction;
+}
+
+export interface ScoredAnalysis extends AnalysisData {
+  rubricVersion: string;
+}
+
+export type ScoreTier = 'good' | 'fair' | 'concern';
+
+// Scans saved before rubric versions were recorded
+export const UNVERSIONED_RUBRIC = 'unversioned';
+
+// ============================================
+// REGISTRY
+// ============================================
+
+// Earlier versions predate the record checks, so they never see their results
+const scoreV1: ScoreFunction = (signals, openingCountHint, benchmarks) => ({
+  ...scoreFromSignals({ ...signals, licenseStatus: null, approvalChecks: null }, openingCountHint, benchmarks),
+  rawSignals: signals,
+});
+
+const scoreV2: ScoreFunction = (signals, openingCountHint, benchmarks) => ({
+  ...scoreFromSignals({ ...signals, approvalChecks: null }, openingCountHint, benchmarks),
+  rawSignals: signals,
+});
+
+const RUBRICS: ScoringRubric[] = [
+  {
+    version: 'v1',
+    description: 'Five pillars (safety 30 / scope 25 / price 20 / fine print 15 / warranty 10); price against regional bands; line item outliers',
+    score: scoreV1,
+  },
+  {
+    version: 'v2',
+    description: 'v1 plus state license verification: a license not found or not active caps safety, fine print and overall scores',
+    score: scoreV2,
+  },
+  {
+    version: 'v3',
+    description: 'v2 plus NOA / FL# product approval checks: expired, unknown, non-HVHZ or under-rated approvals for the wind zone cap safety',
+    score: scoreFromSignals,
+  },
+];
+
+export const CURRENT_RUBRIC_VERSION = 'v3';
+
+export function listScoringRubrics(): Array<Omit<ScoringRubric, 'score'> & { current: boolean }> {
+  return RUBRICS.map(({ version, description }) => ({
+    version,
+    description,
+    current: version === CURRENT_RUBRIC_VERSION,
+  }));
+}
+
+export function getScoringRubric(version: string): ScoringRubric | null {
+  return RUBRICS.find(rubric => rubric.version === version) ?? null;
+}
+
+/**
+ * Score signals under a registered rubric (the current one by default)
+ */
+export function scoreWithRubric(
+  signals: ExtractionSignals,
+  openingCountHint: number | null,
+  benchmarks: RegionalBenchmarks = DEFAULT_BENCHMARKS,
+  version: string = CURRENT_RUBRIC_VERSION
+): ScoredAnalysis {
+  const rubric = getScoringRubric(version);
+  if (!rubric) {
+    throw new Error(`Unknown scoring rubric: ${version}`);
+  }
+
+  return {
+    ...rubric.score(signals, openingCountHint, benchmarks),
+    rubricVersion: rubric.version,
+  };
+}
+
+/**
+ * Score band shown to homeowners (matches the report's Good / Fair / Concern)
+ */
+export function getScoreTier(overallScore: number): ScoreTier {
+  if (overallScore >= 80) return 'good';
+  if (overallScore >= 60) return 'fair';
+  return 'concern';
+}
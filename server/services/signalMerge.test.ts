@@ -0,0 +1,293 @@
+/**
+ * Unit tests for multi-page signal merging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSignals } from '../testing/quoteFixtures';
+import { getDocumentPageCount, mergeDocumentSignals } from './signalMerge';
+import { scoreFromSignals } from './scannerEngine';
+
+describe('getDocumentPageCount', () => {
+  it('should count photos as one page', () => {
+    expect(getDocumentPageCount(createSignals({ pageCount: 4 }), 'image/jpeg')).toBe(1);
+  });
+
+  it('should use the model-reported count for PDFs', () => {
+    expect(getDocumentPageCount(createSignals({ pageCount: 5 }), 'application/pdf')).toBe(5);
+    expect(getDocumentPageCount(createSignals({ pageCount: null }), 'application/pdf')).toBe(1);
+    expect(getDocumentPageCount(createSignals({ pageCount: 0 }), 'application/pdf')).toBe(1);
+  });
+});
+
+describe('mergeDocumentSignals', () => {
+  it('should pass a single document through unchanged', () => {
+    const signals = createSignals();
+    const merged = mergeDocumentSignals([{ signals, pageCount: 1 }]);
+
+    expect(merged.pageCount).toBe(1);
+    expect(merged.signals).toEqual({ ...signals, evidence: [], lineItems: [], contractor: null, productApprovals: [] });
+    expect(merged.signalPages.hasPermitMention).toEqual([1]);
+    expect(merged.signalPages.hasSubjectToChange).toBeUndefined();
+  });
+
+  it('should OR boolean flags across pages', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ hasPermitMention: false, hasContractTraps: false }), pageCount: 1 },
+      { signals: createSignals({ hasPermitMention: true, hasContractTraps: false }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.hasPermitMention).toBe(true);
+    expect(merged.signals.hasContractTraps).toBe(false);
+    expect(merged.signalPages.hasPermitMention).toEqual([2]);
+  });
+
+  it('should keep the largest numeric values and where they came from', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ totalPriceValue: 6000, depositPercentage: null, warrantyDurationYears: 10 }), pageCount: 1 },
+      { signals: createSignals({ totalPriceValue: 18500, depositPercentage: 30, warrantyDurationYears: 2 }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.totalPriceValue).toBe(18500);
+    expect(merged.signals.depositPercentage).toBe(30);
+    expect(merged.signals.warrantyDurationYears).toBe(10);
+    expect(merged.signalPages.totalPriceValue).toEqual([2]);
+    expect(merged.signalPages.warrantyDurationYears).toEqual([1]);
+  });
+
+  it('should number pages across documents using cited pages', () => {
+    const merged = mergeDocumentSignals([
+      {
+        signals: createSignals({
+          hasLaminatedMention: true,
+          evidence: [
+            { signal: 'hasLaminatedMention', page: 3, snippet: 'Laminated impact glass' },
+            { signal: 'hasLaminatedMention', page: 9, snippet: 'Laminated' },
+          ],
+        }),
+        pageCount: 3,
+      },
+      { signals: createSignals({ hasLaminatedMention: true }), pageCount: 1 },
+    ]);
+
+    // Out-of-range citations are dropped; the photo is page 4
+    expect(merged.pageCount).toBe(4);
+    expect(merged.signalPages.hasLaminatedMention).toEqual([3, 4]);
+  });
+
+  it('should fall back to the whole document when no page was cited', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ hasCleanupMention: true }), pageCount: 2 },
+    ]);
+
+    expect(merged.signalPages.hasCleanupMention).toEqual([1, 2]);
+  });
+
+  it('should union contract traps', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ hasContractTraps: true, contractTrapsList: ['arbitration'] }), pageCount: 1 },
+      { signals: createSignals({ hasContractTraps: true, contractTrapsList: ['arbitration', 'restocking fee'] }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.contractTrapsList).toEqual(['arbitration', 'restocking fee']);
+    expect(merged.signalPages.contractTrapsList).toEqual([1, 2]);
+  });
+
+  it('should clear tempered-only risk when laminated glass appears on another page', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ hasTemperedOnlyRisk: true, hasLaminatedMention: false }), pageCount: 1 },
+      { signals: createSignals({ hasTemperedOnlyRisk: false, hasLaminatedMention: true }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.hasTemperedOnlyRisk).toBe(false);
+    expect(merged.signalPages.hasTemperedOnlyRisk).toBeUndefined();
+  });
+
+  it('should treat the quote as valid if any page is a quote', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ isValidQuote: false, validityReason: 'Cover letter only' }), pageCount: 1 },
+      { signals: createSignals(), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.isValidQuote).toBe(true);
+    expect(merged.signals.validityReason).toBe('');
+  });
+
+  it('should keep the reasons when no page is a quote', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ isValidQuote: false, validityReason: 'This appears to be a receipt.' }), pageCount: 1 },
+      { signals: createSignals({ isValidQuote: false, validityReason: 'This appears to be a receipt.' }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.isValidQuote).toBe(false);
+    expect(merged.signals.validityReason).toBe('This appears to be a receipt.');
+  });
+
+  it('should strip page bookkeeping from the merged signals', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ pageCount: 2, evidence: [] }), pageCount: 2 },
+    ]);
+
+    expect(merged.signals).not.toHaveProperty('pageCount');
+  });
+
+  it('should renumber citations and keep only those behind the merged value', () => {
+    const merged = mergeDocumentSignals([
+      {
+        signals: createSignals({
+          depositPercentage: 30,
+          evidence: [
+            { signal: 'depositPercentage', page: 2, snippet: '30% deposit due at signing' },
+            { signal: 'hasSubjectToChange', page: 1, snippet: 'not a flag here' },
+          ],
+        }),
+        pageCount: 2,
+      },
+      {
+        signals: createSignals({
+          depositPercentage: 50,
+          evidence: [{
+            signal: 'depositPercentage',
+            page: 1,
+            snippet: '  50% deposit required  ',
+            bbox: { x: 0.1, y: 0.7, width: 0.5, height: 0.05 },
+          }],
+        }),
+        pageCount: 1,
+      },
+    ]);
+
+    expect(merged.signals.evidence).toEqual([{
+      signal: 'depositPercentage',
+      page: 3,
+      snippet: '50% deposit required',
+      bbox: { x: 0.1, y: 0.7, width: 0.5, height: 0.05 },
+    }]);
+  });
+
+  it('should drop bounding boxes that fall outside the page', () => {
+    const merged = mergeDocumentSignals([{
+      signals: createSignals({
+        evidence: [{
+          signal: 'hasPermitMention',
+          page: 1,
+          snippet: 'Permit by contractor',
+          bbox: { x: 0.8, y: 0.2, width: 0.5, height: 0.1 },
+        }],
+      }),
+      pageCount: 1,
+    }]);
+
+    expect(merged.signals.evidence?.[0].bbox).toBeNull();
+  });
+
+  it('should concatenate line items with combined page numbers', () => {
+    const merged = mergeDocumentSignals([
+      {
+        signals: createSignals({
+          lineItems: [
+            { openingType: 'single hung', description: 'SH 37x63', widthInches: 37, heightInches: 63, productLine: null, quantity: 4, unitPrice: 1100, totalPrice: null, page: 2 },
+            { openingType: 'fixed', description: 'Picture window', widthInches: null, heightInches: null, productLine: null, quantity: 1, unitPrice: null, totalPrice: 1500, page: 7 },
+          ] as any,
+        }),
+        pageCount: 2,
+      },
+      {
+        signals: createSignals({
+          lineItems: [
+            { openingType: 'sliding_door', description: '12ft slider', widthInches: 144, heightInches: 96, productLine: null, quantity: 1, unitPrice: 9000, totalPrice: 9000, page: null },
+          ],
+        }),
+        pageCount: 1,
+      },
+    ]);
+
+    expect(merged.signals.lineItems?.map(item => [item.openingType, item.page])).toEqual([
+      ['single_hung', 2],
+      ['fixed', null],
+      ['sliding_door', 3],
+    ]);
+    expect(merged.signals.lineItems?.[1].unitPrice).toBe(1500);
+  });
+
+  it('should count every itemized opening across photos', () => {
+    const page = (totalPriceValue: number) => ({
+      signals: createSignals({
+        totalPriceValue,
+        openingCountEstimate: 4,
+        lineItems: [
+          { openingType: 'single_hung', description: 'SH 37x63', widthInches: 37, heightInches: 63, productLine: null, quantity: 4, unitPrice: 1000, totalPrice: 4000, page: 1 },
+        ],
+      }),
+      pageCount: 1,
+    });
+    const merged = mergeDocumentSignals([page(4000), page(8000)]);
+
+    expect(merged.signals.openingCountEstimate).toBe(8);
+    expect(merged.signals.lineItems).toHaveLength(2);
+    expect(merged.signalPages.openingCountEstimate).toEqual([1, 2]);
+    expect(scoreFromSignals(merged.signals, null).pricePerOpening).toBe('$1,000');
+  });
+
+  it('should not count fewer openings than the line items list', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ openingCountEstimate: 2 }), pageCount: 1 },
+      {
+        signals: createSignals({
+          openingCountEstimate: null,
+          lineItems: [
+            { openingType: 'casement', description: 'CA 24x48', widthInches: 24, heightInches: 48, productLine: null, quantity: 3, unitPrice: 900, totalPrice: null, page: 1 },
+          ],
+        }),
+        pageCount: 1,
+      },
+    ]);
+
+    expect(merged.signals.openingCountEstimate).toBe(3);
+  });
+
+  it('should not multiply a count every part restates', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ openingCountEstimate: 10, totalPriceValue: 6000 }), pageCount: 1 },
+      { signals: createSignals({ openingCountEstimate: 10, totalPriceValue: 18000 }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.openingCountEstimate).toBe(10);
+    expect(scoreFromSignals(merged.signals, 10).pricePerOpening).toBe('$1,800');
+  });
+
+  it('should take each contractor field from the first document that printed it', () => {
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ contractor: { name: ' Sunshine Impact Windows LLC ', licenseNumber: null, phone: '305-555-0100', address: null } }), pageCount: 1 },
+      { signals: createSignals({ contractor: null }), pageCount: 1 },
+      { signals: createSignals({ contractor: { name: 'Sunshine Impact', licenseNumber: 'CGC1523456', phone: '305-555-0199', address: '12 Main St, Miami FL' } }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.contractor).toEqual({
+      name: 'Sunshine Impact Windows LLC',
+      licenseNumber: 'CGC1523456',
+      phone: '305-555-0100',
+      address: '12 Main St, Miami FL',
+    });
+  });
+
+  it('should keep each approval citation once, with combined page numbers', () => {
+    const noa = { approvalNumber: 'NOA 21-0512.03', openingType: 'single_hung' as const, productLine: null, designPressurePositive: 50, designPressureNegative: -60, page: 2 };
+    const merged = mergeDocumentSignals([
+      { signals: createSignals({ productApprovals: [noa] }), pageCount: 2 },
+      { signals: createSignals({ productApprovals: [
+        { ...noa, page: 1 },
+        { approvalNumber: ' ', openingType: null, productLine: null, designPressurePositive: null, designPressureNegative: null, page: 1 },
+        { approvalNumber: null, openingType: 'Sliding Glass Door' as any, productLine: 'PGT SGD', designPressurePositive: 40, designPressureNegative: 40, page: 1 },
+      ] }), pageCount: 1 },
+    ]);
+
+    expect(merged.signals.productApprovals).toEqual([
+      { ...noa, designPressureNegative: 60 },
+      { approvalNumber: null, openingType: 'sliding_door', productLine: 'PGT SGD', designPressurePositive: 40, designPressureNegative: 40, page: 3 },
+    ]);
+  });
+
+  it('should reject an empty document list', () => {
+    expect(() => mergeDocumentSignals([])).toThrow('No documents to merge');
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Signal Merge - Multi-Page Quote Reconciliation
+ *
+ * A quote can arrive as several documents (a multi-page PDF, or phone photos
+ * of separate pages). Each document is extracted on its own; this module folds
+ * the per-document ExtractionSignals into one set for scoreFromSignals and
+ * records which page of the combined quote each signal came from. Evidence
+ * citations are renumbered to combined pages and kept only for documents
+ * that actually contributed the merged value.
+ *
+ * Merge rules:
+ * - Boolean flags are OR'ed (seen on any page counts)
+ * - Numeric values keep the largest reported figure (a grand total covers
+ *   per-page subtotals; the highest deposit / longest warranty is what binds)
+ * - openingCountEstimate is the largest estimate too (each part may restate
+ *   the whole quote's count), raised to the merged line-item count
+ * - contractTrapsList is the de-duplicated union
+ * - lineItems are concatenated in page order
+ * - contractor fields come from the first document that printed them
+ * - productApprovals are concatenated in page order (repeats kept once)
+ * - Tempered-only risk is cleared if laminated glass appears on another page
+ */
+
+import { countLineItemOpenings, normalizeLineItem, normalizeOpeningType } from './lineItemPricing';
+import type {
+  ContractorIdentity,
+  EvidenceBox,
+  ExtractionSignals,
+  ProductApprovalCitation,
+  QuoteLineItem,
+  SignalEvidence,
+  SignalName,
+} from './scannerEngine';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Longest evidence snippet kept (the model is asked for ~200 characters)
+const MAX_SNIPPET_LENGTH = 300;
+
+// 1-based pages of the combined quote, per signal
+export type SignalPages = Partial<Record<SignalName, number[]>>;
+
+export interface DocumentExtraction {
+  signals: ExtractionSignals;
+  pageCount: number;
+}
+
+export interface MergedExtraction {
+  signals: ExtractionSignals;
+  signalPages: SignalPages;
+  pageCount: number;
+}
+
+const BOOLEAN_SIGNALS = [
+  'isValidQuote',
+  'totalPriceFound',
+  'hasComplianceKeyword',
+  'hasComplianceIdentifier',
+  'hasLaminatedMention',
+  'hasGlassBuildDetail',
+  'hasTemperedOnlyRisk',
+  'hasNonImpactLanguage',
+  'hasPermitMention',
+  'hasDemoInstallDetail',
+  'hasSpecificMaterials',
+  'hasWallRepairMention',
+  'hasFinishDetail',
+  'hasCleanupMention',
+  'hasBrandClarity',
+  'hasSubjectToChange',
+  'hasRepairsExcluded',
+  'hasFinalPaymentTrap',
+  'hasSafePaymentTerms',
+  'hasContractTraps',
+  'hasWarrantyMention',
+  'hasLaborWarranty',
+  'hasLifetimeWarranty',
+  'hasTransferableWarranty',
+  'hasPremiumIndicators',
+] as const satisfies readonly SignalName[];
+
+const NUMERIC_SIGNALS = [
+  'totalPriceValue',
+  'openingCountEstimate',
+  'depositPercentage',
+  'warrantyDurationYears',
+] as const satisfies readonly SignalName[];
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Page count to assume for a document (model-reported for PDFs, 1 for photos)
+ */
+export function getDocumentPageCount(signals: ExtractionSignals, mimeType: string): number {
+  if (mimeType !== 'application/pdf') return 1;
+  const reported = Math.floor(signals.pageCount ?? 1);
+  return reported >= 1 ? reported : 1;
+}
+
+/**
+ * Boxes must sit inside the page (0-1 fractions) to be drawn
+ */
+function isValidBox(bbox: SignalEvidence['bbox']): bbox is EvidenceBox {
+  if (!bbox) return false;
+  const { x, y, width, height } = bbox;
+  return [x, y, width, height].every(n => typeof n === 'number' && n >= 0 && n <= 1)
+    && width > 0 && height > 0 && x + width <= 1.001 && y + height <= 1.001;
+}
+
+/**
+ * A document's citations renumbered to combined pages
+ * Photos are always page 1 of themselves; out-of-range pages are dropped.
+ */
+function documentEvidence(doc: DocumentExtraction, firstPage: number): SignalEvidence[] {
+  return (doc.signals.evidence ?? [])
+    .map(item => ({
+      ...item,
+      page: doc.pageCount === 1 ? 1 : Math.floor(item.page),
+      snippet: (item.snippet ?? '').trim().slice(0, MAX_SNIPPET_LENGTH),
+      bbox: isValidBox(item.bbox) ? item.bbox : null,
+    }))
+    .filter(item => item.page >= 1 && item.page <= doc.pageCount)
+    .map(item => ({ ...item, page: firstPage + item.page - 1 }));
+}
+
+/**
+ * A document's line items, normalized, with pages in combined numbering
+ * (null when the model gave no usable page)
+ */
+function documentLineItems(doc: DocumentExtraction, firstPage: number): QuoteLineItem[] {
+  return (doc.signals.lineItems ?? []).map(raw => {
+    const item = normalizeLineItem(raw);
+    const page = doc.pageCount === 1 ? 1 : item.page ? Math.floor(item.page) : null;
+    return {
+      ...item,
+      page: page !== null && page <= doc.pageCount ? firstPage + page - 1 : null,
+    };
+  });
+}
+
+// "-60" / 60 → 60; anything else → null
+function designPressure(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value !== 0 ? Math.abs(value) : null;
+}
+
+/**
+ * A document's product approval citations, cleaned, with pages in combined numbering
+ */
+function documentApprovals(doc: DocumentExtraction, firstPage: number): ProductApprovalCitation[] {
+  return (doc.signals.productApprovals ?? [])
+    .map(raw => {
+      const page = doc.pageCount === 1 ? 1 : typeof raw.page === 'number' ? Math.floor(raw.page) : null;
+      return {
+        approvalNumber: typeof raw.approvalNumber === 'string' && raw.approvalNumber.trim() ? raw.approvalNumber.trim() : null,
+        openingType: raw.openingType ? normalizeOpeningType(raw.openingType) : null,
+        productLine: raw.productLine ? String(raw.productLine).trim() : null,
+        designPressurePositive: designPressure(raw.designPressurePositive),
+        designPressureNegative: designPressure(raw.designPressureNegative),
+        page: page !== null && page >= 1 && page <= doc.pageCount ? firstPage + page - 1 : null,
+      };
+    })
+    .filter(citation => citation.approvalNumber || citation.designPressurePositive || citation.designPressureNegative);
+}
+
+/**
+ * Approval citations of every document; the same number and rating is kept once
+ */
+function mergeApprovals(documents: DocumentExtraction[], firstPages: number[]): ProductApprovalCitation[] {
+  const seen = new Set<string>();
+  return documents
+    .flatMap((doc, i) => documentApprovals(doc, firstPages[i]))
+    .filter(citation => {
+      const key = [citation.approvalNumber, citation.openingType, citation.designPressurePositive, citation.designPressureNegative].join('|');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * One contractor identity: each field from the first document that printed it
+ * (the letterhead page usually comes first)
+ */
+function mergeContractor(documents: DocumentExtraction[]): ContractorIdentity | null {
+  const merged: ContractorIdentity = { name: null, licenseNumber: null, phone: null, address: null };
+
+  for (const doc of documents) {
+    const contractor = doc.signals.contractor;
+    if (!contractor) continue;
+    for (const field of Object.keys(merged) as Array<keyof ContractorIdentity>) {
+      const raw = contractor[field];
+      const value = typeof raw === 'string' ? raw.trim() : '';
+      if (!merged[field] && value) merged[field] = value;
+    }
+  }
+
+  return Object.values(merged).some(Boolean) ? merged : null;
+}
+
+/**
+ * Pages (in combined numbering) where a document shows a signal.
+ * Falls back to every page of the document when the model gave no page.
+ */
+function pagesForSignal(doc: DocumentExtraction, firstPage: number, signal: SignalName): number[] {
+  const cited = documentEvidence(doc, firstPage)
+    .filter(item => item.signal === signal)
+    .map(item => item.page);
+
+  if (cited.length > 0) {
+    return Array.from(new Set(cited)).sort((a, b) => a - b);
+  }
+
+  return Array.from({ length: doc.pageCount }, (_, i) => firstPage + i);
+}
+
+// ============================================
+// MERGE
+// ============================================
+
+/**
+ * Merge ordered per-document signals into one quote
+ */
+export function mergeDocumentSignals(documents: DocumentExtraction[]): MergedExtraction {
+  if (documents.length === 0) {
+    throw new Error('No documents to merge');
+  }
+
+  // Starting page of each document in the combined quote
+  const firstPages: number[] = [];
+  let pageCount = 0;
+  for (const doc of documents) {
+    firstPages.push(pageCount + 1);
+    pageCount += doc.pageCount;
+  }
+
+  const signals = { ...documents[0].signals } as ExtractionSignals;
+  const signalPages: SignalPages = {};
+  // Which documents supplied each merged value (their citations are kept)
+  const contributors: Partial<Record<SignalName, number[]>> = {};
+
+  // Boolean flags: OR across documents
+  for (const signal of BOOLEAN_SIGNALS) {
+    const sources = documents.map((_, i) => i).filter(i => documents[i].signals[signal]);
+    const pages = sources.flatMap(i => pagesForSignal(documents[i], firstPages[i], signal));
+    signals[signal] = pages.length > 0;
+    if (pages.length > 0) {
+      signalPages[signal] = pages;
+      contributors[signal] = sources;
+    }
+  }
+
+  // Numeric values: largest reported figure wins
+  for (const signal of NUMERIC_SIGNALS) {
+    const values = documents
+      .map(doc => doc.signals[signal])
+      .filter((value): value is number => typeof value === 'number');
+    const best = values.length > 0 ? Math.max(...values) : null;
+
+    signals[signal] = best;
+    if (best !== null) {
+      const sources = documents.map((_, i) => i).filter(i => documents[i].signals[signal] === best);
+      signalPages[signal] = sources.flatMap(i => pagesForSignal(documents[i], firstPages[i], signal));
+      contributors[signal] = sources;
+    }
+  }
+
+  // Itemized openings across all parts outrank a smaller estimate
+  const lineItems = documents.flatMap((doc, i) => documentLineItems(doc, firstPages[i]));
+  const listedOpenings = countLineItemOpenings(lineItems);
+  if (listedOpenings !== null && (signals.openingCountEstimate === null || listedOpenings > signals.openingCountEstimate)) {
+    signals.openingCountEstimate = listedOpenings;
+  }
+
+  // Contract traps: union of everything found
+  const traps = documents.flatMap(doc => doc.signals.contractTrapsList ?? []);
+  signals.contractTrapsList = Array.from(new Set(traps));
+  const trapSources = documents.map((_, i) => i).filter(i => (documents[i].signals.contractTrapsList ?? []).length > 0);
+  if (trapSources.length > 0) {
+    signalPages.contractTrapsList = trapSources.flatMap(i => pagesForSignal(documents[i], firstPages[i], 'contractTrapsList'));
+    contributors.contractTrapsList = trapSources;
+  }
+
+  // Cross-page rules
+  if (signals.totalPriceValue !== null) {
+    signals.totalPriceFound = true;
+  }
+  if (signals.hasTemperedOnlyRisk && signals.hasLaminatedMention) {
+    // "Tempered only" was judged per page; laminated glass elsewhere in the quote answers it
+    signals.hasTemperedOnlyRisk = false;
+    delete signalPages.hasTemperedOnlyRisk;
+    delete contributors.hasTemperedOnlyRisk;
+  }
+
+  signals.validityReason = signals.isValidQuote
+    ? ''
+    : Array.from(new Set(documents.map(doc => doc.signals.validityReason).filter(Boolean))).join(' ');
+
+  // Citations from the documents behind each merged value, in combined page numbers
+  signals.evidence = documents.flatMap((doc, i) =>
+    documentEvidence(doc, firstPages[i]).filter(item =>
+      (contributors[item.signal as SignalName] ?? []).includes(i)
+    )
+  );
+  signals.lineItems = lineItems;
+  signals.contractor = mergeContractor(documents);
+  signals.productApprovals = mergeApprovals(documents, firstPages);
+  delete signals.pageCount;
+
+  return { signals, signalPages, pageCount };
+}
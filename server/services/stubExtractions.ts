@@ -0,0 +1,63 @@
+/**
+ * Canned extractions for the local stub provider
+ *
+ * Keyed by the SHA-256 of the uploaded file, so dev and CI runs of the alpha
+ * flow are deterministic and need no model. Extra entries can be dropped into
+ * LLM_STUB_DIR as <sha256>.json without touching this file.
+ */
+
+import type { ExtractionSignals } from './scannerEngine';
+
+export const STUB_MODEL = 'local-stub';
+
+// test-quote.png at the repository root (the golden sample-contractor-quote)
+const SAMPLE_CONTRACTOR_QUOTE: ExtractionSignals = {
+  isValidQuote: true,
+  validityReason: 'Itemized impact window proposal with contractor, scope and total',
+  totalPriceFound: true,
+  totalPriceValue: 40800,
+  openingCountEstimate: 10,
+  hasComplianceKeyword: true,
+  hasComplianceIdentifier: true,
+  hasLaminatedMention: true,
+  hasGlassBuildDetail: true,
+  hasTemperedOnlyRisk: false,
+  hasNonImpactLanguage: false,
+  hasPermitMention: true,
+  hasDemoInstallDetail: true,
+  hasSpecificMaterials: true,
+  hasWallRepairMention: false,
+  hasFinishDetail: false,
+  hasCleanupMention: true,
+  hasBrandClarity: true,
+  hasSubjectToChange: false,
+  hasRepairsExcluded: false,
+  depositPercentage: 50,
+  hasFinalPaymentTrap: false,
+  hasSafePaymentTerms: false,
+  hasContractTraps: false,
+  contractTrapsList: [],
+  hasWarrantyMention: true,
+  hasLaborWarranty: true,
+  warrantyDurationYears: 10,
+  hasLifetimeWarranty: false,
+  hasTransferableWarranty: false,
+  hasPremiumIndicators: false,
+};
+
+export const STUB_EXTRACTIONS: Record<string, ExtractionSignals> = {
+  aa41ea2a2f083fe997450c5d32e21636b502acc4277bf80d873c564421ed0126: SAMPLE_CONTRACTOR_QUOTE,
+};
+
+// Any other file: a plain mid-range quote, so the rest of the flow has something to score
+export const DEFAULT_STUB_EXTRACTION: ExtractionSignals = {
+  ...SAMPLE_CONTRACTOR_QUOTE,
+  validityReason: 'Local stub extraction (no canned result for this file)',
+  totalPriceValue: 15000,
+  openingCountEstimate: 8,
+  hasGlassBuildDetail: false,
+  hasSpecificMaterials: false,
+  depositPercentage: 30,
+  hasSafePaymentTerms: true,
+  warrantyDurationYears: 2,
+};
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for voice questions in the expert chat
+ * Storage and transcription run for real against the local Forge stand-in.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { FakeSupabase } from '../testing/fakeSupabase';
+import { startForgeStandIn, type ForgeStandIn } from '../testing/forgeStandIn';
+import { llmResponse } from '../testing/quoteFixtures';
+
+vi.mock('./supabaseClient', async () => (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+
+vi.mock('../_core/llm', () => ({
+  invokeLLM: vi.fn(),
+  isLLMConfigured: () => true,
+}));
+
+import { supabase } from './supabaseClient';
+import { invokeLLM } from '../_core/llm';
+import { normalizeAudioMimeType, streamVoiceChat, transcribeVoiceQuestion, type VoiceChatChunk } from './voiceQuestions';
+import { getChatTranscript } from './chatTranscripts';
+import { alphaRouter } from '../routes/alpha';
+
+const db = supabase as unknown as FakeSupabase;
+const mockInvokeLLM = vi.mocked(invokeLLM);
+
+const LEAD_ID = '11111111-1111-4111-8111-111111111111';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+
+// The stand-in "hears" whatever text the recording contains
+const recording = (words: string) => Buffer.from(words).toString('base64');
+
+async function collect(stream: AsyncIterable<VoiceChatChunk>): Promise<VoiceChatChunk[]> {
+  const chunks: VoiceChatChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+let forge: ForgeStandIn;
+
+beforeAll(async () => {
+  forge = await startForgeStandIn();
+});
+
+afterAll(async () => {
+  await forge.stop();
+});
+
+beforeEach(() => {
+  db.reset();
+  mockInvokeLLM.mockReset();
+  forge.files.clear();
+  forge.transcriptions.length = 0;
+  forge.failTranscription(null);
+  db.seed('leads', [{ id: LEAD_ID, sms_verified: true, engagement_score: 0 }]);
+  db.seed('scans', [{
+    id: SCAN_ID,
+    lead_id: LEAD_ID,
+    overall_score: 58,
+    audit_details: { warnings: ['High risk: deposit exceeds 40%.'], missing_items: [] },
+    raw_response: null,
+    created_at: '2026-10-01T00:00:00.000Z',
+  }]);
+});
+
+describe('transcribeVoiceQuestion', () => {
+  it('should store the recording and transcribe it', async () => {
+    const transcript = await transcribeVoiceQuestion({
+      leadId: LEAD_ID,
+      audio: recording('  When can they install the windows?  '),
+      mimeType: 'audio/webm;codecs=opus',
+    });
+
+    expect(transcript).toMatchObject({
+      text: 'When can they install the windows?',
+      language: 'english',
+      durationSeconds: 2.5,
+    });
+    expect(transcript!.audioKey).toMatch(new RegExp(`^voice/${LEAD_ID}/.+\\.webm$`));
+    expect(forge.files.get(transcript!.audioKey)?.contentType).toBe('audio/webm');
+    expect(forge.transcriptions).toEqual([expect.objectContaining({ model: 'whisper-1', contentType: 'audio/webm' })]);
+    expect(forge.transcriptions[0].prompt).toContain('impact window');
+  });
+
+  it('should reject unsupported, empty or unintelligible recordings', async () => {
+    expect(normalizeAudioMimeType('video/mp4')).toBeNull();
+    expect(await transcribeVoiceQuestion({ leadId: LEAD_ID, audio: recording('hi'), mimeType: 'video/mp4' })).toBeNull();
+    expect(await transcribeVoiceQuestion({ leadId: LEAD_ID, audio: '', mimeType: 'audio/webm' })).toBeNull();
+    expect(await transcribeVoiceQuestion({ leadId: LEAD_ID, audio: recording('   '), mimeType: 'audio/ogg' })).toBeNull();
+
+    forge.failTranscription(500);
+    expect(await transcribeVoiceQuestion({ leadId: LEAD_ID, audio: recording('Is this fair?'), mimeType: 'audio/mp4' })).toBeNull();
+    expect(forge.transcriptions).toHaveLength(2);
+  });
+});
+
+describe('streamVoiceChat', () => {
+  it('should answer the transcript and store it as a voice question', async () => {
+    mockInvokeLLM.mockResolvedValue(llmResponse('Negotiate the deposit down first [W1].'));
+
+    const chunks = await collect(streamVoiceChat({
+      leadId: LEAD_ID,
+      audio: recording('Should I pay this deposit?'),
+      mimeType: 'audio/webm',
+    }));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['transcript', 'delta', 'done']);
+    expect(chunks[0]).toEqual({ type: 'transcript', text: 'Should I pay this deposit?' });
+    expect(mockInvokeLLM.mock.calls[0][0].messages.at(-1)).toEqual({ role: 'user', content: 'Should I pay this deposit?' });
+
+    const transcript = await getChatTranscript(LEAD_ID, SCAN_ID);
+    expect(transcript.map(message => [message.role, message.inputMode, message.topic])).toEqual([
+      ['user', 'voice', 'contract'],
+      ['assistant', 'text', 'contract'],
+    ]);
+    expect(forge.files.has(transcript[0].audioKey!)).toBe(true);
+  });
+
+  it('should ask to try again when the recording could not be transcribed', async () => {
+    forge.failTranscription(503);
+
+    const chunks = await collect(streamVoiceChat({ leadId: LEAD_ID, audio: recording('hello'), mimeType: 'audio/webm' }));
+
+    expect(chunks).toEqual([{ type: 'error', message: expect.stringContaining("couldn't make out that recording") }]);
+    expect(mockInvokeLLM).not.toHaveBeenCalled();
+    expect(await getChatTranscript(LEAD_ID)).toEqual([]);
+  });
+
+  it('should only store recordings from verified leads on alpha.voiceChat', async () => {
+    mockInvokeLLM.mockResolvedValue(llmResponse('It is within the typical range.'));
+    const caller = alphaRouter.createCaller({ req: {}, res: {} } as any);
+
+    const answered = await collect(await caller.voiceChat({ leadId: LEAD_ID, audio: recording('Is the price fair?'), mimeType: 'audio/webm' }));
+    expect(answered.map(chunk => chunk.type)).toEqual(['transcript', 'delta', 'done']);
+
+    db.table('leads')[0].sms_verified = false;
+    forge.files.clear();
+    const refused = await collect(await caller.voiceChat({ leadId: LEAD_ID, audio: recording('Is the price fair?'), mimeType: 'audio/webm' }));
+    expect(refused).toEqual([{ type: 'error', message: 'Phone verification required to chat about your quote' }]);
+    expect(forge.files.size).toBe(0);
+  });
+});
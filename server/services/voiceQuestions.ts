@@ -0,0 +1,133 @@
+/**
+ * Voice Questions - Spoken Questions for the Expert Chat
+ *
+ * A recorded question is stored (voice/<leadId>/...), transcribed server-side
+ * with transcribeAudio, then answered by the regular scan chat pipeline. The
+ * transcript is saved as the question's text, next to the recording's key.
+ */
+
+import { nanoid } from 'nanoid';
+import { transcribeAudio } from '../_core/voiceTranscription';
+import { storagePut } from '../storage';
+import { MAX_CHAT_QUESTION_LENGTH, streamScanChat, type ScanChatChunk } from './scanChat';
+
+// Longest recording accepted (the transcription service takes up to 16MB)
+export const MAX_VOICE_BYTES = 10 * 1024 * 1024;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+// Vocabulary hint so brand and code terms come through right
+const TRANSCRIPTION_PROMPT =
+  'A Florida homeowner asking about their impact window or door quote: deposit, warranty, NOA, permit, HVHZ, stucco.';
+
+const UNCLEAR_RECORDING = "Sorry, I couldn't make out that recording. Please try again or type your question.";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface VoiceQuestionInput {
+  leadId: string;
+  audio: string; // Base64 encoded recording
+  mimeType: string;
+}
+
+export interface VoiceTranscript {
+  text: string;
+  audioKey: string;
+  language: string | null;
+  durationSeconds: number | null;
+}
+
+export interface VoiceChatInput extends VoiceQuestionInput {
+  scanId?: string;
+}
+
+export type VoiceChatChunk = ScanChatChunk | { type: 'transcript'; text: string };
+
+// ============================================
+// TRANSCRIPTION
+// ============================================
+
+/**
+ * Base MIME type of a recording ("audio/webm;codecs=opus" → "audio/webm")
+ */
+export function normalizeAudioMimeType(mimeType: string): string | null {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return AUDIO_EXTENSIONS[base] ? base : null;
+}
+
+/**
+ * Store a recorded question and transcribe it
+ * Returns null for unsupported, oversized or unintelligible recordings.
+ */
+export async function transcribeVoiceQuestion(input: VoiceQuestionInput): Promise<VoiceTranscript | null> {
+  const mimeType = normalizeAudioMimeType(input.mimeType);
+  const buffer = Buffer.from(input.audio, 'base64');
+
+  if (!mimeType || buffer.length === 0 || buffer.length > MAX_VOICE_BYTES) {
+    console.warn('[VoiceQuestions] Rejected recording:', input.mimeType, buffer.length);
+    return null;
+  }
+
+  let stored: { key: string; url: string };
+  try {
+    stored = await storagePut(`voice/${input.leadId}/${nanoid()}.${AUDIO_EXTENSIONS[mimeType]}`, buffer, mimeType);
+  } catch (error) {
+    console.error('[VoiceQuestions] Failed to store recording:', error);
+    return null;
+  }
+
+  const result = await transcribeAudio({
+    audioUrl: stored.url,
+    language: 'en',
+    prompt: TRANSCRIPTION_PROMPT,
+  });
+
+  if ('error' in result) {
+    console.error('[VoiceQuestions] Transcription failed:', result.code, result.details);
+    return null;
+  }
+
+  const text = result.text.trim().slice(0, MAX_CHAT_QUESTION_LENGTH);
+  if (!text) {
+    return null;
+  }
+
+  return {
+    text,
+    audioKey: stored.key,
+    language: result.language ?? null,
+    durationSeconds: result.duration ?? null,
+  };
+}
+
+/**
+ * Transcribe a voice question, then stream the chat answer to it
+ * The transcript is sent first so the drawer can show what was heard.
+ */
+export async function* streamVoiceChat(input: VoiceChatInput): AsyncGenerator<VoiceChatChunk> {
+  const transcript = await transcribeVoiceQuestion(input);
+
+  if (!transcript) {
+    yield { type: 'error', message: UNCLEAR_RECORDING };
+    return;
+  }
+
+  yield { type: 'transcript', text: transcript.text };
+
+  yield* streamScanChat({
+    leadId: input.leadId,
+    scanId: input.scanId,
+    question: transcript.text,
+    inputMode: 'voice',
+    audioKey: transcript.audioKey,
+  });
+}
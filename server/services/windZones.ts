@@ -0,0 +1,98 @@
+/**
+ * Wind Zones - Design Pressure a Property Needs
+ *
+ * Florida Building Code wind regions by county, found from the ZIP prefix
+ * (or the OCR city when the lead has no usable ZIP). Each zone carries the minimum design pressure (DP)
+ * a typical one- or two-story home's window/door openings need there, and
+ * whether products must be approved for the High Velocity Hurricane Zone.
+ *
+ * The minimums are screening thresholds for quote review: corner openings,
+ * taller homes and exposure D sites need more, and the permit's engineering
+ * always governs.
+ */
+
+import { getCountyForCity, getCountyForZip } from './priceBenchmarks';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type WindZoneId = 'hvhz' | 'keys' | 'high_wind' | 'standard';
+
+export interface WindZone {
+  id: WindZoneId;
+  name: string;
+  designWindSpeedMph: number;
+  minDesignPressure: number; // psf, both positive and negative
+  requiresHvhzApproval: boolean;
+}
+
+export const WIND_ZONES: Record<WindZoneId, WindZone> = {
+  hvhz: {
+    id: 'hvhz',
+    name: 'the High Velocity Hurricane Zone (Miami-Dade / Broward)',
+    designWindSpeedMph: 175,
+    minDesignPressure: 50,
+    requiresHvhzApproval: true,
+  },
+  keys: {
+    id: 'keys',
+    name: 'the Florida Keys',
+    designWindSpeedMph: 180,
+    minDesignPressure: 50,
+    requiresHvhzApproval: false,
+  },
+  high_wind: {
+    id: 'high_wind',
+    name: 'a 160+ mph coastal wind zone',
+    designWindSpeedMph: 160,
+    minDesignPressure: 40,
+    requiresHvhzApproval: false,
+  },
+  standard: {
+    id: 'standard',
+    name: 'a standard Florida wind zone',
+    designWindSpeedMph: 140,
+    minDesignPressure: 30,
+    requiresHvhzApproval: false,
+  },
+};
+
+const ZONE_COUNTIES: Record<string, WindZoneId> = {
+  'miami-dade': 'hvhz',
+  'broward': 'hvhz',
+  'monroe': 'keys',
+  'palm-beach': 'high_wind',
+  'martin': 'high_wind',
+  'st-lucie': 'high_wind',
+  'indian-river': 'high_wind',
+  'lee': 'high_wind',
+  'collier': 'high_wind',
+  'charlotte': 'high_wind',
+};
+
+// Florida ZIPs run 32004-34997
+const FLORIDA_ZIP = /^3(2|3|4)\d{3}$/;
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Wind zone of a property, or null when the location isn't known to be in Florida
+ */
+export function getWindZone(zip: string | null | undefined, city: string | null | undefined): WindZone | null {
+  const zip5 = zip?.trim().match(/^(\d{5})(-\d{4})?$/)?.[1];
+
+  if (zip5 && FLORIDA_ZIP.test(zip5)) {
+    const county = getCountyForZip(zip5);
+    return WIND_ZONES[(county && ZONE_COUNTIES[county]) || 'standard'];
+  }
+
+  const county = getCountyForCity(city);
+  if (county) {
+    return WIND_ZONES[ZONE_COUNTIES[county] ?? 'standard'];
+  }
+
+  return null;
+}
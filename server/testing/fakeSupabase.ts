@@ -0,0 +1,253 @@
+/**
+ * In-memory Supabase stand-in for server unit tests
+ *
+ * Supports the subset of the query builder the services use:
+ * select/insert/update/upsert/delete, eq/neq/in/gt/gte/lt/lte/is/ilike filters,
+ * order, limit, single and maybeSingle.
+ *
+ * Usage:
+ *   vi.mock('../services/supabaseClient', async () =>
+ *     (await import('../testing/fakeSupabase')).fakeSupabaseModule());
+ */
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+  data: any;
+  error: { message: string } | null;
+  count?: number | null;
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private op: 'select' | 'insert' | 'update' | 'upsert' | 'delete' | null = null;
+  private payload: Row[] = [];
+  private values: Row = {};
+  private conflictKeys: string[] = ['id'];
+  private filters: Filter[] = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private limitCount: number | null = null;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private countOnly = false;
+
+  constructor(private store: FakeSupabase, private table: string) {}
+
+  select(_columns?: string, options?: { count?: string; head?: boolean }) {
+    if (!this.op) this.op = 'select';
+    if (options?.head) this.countOnly = true;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.op = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options?: { onConflict?: string }) {
+    this.op = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    if (options?.onConflict) this.conflictKeys = options.onConflict.split(',').map(k => k.trim());
+    return this;
+  }
+
+  update(values: Row) {
+    this.op = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.op = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gt(column: string, value: any) {
+    this.filters.push(row => row[column] > value);
+    return this;
+  }
+
+  gte(column: string, value: any) {
+    this.filters.push(row => row[column] >= value);
+    return this;
+  }
+
+  lt(column: string, value: any) {
+    this.filters.push(row => row[column] < value);
+    return this;
+  }
+
+  lte(column: string, value: any) {
+    this.filters.push(row => row[column] <= value);
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  ilike(column: string, pattern: string) {
+    const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+    const regex = new RegExp(`^${escaped}$`, 'i');
+    this.filters.push(row => typeof row[column] === 'string' && regex.test(row[column]));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.ordering.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.limitCount = count;
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private execute(): QueryResult {
+    if (this.store.failing.has(this.table)) {
+      return { data: null, error: { message: `Simulated failure on ${this.table}` } };
+    }
+
+    const rows = this.store.table(this.table);
+    let result: Row[] = [];
+
+    switch (this.op) {
+      case 'insert':
+        result = this.payload.map(row => {
+          const inserted = this.store.withDefaults(this.table, row);
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      case 'upsert':
+        result = this.payload.map(row => {
+          const existing = rows.find(r => this.conflictKeys.every(k => r[k] === row[k]));
+          if (existing) {
+            Object.assign(existing, row);
+            return existing;
+          }
+          const inserted = this.store.withDefaults(this.table, row);
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      case 'update':
+        result = rows.filter(row => this.matches(row));
+        result.forEach(row => Object.assign(row, this.values));
+        break;
+      case 'delete':
+        result = rows.filter(row => this.matches(row));
+        this.store.tables[this.table] = rows.filter(row => !this.matches(row));
+        break;
+      default:
+        result = rows.filter(row => this.matches(row));
+    }
+
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      result = [...result].sort((a, b) => {
+        if (a[column] === b[column]) return 0;
+        const cmp = a[column] > b[column] ? 1 : -1;
+        return ascending ? cmp : -cmp;
+      });
+    }
+
+    if (this.limitCount !== null) {
+      result = result.slice(0, this.limitCount);
+    }
+
+    if (this.countOnly) {
+      return { data: null, error: null, count: result.length };
+    }
+
+    const copies = result.map(row => ({ ...row }));
+
+    if (this.singleMode) {
+      if (copies.length === 0) {
+        return this.singleMode === 'single'
+          ? { data: null, error: { message: 'No rows found' } }
+          : { data: null, error: null };
+      }
+      return { data: copies[0], error: null };
+    }
+
+    return { data: copies, error: null, count: copies.length };
+  }
+}
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  failing = new Set<string>();
+  private sequence = 0;
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  table(name: string): Row[] {
+    if (!this.tables[name]) this.tables[name] = [];
+    return this.tables[name];
+  }
+
+  seed(name: string, rows: Row[]) {
+    rows.forEach(row => this.table(name).push(this.withDefaults(name, row)));
+  }
+
+  withDefaults(name: string, row: Row): Row {
+    this.sequence += 1;
+    return {
+      id: `${name}-${this.sequence}`,
+      created_at: new Date(Date.now() + this.sequence).toISOString(),
+      ...row,
+    };
+  }
+
+  reset() {
+    this.tables = {};
+    this.failing.clear();
+    this.sequence = 0;
+  }
+}
+
+/**
+ * Module shape matching services/supabaseClient for vi.mock
+ */
+export function fakeSupabaseModule() {
+  return { supabase: new FakeSupabase() };
+}
@@ -0,0 +1,135 @@
+/**
+ * Local stand-in for the Forge storage and speech-to-text endpoints
+ *
+ * A real HTTP server on 127.0.0.1 that implements just enough of the API for
+ * storagePut / storageGet and transcribeAudio to run unmodified:
+ *   POST /v1/storage/upload?path=...     (multipart "file")
+ *   GET  /v1/storage/downloadUrl?path=...
+ *   GET  /files/<path>                    (the stored bytes)
+ *   POST /v1/audio/transcriptions        (multipart "file", Whisper verbose_json)
+ *
+ * "Transcription" returns the uploaded audio's bytes as text, so a test
+ * recording can simply contain the words it should be heard as.
+ *
+ * Usage:
+ *   const forge = await startForgeStandIn();  // points ENV.forgeApiUrl/Key at it
+ *   ...
+ *   await forge.stop();                       // restores ENV
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ENV } from '../_core/env';
+
+export interface StoredFile {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface TranscriptionRequest {
+  model: string | null;
+  prompt: string | null;
+  fileName: string | null;
+  contentType: string;
+}
+
+export interface ForgeStandIn {
+  url: string;
+  files: Map<string, StoredFile>;
+  transcriptions: TranscriptionRequest[];
+  failTranscription: (status: number | null) => void;
+  stop: () => Promise<void>;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function readForm(req: http.IncomingMessage): Promise<FormData> {
+  const body = await readBody(req);
+  return new Response(new Uint8Array(body), { headers: { 'content-type': req.headers['content-type'] ?? '' } }).formData();
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function startForgeStandIn(apiKey = 'test-forge-key'): Promise<ForgeStandIn> {
+  const files = new Map<string, StoredFile>();
+  const transcriptions: TranscriptionRequest[] = [];
+  let transcriptionFailure: number | null = null;
+  let baseUrl = '';
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', baseUrl);
+    const authorized = req.headers.authorization === `Bearer ${apiKey}`;
+
+    if (url.pathname.startsWith('/files/')) {
+      const file = files.get(decodeURIComponent(url.pathname.slice('/files/'.length)));
+      if (!file) return sendJson(res, 404, { error: 'not found' });
+      res.writeHead(200, { 'content-type': file.contentType });
+      return res.end(file.data);
+    }
+
+    if (!authorized) {
+      return sendJson(res, 401, { error: 'unauthorized' });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/v1/storage/upload') {
+      const path = url.searchParams.get('path') ?? '';
+      const file = (await readForm(req)).get('file') as Blob | null;
+      if (!path || !file) return sendJson(res, 400, { error: 'path and file are required' });
+      files.set(path, { data: Buffer.from(await file.arrayBuffer()), contentType: file.type });
+      return sendJson(res, 200, { url: `${baseUrl}/files/${encodeURIComponent(path)}` });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/v1/storage/downloadUrl') {
+      const path = url.searchParams.get('path') ?? '';
+      return sendJson(res, 200, { url: `${baseUrl}/files/${encodeURIComponent(path)}` });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/v1/audio/transcriptions') {
+      const form = await readForm(req);
+      const file = form.get('file') as File | null;
+      transcriptions.push({
+        model: form.get('model') as string | null,
+        prompt: form.get('prompt') as string | null,
+        fileName: file?.name ?? null,
+        contentType: file?.type ?? '',
+      });
+
+      if (transcriptionFailure !== null) {
+        return sendJson(res, transcriptionFailure, { error: 'transcription failed' });
+      }
+
+      const text = file ? Buffer.from(await file.arrayBuffer()).toString('utf8') : '';
+      return sendJson(res, 200, { task: 'transcribe', language: 'english', duration: 2.5, text, segments: [] });
+    }
+
+    return sendJson(res, 404, { error: 'not found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const previous = { forgeApiUrl: ENV.forgeApiUrl, forgeApiKey: ENV.forgeApiKey };
+  ENV.forgeApiUrl = baseUrl;
+  ENV.forgeApiKey = apiKey;
+
+  return {
+    url: baseUrl,
+    files,
+    transcriptions,
+    failTranscription: status => {
+      transcriptionFailure = status;
+    },
+    stop: async () => {
+      Object.assign(ENV, previous);
+      server.closeAllConnections(); // fetch keeps sockets alive
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Golden-set regression tests: replay recorded model output through merge and scoring
+ */
+
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import {
+  compareSignal,
+  evaluateGoldenSet,
+  formatGoldenReport,
+  loadGoldenFixtures,
+  recordFixture,
+  saveGoldenFixture,
+} from './goldenSet';
+
+const GOLDEN_DIR = path.resolve(__dirname, 'golden');
+const REPO_ROOT = path.resolve(__dirname, '../..');
+
+// Floors for the recorded set; raise them as the extractor improves
+const MIN_PRECISION = 0.9;
+const MIN_RECALL = 0.9;
+
+describe('compareSignal', () => {
+  it('counts booleans with true as the positive class', () => {
+    expect(compareSignal(true, true)).toMatchObject({ truePositives: 1 });
+    expect(compareSignal(true, false)).toMatchObject({ falseNegatives: 1 });
+    expect(compareSignal(false, true)).toMatchObject({ falsePositives: 1 });
+    expect(compareSignal(false, false)).toMatchObject({ trueNegatives: 1 });
+  });
+
+  it('treats a wrong number as both a false positive and a false negative', () => {
+    expect(compareSignal(40800, 40800)).toMatchObject({ truePositives: 1 });
+    expect(compareSignal(31500, 31050)).toMatchObject({ truePositives: 0, falsePositives: 1, falseNegatives: 1 });
+    expect(compareSignal(50, null)).toMatchObject({ falsePositives: 0, falseNegatives: 1 });
+    expect(compareSignal(null, 50)).toMatchObject({ falsePositives: 1 });
+  });
+
+  it('compares lists per item, ignoring case', () => {
+    expect(compareSignal(['Balance due before inspection', 'No refunds'], ['balance due before inspection', 'Price may change']))
+      .toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+    expect(compareSignal([], [])).toMatchObject({ trueNegatives: 1 });
+  });
+});
+
+describe('golden set', () => {
+  const fixtures = loadGoldenFixtures(GOLDEN_DIR);
+
+  it('has a recorded response for every document', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+    for (const fixture of fixtures) {
+      expect(fixture.recorded.responses, fixture.name).toHaveLength(fixture.documents.length);
+    }
+  });
+
+  it('replays recorded extractions within precision, recall and score drift limits', () => {
+    const report = evaluateGoldenSet(fixtures);
+    console.log(formatGoldenReport(report));
+
+    expect(report.precision).toBeGreaterThanOrEqual(MIN_PRECISION);
+    expect(report.recall).toBeGreaterThanOrEqual(MIN_RECALL);
+    for (const fixture of report.fixtures) {
+      expect(fixture.withinTolerance, `${fixture.name} drift ${JSON.stringify(fixture.scoreDrift)}`).toBe(true);
+    }
+  });
+
+  it('reports the known misses of the current recordings', () => {
+    const report = evaluateGoldenSet(fixtures);
+    const byName = Object.fromEntries(report.fixtures.map(fixture => [fixture.name, fixture]));
+
+    expect(byName['multi-page-line-items'].mismatches).toEqual([
+      'totalPriceValue: expected 31500, got 31050',
+    ]);
+    expect(report.signals.hasGlassBuildDetail.falseNegatives).toBe(1);
+    expect(report.signals.contractTrapsList.falseNegatives).toBe(1);
+  });
+
+  // GOLDEN_RECORD=1 re-records fixtures that have document files (pnpm golden:record)
+  it.runIf(process.env.GOLDEN_RECORD === '1')('re-records fixtures against the live model', async () => {
+    for (const fixture of fixtures) {
+      const recorded = await recordFixture(fixture, REPO_ROOT);
+      if (recorded) {
+        saveGoldenFixture(GOLDEN_DIR, recorded);
+      }
+    }
+  }, 300_000);
+});
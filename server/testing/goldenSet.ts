@@ -0,0 +1,327 @@
+/**
+ * Golden-set regression harness for the extractor and scorer
+ *
+ * A golden fixture is one quote: its documents (optional, needed only to
+ * re-record), the recorded model output for each document, and the expected
+ * (human-checked) signals and scores. Replaying runs the recorded outputs
+ * through the same parse → merge → score path as a live scan, then reports
+ * per-signal precision/recall and score drift against the expectations.
+ *
+ * Fixtures live in server/testing/golden/*.json (see README.md there).
+ * Re-record against the live model with `pnpm golden:record`.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ExtractionSignals, SignalName } from '../services/scannerEngine';
+import { extractSignals, parseExtractionResponse } from '../services/quoteAnalysisService';
+import { getDocumentPageCount, mergeDocumentSignals } from '../services/signalMerge';
+import { scoreWithRubric, type ScoredAnalysis } from '../services/scoringRubrics';
+import { STUB_MODEL } from '../services/stubExtractions';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const SCORE_KEYS = [
+  'overallScore',
+  'safetyScore',
+  'scopeScore',
+  'priceScore',
+  'finePrintScore',
+  'warrantyScore',
+] as const;
+
+export type ScoreKey = typeof SCORE_KEYS[number];
+
+// Signals a fixture is labeled with (bookkeeping fields are not compared)
+export type LabeledSignals = Partial<Pick<ExtractionSignals, SignalName>>;
+
+export interface GoldenDocument {
+  mimeType: string;
+  path?: string; // Relative to the repository root; required to re-record
+}
+
+export interface GoldenFixture {
+  name: string;
+  description: string;
+  documents: GoldenDocument[];
+  openingCountHint: number | null;
+  recorded: {
+    model: string;
+    recordedAt: string;
+    responses: string[]; // Raw model output per document, in order
+  };
+  expected: {
+    signals: LabeledSignals;
+    scores: Record<ScoreKey, number>;
+    scoreTolerance?: number; // Allowed overall score drift, in points
+  };
+}
+
+export interface SignalStats {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface FixtureResult {
+  name: string;
+  mismatches: string[];
+  scoreDrift: Record<ScoreKey, number>;
+  maxAbsoluteDrift: number;
+  withinTolerance: boolean;
+}
+
+export interface GoldenReport {
+  fixtures: FixtureResult[];
+  signals: Record<string, SignalStats>;
+  precision: number;
+  recall: number;
+  meanAbsoluteDrift: number;
+}
+
+type Counts = Pick<SignalStats, 'truePositives' | 'falsePositives' | 'falseNegatives' | 'trueNegatives'>;
+
+// Default allowed overall score drift, in points
+export const DEFAULT_SCORE_TOLERANCE = 5;
+
+// Relative tolerance for numeric signals (prices are read off scans)
+const NUMERIC_TOLERANCE = 0.01;
+
+// ============================================
+// LOADING
+// ============================================
+
+export function loadGoldenFixtures(dir: string): GoldenFixture[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as GoldenFixture);
+}
+
+export function saveGoldenFixture(dir: string, fixture: GoldenFixture): void {
+  fs.writeFileSync(path.join(dir, `${fixture.name}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+/**
+ * Run a fixture's recorded model output through parse → merge → score
+ */
+export function replayFixture(fixture: GoldenFixture): { signals: ExtractionSignals; analysis: ScoredAnalysis } {
+  if (fixture.recorded.responses.length !== fixture.documents.length) {
+    throw new Error(`${fixture.name}: ${fixture.documents.length} document(s) but ${fixture.recorded.responses.length} recorded response(s)`);
+  }
+
+  const documents = fixture.recorded.responses.map((content, index) => {
+    const signals = parseExtractionResponse({
+      id: `golden-${fixture.name}-${index}`,
+      created: 0,
+      model: fixture.recorded.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    });
+    return { signals, pageCount: getDocumentPageCount(signals, fixture.documents[index].mimeType) };
+  });
+
+  const { signals } = mergeDocumentSignals(documents);
+  return { signals, analysis: scoreWithRubric(signals, fixture.openingCountHint) };
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+function emptyCounts(): Counts {
+  return { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+}
+
+function numbersMatch(expected: number, actual: number): boolean {
+  return Math.abs(expected - actual) <= Math.abs(expected) * NUMERIC_TOLERANCE;
+}
+
+/**
+ * Confusion counts for one labeled signal
+ * - booleans: true is the positive class
+ * - numbers: a present value is positive; a wrong value is both a false positive and a false negative
+ * - lists: per item (case-insensitive)
+ */
+export function compareSignal(expected: unknown, actual: unknown): Counts {
+  const counts = emptyCounts();
+
+  if (typeof expected === 'boolean') {
+    const got = actual === true;
+    if (expected && got) counts.truePositives = 1;
+    else if (expected) counts.falseNegatives = 1;
+    else if (got) counts.falsePositives = 1;
+    else counts.trueNegatives = 1;
+    return counts;
+  }
+
+  if (Array.isArray(expected)) {
+    const want = new Set(expected.map(item => String(item).toLowerCase()));
+    const got = new Set((Array.isArray(actual) ? actual : []).map(item => String(item).toLowerCase()));
+    want.forEach(item => (got.has(item) ? counts.truePositives++ : counts.falseNegatives++));
+    got.forEach(item => { if (!want.has(item)) counts.falsePositives++; });
+    if (want.size === 0 && got.size === 0) counts.trueNegatives = 1;
+    return counts;
+  }
+
+  if (typeof expected === 'number') {
+    if (typeof actual === 'number' && numbersMatch(expected, actual)) {
+      counts.truePositives = 1;
+    } else {
+      counts.falseNegatives = 1;
+      if (typeof actual === 'number') counts.falsePositives = 1;
+    }
+    return counts;
+  }
+
+  // Expected null/empty: any value is a false positive
+  if (actual === null || actual === undefined || actual === '') counts.trueNegatives = 1;
+  else counts.falsePositives = 1;
+  return counts;
+}
+
+function withRates(counts: Counts): SignalStats {
+  const claimed = counts.truePositives + counts.falsePositives;
+  const relevant = counts.truePositives + counts.falseNegatives;
+  return {
+    ...counts,
+    precision: claimed === 0 ? 1 : counts.truePositives / claimed,
+    recall: relevant === 0 ? 1 : counts.truePositives / relevant,
+  };
+}
+
+/**
+ * Replay every fixture and compare against its expectations
+ */
+export function evaluateGoldenSet(fixtures: GoldenFixture[]): GoldenReport {
+  const signalCounts: Record<string, Counts> = {};
+  const total = emptyCounts();
+  const results: FixtureResult[] = [];
+  let driftSum = 0;
+  let driftCount = 0;
+
+  for (const fixture of fixtures) {
+    const { signals, analysis } = replayFixture(fixture);
+    const mismatches: string[] = [];
+
+    for (const [name, expected] of Object.entries(fixture.expected.signals)) {
+      // validityReason is free text; only isValidQuote is scored
+      if (name === 'validityReason') continue;
+
+      const actual = signals[name as keyof ExtractionSignals];
+      const counts = compareSignal(expected, actual);
+      const bucket = signalCounts[name] ??= emptyCounts();
+
+      for (const key of Object.keys(counts) as Array<keyof Counts>) {
+        bucket[key] += counts[key];
+        total[key] += counts[key];
+      }
+      if (counts.falsePositives > 0 || counts.falseNegatives > 0) {
+        mismatches.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual ?? null)}`);
+      }
+    }
+
+    const scoreDrift = {} as Record<ScoreKey, number>;
+    for (const key of SCORE_KEYS) {
+      scoreDrift[key] = analysis[key] - fixture.expected.scores[key];
+      driftSum += Math.abs(scoreDrift[key]);
+      driftCount += 1;
+    }
+    const maxAbsoluteDrift = Math.max(...SCORE_KEYS.map(key => Math.abs(scoreDrift[key])));
+
+    results.push({
+      name: fixture.name,
+      mismatches,
+      scoreDrift,
+      maxAbsoluteDrift,
+      withinTolerance: Math.abs(scoreDrift.overallScore) <= (fixture.expected.scoreTolerance ?? DEFAULT_SCORE_TOLERANCE),
+    });
+  }
+
+  const signals: Record<string, SignalStats> = {};
+  for (const name of Object.keys(signalCounts).sort()) {
+    signals[name] = withRates(signalCounts[name]);
+  }
+  const overall = withRates(total);
+
+  return {
+    fixtures: results,
+    signals,
+    precision: overall.precision,
+    recall: overall.recall,
+    meanAbsoluteDrift: driftCount === 0 ? 0 : driftSum / driftCount,
+  };
+}
+
+/**
+ * Plain-text report for the test log
+ */
+export function formatGoldenReport(report: GoldenReport): string {
+  const percent = (n: number) => `${(n * 100).toFixed(0)}%`.padStart(5);
+  const lines = [
+    `Golden set: ${report.fixtures.length} fixture(s), precision ${percent(report.precision)}, recall ${percent(report.recall)}, mean |drift| ${report.meanAbsoluteDrift.toFixed(1)}`,
+    '',
+    'Signal                       P      R   (tp/fp/fn)',
+  ];
+
+  for (const [name, stats] of Object.entries(report.signals)) {
+    if (stats.precision === 1 && stats.recall === 1) continue;
+    lines.push(`${name.padEnd(26)} ${percent(stats.precision)}  ${percent(stats.recall)}   (${stats.truePositives}/${stats.falsePositives}/${stats.falseNegatives})`);
+  }
+
+  lines.push('', 'Fixture drift (overall / max):');
+  for (const fixture of report.fixtures) {
+    const flag = fixture.withinTolerance ? '' : '  ← over tolerance';
+    lines.push(`  ${fixture.name}: ${fixture.scoreDrift.overallScore >= 0 ? '+' : ''}${fixture.scoreDrift.overallScore} / ${fixture.maxAbsoluteDrift}${flag}`);
+    fixture.mismatches.forEach(mismatch => lines.push(`    - ${mismatch}`));
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================
+// RE-RECORDING
+// ============================================
+
+/**
+ * Re-run a fixture's documents through the live extractor and store the output
+ * Returns null (unchanged) when the fixture has no document files.
+ */
+export async function recordFixture(fixture: GoldenFixture, repoRoot: string): Promise<GoldenFixture | null> {
+  if (fixture.documents.some(doc => !doc.path)) {
+    return null;
+  }
+
+  const responses: string[] = [];
+  let model = fixture.recorded.model;
+
+  for (let index = 0; index < fixture.documents.length; index++) {
+    const doc = fixture.documents[index];
+    const data = fs.readFileSync(path.resolve(repoRoot, doc.path!)).toString('base64');
+    const result = await extractSignals(
+      `data:${doc.mimeType};base64,${data}`,
+      doc.mimeType,
+      fixture.openingCountHint,
+      null,
+      { index, total: fixture.documents.length }
+    );
+    if (result.modelVersion === STUB_MODEL) {
+      throw new Error('Re-recording needs a live provider; only the local stub is configured');
+    }
+    responses.push(JSON.stringify(result.signals));
+    model = result.modelVersion;
+  }
+
+  return {
+    ...fixture,
+    recorded: { model, recordedAt: new Date().toISOString(), responses },
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Local stand-in for the Meta Conversions API
+ *
+ * A real HTTP server on 127.0.0.1 that accepts what deliverConversionEvent
+ * sends:
+ *   POST /<pixel id>/events   ({ data, access_token, test_event_code? })
+ *
+ * Accepted requests are recorded; failWith() makes the next requests fail
+ * with a status (e.g. 503 to exercise retries, 400 for a rejected event).
+ *
+ * Usage:
+ *   const meta = await startMetaCapiStandIn();  // points ENV.metaCapi* at it
+ *   ...
+ *   await meta.stop();                          // restores ENV
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ENV } from '../_core/env';
+import type { MetaServerEvent } from '../services/metaConversions';
+
+export interface MetaCapiRequest {
+  pixelId: string;
+  accessToken: string | null;
+  testEventCode: string | null;
+  data: MetaServerEvent[];
+}
+
+export interface MetaCapiStandIn {
+  url: string;
+  requests: MetaCapiRequest[];
+  // Fail the next `times` requests with `status`
+  failWith: (status: number, times?: number) => void;
+  stop: () => Promise<void>;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function startMetaCapiStandIn(pixelId = '1234567890', accessToken = 'test-capi-token'): Promise<MetaCapiStandIn> {
+  const requests: MetaCapiRequest[] = [];
+  let failure: { status: number; remaining: number } | null = null;
+
+  const server = http.createServer(async (req, res) => {
+    const match = /^\/([^/]+)\/events$/.exec(req.url ?? '');
+    if (req.method !== 'POST' || !match) {
+      return sendJson(res, 404, { error: { message: 'Unknown path' } });
+    }
+
+    const body = JSON.parse((await readBody(req)).toString('utf8') || '{}');
+
+    if (failure && failure.remaining > 0) {
+      failure.remaining -= 1;
+      return sendJson(res, failure.status, { error: { message: 'Stand-in failure', code: failure.status } });
+    }
+
+    if (match[1] !== pixelId || body.access_token !== accessToken) {
+      return sendJson(res, 400, { error: { message: 'Invalid OAuth access token', code: 190 } });
+    }
+
+    requests.push({
+      pixelId: match[1],
+      accessToken: body.access_token ?? null,
+      testEventCode: body.test_event_code ?? null,
+      data: body.data ?? [],
+    });
+
+    return sendJson(res, 200, { events_received: body.data?.length ?? 0, messages: [], fbtrace_id: `trace-${requests.length}` });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const previous = { metaCapiUrl: ENV.metaCapiUrl, metaPixelId: ENV.metaPixelId, metaCapiAccessToken: ENV.metaCapiAccessToken };
+  ENV.metaCapiUrl = baseUrl;
+  ENV.metaPixelId = pixelId;
+  ENV.metaCapiAccessToken = accessToken;
+
+  return {
+    url: baseUrl,
+    requests,
+    failWith: (status, times = 1) => {
+      failure = { status, remaining: times };
+    },
+    stop: async () => {
+      Object.assign(ENV, previous);
+      server.closeAllConnections(); // fetch keeps sockets alive
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Shared fixtures for quote analysis tests
+ */
+
+import type { ExtractionSignals } from '../services/scannerEngine';
+
+export const createSignals = (overrides: Partial<ExtractionSignals> = {}): ExtractionSignals => ({
+  isValidQuote: true,
+  validityReason: '',
+  totalPriceFound: true,
+  totalPriceValue: 15000,
+  openingCountEstimate: 10,
+  hasComplianceKeyword: true,
+  hasComplianceIdentifier: true,
+  hasLaminatedMention: true,
+  hasGlassBuildDetail: false,
+  hasTemperedOnlyRisk: false,
+  hasNonImpactLanguage: false,
+  hasPermitMention: true,
+  hasDemoInstallDetail: true,
+  hasSpecificMaterials: false,
+  hasWallRepairMention: false,
+  hasFinishDetail: false,
+  hasCleanupMention: true,
+  hasBrandClarity: true,
+  hasSubjectToChange: false,
+  hasRepairsExcluded: false,
+  depositPercentage: 50,
+  hasFinalPaymentTrap: false,
+  hasSafePaymentTerms: false,
+  hasContractTraps: false,
+  contractTrapsList: [],
+  hasWarrantyMention: true,
+  hasLaborWarranty: true,
+  warrantyDurationYears: 2,
+  hasLifetimeWarranty: false,
+  hasTransferableWarranty: false,
+  hasPremiumIndicators: false,
+  ...overrides,
+});
+
+export const llmResponse = (content: string) => ({
+  id: 'resp_1',
+  created: 0,
+  model: 'gemini-2.5-flash',
+  choices: [{ index: 0, message: { role: 'assistant' as const, content }, finish_reason: 'stop' }],
+});